@@ -0,0 +1,243 @@
+#!/usr/bin/env node
+/**
+ * topobin command-line tool
+ *
+ * Reads a file, or stdin when the input is omitted or "-", and writes to the
+ * -o file or stdout, so commands can be chained in pipelines. Invalid input
+ * exits with status 1 and bad usage with status 2.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  encode,
+  decode,
+  validate,
+  inspect,
+  getMemoryStats,
+  compareMemoryUsage,
+  VERSION
+} from '../lib/index.js';
+
+const USAGE = `Usage: topobin <command> [input] [options]
+
+Commands:
+  encode    TopoJSON to topobin
+  decode    topobin to TopoJSON
+  inspect   Print the header, sections and objects of a topobin file
+  stats     Print memory statistics of a topobin file
+
+Options:
+  -o, --output <file>        Write to a file instead of stdout
+  -h, --help                 Show this help
+  -v, --version              Show the format version
+
+encode:
+  --quantization <n>         Quantize unquantized input with n grid steps per axis
+  --coordinate-type <type>   auto, int16, int32, float32 or float64
+  --arc-encoding <encoding>  fixed or varint
+  --no-arc-index             Leave out the varint arc byte index
+  --checksums                Append a CRC32 checksum trailer
+  --spatial-index            Add a spatial index of arcs and geometries
+  --presimplify              Store simplification weights
+
+decode:
+  --verify-checksums         Also check the checksum trailer, if there is one
+
+inspect, stats:
+  --json                     Print JSON instead of text`;
+
+const OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+  quantization: { type: 'string' },
+  'coordinate-type': { type: 'string' },
+  'arc-encoding': { type: 'string' },
+  'no-arc-index': { type: 'boolean' },
+  checksums: { type: 'boolean' },
+  'spatial-index': { type: 'boolean' },
+  presimplify: { type: 'boolean' },
+  'verify-checksums': { type: 'boolean' },
+  json: { type: 'boolean' }
+};
+
+const COMMANDS = { encode: runEncode, decode: runDecode, inspect: runInspect, stats: runStats };
+
+/** Bad command-line usage, reported with the help text */
+class UsageError extends Error {}
+
+function main(argv) {
+  let args;
+  try {
+    args = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new UsageError(error.message);
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (values.version) {
+    process.stdout.write(`topobin format version ${VERSION}\n`);
+    return;
+  }
+
+  const [command, input, ...rest] = positionals;
+  if (!command) {
+    throw new UsageError('Missing command');
+  }
+  if (!COMMANDS[command]) {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  if (rest.length) {
+    throw new UsageError(`Unexpected argument: ${rest[0]}`);
+  }
+  COMMANDS[command](readInput(input), values);
+}
+
+function runEncode(bytes, values) {
+  const options = {};
+  if (values.quantization !== undefined) {
+    const quantization = Number(values.quantization);
+    if (!Number.isInteger(quantization) || quantization < 2) {
+      throw new UsageError(`Invalid quantization: ${values.quantization}`);
+    }
+    options.quantization = quantization;
+  }
+  if (values['coordinate-type'] !== undefined) options.coordinateType = values['coordinate-type'];
+  if (values['arc-encoding'] !== undefined) options.arcEncoding = values['arc-encoding'];
+  if (values['no-arc-index']) options.arcIndex = false;
+  if (values.checksums) options.checksums = true;
+  if (values['spatial-index']) options.spatialIndex = true;
+  if (values.presimplify) options.presimplify = true;
+
+  let topology;
+  try {
+    topology = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    throw new Error(`Input is not valid JSON: ${error.message}`);
+  }
+  if (!topology || topology.type !== 'Topology') {
+    throw new Error('Input is not a TopoJSON topology');
+  }
+  writeOutput(new Uint8Array(encode(topology, options)), values.output);
+}
+
+function runDecode(bytes, values) {
+  const topology = decode(bytes, { strict: true, verifyChecksums: values['verify-checksums'] });
+  writeOutput(JSON.stringify(topology), values.output);
+}
+
+function runInspect(bytes, values) {
+  const info = inspect(checkedBuffer(bytes));
+  if (values.json) {
+    writeOutput(`${JSON.stringify(info, null, 2)}\n`, values.output);
+    return;
+  }
+
+  const { arcs, transform, bbox } = info;
+  const lines = [
+    `version      ${info.version}`,
+    `flags        0x${info.flags.toString(16).padStart(4, '0')}${info.features.length ? ` (${info.features.join(', ')})` : ''}`,
+    `coordinates  ${info.coordinateType}, ${info.dimensions} dimensions`,
+    `arcs         ${arcs.count} (${arcs.totalPoints} points)`,
+    `arc points   min ${arcs.minPoints}, max ${arcs.maxPoints}, mean ${arcs.meanPoints.toFixed(1)}, median ${arcs.medianPoints}`,
+    `objects      ${info.objects.length}`
+  ];
+  if (transform) {
+    lines.push(`transform    scale ${transform.scale.join(', ')}; translate ${transform.translate.join(', ')}`);
+  }
+  if (bbox) {
+    lines.push(`bbox         ${bbox.join(', ')}`);
+  }
+
+  lines.push('', 'Sections:', table(
+    ['name', 'offset', 'length', 'padding'],
+    info.sections.map(s => [s.name, s.offset, s.length, s.padding])
+  ));
+  lines.push('', 'Objects:', table(['name', 'type', 'geometries'], info.objects.map(o => [o.name, o.type, o.geometries])));
+  writeOutput(`${lines.join('\n')}\n`, values.output);
+}
+
+function runStats(bytes, values) {
+  const buffer = checkedBuffer(bytes);
+  const stats = getMemoryStats(buffer);
+  const comparison = compareMemoryUsage(decode(buffer), buffer);
+
+  if (values.json) {
+    writeOutput(`${JSON.stringify({ ...stats, ...comparison }, null, 2)}\n`, values.output);
+    return;
+  }
+
+  const percent = value => `${value.toFixed(1)}%`;
+  const lines = [
+    table(['section', 'bytes'], [
+      ['header', stats.headerBytes],
+      ['arcs', stats.arcBytes],
+      ['objects', stats.objectBytes],
+      ['checksums', stats.checksumBytes],
+      ['total', stats.totalBytes]
+    ]),
+    '',
+    table(['', 'JSON', 'topobin', 'savings'], [
+      ['serialized', comparison.jsonBytes, comparison.binaryBytes, percent(comparison.savingsPercent)],
+      ['in memory', comparison.inMemoryJsonBytes, comparison.inMemoryBinaryBytes, percent(comparison.inMemorySavingsPercent)]
+    ])
+  ];
+  writeOutput(`${lines.join('\n')}\n`, values.output);
+}
+
+/**
+ * Validates a topobin buffer, throwing with every issue found
+ */
+function checkedBuffer(bytes) {
+  const buffer = toArrayBuffer(bytes);
+  const issues = validate(buffer);
+  if (issues.length) {
+    throw new Error(`Invalid topobin buffer:\n${issues.map(i => `  ${i.message} (offset ${i.offset})`).join('\n')}`);
+  }
+  return buffer;
+}
+
+/**
+ * Formats rows as left-aligned text columns (numbers right-aligned)
+ */
+function table(headings, rows) {
+  const all = [headings, ...rows].map(row => row.map(String));
+  const widths = headings.map((_, i) => Math.max(...all.map(row => row[i].length)));
+  return all.map(row => '  ' + row.map((cell, i) => {
+    const numeric = i > 0 && rows.length && typeof rows[0][i] === 'number';
+    return numeric ? cell.padStart(widths[i]) : cell.padEnd(widths[i]);
+  }).join('  ').trimEnd()).join('\n');
+}
+
+function readInput(input) {
+  return readFileSync(input === undefined || input === '-' ? 0 : input);
+}
+
+function writeOutput(data, output) {
+  if (output !== undefined && output !== '-') {
+    writeFileSync(output, data);
+  } else {
+    process.stdout.write(data);
+  }
+}
+
+// Copies a Node Buffer, which may be a slice of a larger pool, into its own ArrayBuffer
+function toArrayBuffer(bytes) {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof UsageError) {
+    process.stderr.write(`topobin: ${error.message}\n\n${USAGE}\n`);
+    process.exitCode = 2;
+  } else {
+    process.stderr.write(`topobin: ${error.message}\n`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Arcs as flat typed arrays, the form the encoder writes from
+ *
+ * encode() flattens a topology's arcs into an ArcTable, while fromGeoJSON()
+ * builds one directly, so large inputs never exist as arrays of positions.
+ * Values are stored as in TopoJSON: delta-encoded x/y for quantized arcs.
+ */
+
+import type { Arc } from './types.js';
+import { MAX_DIMENSIONS } from './constants.js';
+
+export interface ArcTable {
+  /** Values of every arc point, `dimensions` per point, padded with NaN */
+  coords: Float64Array;
+  /** Index of each arc's first point, then the total point count */
+  offsets: Uint32Array;
+  /** Values per point */
+  dimensions: number;
+}
+
+/**
+ * Copies arcs into a table with at least minDimensions values per point
+ * (more if any arc position is longer)
+ */
+export function flattenArcs(arcs: Arc[], minDimensions = 2): ArcTable {
+  let dimensions = minDimensions;
+  let totalPoints = 0;
+  for (const arc of arcs) {
+    for (const point of arc) {
+      if (point.length > dimensions) dimensions = point.length;
+    }
+    totalPoints += arc.length;
+  }
+  if (dimensions > MAX_DIMENSIONS) {
+    throw new Error(`Arc positions have ${dimensions} values, but at most ${MAX_DIMENSIONS} are supported`);
+  }
+
+  const coords = new Float64Array(totalPoints * dimensions);
+  const offsets = new Uint32Array(arcs.length + 1);
+  let idx = 0;
+  arcs.forEach((arc, i) => {
+    offsets[i] = idx / dimensions;
+    for (const point of arc) {
+      for (let d = 0; d < dimensions; d++) {
+        coords[idx++] = d < point.length ? point[d] : NaN;
+      }
+    }
+  });
+  offsets[arcs.length] = totalPoints;
+  return { coords, offsets, dimensions };
+}
+
+/**
+ * Copies a table with more values per point, padding them with NaN
+ */
+export function widenArcTable(table: ArcTable, dimensions: number): ArcTable {
+  const numPoints = table.offsets[table.offsets.length - 1];
+  const coords = new Float64Array(numPoints * dimensions).fill(NaN);
+  for (let p = 0; p < numPoints; p++) {
+    coords.set(table.coords.subarray(p * table.dimensions, (p + 1) * table.dimensions), p * dimensions);
+  }
+  return { coords, offsets: table.offsets, dimensions };
+}
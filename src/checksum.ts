@@ -0,0 +1,186 @@
+/**
+ * CRC32 checksum trailer
+ *
+ * Buffers written with the checksums option end with a trailer, found by
+ * reading backwards from the end of the buffer:
+ *   numSections x (u32 sectionId, u32 offset, u32 length, u32 crc32)
+ *   u32 numSections
+ *   u32 crc32 of every byte before this field (the whole-file checksum)
+ */
+
+import type { ValidationIssue } from './types.js';
+import {
+  SECTION_HEADER,
+  SECTION_STRINGS,
+  SECTION_ARCS,
+  SECTION_OBJECTS,
+  SECTION_PROPERTIES,
+  SECTION_SPATIAL_INDEX,
+  SECTION_WEIGHTS,
+  SECTION_POINTS
+} from './constants.js';
+import { TopobinFormatError } from './errors.js';
+
+/** A byte range of the buffer covered by the trailer */
+export interface ChecksumSection {
+  id: number;
+  offset: number;
+  length: number;
+}
+
+interface ChecksumTrailer {
+  /** Byte offset of the trailer */
+  start: number;
+  sections: (ChecksumSection & { crc: number })[];
+  fileCrc: number;
+}
+
+const SECTION_NAMES: Record<number, string> = {
+  [SECTION_HEADER]: 'header',
+  [SECTION_STRINGS]: 'string table',
+  [SECTION_ARCS]: 'arcs',
+  [SECTION_OBJECTS]: 'objects',
+  [SECTION_PROPERTIES]: 'properties',
+  [SECTION_SPATIAL_INDEX]: 'spatial index',
+  [SECTION_WEIGHTS]: 'simplification weights',
+  [SECTION_POINTS]: 'points'
+};
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Computes the CRC32 (IEEE 802.3) checksum of some bytes, continuing from
+ * the checksum of the bytes before them, if given
+ */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+
+  let crc = previous ^ 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Size in bytes of a trailer covering numSections sections
+ */
+export function checksumTrailerSize(numSections: number): number {
+  return numSections * 16 + 8;
+}
+
+/**
+ * Writes the trailer at an offset, which must leave exactly
+ * checksumTrailerSize() bytes before the end of the buffer
+ */
+export function writeChecksumTrailer(buffer: ArrayBuffer, offset: number, sections: ChecksumSection[]): void {
+  const trailer = encodeChecksumTrailer(
+    sections.map(section => ({ ...section, crc: crc32(new Uint8Array(buffer, section.offset, section.length)) })),
+    crc32(new Uint8Array(buffer, 0, offset))
+  );
+  new Uint8Array(buffer, offset, trailer.byteLength).set(trailer);
+}
+
+/**
+ * Builds the trailer for sections whose checksums are already known, given
+ * the checksum of every byte before the trailer
+ */
+export function encodeChecksumTrailer(sections: (ChecksumSection & { crc: number })[], crc: number): Uint8Array {
+  const view = new DataView(new ArrayBuffer(checksumTrailerSize(sections.length)));
+  let offset = 0;
+  for (const section of sections) {
+    view.setUint32(offset, section.id, false);
+    view.setUint32(offset + 4, section.offset, false);
+    view.setUint32(offset + 8, section.length, false);
+    view.setUint32(offset + 12, section.crc, false);
+    offset += 16;
+  }
+  view.setUint32(offset, sections.length, false);
+  view.setUint32(offset + 4, crc32(new Uint8Array(view.buffer, 0, offset + 4), crc), false);
+  return new Uint8Array(view.buffer);
+}
+
+/**
+ * Reads the trailer of a buffer that has one, checking that it and every
+ * section it lists lie within the buffer
+ */
+export function readChecksumTrailer(buffer: ArrayBuffer): ChecksumTrailer {
+  const view = new DataView(buffer);
+  const size = buffer.byteLength;
+  if (size < 8) {
+    throw new TopobinFormatError('Checksum trailer overruns the buffer', 'section-overrun', 0);
+  }
+
+  const numSections = view.getUint32(size - 8, false);
+  const start = size - checksumTrailerSize(numSections);
+  if (start < 0) {
+    throw new TopobinFormatError(
+      `Checksum trailer with ${numSections} sections overruns the ${size}-byte buffer`,
+      'section-overrun',
+      size - 8
+    );
+  }
+
+  const sections: ChecksumTrailer['sections'] = [];
+  for (let i = 0, entry = start; i < numSections; i++, entry += 16) {
+    const section = {
+      id: view.getUint32(entry, false),
+      offset: view.getUint32(entry + 4, false),
+      length: view.getUint32(entry + 8, false),
+      crc: view.getUint32(entry + 12, false)
+    };
+    if (section.offset + section.length > start) {
+      throw new TopobinFormatError(
+        `Checksummed section ${section.id} (${section.length} bytes at offset ${section.offset}) overruns the data`,
+        'section-overrun',
+        entry
+      );
+    }
+    sections.push(section);
+  }
+
+  return { start, sections, fileCrc: view.getUint32(size - 4, false) };
+}
+
+/**
+ * Checks every checksum in a buffer's trailer, reporting each section that
+ * does not match (and the whole file, if it does not match either)
+ */
+export function verifyChecksums(buffer: ArrayBuffer): ValidationIssue[] {
+  let trailer: ChecksumTrailer;
+  try {
+    trailer = readChecksumTrailer(buffer);
+  } catch (error) {
+    const { message, code, offset } = error as TopobinFormatError;
+    return [{ code, message, offset }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const section of trailer.sections) {
+    if (crc32(new Uint8Array(buffer, section.offset, section.length)) !== section.crc) {
+      const name = SECTION_NAMES[section.id] || `section ${section.id}`;
+      issues.push({
+        code: 'checksum-mismatch',
+        message: `Checksum mismatch in the ${name} section`,
+        offset: section.offset
+      });
+    }
+  }
+  if (crc32(new Uint8Array(buffer, 0, buffer.byteLength - 4)) !== trailer.fileCrc) {
+    issues.push({
+      code: 'checksum-mismatch',
+      message: 'Checksum mismatch for the whole file',
+      offset: 0
+    });
+  }
+  return issues;
+}
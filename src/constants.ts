@@ -2,18 +2,136 @@
  * Shared constants for the binary TopoJSON format
  */
 
+import type { GeometryType, CoordinateType } from './types.js';
+
 /** Magic number identifying TopoJSON binary format: "TOPO" in ASCII */
 export const MAGIC = 0x544F504F;
 
 /** Current binary format version */
-export const VERSION = 1;
+export const VERSION = 3;
 
 /** Minimum supported version for backward compatibility */
 export const MIN_SUPPORTED_VERSION = 1;
 
 /** Maximum supported version (current version) */
-export const MAX_SUPPORTED_VERSION = 1;
+export const MAX_SUPPORTED_VERSION = 3;
+
+/**
+ * First version with a section directory. Later versions are only needed for
+ * changes that readers cannot skip; new sections get a directory entry.
+ */
+export const DIRECTORY_VERSION = 3;
+
+/** Version of streamed buffers, which record their layout in a trailer instead */
+export const STREAMED_VERSION = 2;
 
 /** Flag bits */
 export const FLAG_HAS_TRANSFORM = 1 << 0;
 export const FLAG_HAS_BBOX = 1 << 1;
+export const FLAG_HAS_PROPERTIES = 1 << 2;
+
+/**
+ * Arc coordinate type code, held in flag bits 3-5.
+ * Code 0 means the version 1 default: Int32 if quantized, Float64 otherwise.
+ */
+export const COORDINATE_TYPE_SHIFT = 3;
+export const COORDINATE_TYPE_MASK = 0x7 << COORDINATE_TYPE_SHIFT;
+export const COORDINATE_TYPE_CODES: readonly (CoordinateType | null)[] = [
+  null,
+  'int16',
+  'int32',
+  'float32',
+  'float64'
+];
+
+/** Arc data is stored as zigzag varints, optionally with a per-arc byte offset index */
+export const FLAG_VARINT_ARCS = 1 << 6;
+export const FLAG_ARC_BYTE_INDEX = 1 << 7;
+
+/** A CRC32 checksum trailer ends the buffer */
+export const FLAG_HAS_CHECKSUMS = 1 << 8;
+
+/** A spatial index section follows the properties section */
+export const FLAG_HAS_SPATIAL_INDEX = 1 << 9;
+
+/** Per-point simplification weights (Float64, 8-byte aligned) follow the arc data */
+export const FLAG_HAS_WEIGHTS = 1 << 10;
+
+/** A points section (Point and MultiPoint coordinates) precedes the objects section */
+export const FLAG_HAS_POINTS = 1 << 11;
+
+/**
+ * Number of values per position, minus two, held in flag bits 12-13.
+ * Code 0 means plain x/y positions, as in version 1.
+ */
+export const DIMENSIONS_SHIFT = 12;
+export const DIMENSIONS_MASK = 0x3 << DIMENSIONS_SHIFT;
+export const MAX_DIMENSIONS = 5;
+
+/**
+ * Sections are in the order TopobinWriter produces them, with the final flags,
+ * counts and section offsets in a trailer at the end (see header.ts)
+ */
+export const FLAG_STREAMED = 1 << 14;
+
+/** Flag bits understood by this library; buffers using any other bit are rejected */
+export const KNOWN_FLAGS =
+  FLAG_HAS_TRANSFORM |
+  FLAG_HAS_BBOX |
+  FLAG_HAS_PROPERTIES |
+  COORDINATE_TYPE_MASK |
+  FLAG_VARINT_ARCS |
+  FLAG_ARC_BYTE_INDEX |
+  FLAG_HAS_CHECKSUMS |
+  FLAG_HAS_SPATIAL_INDEX |
+  FLAG_HAS_WEIGHTS |
+  FLAG_HAS_POINTS |
+  DIMENSIONS_MASK |
+  FLAG_STREAMED;
+
+/** Identifies the trailer of a streamed buffer: "TEND" in ASCII */
+export const STREAM_TRAILER_MAGIC = 0x54454E44;
+
+/** Section ids, as recorded in the section directory and the checksum trailer */
+export const SECTION_HEADER = 1;
+export const SECTION_STRINGS = 2;
+export const SECTION_ARCS = 3;
+export const SECTION_OBJECTS = 4;
+export const SECTION_PROPERTIES = 5;
+export const SECTION_SPATIAL_INDEX = 6;
+export const SECTION_WEIGHTS = 7;
+export const SECTION_POINTS = 8;
+export const SECTION_CHECKSUMS = 9;
+
+/** Section directory entry flag: readers that do not know the section must reject the buffer */
+export const SECTION_REQUIRED = 1 << 0;
+
+/** Marks a missing string table reference (e.g. a geometry without an id) */
+export const NO_STRING = 0xFFFFFFFF;
+
+/** Geometry type codes stored in the low bits of each geometry's type byte */
+export const GEOMETRY_TYPES: readonly GeometryType[] = [
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+  null
+];
+export const GEOMETRY_TYPE_MASK = 0x0F;
+
+/** Geometry type byte bits describing how the geometry id is stored */
+export const GEOMETRY_ID_STRING = 1 << 4;
+export const GEOMETRY_ID_NUMBER = 1 << 5;
+
+/** Objects section flag bits */
+export const OBJECTS_FLAG_INT16_ARC_REFS = 1 << 0;
+
+/** Property column value types */
+export const PROPERTY_FLOAT64 = 0;
+export const PROPERTY_INT32 = 1;
+export const PROPERTY_BOOLEAN = 2;
+export const PROPERTY_STRING = 3;
+export const PROPERTY_JSON = 4;
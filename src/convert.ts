@@ -0,0 +1,841 @@
+/**
+ * Conversion between format versions
+ *
+ * Buffers are rewritten section by section rather than decoded: the arcs,
+ * simplification weights, points, properties and spatial index are copied as
+ * they are, and only the objects section is re-encoded when crossing version
+ * 1, which stored the objects as JSON (with their properties and point
+ * coordinates). Version 3 adds the section directory, and keeps sections of
+ * types this library does not know; older versions cannot hold those.
+ * Version 1 only holds x/y arcs, as Int32 if quantized and Float64 otherwise,
+ * so other arcs are rewritten on the way, and it cannot hold a spatial index,
+ * weights, values beyond x/y or checksums either. Streamed buffers are
+ * rewritten with the regular layout, and checksums are recomputed if the
+ * input had them.
+ *
+ * The conversion is a generator yielding the input bytes it needs and the
+ * output bytes it writes, so the same code converts a buffer in memory and
+ * streams a file: the small sections are read first, then the output is
+ * written in order, with the arcs and the other bulk sections copied straight
+ * through from the input.
+ */
+
+import type { BinaryInput, ConvertOptions, ConvertReport, CoordinateType, Geometry, TopobinSink } from './types.js';
+import {
+  MAGIC,
+  MIN_SUPPORTED_VERSION,
+  MAX_SUPPORTED_VERSION,
+  DIRECTORY_VERSION,
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_CHECKSUMS,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED,
+  SECTION_HEADER,
+  SECTION_STRINGS,
+  SECTION_ARCS,
+  SECTION_OBJECTS,
+  SECTION_PROPERTIES,
+  SECTION_SPATIAL_INDEX,
+  SECTION_WEIGHTS,
+  SECTION_POINTS,
+  SECTION_CHECKSUMS,
+  SECTION_REQUIRED
+} from './constants.js';
+import {
+  DirectoryEntry,
+  Header,
+  HEADER_SIZE,
+  DIRECTORY_ENTRY_SIZE,
+  STREAM_TRAILER_SIZE,
+  isKnownSection,
+  parseStreamTrailer,
+  readHeader,
+  sectionDirectorySize,
+  writeSectionDirectory
+} from './header.js';
+import { StringTableBuilder, encodeObjects, objectsSectionSize, writeObjectsSection } from './encoder.js';
+import { parseStringTable, readObjects } from './decoder.js';
+import { concat, objectColumnsSize } from './reader.js';
+import { encodeProperties, propertiesDirectorySize, propertiesSectionSize } from './properties.js';
+import { encodePoints, pointsSectionSize, readPointsSection } from './points.js';
+import { BYTES_PER_COORDINATE, createCoordinateArray } from './coordinates.js';
+import { ChecksumSection, checksumTrailerSize, crc32, encodeChecksumTrailer } from './checksum.js';
+import { TopobinFormatError } from './errors.js';
+import { toBufferRange } from './input.js';
+
+/** Bytes copied at a time from the input to the output */
+const CHUNK_SIZE = 1 << 16;
+
+/** Bytes copied out of the input, in a buffer of their own */
+type Bytes = Uint8Array<ArrayBuffer>;
+
+const EMPTY: Bytes = new Uint8Array(0);
+
+/** A byte range of the input */
+interface Range {
+  offset: number;
+  length: number;
+}
+
+/**
+ * What the conversion needs next: input bytes at an offset, the last bytes of
+ * the input, room for the output (once its size is known), or output bytes to
+ * write after the previous ones
+ */
+type Step = { read: number; length: number } | { tail: number } | { size: number } | { write: Uint8Array };
+
+type Conversion = Generator<Step, ConvertReport, Bytes>;
+
+/**
+ * Arc values of the input, read from the ranges that hold them (fixed values
+ * of whole points, or varints) and written as x/y only in another type
+ */
+interface ArcRewrite {
+  ranges: Range[];
+  varint: boolean;
+  from: CoordinateType;
+  stride: number;
+  to: CoordinateType;
+}
+
+/**
+ * Output bytes, a range of the input copied as it is, or rewritten arc values,
+ * at an offset of the output
+ */
+type Piece = { offset: number } & ({ bytes: Uint8Array } | { range: Range } | { rewrite: ArcRewrite });
+
+/** The sections that describe the objects, which change across version 1 */
+interface ObjectSections {
+  numObjects: number;
+  strings: Uint8Array;
+  objects: Uint8Array;
+  points?: Uint8Array;
+  properties?: Uint8Array;
+}
+
+/**
+ * Rewrites a buffer in another format version (see convertWithReport())
+ */
+export function convert(input: BinaryInput, targetVersion: number, options: ConvertOptions = {}): ArrayBuffer {
+  return convertWithReport(input, targetVersion, options).buffer;
+}
+
+/**
+ * Rewrites a buffer in another format version, also reporting what the
+ * target version could not hold. Throws if anything would be lost, unless
+ * the allowLoss option is set.
+ */
+export function convertWithReport(
+  input: BinaryInput,
+  targetVersion: number,
+  options: ConvertOptions = {}
+): { buffer: ArrayBuffer; report: ConvertReport } {
+  const { buffer, byteOffset, byteLength } = toBufferRange(input);
+  const bytes = new Uint8Array(buffer, byteOffset, byteLength);
+  const conversion = convertSections(targetVersion, options, { byteLength });
+  let output = new Uint8Array(0);
+  let position = 0;
+
+  let next = conversion.next(EMPTY);
+  while (!next.done) {
+    const step = next.value;
+    let result = EMPTY;
+    if ('read' in step) {
+      if (step.read + step.length > byteLength) {
+        throw overrun(step.read, step.length, byteLength);
+      }
+      result = bytes.slice(step.read, step.read + step.length);
+    } else if ('tail' in step) {
+      result = bytes.slice(Math.max(byteLength - step.tail, 0));
+    } else if ('size' in step) {
+      output = new Uint8Array(step.size);
+    } else {
+      output.set(step.write, position);
+      position += step.write.byteLength;
+    }
+    next = conversion.next(result);
+  }
+  return { buffer: output.buffer, report: next.value };
+}
+
+/**
+ * Converts a buffer read from a stream, writing the result to a sink. The
+ * source is opened again for each pass over it: one to read the small
+ * sections and one to write the output (plus one to find the trailer of a
+ * streamed buffer), so only the small sections are held in memory.
+ */
+export async function convertStream(
+  open: () => ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  targetVersion: number,
+  sink: TopobinSink,
+  options: ConvertOptions = {}
+): Promise<ConvertReport> {
+  let send: (chunk: Uint8Array) => void | Promise<void>;
+  let finish: (() => Promise<void>) | undefined;
+  if (typeof sink === 'function') {
+    send = sink;
+  } else {
+    const writer = sink.getWriter();
+    send = chunk => writer.write(chunk);
+    finish = () => writer.close();
+  }
+
+  // Output is collected into chunks, as by TopobinWriter; the sink may keep each one
+  let chunk = new Uint8Array(CHUNK_SIZE);
+  let chunkLength = 0;
+  const flush = async () => {
+    if (chunkLength === 0) return;
+    const full = chunk.subarray(0, chunkLength);
+    chunk = new Uint8Array(CHUNK_SIZE);
+    chunkLength = 0;
+    await send(full);
+  };
+
+  const source = new StreamSource(open);
+  const input = { byteLength: 0 };
+  const conversion = convertSections(targetVersion, options, input);
+  try {
+    let next = conversion.next(EMPTY);
+    while (!next.done) {
+      const step = next.value;
+      let result = EMPTY;
+      if ('read' in step) {
+        result = await source.read(step.read, step.length);
+      } else if ('tail' in step) {
+        result = await source.tail(step.tail);
+        input.byteLength = source.byteLength;
+      } else if ('write' in step) {
+        for (let start = 0; start < step.write.byteLength;) {
+          const length = Math.min(step.write.byteLength - start, CHUNK_SIZE - chunkLength);
+          chunk.set(step.write.subarray(start, start + length), chunkLength);
+          chunkLength += length;
+          start += length;
+          if (chunkLength === CHUNK_SIZE) {
+            await flush();
+          }
+        }
+      }
+      next = conversion.next(result);
+    }
+    await flush();
+    await finish?.();
+    return next.value;
+  } finally {
+    await source.close();
+  }
+}
+
+/**
+ * Reads the input's sections, then writes them in the target version
+ */
+function* convertSections(targetVersion: number, options: ConvertOptions, input: { byteLength: number }): Conversion {
+  if (!Number.isInteger(targetVersion) || targetVersion < MIN_SUPPORTED_VERSION || targetVersion > MAX_SUPPORTED_VERSION) {
+    throw new Error(
+      `Unsupported target version ${targetVersion}. ` +
+      `This library writes versions ${MIN_SUPPORTED_VERSION}-${MAX_SUPPORTED_VERSION}.`
+    );
+  }
+
+  // Header, with the transform and bbox, then the section directory or the stream trailer
+  const fixed = yield { read: 0, length: HEADER_SIZE };
+  const fixedView = new DataView(fixed.buffer);
+  if (fixedView.getUint32(0, false) !== MAGIC) {
+    throw new TopobinFormatError('Invalid TopoJSON binary format: bad magic number', 'bad-magic', 0);
+  }
+  const version = fixedView.getUint16(4, false);
+  const headerFlags = fixedView.getUint16(6, false);
+  const extent = yield {
+    read: HEADER_SIZE,
+    length: (headerFlags & FLAG_HAS_TRANSFORM ? 32 : 0) + (headerFlags & FLAG_HAS_BBOX ? 32 : 0)
+  };
+  const parts = [fixed, extent];
+  let header: Header;
+  if (headerFlags & FLAG_STREAMED && version < DIRECTORY_VERSION) {
+    // Read the header as if the trailer's flags and counts had been written up front
+    const tail = yield { tail: STREAM_TRAILER_SIZE };
+    const trailer = parseStreamTrailer(headerFlags, new DataView(tail.buffer), input.byteLength - STREAM_TRAILER_SIZE);
+    const counts = [trailer.numArcs, trailer.totalArcPoints, trailer.numObjects, trailer.stringTableSize];
+    const unstreamed = concat(parts);
+    const view = new DataView(unstreamed.buffer);
+    view.setUint16(6, trailer.flags & ~FLAG_STREAMED, false);
+    counts.forEach((count, i) => view.setUint32(8 + i * 4, count, false));
+    header = { ...readHeader(unstreamed.buffer, 0, undefined, false), layout: trailer.layout };
+  } else {
+    if (version >= DIRECTORY_VERSION && version <= MAX_SUPPORTED_VERSION) {
+      const start = HEADER_SIZE + extent.byteLength;
+      const count = yield { read: start, length: 4 };
+      parts.push(count, yield {
+        read: start + 4,
+        length: new DataView(count.buffer).getUint32(0, false) * DIRECTORY_ENTRY_SIZE
+      });
+    }
+    header = readHeader(concat(parts).buffer, 0, undefined, false);
+  }
+  const { numArcs, totalArcPoints, numObjects, stringTableSize, dimensions, stride, layout } = header;
+  let flags = header.flags;
+
+  // The string table comes before the arcs, except in streamed buffers
+  const stringsStart = layout ? layout.strings : header.end;
+  const arcOffsetsStart = layout ? layout.arcOffsets : align(stringsStart + stringTableSize, 4);
+  let strings = stringsStart < arcOffsetsStart ? yield { read: stringsStart, length: stringTableSize } : undefined;
+  // Streamed arc offsets follow the arc frames, so they are read after them
+  const streamed = layout?.trailer !== undefined;
+  let arcOffsets = streamed ? undefined : yield { read: arcOffsetsStart, length: (numArcs + 1) * 4 };
+
+  // The arc byte index, arc data and extra values are copied as they are
+  const arcParts: { alignment: number; range: Range }[] = [];
+  let offset = layout ? layout.arcData : arcOffsetsStart + (numArcs + 1) * 4;
+  const addArcPart = (alignment: number, length: number) => {
+    offset = align(offset, alignment);
+    arcParts.push({ alignment, range: { offset, length } });
+    offset += length;
+  };
+  if (flags & FLAG_VARINT_ARCS) {
+    if (flags & FLAG_ARC_BYTE_INDEX) addArcPart(4, (numArcs + 1) * 4);
+    const size = yield { read: offset, length: 4 };
+    addArcPart(4, 4 + new DataView(size.buffer).getUint32(0, false));
+  } else if (streamed) {
+    // Each frame's coordinates are copied back to back, as one flat run
+    const bytesPerCoord = BYTES_PER_COORDINATE[header.coordinateType];
+    for (;;) {
+      const count = new DataView((yield { read: offset, length: 4 }).buffer).getUint32(0, false);
+      if (count === 0) break;
+      const counts = new DataView((yield { read: offset + 4, length: count * 4 }).buffer);
+      let points = 0;
+      for (let i = 0; i < count; i++) points += counts.getUint32(i * 4, false);
+      const data = align(offset + 4 + count * 4, 8);
+      arcParts.push({ alignment: bytesPerCoord, range: { offset: data, length: points * stride * bytesPerCoord } });
+      offset = align(data + points * stride * bytesPerCoord, 8);
+    }
+  } else {
+    const bytesPerCoord = BYTES_PER_COORDINATE[header.coordinateType];
+    addArcPart(bytesPerCoord, totalArcPoints * stride * bytesPerCoord);
+  }
+  // The ranges holding the arc values, for version 1 outputs that rewrite them
+  const varint = (flags & FLAG_VARINT_ARCS) !== 0;
+  const arcValues = arcParts.slice(varint ? -1 : 0).map(({ range }) =>
+    varint ? { offset: range.offset + 4, length: range.length - 4 } : range
+  );
+  if (dimensions > stride) {
+    addArcPart(8, totalArcPoints * (dimensions - stride) * 8);
+  }
+  if (!arcOffsets) {
+    arcOffsets = yield { read: arcOffsetsStart, length: (numArcs + 1) * 4 };
+  }
+
+  let weights: Range | undefined;
+  if (flags & FLAG_HAS_WEIGHTS) {
+    weights = { offset: layout?.weights ?? align(offset, 8), length: totalArcPoints * 8 };
+    offset = weights.offset + weights.length;
+  }
+
+  let points: Bytes | undefined;
+  if (flags & FLAG_HAS_POINTS) {
+    const start = layout ? layout.points : align(offset, 8);
+    const head = yield { read: start, length: 24 };
+    points = concat([head, yield { read: start + 24, length: pointsSectionSize(head.buffer, 0) - 24 }]);
+    offset = start + points.byteLength;
+  }
+  if (!strings) {
+    strings = yield { read: stringsStart, length: stringTableSize };
+  }
+
+  // Version 1 objects are a size-prefixed JSON blob
+  const objectsStart = layout ? layout.objects : align(offset, 4);
+  let objects: Bytes;
+  if (version === 1) {
+    const size = yield { read: objectsStart, length: 4 };
+    objects = concat([size, yield { read: objectsStart + 4, length: new DataView(size.buffer).getUint32(0, false) }]);
+  } else {
+    const head = yield { read: objectsStart, length: 20 };
+    const columns = yield { read: objectsStart + 20, length: objectColumnsSize(head) };
+    const extrasStart = objectsStart + 20 + columns.byteLength;
+    const extrasSize = yield { read: extrasStart, length: 4 };
+    const extras = yield {
+      read: extrasStart + 4,
+      length: align(new DataView(extrasSize.buffer).getUint32(0, false), 4)
+    };
+    objects = concat([head, columns, extrasSize, extras]);
+  }
+  offset = objectsStart + objects.byteLength;
+
+  let properties: Bytes | undefined;
+  if (version > 1 && flags & FLAG_HAS_PROPERTIES) {
+    const start = layout?.properties ?? align(offset, 8);
+    const counts = yield { read: start, length: 8 };
+    const directory = concat([counts, yield { read: start + 8, length: propertiesDirectorySize(counts.buffer, 0) - 8 }]);
+    properties = concat([directory, yield {
+      read: start + directory.byteLength,
+      length: propertiesSectionSize(directory.buffer, 0) - directory.byteLength
+    }]);
+    offset = start + properties.byteLength;
+  }
+
+  let spatialIndex: Range | undefined;
+  if (version > 1 && flags & FLAG_HAS_SPATIAL_INDEX) {
+    const start = layout?.spatialIndex ?? align(offset, 8);
+    const size = yield { read: start, length: 4 };
+    spatialIndex = { offset: start, length: new DataView(size.buffer).getUint32(0, false) };
+  }
+
+  // Sections this library does not know, each with the known section it follows
+  const unknown: { entry: DirectoryEntry; after: number }[] = [];
+  let after = 0;
+  for (const entry of header.directory || []) {
+    if (!isKnownSection(entry.type)) {
+      unknown.push({ entry, after });
+    } else if (entry.type !== SECTION_CHECKSUMS) {
+      after = entry.type;
+    }
+  }
+
+  // Anything the target version cannot hold
+  const lost: string[] = [];
+  if (targetVersion < DIRECTORY_VERSION) {
+    lost.push(...unknown.splice(0).map(({ entry }) => `section ${entry.type}`));
+  }
+  if (targetVersion === 1 && spatialIndex) {
+    lost.push('spatial index');
+    spatialIndex = undefined;
+  }
+  if (targetVersion === 1 && weights) {
+    lost.push('simplification weights');
+    weights = undefined;
+  }
+  if (targetVersion === 1 && dimensions > 2) {
+    lost.push('values beyond x/y');
+  }
+  if (lost.length && !options.allowLoss) {
+    throw new Error(
+      `Converting to version ${targetVersion} would lose: ${lost.join(', ')}. ` +
+      `Set the allowLoss option to convert anyway.`
+    );
+  }
+
+  // Version 1 arcs hold x/y only, as Int32 if quantized and Float64 otherwise, and
+  // the objects section is the end of a version 1 buffer (without checksums)
+  let rewrite: ArcRewrite | undefined;
+  if (targetVersion === 1) {
+    const to = header.transform ? 'int32' : 'float64';
+    if (varint || header.coordinateType !== to || stride > 2) {
+      rewrite = { ranges: arcValues, varint, from: header.coordinateType, stride, to };
+    } else {
+      arcParts.splice(arcValues.length);
+    }
+    flags &= FLAG_HAS_TRANSFORM | FLAG_HAS_BBOX;
+  }
+
+  // Objects are only re-encoded across version 1
+  let sections: ObjectSections = { numObjects, strings, objects, points, properties };
+  if (version === 1 && targetVersion > 1) {
+    sections = fromJsonObjects(objects, !!header.transform, dimensions);
+  } else if (version > 1 && targetVersion === 1) {
+    sections = toJsonObjects(sections, dimensions > 2);
+  }
+  flags &= ~(FLAG_HAS_PROPERTIES | FLAG_HAS_POINTS | FLAG_HAS_SPATIAL_INDEX);
+  if (sections.properties) flags |= FLAG_HAS_PROPERTIES;
+  if (sections.points) flags |= FLAG_HAS_POINTS;
+  if (spatialIndex) flags |= FLAG_HAS_SPATIAL_INDEX;
+
+  // Lay out the output, listing each section in the directory as it is placed
+  const pieces: Piece[] = [];
+  const directory: DirectoryEntry[] = [];
+  let end = 0;
+  const place = (content: Uint8Array | Range, alignment: number): number => {
+    const start = align(end, alignment);
+    if (content instanceof Uint8Array) {
+      pieces.push({ offset: start, bytes: content });
+      end = start + content.byteLength;
+    } else {
+      pieces.push({ offset: start, range: content });
+      end = start + content.length;
+    }
+    return start;
+  };
+  const placeUnknown = (type: number) => {
+    for (const { entry } of unknown.filter(section => section.after === type)) {
+      // Keep the offset modulo 8, whatever alignment the section needs
+      const start = end + ((entry.offset - end) % 8 + 8) % 8;
+      pieces.push({ offset: start, range: entry });
+      directory.push({ ...entry, offset: start });
+      end = start + entry.length;
+    }
+  };
+  const add = (type: number, content: Uint8Array | Range, alignment: number, required = false): DirectoryEntry => {
+    const start = place(content, alignment);
+    const entry = { type, flags: required ? SECTION_REQUIRED : 0, offset: start, length: end - start };
+    directory.push(entry);
+    placeUnknown(type);
+    return entry;
+  };
+
+  const head = concat(parts.slice(0, 2));
+  place(head, 1);
+  const hasChecksums = (flags & FLAG_HAS_CHECKSUMS) !== 0;
+  let directoryBytes: Uint8Array | undefined;
+  if (targetVersion >= DIRECTORY_VERSION) {
+    const optional = [weights, sections.points, sections.properties, spatialIndex, hasChecksums].filter(Boolean);
+    directoryBytes = new Uint8Array(sectionDirectorySize(3 + optional.length + unknown.length));
+    place(directoryBytes, 1);
+    placeUnknown(0);
+  }
+  const stringsEntry = add(SECTION_STRINGS, sections.strings, 1, true);
+
+  const arcOffsetsOut = place(arcOffsets, 4);
+  if (rewrite) {
+    const bytesPerCoord = BYTES_PER_COORDINATE[rewrite.to];
+    const start = align(end, bytesPerCoord);
+    pieces.push({ offset: start, rewrite });
+    end = start + totalArcPoints * 2 * bytesPerCoord;
+  } else {
+    for (const { alignment, range } of arcParts) {
+      place(range, alignment);
+    }
+  }
+  const arcsEntry = { type: SECTION_ARCS, flags: SECTION_REQUIRED, offset: arcOffsetsOut, length: end - arcOffsetsOut };
+  directory.push(arcsEntry);
+  placeUnknown(SECTION_ARCS);
+
+  const weightsEntry = weights && add(SECTION_WEIGHTS, weights, 8);
+  const pointsEntry = sections.points && add(SECTION_POINTS, sections.points, 8, true);
+  const objectsEntry = add(SECTION_OBJECTS, sections.objects, 4, true);
+  const propertiesEntry = sections.properties && add(SECTION_PROPERTIES, sections.properties, 8, true);
+  const spatialIndexEntry = spatialIndex && add(SECTION_SPATIAL_INDEX, spatialIndex, 8);
+
+  // Checksums cover the same ranges as in encode()
+  const checksums: ChecksumSection[] = [];
+  let trailerStart = end;
+  if (hasChecksums) {
+    const covered = (entry: DirectoryEntry, length = entry.length) => checksums.push({ id: entry.type, offset: entry.offset, length });
+    checksums.push({ id: SECTION_HEADER, offset: 0, length: stringsEntry.offset });
+    covered(stringsEntry, arcsEntry.offset - stringsEntry.offset);
+    covered(arcsEntry);
+    if (weightsEntry) covered(weightsEntry);
+    if (pointsEntry) covered(pointsEntry);
+    covered(objectsEntry, propertiesEntry ? propertiesEntry.offset - objectsEntry.offset : objectsEntry.length);
+    if (propertiesEntry) covered(propertiesEntry);
+    if (spatialIndexEntry) covered(spatialIndexEntry);
+    trailerStart = align(end, 4);
+    end = trailerStart + checksumTrailerSize(checksums.length);
+    directory.push({ type: SECTION_CHECKSUMS, flags: 0, offset: trailerStart, length: end - trailerStart });
+  }
+
+  const headView = new DataView(head.buffer);
+  headView.setUint16(4, targetVersion, false);
+  headView.setUint16(6, flags, false);
+  headView.setUint32(8, numArcs, false);
+  headView.setUint32(12, totalArcPoints, false);
+  headView.setUint32(16, sections.numObjects, false);
+  headView.setUint32(20, sections.strings.byteLength, false);
+  if (directoryBytes) {
+    writeSectionDirectory(new DataView(directoryBytes.buffer), 0, directory);
+  }
+
+  // Write the output in order, checksumming it on the way
+  const crcs = checksums.map(() => 0);
+  let fileCrc = 0;
+  let position = 0;
+  function* write(bytes: Uint8Array): Generator<Step, void, Bytes> {
+    if (hasChecksums) {
+      fileCrc = crc32(bytes, fileCrc);
+      checksums.forEach((section, i) => {
+        const start = Math.max(section.offset, position);
+        const stop = Math.min(section.offset + section.length, position + bytes.byteLength);
+        if (start < stop) crcs[i] = crc32(bytes.subarray(start - position, stop - position), crcs[i]);
+      });
+    }
+    position += bytes.byteLength;
+    yield { write: bytes };
+  }
+
+  yield { size: end };
+  for (const piece of pieces) {
+    if (piece.offset > position) yield* write(new Uint8Array(piece.offset - position));
+    if ('bytes' in piece) {
+      yield* write(piece.bytes);
+      continue;
+    }
+    if ('rewrite' in piece) {
+      yield* rewriteArcs(piece.rewrite, write);
+      continue;
+    }
+    const { offset: from, length } = piece.range;
+    for (let copied = 0; copied < length; copied += CHUNK_SIZE) {
+      yield* write(yield { read: from + copied, length: Math.min(CHUNK_SIZE, length - copied) });
+    }
+  }
+  if (hasChecksums) {
+    if (trailerStart > position) yield* write(new Uint8Array(trailerStart - position));
+    yield* write(encodeChecksumTrailer(checksums.map((section, i) => ({ ...section, crc: crcs[i] })), fileCrc));
+  }
+
+  return { fromVersion: version, toVersion: targetVersion, lost };
+}
+
+/**
+ * Reads arc values in chunks and writes their x/y values in the target type.
+ * Values that type cannot hold exactly (fractional values of a quantized
+ * topology stored as floats) throw.
+ */
+function* rewriteArcs(
+  arcs: ArcRewrite,
+  write: (bytes: Uint8Array) => Generator<Step, void, Bytes>
+): Generator<Step, void, Bytes> {
+  const { ranges, varint, from, stride, to } = arcs;
+  const capacity = CHUNK_SIZE / BYTES_PER_COORDINATE[to];
+  let out = createCoordinateArray(to, new ArrayBuffer(CHUNK_SIZE), 0, capacity);
+  let filled = 0;
+  function* add(value: number): Generator<Step, void, Bytes> {
+    out[filled] = value;
+    if (out[filled] !== value && !(Number.isNaN(value) && Number.isNaN(out[filled]))) {
+      throw new Error(
+        `Arc value ${value} does not fit in a version 1 ${to} arc; decode and re-encode this topology instead`
+      );
+    }
+    if (++filled === capacity) {
+      yield* write(new Uint8Array(out.buffer));
+      out = createCoordinateArray(to, new ArrayBuffer(CHUNK_SIZE), 0, capacity);
+      filled = 0;
+    }
+  }
+
+  // Varints carry over from one chunk to the next
+  let result = 0;
+  let shift = 0;
+  for (const range of ranges) {
+    const pointBytes = varint ? 1 : stride * BYTES_PER_COORDINATE[from];
+    const chunkLength = Math.max(Math.floor(CHUNK_SIZE / pointBytes), 1) * pointBytes;
+    for (let read = 0; read < range.length; read += chunkLength) {
+      const bytes = yield { read: range.offset + read, length: Math.min(chunkLength, range.length - read) };
+      if (varint) {
+        for (const byte of bytes) {
+          result |= (byte & 0x7F) << shift;
+          shift += 7;
+          if ((byte & 0x80) === 0 || shift === 35) {
+            yield* add((result >>> 1) ^ -(result & 1));
+            result = 0;
+            shift = 0;
+          }
+        }
+      } else {
+        const values = createCoordinateArray(from, bytes.buffer, 0, bytes.byteLength / BYTES_PER_COORDINATE[from]);
+        for (let i = 0; i < values.length; i += stride) {
+          yield* add(values[i]);
+          yield* add(values[i + 1]);
+        }
+      }
+    }
+  }
+  if (filled > 0) {
+    yield* write(new Uint8Array(out.buffer, 0, filled * BYTES_PER_COORDINATE[to]));
+  }
+}
+
+/**
+ * Re-encodes a version 1 objects section as the string table and the binary
+ * objects, properties and points sections, as encode() would write them
+ */
+function fromJsonObjects(section: Bytes, hasTransform: boolean, dimensions: number): ObjectSections {
+  const size = new DataView(section.buffer).getUint32(0, false);
+  const topologyObjects: Record<string, Geometry> = JSON.parse(new TextDecoder().decode(section.subarray(4, 4 + size))).objects;
+  const names = Object.keys(topologyObjects);
+
+  const strings = new StringTableBuilder();
+  for (const name of names) {
+    strings.add(name);
+  }
+  const encoded = encodeObjects(topologyObjects, names, strings);
+  const hasProperties = encoded.properties.some(props => props !== undefined);
+  const properties = hasProperties
+    ? encodeProperties(encoded.properties, value => strings.add(value))
+    : undefined;
+
+  // The arcs are copied as they are, so points cannot have more values than them
+  for (const positions of encoded.positions) {
+    for (const position of positions || []) {
+      if (position.length > dimensions) {
+        throw new Error(
+          `Point positions have ${position.length} values, but the arcs have ${dimensions}; ` +
+          `decode and re-encode this topology instead`
+        );
+      }
+    }
+  }
+  const points = encoded.positions.some(positions => positions !== undefined)
+    ? encodePoints(encoded.positions, hasTransform, dimensions)
+    : undefined;
+
+  const objects = new Uint8Array(objectsSectionSize(encoded));
+  writeObjectsSection(objects.buffer, 0, encoded);
+  return { numObjects: names.length, strings: strings.toBytes(), objects, points, properties };
+}
+
+/**
+ * Rebuilds the objects from the binary sections and writes them as a version
+ * 1 objects section, whose string table holds just the object names. Point
+ * positions keep only x/y when flatten is set, as the arcs do.
+ */
+function toJsonObjects(sections: ObjectSections, flatten: boolean): ObjectSections {
+  const strings = parseStringTable(sections.strings);
+  const names = strings.slice(0, sections.numObjects);
+
+  // The objects and properties sections, aligned as in a buffer
+  const propertiesStart = align(sections.objects.byteLength, 8);
+  const buffer = new Uint8Array(propertiesStart + (sections.properties?.byteLength ?? 0));
+  buffer.set(sections.objects);
+  if (sections.properties) buffer.set(sections.properties, propertiesStart);
+  const points = sections.points && readPointsSection(concat([sections.points]).buffer, 0);
+  const objects = readObjects(buffer.buffer, 0, names, strings, !!sections.properties, points, propertiesStart);
+  const flattenGeometry = (input: Geometry): Geometry => {
+    switch (input.type) {
+      case 'GeometryCollection':
+        return { ...input, geometries: input.geometries.map(flattenGeometry) };
+      case 'Point':
+        return { ...input, coordinates: input.coordinates.slice(0, 2) };
+      case 'MultiPoint':
+        return { ...input, coordinates: input.coordinates.map(position => position.slice(0, 2)) };
+      default:
+        return input;
+    }
+  };
+  if (flatten) {
+    for (const name of names) {
+      objects[name] = flattenGeometry(objects[name]);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const json = encoder.encode(JSON.stringify({ names, objects }));
+  const section = new Uint8Array(4 + json.byteLength);
+  new DataView(section.buffer).setUint32(0, json.byteLength, false);
+  section.set(json, 4);
+  return {
+    numObjects: names.length,
+    strings: encoder.encode(names.map(name => `${name}\0`).join('')),
+    objects: section
+  };
+}
+
+/**
+ * Reads byte ranges from a stream that can be opened again, starting over
+ * whenever a range lies before the current position
+ */
+class StreamSource {
+  private open: () => ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+  private chunks?: AsyncIterator<Uint8Array>;
+  /** Unread bytes of the current chunk */
+  private pending: Uint8Array = EMPTY;
+  /** Byte offset of the first pending byte */
+  private position = 0;
+  /** Length of the stream, once tail() has reached its end */
+  byteLength = 0;
+
+  constructor(open: () => ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>) {
+    this.open = open;
+  }
+
+  /**
+   * Reads length bytes at an offset, throwing a TopobinFormatError if the
+   * stream ends first
+   */
+  async read(offset: number, length: number): Promise<Bytes> {
+    if (!this.chunks || offset < this.position) {
+      await this.close();
+      this.chunks = iterate(this.open());
+      this.pending = EMPTY;
+      this.position = 0;
+    }
+    const bytes = new Uint8Array(length);
+    while (this.position < offset + length) {
+      if (this.pending.byteLength === 0 && !(await this.pull())) {
+        throw overrun(offset, length, this.position);
+      }
+      // Copy whatever part of the chunk is in the range, then move past it
+      const count = Math.min(this.pending.byteLength, offset + length - this.position);
+      const start = Math.max(offset - this.position, 0);
+      if (start < count) {
+        bytes.set(this.pending.subarray(start, count), this.position + start - offset);
+      }
+      this.pending = this.pending.subarray(count);
+      this.position += count;
+    }
+    return bytes;
+  }
+
+  /**
+   * Reads on to the end of the stream, returning its last length bytes
+   */
+  async tail(length: number): Promise<Bytes> {
+    if (!this.chunks) {
+      this.chunks = iterate(this.open());
+    }
+    let last: Bytes = EMPTY;
+    do {
+      const bytes = this.pending;
+      last = bytes.byteLength >= length ? bytes.slice(bytes.byteLength - length) : concat([last, bytes]).slice(-length);
+      this.position += bytes.byteLength;
+      this.pending = EMPTY;
+    } while (await this.pull());
+    this.byteLength = this.position;
+    return last;
+  }
+
+  /**
+   * Stops reading the current pass, if any
+   */
+  async close(): Promise<void> {
+    const chunks = this.chunks;
+    this.chunks = undefined;
+    await chunks?.return?.();
+  }
+
+  /**
+   * Moves on to the next chunk, returning false at the end of the stream
+   */
+  private async pull(): Promise<boolean> {
+    const next = await this.chunks!.next();
+    if (next.done) return false;
+    this.pending = next.value;
+    return true;
+  }
+}
+
+/**
+ * Iterates over the chunks of a stream, cancelling a ReadableStream that is
+ * left before its end
+ */
+async function* iterate(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    await reader.cancel();
+    reader.releaseLock();
+  }
+}
+
+function overrun(offset: number, length: number, byteLength: number): TopobinFormatError {
+  return new TopobinFormatError(
+    `Section (${length} bytes at offset ${offset}) overruns the ${byteLength}-byte buffer`,
+    'section-overrun',
+    offset
+  );
+}
+
+function align(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
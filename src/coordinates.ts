@@ -0,0 +1,161 @@
+/**
+ * Helpers for the arc and point coordinate storage types
+ */
+
+import type { Position, CoordinateType, CoordinateArray } from './types.js';
+import type { ArcTable } from './arc-table.js';
+import {
+  FLAG_HAS_TRANSFORM,
+  COORDINATE_TYPE_SHIFT,
+  COORDINATE_TYPE_MASK,
+  COORDINATE_TYPE_CODES,
+  DIMENSIONS_SHIFT,
+  DIMENSIONS_MASK,
+  MAX_DIMENSIONS
+} from './constants.js';
+
+export const BYTES_PER_COORDINATE: Record<CoordinateType, number> = {
+  int16: 2,
+  int32: 4,
+  float32: 4,
+  float64: 8
+};
+
+/**
+ * Gets the arc coordinate type from the header flags
+ */
+export function readCoordinateType(flags: number): CoordinateType {
+  const code = (flags & COORDINATE_TYPE_MASK) >> COORDINATE_TYPE_SHIFT;
+  if (code === 0) {
+    return flags & FLAG_HAS_TRANSFORM ? 'int32' : 'float64';
+  }
+  const type = COORDINATE_TYPE_CODES[code];
+  if (!type) {
+    throw new Error(`Unsupported coordinate type code ${code}`);
+  }
+  return type;
+}
+
+/**
+ * Gets the header flag bits for a coordinate type. The version 1 default for
+ * the topology is written as 0 so older readers can still decode the buffer.
+ */
+export function coordinateTypeFlags(type: CoordinateType, hasTransform: boolean): number {
+  if (type === (hasTransform ? 'int32' : 'float64')) {
+    return 0;
+  }
+  return COORDINATE_TYPE_CODES.indexOf(type) << COORDINATE_TYPE_SHIFT;
+}
+
+/**
+ * Gets the number of values per position from the header flags
+ */
+export function readDimensions(flags: number): number {
+  return ((flags & DIMENSIONS_MASK) >> DIMENSIONS_SHIFT) + 2;
+}
+
+/**
+ * Gets the header flag bits for a number of values per position
+ */
+export function dimensionsFlags(dimensions: number): number {
+  if (dimensions < 2 || dimensions > MAX_DIMENSIONS) {
+    throw new Error(`Positions must have 2 to ${MAX_DIMENSIONS} values, got ${dimensions}`);
+  }
+  return (dimensions - 2) << DIMENSIONS_SHIFT;
+}
+
+/**
+ * Reads a position of up to `dimensions` values starting at an index.
+ * Positions shorter than the topology's dimension count are stored padded
+ * with NaN (which JSON cannot hold), so trailing NaN values are dropped.
+ */
+export function readPosition(
+  coords: ArrayLike<number>,
+  start: number,
+  dimensions: number,
+  extras?: ArrayLike<number>,
+  extrasStart = 0
+): Position {
+  const position = [coords[start], coords[start + 1]];
+  for (let d = 2; d < dimensions; d++) {
+    position.push(extras ? extras[extrasStart + d - 2] : coords[start + d]);
+  }
+  while (position.length > 2 && Number.isNaN(position[position.length - 1])) {
+    position.pop();
+  }
+  return position;
+}
+
+/**
+ * Creates a typed array of the given coordinate type over a buffer
+ */
+export function createCoordinateArray(
+  type: CoordinateType,
+  buffer: ArrayBuffer,
+  byteOffset: number,
+  length: number
+): CoordinateArray {
+  switch (type) {
+    case 'int16': return new Int16Array(buffer, byteOffset, length);
+    case 'int32': return new Int32Array(buffer, byteOffset, length);
+    case 'float32': return new Float32Array(buffer, byteOffset, length);
+    case 'float64': return new Float64Array(buffer, byteOffset, length);
+  }
+}
+
+const INTEGER_RANGES: Partial<Record<CoordinateType, [number, number]>> = {
+  int16: [-0x8000, 0x7FFF],
+  int32: [-0x80000000, 0x7FFFFFFF]
+};
+
+/**
+ * Picks the arc coordinate type: the requested one (checking that integer
+ * types can hold every value), the narrowest lossless one for 'auto', or the
+ * version 1 default (Int32 if quantized, Float64 otherwise).
+ * Quantized topologies only store x/y with this type; otherwise every value
+ * of the table's points is stored, with missing values padded as NaN.
+ */
+export function chooseCoordinateType(
+  arcs: ArcTable,
+  requested: CoordinateType | 'auto' | undefined,
+  hasTransform: boolean
+): CoordinateType {
+  if (requested === undefined) {
+    return hasTransform ? 'int32' : 'float64';
+  }
+  if (requested !== 'auto' && !(requested in BYTES_PER_COORDINATE)) {
+    throw new Error(`Unsupported coordinate type: ${requested}`);
+  }
+
+  let min = 0;
+  let max = 0;
+  let allIntegers = true;
+  let allFloat32 = true;
+  const { coords, dimensions } = arcs;
+  const stride = hasTransform ? 2 : dimensions;
+  for (let idx = 0; idx < coords.length; idx += dimensions) {
+    for (let i = 0; i < stride; i++) {
+      const value = coords[idx + i];
+      if (value < min) min = value;
+      if (value > max) max = value;
+      if (!Number.isInteger(value)) allIntegers = false;
+      if (!Object.is(Math.fround(value), value)) allFloat32 = false;
+    }
+  }
+
+  if (requested !== 'auto') {
+    const range = INTEGER_RANGES[requested];
+    if (range && (Math.round(min) < range[0] || Math.round(max) > range[1])) {
+      throw new Error(
+        `Arc coordinates range from ${min} to ${max}, which does not fit in ${requested}`
+      );
+    }
+    return requested;
+  }
+
+  if (allIntegers) {
+    if (min >= -0x8000 && max <= 0x7FFF) return 'int16';
+    if (min >= -0x80000000 && max <= 0x7FFFFFFF) return 'int32';
+  }
+  return allFloat32 ? 'float32' : 'float64';
+}
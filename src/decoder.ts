@@ -1,22 +1,67 @@
-import { Topology, Transform, Arc } from './types.js';
+import {
+  Topology,
+  Transform,
+  Arc,
+  Geometry,
+  GeometryType,
+  CoordinateArray,
+  BinaryInput,
+  CompatibilityReport,
+  DecodeOptions,
+  ArcReadOptions
+} from './types.js';
 import {
   MAGIC,
   MIN_SUPPORTED_VERSION,
   MAX_SUPPORTED_VERSION,
+  DIRECTORY_VERSION,
+  KNOWN_FLAGS,
   FLAG_HAS_TRANSFORM,
-  FLAG_HAS_BBOX
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_CHECKSUMS,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED,
+  SECTION_REQUIRED,
+  GEOMETRY_TYPES,
+  GEOMETRY_TYPE_MASK,
+  GEOMETRY_ID_STRING,
+  GEOMETRY_ID_NUMBER,
+  OBJECTS_FLAG_INT16_ARC_REFS
 } from './constants.js';
+import { PropertyColumns, propertiesSectionSize } from './properties.js';
+import { readSpatialIndex, PackedRTree } from './spatial-index.js';
+import { PointsSection, readPointsSection } from './points.js';
+import { BYTES_PER_COORDINATE, readPosition, createCoordinateArray } from './coordinates.js';
+import {
+  DirectoryEntry,
+  HEADER_SIZE,
+  isKnownSection,
+  joinArcFrames,
+  readArcFrames,
+  readHeader,
+  readSectionDirectory
+} from './header.js';
+import { readVarints, buildVarintByteOffsets } from './varint.js';
+import { TopobinFormatError } from './errors.js';
+import { validate } from './validate.js';
+import { verifyChecksums } from './checksum.js';
+import { toArrayBuffer, toBufferRange, toDataView, unshared } from './input.js';
 
 /**
  * Gets the version number from a binary TopoJSON buffer without fully decoding it
  * Returns null if the buffer is not a valid TopoJSON binary format
  */
-export function getVersion(buffer: ArrayBuffer): number | null {
-  if (buffer.byteLength < 6) {
+export function getVersion(input: BinaryInput): number | null {
+  if (input.byteLength < 6) {
     return null; // Too small to contain magic + version
   }
 
-  const view = new DataView(buffer);
+  const view = toDataView(input);
   const magic = view.getUint32(0, false);
 
   if (magic !== MAGIC) {
@@ -30,73 +75,69 @@ export function getVersion(buffer: ArrayBuffer): number | null {
  * Checks if a binary TopoJSON buffer is compatible with this library version
  * Returns true if the buffer can be decoded, false otherwise
  */
-export function isCompatibleVersion(buffer: ArrayBuffer): boolean {
-  const version = getVersion(buffer);
-  if (version === null) {
-    return false;
-  }
-  return version >= MIN_SUPPORTED_VERSION && version <= MAX_SUPPORTED_VERSION;
+export function isCompatibleVersion(input: BinaryInput): boolean {
+  return getCompatibility(input).compatible;
 }
 
 /**
- * Decodes a binary TopoJSON buffer back into a TopoJSON topology object
+ * Reports what a buffer needs that this library lacks (a newer version,
+ * unknown flag bits or unknown required sections), and which unknown
+ * optional sections decoding would skip. Only the header and the section
+ * directory are read, so the rest of the buffer may be damaged or missing.
  */
-export function decode(buffer: ArrayBuffer): Topology {
-  const view = new DataView(buffer);
-
-  // Read header
-  let offset = 0;
-  const magic = view.getUint32(offset, false); offset += 4;
-  if (magic !== MAGIC) {
-    throw new Error('Invalid TopoJSON binary format: bad magic number');
+export function getCompatibility(input: BinaryInput): CompatibilityReport {
+  const version = getVersion(input);
+  const report: CompatibilityReport = { version, compatible: false, missing: [], skipped: [] };
+  if (version === null) {
+    return report;
   }
-
-  const version = view.getUint16(offset, false); offset += 2;
   if (version < MIN_SUPPORTED_VERSION || version > MAX_SUPPORTED_VERSION) {
-    throw new Error(
-      `Unsupported binary format version ${version}. ` +
-      `This library supports versions ${MIN_SUPPORTED_VERSION}-${MAX_SUPPORTED_VERSION}. ` +
-      `Please upgrade the topobin library to decode this file.`
-    );
+    report.missing.push(`version ${version}`);
+    return report;
   }
 
-  const flags = view.getUint16(offset, false); offset += 2;
-  const numArcs = view.getUint32(offset, false); offset += 4;
-  const totalArcPoints = view.getUint32(offset, false); offset += 4;
-  const numObjects = view.getUint32(offset, false); offset += 4;
-  const stringTableSize = view.getUint32(offset, false); offset += 4;
-
-  const hasTransform = (flags & FLAG_HAS_TRANSFORM) !== 0;
-  const hasBBox = (flags & FLAG_HAS_BBOX) !== 0;
-
-  // Read transform if present
-  let transform: Transform | undefined;
-  if (hasTransform) {
-    transform = {
-      scale: [
-        view.getFloat64(offset, false),
-        view.getFloat64(offset + 8, false)
-      ],
-      translate: [
-        view.getFloat64(offset + 16, false),
-        view.getFloat64(offset + 24, false)
-      ]
-    };
-    offset += 32;
+  const view = toDataView(input);
+  const flags = view.byteLength >= 8 ? view.getUint16(6, false) : 0;
+  for (let bit = 0; bit < 16; bit++) {
+    if (flags & ~KNOWN_FLAGS & (1 << bit)) report.missing.push(`flag bit ${bit}`);
   }
 
-  // Read bbox if present
-  let bbox: [number, number, number, number] | undefined;
-  if (hasBBox) {
-    bbox = [
-      view.getFloat64(offset, false),
-      view.getFloat64(offset + 8, false),
-      view.getFloat64(offset + 16, false),
-      view.getFloat64(offset + 24, false)
-    ];
-    offset += 32;
+  // Sections this library does not know are only listed in the directory
+  if (version >= DIRECTORY_VERSION) {
+    let offset = HEADER_SIZE;
+    if (flags & FLAG_HAS_TRANSFORM) offset += 32;
+    if (flags & FLAG_HAS_BBOX) offset += 32;
+    let directory: DirectoryEntry[] = [];
+    try {
+      directory = readSectionDirectory(view, offset);
+    } catch {
+      // Left to decode() and validate() to report
+    }
+    for (const entry of directory) {
+      if (isKnownSection(entry.type)) continue;
+      const list = entry.flags & SECTION_REQUIRED ? report.missing : report.skipped;
+      list.push(`section ${entry.type}`);
+    }
   }
 
+  report.compatible = report.missing.length === 0;
+  return report;
+}
+
+/**
+ * Decodes a binary TopoJSON buffer back into a TopoJSON topology object
+ */
+export function decode(input: BinaryInput, options: DecodeOptions = {}): Topology {
+  checkBuffer(input, options);
+
+  const { buffer, byteOffset, byteLength } = toBufferRange(input);
+  const view = new DataView(buffer);
+  const header = readHeader(buffer, byteOffset, byteLength);
+  const { version, flags, numArcs, totalArcPoints, numObjects, stringTableSize, transform, bbox } = header;
+  // Quantized arcs store x/y deltas, with any other values in a separate channel
+  const { dimensions, stride, layout } = header;
+  let offset = layout ? layout.strings : header.end;
+
   // Read string table
   const stringTableBytes = new Uint8Array(buffer, offset, stringTableSize);
   const stringTable = parseStringTable(stringTableBytes);
@@ -105,50 +146,84 @@ export function decode(buffer: ArrayBuffer): Topology {
   offset += stringTablePadded;
 
   // Read arc offsets
+  if (layout) offset = layout.arcOffsets;
   const arcOffsetsSize = (numArcs + 1) * 4;
   const arcOffsets = new Uint32Array(buffer, offset, numArcs + 1);
   offset += arcOffsetsSize;
+  if (layout) offset = layout.arcData;
+
+  let arcData: CoordinateArray;
+  let arcDataSize: number;
+  if (flags & FLAG_VARINT_ARCS) {
+    // Skip the arc byte index, which is only needed for random access
+    if (flags & FLAG_ARC_BYTE_INDEX) offset += arcOffsetsSize;
 
-  // Ensure 8-byte alignment for Float64Array (when not using transform)
-  const bytesPerCoord = hasTransform ? 4 : 8;
-  if (bytesPerCoord === 8 && offset % 8 !== 0) {
-    offset += 4; // Skip padding to reach 8-byte alignment
+    // Read and expand the size-prefixed varint data
+    const varintSize = view.getUint32(offset, false);
+    arcData = new Int32Array(totalArcPoints * 2);
+    readVarints(new Uint8Array(buffer, offset + 4, varintSize), 0, arcData.length, arcData);
+    arcDataSize = 4 + varintSize;
+  } else {
+    // Align to the coordinate size (only Float64 needs padding)
+    const bytesPerCoord = BYTES_PER_COORDINATE[header.coordinateType];
+    offset = Math.ceil(offset / bytesPerCoord) * bytesPerCoord;
+
+    // Read arc data; streamed arc data is split into frames, which are joined
+    if (flags & FLAG_STREAMED) {
+      const { frames, end } = readArcFrames(view, offset, layout!.trailer!, stride * bytesPerCoord);
+      arcDataSize = end - offset;
+      arcData = createCoordinateArray(header.coordinateType, joinArcFrames(buffer, frames), 0, totalArcPoints * stride);
+    } else {
+      arcDataSize = totalArcPoints * stride * bytesPerCoord;
+      arcData = createCoordinateArray(header.coordinateType, buffer, offset, totalArcPoints * stride);
+    }
   }
+  offset += arcDataSize;
 
-  // Read arc data
-  const arcDataSize = totalArcPoints * 2 * bytesPerCoord;
+  // Values beyond x/y of quantized arcs, 8-byte aligned
+  let extraValues: Float64Array | undefined;
+  const extraDimensions = dimensions - stride;
+  if (extraDimensions > 0) {
+    offset = Math.ceil(offset / 8) * 8;
+    extraValues = new Float64Array(buffer, offset, totalArcPoints * extraDimensions);
+    offset += extraValues.byteLength;
+  }
 
   const arcs: Arc[] = [];
-  if (hasTransform) {
-    const arcData = new Int32Array(buffer, offset, totalArcPoints * 2);
-    for (let i = 0; i < numArcs; i++) {
-      const start = arcOffsets[i];
-      const end = arcOffsets[i + 1];
-      const arc: Arc = [];
-      for (let j = start; j < end; j++) {
-        arc.push([arcData[j * 2], arcData[j * 2 + 1]]);
-      }
-      arcs.push(arc);
-    }
-  } else {
-    const arcData = new Float64Array(buffer, offset, totalArcPoints * 2);
-    for (let i = 0; i < numArcs; i++) {
-      const start = arcOffsets[i];
-      const end = arcOffsets[i + 1];
-      const arc: Arc = [];
-      for (let j = start; j < end; j++) {
-        arc.push([arcData[j * 2], arcData[j * 2 + 1]]);
-      }
-      arcs.push(arc);
+  for (let i = 0; i < numArcs; i++) {
+    const start = arcOffsets[i];
+    const end = arcOffsets[i + 1];
+    const arc: Arc = [];
+    for (let j = start; j < end; j++) {
+      arc.push(readPosition(arcData, j * stride, dimensions, extraValues, j * extraDimensions));
     }
+    arcs.push(arc);
   }
-  offset += arcDataSize;
+  // Skip the simplification weights, which decode() does not return
+  if (flags & FLAG_HAS_WEIGHTS) {
+    offset = Math.ceil(offset / 8) * 8 + totalArcPoints * 8;
+  }
+  // Point coordinates follow, 8-byte aligned
+  let points: PointsSection | undefined;
+  if (flags & FLAG_HAS_POINTS) {
+    points = readPointsSection(buffer, layout ? layout.points : Math.ceil(offset / 8) * 8);
+    offset = points.end;
+  }
+  // The objects section starts on a 4-byte boundary
+  offset = layout ? layout.objects : Math.ceil(offset / 4) * 4;
 
-  // Read objects
-  const objectsSize = view.getUint32(offset, false); offset += 4;
-  const objectsBytes = new Uint8Array(buffer, offset, objectsSize);
-  const objectsJSON = new TextDecoder().decode(objectsBytes);
-  const { objects } = JSON.parse(objectsJSON);
+  // Read objects (version 1 stored them as a JSON blob)
+  const objects = version === 1
+    ? readObjectsV1(buffer, offset)
+    : readObjects(
+      buffer,
+      offset,
+      stringTable.slice(0, numObjects),
+      stringTable,
+      (flags & FLAG_HAS_PROPERTIES) !== 0,
+      points,
+      layout?.properties
+    );
 
   // Build topology
   const topology: Topology = {
@@ -168,10 +243,318 @@ export function decode(buffer: ArrayBuffer): Topology {
   return topology;
 }
 
+/**
+ * Runs the checks requested in the decode options, throwing a
+ * TopobinFormatError for the first problem found
+ */
+function checkBuffer(input: BinaryInput, options: DecodeOptions): void {
+  let issues;
+  if (options.strict) {
+    issues = validate(input, options);
+  } else if (options.verifyChecksums && hasChecksums(input)) {
+    issues = verifyChecksums(toArrayBuffer(input));
+  } else {
+    return;
+  }
+  if (issues.length) {
+    const [issue] = issues;
+    throw new TopobinFormatError(issue.message, issue.code, issue.offset);
+  }
+}
+
+/**
+ * Whether a buffer's header declares a checksum trailer
+ */
+function hasChecksums(input: BinaryInput): boolean {
+  return input.byteLength >= 8 && (toDataView(input).getUint16(6, false) & FLAG_HAS_CHECKSUMS) !== 0;
+}
+
+/**
+ * Reads a version 1 objects section: a size-prefixed JSON blob
+ */
+export function readObjectsV1(buffer: ArrayBuffer, offset: number): Record<string, Geometry> {
+  const view = new DataView(buffer);
+  const objectsSize = view.getUint32(offset, false); offset += 4;
+  const objectsBytes = new Uint8Array(buffer, offset, objectsSize);
+  const objectsJSON = new TextDecoder().decode(unshared(objectsBytes));
+  return JSON.parse(objectsJSON).objects;
+}
+
+/**
+ * Typed array views over a binary objects section
+ * (see EncodedObjects in encoder.ts for the layout)
+ */
+export interface ObjectsSection {
+  numGeometries: number;
+  types: Uint8Array;
+  ids: Uint32Array;
+  childOffsets: Uint32Array;
+  polygonOffsets: Uint32Array;
+  ringOffsets: Uint32Array;
+  arcRefOffsets: Uint32Array;
+  arcRefs: Int16Array | Int32Array;
+  extrasBytes: Uint8Array;
+  /** Byte offset just past the end of the section */
+  end: number;
+}
+
+/**
+ * Lookups needed to turn an objects section entry into a geometry object
+ */
+interface GeometryContext {
+  getString(index: number): string;
+  getExtras(): Record<number, Record<string, unknown>>;
+  properties?: PropertyColumns;
+  points?: PointsSection;
+}
+
+/**
+ * Reads the binary objects section header and creates views over its columns
+ */
+export function readObjectsSection(buffer: ArrayBuffer, offset: number): ObjectsSection {
+  const view = new DataView(buffer);
+  const numGeometries = view.getUint32(offset, false); offset += 4;
+  const numPolygons = view.getUint32(offset, false); offset += 4;
+  const numRings = view.getUint32(offset, false); offset += 4;
+  const numArcRefs = view.getUint32(offset, false); offset += 4;
+  const flags = view.getUint32(offset, false); offset += 4;
+
+  const ids = new Uint32Array(buffer, offset, numGeometries);
+  offset += numGeometries * 4;
+  const childOffsets = new Uint32Array(buffer, offset, numGeometries + 1);
+  offset += (numGeometries + 1) * 4;
+  const polygonOffsets = new Uint32Array(buffer, offset, numGeometries + 1);
+  offset += (numGeometries + 1) * 4;
+  const ringOffsets = new Uint32Array(buffer, offset, numPolygons + 1);
+  offset += (numPolygons + 1) * 4;
+  const arcRefOffsets = new Uint32Array(buffer, offset, numRings + 1);
+  offset += (numRings + 1) * 4;
+
+  let arcRefs: Int16Array | Int32Array;
+  if (flags & OBJECTS_FLAG_INT16_ARC_REFS) {
+    arcRefs = new Int16Array(buffer, offset, numArcRefs);
+    offset += Math.ceil(numArcRefs * 2 / 4) * 4;
+  } else {
+    arcRefs = new Int32Array(buffer, offset, numArcRefs);
+    offset += numArcRefs * 4;
+  }
+
+  const types = new Uint8Array(buffer, offset, numGeometries);
+  offset += Math.ceil(numGeometries / 4) * 4;
+
+  const extrasSize = view.getUint32(offset, false); offset += 4;
+  const extrasBytes = new Uint8Array(buffer, offset, extrasSize);
+  offset += Math.ceil(extrasSize / 4) * 4;
+
+  return {
+    numGeometries,
+    types,
+    ids,
+    childOffsets,
+    polygonOffsets,
+    ringOffsets,
+    arcRefOffsets,
+    arcRefs,
+    extrasBytes,
+    end: offset
+  };
+}
+
+/**
+ * Parses the JSON blob of geometry members that have no binary representation
+ */
+function parseExtras(section: ObjectsSection): Record<number, Record<string, unknown>> {
+  return section.extrasBytes.byteLength > 0
+    ? JSON.parse(new TextDecoder().decode(unshared(section.extrasBytes)))
+    : {};
+}
+
+/**
+ * Gets a geometry's id from the objects section, or undefined if it has none
+ */
+function readGeometryId(
+  section: ObjectsSection,
+  index: number,
+  getString: (index: number) => string
+): string | number | undefined {
+  const typeByte = section.types[index];
+  if (typeByte & GEOMETRY_ID_STRING) {
+    return getString(section.ids[index]);
+  } else if (typeByte & GEOMETRY_ID_NUMBER) {
+    return Number(getString(section.ids[index]));
+  }
+  return undefined;
+}
+
+/**
+ * Gets the arc references of the geometry at an index in order, followed by
+ * those of any collection members; only the latter are copied
+ */
+function readArcRefs(section: ObjectsSection, index: number): Int16Array | Int32Array {
+  const { types, childOffsets, polygonOffsets, ringOffsets, arcRefOffsets, arcRefs } = section;
+  if (GEOMETRY_TYPES[types[index] & GEOMETRY_TYPE_MASK] !== 'GeometryCollection') {
+    const firstRing = ringOffsets[polygonOffsets[index]];
+    const endRing = ringOffsets[polygonOffsets[index + 1]];
+    return arcRefs.subarray(arcRefOffsets[firstRing], arcRefOffsets[endRing]);
+  }
+  const members: (Int16Array | Int32Array)[] = [];
+  for (let c = childOffsets[index]; c < childOffsets[index + 1]; c++) {
+    members.push(readArcRefs(section, c));
+  }
+  const refs = new Int32Array(members.reduce((sum, member) => sum + member.length, 0));
+  let offset = 0;
+  for (const member of members) {
+    refs.set(member, offset);
+    offset += member.length;
+  }
+  return refs;
+}
+
+/**
+ * Gets the arc references of a decoded geometry in order, including those of
+ * any collection members
+ */
+function collectArcRefs(geometry: Geometry, refs: number[] = []): number[] {
+  switch (geometry.type) {
+    case 'LineString':
+      refs.push(...geometry.arcs);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      for (const ring of geometry.arcs) refs.push(...ring);
+      break;
+    case 'MultiPolygon':
+      for (const polygon of geometry.arcs) {
+        for (const ring of polygon) refs.push(...ring);
+      }
+      break;
+    case 'GeometryCollection':
+      for (const member of geometry.geometries) collectArcRefs(member, refs);
+      break;
+  }
+  return refs;
+}
+
+/**
+ * Builds the geometry object (including any collection members) at an index
+ */
+function readGeometry(section: ObjectsSection, index: number, context: GeometryContext): Geometry {
+  const { types, childOffsets, polygonOffsets, ringOffsets, arcRefOffsets, arcRefs } = section;
+
+  const readRing = (ring: number): number[] =>
+    Array.from(arcRefs.subarray(arcRefOffsets[ring], arcRefOffsets[ring + 1]));
+
+  const readPolygon = (polygon: number): number[][] => {
+    const rings: number[][] = [];
+    for (let r = ringOffsets[polygon]; r < ringOffsets[polygon + 1]; r++) {
+      rings.push(readRing(r));
+    }
+    return rings;
+  };
+
+  const type = GEOMETRY_TYPES[types[index] & GEOMETRY_TYPE_MASK];
+  const firstPolygon = polygonOffsets[index];
+  const geometry: Record<string, unknown> = { type };
+
+  switch (type) {
+    case 'LineString':
+      geometry.arcs = readRing(ringOffsets[firstPolygon]);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      geometry.arcs = readPolygon(firstPolygon);
+      break;
+    case 'MultiPolygon': {
+      const polygons: number[][][] = [];
+      for (let p = firstPolygon; p < polygonOffsets[index + 1]; p++) {
+        polygons.push(readPolygon(p));
+      }
+      geometry.arcs = polygons;
+      break;
+    }
+    case 'Point':
+    case 'MultiPoint': {
+      // Positions that were not plain x/y pairs are kept in the extras instead
+      const points = context.points;
+      if (!points) break;
+      const { coords, stride, extras, dimensions } = points;
+      const extraDimensions = dimensions - stride;
+      const positions: number[][] = [];
+      for (let p = points.offsets[index]; p < points.offsets[index + 1]; p++) {
+        positions.push(readPosition(coords, p * stride, dimensions, extraDimensions ? extras : undefined, p * extraDimensions));
+      }
+      if (type === 'MultiPoint') {
+        geometry.coordinates = positions;
+      } else if (positions.length) {
+        geometry.coordinates = positions[0];
+      }
+      break;
+    }
+    case 'GeometryCollection': {
+      const geometries: Geometry[] = [];
+      for (let c = childOffsets[index]; c < childOffsets[index + 1]; c++) {
+        geometries.push(readGeometry(section, c, context));
+      }
+      geometry.geometries = geometries;
+      break;
+    }
+  }
+
+  const id = readGeometryId(section, index, context.getString);
+  if (id !== undefined) {
+    geometry.id = id;
+  }
+
+  const props = context.properties?.getAll(index);
+  if (props) {
+    geometry.properties = props;
+  }
+
+  const rest = context.getExtras()[index];
+  if (rest) {
+    Object.assign(geometry, rest);
+  }
+
+  return geometry as unknown as Geometry;
+}
+
+/**
+ * Reads the binary objects section and rebuilds the geometry objects
+ */
+export function readObjects(
+  buffer: ArrayBuffer,
+  offset: number,
+  names: string[],
+  strings: string[],
+  hasProperties: boolean,
+  points?: PointsSection,
+  propertiesStart?: number
+): Record<string, Geometry> {
+  const section = readObjectsSection(buffer, offset);
+  const extras = parseExtras(section);
+  const getString = (index: number) => strings[index];
+
+  // The properties section follows, aligned to 8 bytes, unless the directory says otherwise
+  const context: GeometryContext = {
+    getString,
+    getExtras: () => extras,
+    properties: hasProperties
+      ? new PropertyColumns(buffer, propertiesStart ?? Math.ceil(section.end / 8) * 8, getString)
+      : undefined,
+    points
+  };
+
+  const objects: Record<string, Geometry> = {};
+  for (let i = 0; i < names.length; i++) {
+    objects[names[i]] = readGeometry(section, i, context);
+  }
+  return objects;
+}
+
 /**
  * Parses a null-terminated string table
  */
-function parseStringTable(bytes: Uint8Array): string[] {
+export function parseStringTable(bytes: Uint8Array): string[] {
   const decoder = new TextDecoder();
   const strings: string[] = [];
   let start = 0;
@@ -188,85 +571,182 @@ function parseStringTable(bytes: Uint8Array): string[] {
 
 /**
  * Creates a view into the binary data without decoding
- * Useful for memory-efficient access to specific arcs
+ * Useful for memory-efficient access to specific arcs and objects
  */
 export class BinaryTopologyView {
+  private buffer: ArrayBuffer;
   private view: DataView;
+  private version: number;
+  private flags: number;
   private hasTransform: boolean;
+  private transform?: Transform;
   private numArcs: number;
   private arcOffsetsStart: number;
   private arcDataStart: number;
-  private arcData: Int32Array | Float64Array;
+  private arcData: CoordinateArray;
   private arcOffsets: Uint32Array;
+  // Values per position, and per position in the arc data (x/y only when quantized)
+  private dimensions: number;
+  private stride: number;
+  // Values beyond x/y of quantized arcs, dimensions - 2 per point
+  private extraValues?: Float64Array;
+  // Varint arc data and each arc's byte offset into it (built lazily without an index)
+  private varintArcs?: Uint8Array;
+  private varintByteOffsets?: Uint32Array;
+  private weights?: Float64Array;
+  private points?: PointsSection;
+  // Reused when reading simplified arcs
+  private scratch = new Float64Array(0);
+  private numObjects: number;
+  private stringTable: Uint8Array;
+  private objectsStart: number;
+  // Section offsets from the section directory (version 3)
+  private propertiesStart?: number;
+  private spatialIndexStart?: number;
 
-  constructor(buffer: ArrayBuffer) {
-    this.view = new DataView(buffer);
+  // Parsed lazily, on first object access
+  private stringOffsets?: Uint32Array;
+  private objectNames?: string[];
+  private objectsSection?: ObjectsSection;
+  private extras?: Record<number, Record<string, unknown>>;
+  private properties?: PropertyColumns;
+  private legacyObjects?: Record<string, Geometry>;
+  private spatialIndex?: { arcs: PackedRTree; geometries: PackedRTree };
+  private decoder = new TextDecoder();
 
-    // Read header
-    let offset = 0;
-    const magic = this.view.getUint32(offset, false); offset += 4;
-    if (magic !== MAGIC) {
-      throw new Error('Invalid TopoJSON binary format: bad magic number');
-    }
-
-    const version = this.view.getUint16(offset, false); offset += 2;
-    if (version < MIN_SUPPORTED_VERSION || version > MAX_SUPPORTED_VERSION) {
-      throw new Error(
-        `Unsupported binary format version ${version}. ` +
-        `This library supports versions ${MIN_SUPPORTED_VERSION}-${MAX_SUPPORTED_VERSION}. ` +
-        `Please upgrade the topobin library to decode this file.`
-      );
-    }
-    const flags = this.view.getUint16(offset, false); offset += 2;
-    this.numArcs = this.view.getUint32(offset, false); offset += 4;
-    const totalArcPoints = this.view.getUint32(offset, false); offset += 4;
-    const numObjects = this.view.getUint32(offset, false); offset += 4;
-    const stringTableSize = this.view.getUint32(offset, false); offset += 4;
-
-    this.hasTransform = (flags & FLAG_HAS_TRANSFORM) !== 0;
-    const hasBBox = (flags & FLAG_HAS_BBOX) !== 0;
+  /**
+   * @param input - Binary TopoJSON buffer, or a view of one; aligned views are read in place
+   * @param options - Checks to run before reading (see DecodeOptions)
+   */
+  constructor(input: BinaryInput, options: DecodeOptions = {}) {
+    checkBuffer(input, options);
+    const { buffer, byteOffset, byteLength } = toBufferRange(input);
+    this.buffer = buffer;
+    this.view = new DataView(buffer);
 
-    // Skip transform and bbox
-    if (this.hasTransform) offset += 32;
-    if (hasBBox) offset += 32;
+    const header = readHeader(buffer, byteOffset, byteLength);
+    const { flags, totalArcPoints, stringTableSize } = header;
+    this.version = header.version;
+    this.flags = flags;
+    this.numArcs = header.numArcs;
+    this.numObjects = header.numObjects;
+    this.hasTransform = header.transform !== undefined;
+    this.transform = header.transform;
+    this.dimensions = header.dimensions;
+    this.stride = header.stride;
+    const { layout } = header;
+    let offset = layout ? layout.strings : header.end;
 
-    // Skip string table (with padding for alignment)
+    // Keep the string table bytes; strings are only decoded when needed
+    this.stringTable = new Uint8Array(buffer, offset, stringTableSize);
     const stringTablePadded = Math.ceil(stringTableSize / 4) * 4;
     offset += stringTablePadded;
 
     // Read arc offsets
+    if (layout) offset = layout.arcOffsets;
     this.arcOffsetsStart = offset;
     this.arcOffsets = new Uint32Array(buffer, offset, this.numArcs + 1);
     offset += (this.numArcs + 1) * 4;
+    if (layout) offset = layout.arcData;
 
-    // Ensure 8-byte alignment for Float64Array (when not using transform)
-    if (!this.hasTransform && offset % 8 !== 0) {
-      offset += 4; // Skip padding to reach 8-byte alignment
-    }
+    if (flags & FLAG_VARINT_ARCS) {
+      if (flags & FLAG_ARC_BYTE_INDEX) {
+        this.varintByteOffsets = new Uint32Array(buffer, offset, this.numArcs + 1);
+        offset += (this.numArcs + 1) * 4;
+      }
 
-    // Read arc data
-    this.arcDataStart = offset;
-    if (this.hasTransform) {
-      this.arcData = new Int32Array(buffer, offset, totalArcPoints * 2);
+      // Varint arcs are decoded per arc on access
+      const varintSize = this.view.getUint32(offset, false);
+      this.arcDataStart = offset + 4;
+      this.arcData = new Int32Array(0);
+      this.varintArcs = new Uint8Array(buffer, this.arcDataStart, varintSize);
+      offset = this.arcDataStart + varintSize;
     } else {
-      this.arcData = new Float64Array(buffer, offset, totalArcPoints * 2);
+      // Align to the coordinate size (only Float64 needs padding)
+      const bytesPerCoord = BYTES_PER_COORDINATE[header.coordinateType];
+      offset = Math.ceil(offset / bytesPerCoord) * bytesPerCoord;
+
+      // Read arc data; streamed arc data is split into frames, which are joined
+      this.arcDataStart = offset;
+      if (flags & FLAG_STREAMED) {
+        const frames = readArcFrames(this.view, offset, layout!.trailer!, this.stride * bytesPerCoord);
+        this.arcData = createCoordinateArray(
+          header.coordinateType, joinArcFrames(buffer, frames.frames), 0, totalArcPoints * this.stride
+        );
+        offset = frames.end;
+      } else {
+        this.arcData = createCoordinateArray(header.coordinateType, buffer, offset, totalArcPoints * this.stride);
+        offset += this.arcData.byteLength;
+      }
+    }
+
+    // Values beyond x/y of quantized arcs follow, 8-byte aligned
+    if (this.dimensions > this.stride) {
+      offset = Math.ceil(offset / 8) * 8;
+      this.extraValues = new Float64Array(buffer, offset, totalArcPoints * (this.dimensions - 2));
+      offset += this.extraValues.byteLength;
+    }
+
+    // Simplification weights follow the arc data, 8-byte aligned
+    if (flags & FLAG_HAS_WEIGHTS) {
+      offset = layout?.weights ?? Math.ceil(offset / 8) * 8;
+      this.weights = new Float64Array(buffer, offset, totalArcPoints);
+      offset += this.weights.byteLength;
     }
+
+    // Point coordinates follow, 8-byte aligned
+    if (flags & FLAG_HAS_POINTS) {
+      this.points = readPointsSection(buffer, layout ? layout.points : Math.ceil(offset / 8) * 8);
+      offset = this.points.end;
+    }
+    this.objectsStart = layout ? layout.objects : Math.ceil(offset / 4) * 4;
+    this.propertiesStart = layout?.properties;
+    this.spatialIndexStart = layout?.spatialIndex;
   }
 
   /**
-   * Get a specific arc by index without copying
+   * Get a specific arc by index without copying.
+   * With minWeight, only the points kept at that level of detail are
+   * returned, re-delta-encoded between kept points for quantized topologies.
    */
-  getArc(index: number): Arc {
+  getArc(index: number, options: ArcReadOptions = {}): Arc {
     if (index < 0 || index >= this.numArcs) {
       throw new Error(`Arc index out of bounds: ${index}`);
     }
 
-    const start = this.arcOffsets[index];
-    const end = this.arcOffsets[index + 1];
+    const coords = this.getArcCoords(index);
+    const { stride, dimensions, extraValues } = this;
+    const first = this.arcOffsets[index];
+    const count = coords.length / stride;
+    const position = (k: number) =>
+      readPosition(coords, k * stride, dimensions, extraValues, (first + k) * (dimensions - 2));
     const arc: Arc = [];
 
-    for (let i = start; i < end; i++) {
-      arc.push([this.arcData[i * 2], this.arcData[i * 2 + 1]]);
+    if (options.minWeight !== undefined) {
+      const weights = this.getArcWeights(index);
+      let x = 0;
+      let y = 0;
+      let keptX = 0;
+      let keptY = 0;
+      for (let k = 0; k < count; k++) {
+        const point = position(k);
+        if (this.transform) {
+          x += point[0];
+          y += point[1];
+          point[0] = x - keptX;
+          point[1] = y - keptY;
+        }
+        if (weights[k] >= options.minWeight) {
+          arc.push(point);
+          keptX = x;
+          keptY = y;
+        }
+      }
+      return arc;
+    }
+
+    for (let k = 0; k < count; k++) {
+      arc.push(position(k));
     }
 
     return arc;
@@ -279,6 +759,157 @@ export class BinaryTopologyView {
     return this.numArcs;
   }
 
+  /**
+   * Get the quantization transform, if the topology is quantized
+   */
+  getTransform(): Transform | undefined {
+    return this.transform && {
+      scale: [...this.transform.scale],
+      translate: [...this.transform.translate]
+    };
+  }
+
+  /**
+   * Get the number of points in an arc (kept at minWeight, if given)
+   */
+  getArcPointCount(index: number, options: ArcReadOptions = {}): number {
+    if (index < 0 || index >= this.numArcs) {
+      throw new Error(`Arc index out of bounds: ${index}`);
+    }
+    if (options.minWeight !== undefined) {
+      const weights = this.getArcWeights(index);
+      let count = 0;
+      for (let i = 0; i < weights.length; i++) {
+        if (weights[i] >= options.minWeight) count++;
+      }
+      return count;
+    }
+    return this.arcOffsets[index + 1] - this.arcOffsets[index];
+  }
+
+  /**
+   * Get the simplification weight of each of an arc's points, without
+   * copying. Endpoints have an infinite weight.
+   */
+  getArcWeights(index: number): Float64Array {
+    if (!this.weights) {
+      throw new Error('This buffer has no simplification weights (encode with the presimplify option)');
+    }
+    if (index < 0 || index >= this.numArcs) {
+      throw new Error(`Arc index out of bounds: ${index}`);
+    }
+    return this.weights.subarray(this.arcOffsets[index], this.arcOffsets[index + 1]);
+  }
+
+  /**
+   * Get the number of values per position: 2 for x/y, or up to 5 when
+   * positions carry extra values such as z or m
+   */
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  /**
+   * Whether the buffer stores simplification weights for minWeight reads
+   */
+  hasWeights(): boolean {
+    return this.weights !== undefined;
+  }
+
+  /**
+   * Get an arc's stored coordinates as interleaved values, without copying.
+   * The result is a subarray of the underlying buffer, typed by the stored
+   * coordinate type: x/y deltas for quantized topologies, positions of
+   * getDimensions() values otherwise. With varint arc encoding the deltas are
+   * decoded into a new Int32Array.
+   */
+  getArcCoords(index: number): CoordinateArray {
+    const count = this.getArcPointCount(index);
+    if (this.varintArcs) {
+      const coords = new Int32Array(count * 2);
+      readVarints(this.varintArcs, this.getVarintByteOffsets()[index], coords.length, coords);
+      return coords;
+    }
+    return this.arcData.subarray(this.arcOffsets[index] * this.stride, this.arcOffsets[index + 1] * this.stride);
+  }
+
+  /**
+   * Get an arc's absolute coordinates as interleaved values, getDimensions()
+   * per point, undoing delta encoding and applying the transform to x/y for
+   * quantized topologies. Values missing from shorter positions are NaN.
+   *
+   * Pass an `out` array (at least getDimensions() * getArcPointCount(index, options)
+   * long) to avoid allocating; it is filled from the start and returned.
+   * Without one, a new Float64Array of exactly the right length is returned.
+   * With minWeight, only the points kept at that level of detail are written.
+   */
+  getArcAbsolute(index: number, out?: Float64Array, options: ArcReadOptions = {}): Float64Array {
+    const dimensions = this.dimensions;
+    const count = this.getArcPointCount(index, options);
+    if (!out) {
+      out = new Float64Array(count * dimensions);
+    } else if (out.length < count * dimensions) {
+      throw new Error(`Output array too small for arc ${index}: need ${count * dimensions} values, got ${out.length}`);
+    }
+
+    if (options.minWeight !== undefined) {
+      // Read every point, then copy out the kept ones
+      const weights = this.getArcWeights(index);
+      if (this.scratch.length < weights.length * dimensions) {
+        this.scratch = new Float64Array(weights.length * dimensions);
+      }
+      const all = this.getArcAbsolute(index, this.scratch);
+      for (let i = 0, j = 0; i < weights.length; i++) {
+        if (weights[i] >= options.minWeight) {
+          for (let d = 0; d < dimensions; d++) {
+            out[j++] = all[i * dimensions + d];
+          }
+        }
+      }
+      return out;
+    }
+
+    let data: CoordinateArray | Float64Array = this.arcData;
+    let start = this.arcOffsets[index] * this.stride;
+    if (this.varintArcs) {
+      // Decode the deltas straight into the output and accumulate in place
+      readVarints(this.varintArcs, this.getVarintByteOffsets()[index], count * 2, out);
+      data = out;
+      start = 0;
+    }
+    const end = start + count * this.stride;
+    if (this.transform) {
+      const [kx, ky] = this.transform.scale;
+      const [dx, dy] = this.transform.translate;
+      let x = 0;
+      let y = 0;
+      for (let i = start, j = 0; i < end; i += 2, j += 2) {
+        x += data[i];
+        y += data[i + 1];
+        out[j] = x * kx + dx;
+        out[j + 1] = y * ky + dy;
+      }
+      if (this.extraValues) {
+        // Spread the x/y pairs to their full stride, last point first so
+        // none is overwritten before it is moved
+        const extraDimensions = dimensions - 2;
+        const extraStart = this.arcOffsets[index] * extraDimensions;
+        for (let k = count - 1; k >= 0; k--) {
+          out[k * dimensions + 1] = out[k * 2 + 1];
+          out[k * dimensions] = out[k * 2];
+          for (let d = 0; d < extraDimensions; d++) {
+            out[k * dimensions + 2 + d] = this.extraValues[extraStart + k * extraDimensions + d];
+          }
+        }
+      }
+    } else {
+      for (let i = start, j = 0; i < end; i++, j++) {
+        out[j] = data[i];
+      }
+    }
+    return out;
+  }
+
   /**
    * Iterate over all arcs efficiently
    */
@@ -287,4 +918,356 @@ export class BinaryTopologyView {
       yield this.getArc(i);
     }
   }
+
+  /**
+   * Get the names of the top-level objects
+   */
+  getObjectNames(): string[] {
+    if (this.version === 1) {
+      return Object.keys(this.getLegacyObjects());
+    }
+    if (!this.objectNames) {
+      this.objectNames = [];
+      for (let i = 0; i < this.numObjects; i++) {
+        this.objectNames.push(this.getString(i));
+      }
+    }
+    return this.objectNames.slice();
+  }
+
+  /**
+   * Get a top-level object by name, building only that object's geometries
+   * Returns undefined if there is no such object
+   */
+  getObject(name: string): Geometry | undefined {
+    if (this.version === 1) {
+      return this.getLegacyObjects()[name];
+    }
+    const index = this.getObjectIndex(name);
+    return index === -1 ? undefined : readGeometry(this.getObjectsSection(), index, this.getContext());
+  }
+
+  /**
+   * Get the number of geometries in an object
+   * (its members if it is a GeometryCollection, otherwise 1)
+   */
+  getGeometryCount(objectName: string): number {
+    const [start, end] = this.getGeometryRange(objectName);
+    return end - start;
+  }
+
+  /**
+   * Get one geometry of an object by index
+   */
+  getGeometry(objectName: string, index: number): Geometry {
+    const [start, end] = this.getGeometryRange(objectName);
+    if (index < 0 || index >= end - start) {
+      throw new Error(`Geometry index out of bounds: ${index}`);
+    }
+    if (this.version === 1) {
+      return this.getLegacyMembers(objectName)[index];
+    }
+    return readGeometry(this.getObjectsSection(), start + index, this.getContext());
+  }
+
+  /**
+   * Get the type of one geometry of an object without building it
+   */
+  getGeometryType(objectName: string, index: number): GeometryType {
+    const [start, end] = this.getGeometryRange(objectName);
+    if (index < 0 || index >= end - start) {
+      throw new Error(`Geometry index out of bounds: ${index}`);
+    }
+    if (this.version === 1) {
+      return this.getLegacyMembers(objectName)[index].type;
+    }
+    return GEOMETRY_TYPES[this.getObjectsSection().types[start + index] & GEOMETRY_TYPE_MASK];
+  }
+
+  /**
+   * Get the arc references (~i for reversed arcs) of one geometry of an
+   * object in order, followed by those of any GeometryCollection members,
+   * without building the geometry. The result is a subarray of the objects
+   * section unless the geometry is a collection; Point and MultiPoint
+   * geometries have none.
+   */
+  getArcRefs(objectName: string, index: number): Int16Array | Int32Array {
+    const [start, end] = this.getGeometryRange(objectName);
+    if (index < 0 || index >= end - start) {
+      throw new Error(`Geometry index out of bounds: ${index}`);
+    }
+    if (this.version === 1) {
+      return Int32Array.from(collectArcRefs(this.getLegacyMembers(objectName)[index]));
+    }
+    return readArcRefs(this.getObjectsSection(), start + index);
+  }
+
+  /**
+   * Find one geometry of an object by its id
+   * Returns undefined if no geometry has that id
+   */
+  getGeometryById(objectName: string, id: string | number): Geometry | undefined {
+    const [start, end] = this.getGeometryRange(objectName);
+    if (this.version === 1) {
+      return this.getLegacyMembers(objectName).find(geometry => geometry.id === id);
+    }
+
+    // Strings are unique in the table, so match on the string index
+    const stringIndex = this.findString(String(id));
+    if (stringIndex === -1) {
+      return undefined;
+    }
+    const section = this.getObjectsSection();
+    const idFlag = typeof id === 'number' ? GEOMETRY_ID_NUMBER : GEOMETRY_ID_STRING;
+    for (let i = start; i < end; i++) {
+      if (section.ids[i] === stringIndex && (section.types[i] & idFlag)) {
+        return readGeometry(section, i, this.getContext());
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get a single property of one geometry of an object without reading the
+   * other properties. Returns undefined if the property is not set.
+   */
+  getProperty(objectName: string, index: number, key: string): unknown {
+    const [start, end] = this.getGeometryRange(objectName);
+    if (index < 0 || index >= end - start) {
+      throw new Error(`Geometry index out of bounds: ${index}`);
+    }
+    if (this.version === 1) {
+      return this.getLegacyMembers(objectName)[index].properties?.[key];
+    }
+    return this.getContext().properties?.get(start + index, key);
+  }
+
+  /**
+   * Get the positions of a Point or MultiPoint geometry of an object as
+   * interleaved values, without copying. The result is a subarray of the
+   * points section: quantized x/y grid coordinates when the topology has a
+   * transform, positions of getDimensions() values otherwise. Other
+   * geometries have no positions.
+   */
+  getPointCoords(objectName: string, index: number): CoordinateArray {
+    const [start, end] = this.getGeometryRange(objectName);
+    if (index < 0 || index >= end - start) {
+      throw new Error(`Geometry index out of bounds: ${index}`);
+    }
+    if (!this.points) {
+      throw new Error('This buffer has no points section (encode a topology with Point or MultiPoint geometries)');
+    }
+    const { offsets, coords, stride } = this.points;
+    return coords.subarray(offsets[start + index] * stride, offsets[start + index + 1] * stride);
+  }
+
+  /**
+   * Get the positions of a Point or MultiPoint geometry of an object as
+   * interleaved values, getDimensions() per position, with the transform
+   * applied to x/y. Pass an `out` array to avoid allocating, as with
+   * getArcAbsolute().
+   */
+  getPointAbsolute(objectName: string, index: number, out?: Float64Array): Float64Array {
+    const coords = this.getPointCoords(objectName, index);
+    const { stride, extras, offsets } = this.points!;
+    const dimensions = this.dimensions;
+    const count = coords.length / stride;
+    if (!out) {
+      out = new Float64Array(count * dimensions);
+    } else if (out.length < count * dimensions) {
+      throw new Error(`Output array too small for geometry ${index}: need ${count * dimensions} values, got ${out.length}`);
+    }
+
+    if (this.transform) {
+      const [kx, ky] = this.transform.scale;
+      const [dx, dy] = this.transform.translate;
+      const extraDimensions = dimensions - 2;
+      const extraStart = offsets[this.getGeometryRange(objectName)[0] + index] * extraDimensions;
+      for (let k = 0; k < count; k++) {
+        out[k * dimensions] = coords[k * 2] * kx + dx;
+        out[k * dimensions + 1] = coords[k * 2 + 1] * ky + dy;
+        for (let d = 0; d < extraDimensions; d++) {
+          out[k * dimensions + 2 + d] = extras[extraStart + k * extraDimensions + d];
+        }
+      }
+    } else {
+      out.set(coords);
+    }
+    return out;
+  }
+
+  /**
+   * Find the arcs whose bounding boxes intersect a box given as
+   * [minX, minY, maxX, maxY] in untransformed coordinates.
+   * Requires a buffer encoded with the spatialIndex option.
+   */
+  queryArcs(bbox: number[]): number[] {
+    const [minX, minY, maxX, maxY] = bbox;
+    return this.getSpatialIndex().arcs.search(minX, minY, maxX, maxY);
+  }
+
+  /**
+   * Find the geometries of an object whose bounding boxes intersect a box
+   * given as [minX, minY, maxX, maxY], returning their indices for
+   * getGeometry(). Requires a buffer encoded with the spatialIndex option.
+   */
+  queryGeometries(objectName: string, bbox: number[]): number[] {
+    const index = this.getSpatialIndex();
+    const [start, end] = this.getGeometryRange(objectName);
+    const [minX, minY, maxX, maxY] = bbox;
+    return index.geometries.search(minX, minY, maxX, maxY)
+      .filter(i => i >= start && i < end)
+      .map(i => i - start);
+  }
+
+  /**
+   * Iterate over the geometries of an object, building one at a time
+   */
+  *iterGeometries(objectName: string): Generator<Geometry, void, unknown> {
+    const count = this.getGeometryCount(objectName);
+    for (let i = 0; i < count; i++) {
+      yield this.getGeometry(objectName, i);
+    }
+  }
+
+  /**
+   * Range of objects section geometry indices making up an object
+   * (for version 1 buffers, the range is 0..member count)
+   */
+  private getGeometryRange(objectName: string): [number, number] {
+    if (this.version === 1) {
+      return [0, this.getLegacyMembers(objectName).length];
+    }
+    const index = this.getObjectIndex(objectName);
+    if (index === -1) {
+      throw new Error(`Unknown object: ${objectName}`);
+    }
+    const section = this.getObjectsSection();
+    if (GEOMETRY_TYPES[section.types[index] & GEOMETRY_TYPE_MASK] === 'GeometryCollection') {
+      return [section.childOffsets[index], section.childOffsets[index + 1]];
+    }
+    return [index, index + 1];
+  }
+
+  private getObjectIndex(name: string): number {
+    const index = this.findString(name);
+    return index < this.numObjects ? index : -1;
+  }
+
+  private getVarintByteOffsets(): Uint32Array {
+    if (!this.varintByteOffsets) {
+      this.varintByteOffsets = buildVarintByteOffsets(this.varintArcs!, this.arcOffsets);
+    }
+    return this.varintByteOffsets;
+  }
+
+  private getObjectsSection(): ObjectsSection {
+    if (!this.objectsSection) {
+      this.objectsSection = readObjectsSection(this.buffer, this.objectsStart);
+    }
+    return this.objectsSection;
+  }
+
+  private getContext(): GeometryContext {
+    const section = this.getObjectsSection();
+    if ((this.flags & FLAG_HAS_PROPERTIES) && !this.properties) {
+      this.properties = new PropertyColumns(
+        this.buffer,
+        this.propertiesStart ?? Math.ceil(section.end / 8) * 8,
+        index => this.getString(index)
+      );
+    }
+    return {
+      getString: index => this.getString(index),
+      getExtras: () => {
+        if (!this.extras) {
+          this.extras = parseExtras(section);
+        }
+        return this.extras;
+      },
+      properties: this.properties,
+      points: this.points
+    };
+  }
+
+  /**
+   * Read the spatial index section, which follows the objects and properties
+   */
+  private getSpatialIndex(): { arcs: PackedRTree; geometries: PackedRTree } {
+    if (!(this.flags & FLAG_HAS_SPATIAL_INDEX)) {
+      throw new Error('This buffer has no spatial index (encode with the spatialIndex option)');
+    }
+    if (!this.spatialIndex) {
+      let start = this.spatialIndexStart;
+      if (start === undefined) {
+        let end = this.getObjectsSection().end;
+        if (this.flags & FLAG_HAS_PROPERTIES) {
+          const propertiesStart = Math.ceil(end / 8) * 8;
+          end = propertiesStart + propertiesSectionSize(this.buffer, propertiesStart);
+        }
+        start = Math.ceil(end / 8) * 8;
+      }
+      this.spatialIndex = readSpatialIndex(this.buffer, start);
+    }
+    return this.spatialIndex;
+  }
+
+  /**
+   * Decode one string table entry, indexing the table on first use
+   */
+  private getString(index: number): string {
+    const offsets = this.getStringOffsets();
+    return this.decoder.decode(unshared(this.stringTable.subarray(offsets[index], offsets[index + 1] - 1)));
+  }
+
+  /**
+   * Find a string's index in the string table by comparing bytes (-1 if absent)
+   */
+  private findString(value: string): number {
+    const target = new TextEncoder().encode(value);
+    const offsets = this.getStringOffsets();
+    const table = this.stringTable;
+    for (let i = 0; i < offsets.length - 1; i++) {
+      const start = offsets[i];
+      if (offsets[i + 1] - 1 - start !== target.length) continue;
+      let match = true;
+      for (let j = 0; j < target.length; j++) {
+        if (table[start + j] !== target[j]) {
+          match = false;
+          break;
+        }
+      }
+      if (match) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Start offset of each string table entry, plus the end of the table
+   */
+  private getStringOffsets(): Uint32Array {
+    if (!this.stringOffsets) {
+      const starts = [0];
+      for (let i = 0; i < this.stringTable.length; i++) {
+        if (this.stringTable[i] === 0) starts.push(i + 1);
+      }
+      this.stringOffsets = Uint32Array.from(starts);
+    }
+    return this.stringOffsets;
+  }
+
+  private getLegacyObjects(): Record<string, Geometry> {
+    if (!this.legacyObjects) {
+      this.legacyObjects = readObjectsV1(this.buffer, this.objectsStart);
+    }
+    return this.legacyObjects;
+  }
+
+  private getLegacyMembers(objectName: string): Geometry[] {
+    const object = this.getLegacyObjects()[objectName];
+    if (!object) {
+      throw new Error(`Unknown object: ${objectName}`);
+    }
+    return object.type === 'GeometryCollection' ? object.geometries : [object];
+  }
 }
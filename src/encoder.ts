@@ -1,21 +1,141 @@
-import { Topology, Arc } from './types.js';
-import { MAGIC, VERSION, FLAG_HAS_TRANSFORM, FLAG_HAS_BBOX } from './constants.js';
+import {
+  Topology,
+  Geometry,
+  Position,
+  Transform,
+  CoordinateType,
+  CoordinateArray,
+  EncodeOptions,
+  EncodeReport
+} from './types.js';
+import {
+  MAGIC,
+  VERSION,
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_CHECKSUMS,
+  SECTION_HEADER,
+  SECTION_STRINGS,
+  SECTION_ARCS,
+  SECTION_OBJECTS,
+  SECTION_PROPERTIES,
+  SECTION_SPATIAL_INDEX,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  SECTION_WEIGHTS,
+  SECTION_POINTS,
+  SECTION_CHECKSUMS,
+  SECTION_REQUIRED,
+  NO_STRING,
+  GEOMETRY_TYPES,
+  GEOMETRY_ID_STRING,
+  GEOMETRY_ID_NUMBER,
+  OBJECTS_FLAG_INT16_ARC_REFS,
+  MAX_DIMENSIONS
+} from './constants.js';
+import { encodeProperties } from './properties.js';
+import { encodePoints } from './points.js';
+import { quantize } from './quantize.js';
+import { encodeVarintArcs } from './varint.js';
+import { checksumTrailerSize, writeChecksumTrailer, ChecksumSection } from './checksum.js';
+import { computeArcBoxes, computeGeometryBoxes, encodeSpatialIndex } from './spatial-index.js';
+import { computeWeights } from './simplify.js';
+import { DirectoryEntry, sectionDirectorySize, writeSectionDirectory } from './header.js';
+import { ArcTable, flattenArcs, widenArcTable } from './arc-table.js';
+import {
+  BYTES_PER_COORDINATE,
+  chooseCoordinateType,
+  coordinateTypeFlags,
+  dimensionsFlags,
+  createCoordinateArray
+} from './coordinates.js';
 
 /**
  * Encodes a TopoJSON topology into a binary format using typed arrays
  */
-export function encode(topology: Topology): ArrayBuffer {
+export function encode(topology: Topology, options: EncodeOptions = {}): ArrayBuffer {
+  return encodeWithReport(topology, options).buffer;
+}
+
+/**
+ * Encodes a TopoJSON topology, also reporting any precision lost to
+ * quantization or the chosen coordinate type
+ */
+export function encodeWithReport(
+  topology: Topology,
+  options: EncodeOptions = {}
+): { buffer: ArrayBuffer; report: EncodeReport } {
+  let quantizationError: [number, number] = [0, 0];
+  if (options.quantization !== undefined) {
+    const quantized = quantize(topology, options.quantization);
+    topology = quantized.topology;
+    quantizationError = quantized.maxError;
+  }
+  return encodeFlatTopology({ ...topology, arcs: flattenArcs(topology.arcs) }, options, quantizationError);
+}
+
+/**
+ * A topology whose arcs are already flattened into an ArcTable
+ */
+export interface FlatTopology {
+  objects: Record<string, Geometry>;
+  arcs: ArcTable;
+  transform?: Transform;
+  bbox?: [number, number, number, number];
+}
+
+/**
+ * Writes a topology with flattened arcs (the quantization option has already
+ * been applied, with the given rounding error)
+ */
+export function encodeFlatTopology(
+  topology: FlatTopology,
+  options: EncodeOptions,
+  quantizationError: [number, number] = [0, 0]
+): { buffer: ArrayBuffer; report: EncodeReport } {
   const hasTransform = !!topology.transform;
   const hasBBox = !!topology.bbox;
 
   // Calculate sizes
-  const numArcs = topology.arcs.length;
-  const totalArcPoints = topology.arcs.reduce((sum, arc) => sum + arc.length, 0);
+  const numArcs = topology.arcs.offsets.length - 1;
+  const totalArcPoints = topology.arcs.offsets[numArcs];
   const objectNames = Object.keys(topology.objects);
   const numObjects = objectNames.length;
 
+  // Object names take the first string table slots, followed by geometry ids
+  const strings = new StringTableBuilder();
+  for (const name of objectNames) {
+    strings.add(name);
+  }
+  const objects = encodeObjects(topology.objects, objectNames, strings);
+  const hasProperties = objects.properties.some(props => props !== undefined);
+  const properties = hasProperties
+    ? encodeProperties(objects.properties, value => strings.add(value))
+    : undefined;
+  const dimensions = countDimensions(topology.arcs.dimensions, objects.positions);
+  const arcs = dimensions > topology.arcs.dimensions ? widenArcTable(topology.arcs, dimensions) : topology.arcs;
+  const points = objects.positions.some(positions => positions !== undefined)
+    ? encodePoints(objects.positions, hasTransform, dimensions)
+    : undefined;
+
+  let spatialIndex: Uint8Array | undefined;
+  if (options.spatialIndex) {
+    const arcBoxes = computeArcBoxes(arcs, topology.transform);
+    const points = objects.geometries.map(geometry =>
+      geometry.type === 'Point' ? [geometry.coordinates]
+        : geometry.type === 'MultiPoint' ? geometry.coordinates
+        : undefined
+    );
+    const geometryBoxes = computeGeometryBoxes({ ...objects, points }, arcBoxes, topology.transform);
+    spatialIndex = encodeSpatialIndex(arcBoxes, geometryBoxes);
+  }
+
   // Build string table
-  const stringTable = buildStringTable(topology);
+  const stringTable = strings.toBytes();
   const stringTableSize = stringTable.byteLength;
   // Pad to 4-byte alignment for typed arrays
   const stringTablePadded = Math.ceil(stringTableSize / 4) * 4;
@@ -28,32 +148,156 @@ export function encode(topology: Topology): ArrayBuffer {
   if (hasTransform) offset += 32; // 4 x Float64
   if (hasBBox) offset += 32; // 4 x Float64
 
+  // Section directory: strings, arcs and objects, plus one entry per optional section
+  const numSections = 3 + [options.presimplify, points, properties, spatialIndex, options.checksums].filter(Boolean).length;
+  offset += sectionDirectorySize(numSections);
+
+  const stringTableStart = offset;
   offset += stringTablePadded;
 
   // Arc offsets: (numArcs + 1) x Uint32
+  const arcOffsetsStart = offset;
   const arcOffsetsSize = (numArcs + 1) * 4;
   offset += arcOffsetsSize;
 
-  // Ensure 8-byte alignment for Float64Array (when not using transform)
-  const bytesPerCoord = hasTransform ? 4 : 8; // Int32 if quantized, Float64 otherwise
-  if (bytesPerCoord === 8 && offset % 8 !== 0) {
-    offset += 4; // Add padding to reach 8-byte alignment
+  // Unquantized arcs store every value of each position; quantized ones only x/y
+  const stride = hasTransform ? 2 : dimensions;
+  let coordinateType: CoordinateType;
+  let varints: { bytes: Uint8Array; byteOffsets: Uint32Array } | undefined;
+  const varintIndex = options.arcIndex !== false;
+  let arcDataStart: number;
+  let arcDataSize: number;
+
+  if (options.arcEncoding === 'varint') {
+    if (!hasTransform) {
+      throw new Error('Varint arc encoding requires a quantized topology (see the quantization option)');
+    }
+    if (options.coordinateType !== undefined && options.coordinateType !== 'auto' && options.coordinateType !== 'int32') {
+      throw new Error(`Varint arc encoding cannot be combined with coordinate type ${options.coordinateType}`);
+    }
+    coordinateType = 'int32';
+    varints = encodeVarintArcs(arcs);
+
+    // Optional arc byte offsets: (numArcs + 1) x Uint32, then size-prefixed varint bytes
+    if (varintIndex) offset += varints.byteOffsets.byteLength;
+    arcDataStart = offset;
+    arcDataSize = 4 + varints.bytes.byteLength;
+    offset += arcDataSize;
+  } else {
+    if (options.arcEncoding !== undefined && options.arcEncoding !== 'fixed') {
+      throw new Error(`Unsupported arc encoding: ${options.arcEncoding}`);
+    }
+
+    // Align arc data to its element size (only Float64 needs extra padding)
+    coordinateType = chooseCoordinateType(arcs, options.coordinateType, hasTransform);
+    const bytesPerCoord = BYTES_PER_COORDINATE[coordinateType];
+    offset = Math.ceil(offset / bytesPerCoord) * bytesPerCoord;
+    arcDataStart = offset;
+
+    // Arc data: totalArcPoints x stride coordinates
+    arcDataSize = totalArcPoints * stride * bytesPerCoord;
+    offset += arcDataSize;
   }
-  const arcDataStart = offset;
 
-  // Arc data: totalArcPoints x 2 coordinates
-  const arcDataSize = totalArcPoints * 2 * bytesPerCoord;
-  offset += arcDataSize;
+  // Values beyond x/y of quantized arcs, as a separate Float64 channel
+  let extraValuesStart = 0;
+  if (stride < dimensions) {
+    extraValuesStart = Math.ceil(offset / 8) * 8;
+    offset = extraValuesStart + totalArcPoints * (dimensions - stride) * 8;
+  }
+  const arcsEnd = offset;
+
+  // Simplification weights, one Float64 per arc point, 8-byte aligned
+  let weights: Float64Array | undefined;
+  let weightsStart = 0;
+  if (options.presimplify) {
+    weights = computeWeights(arcs, topology.transform);
+    weightsStart = Math.ceil(offset / 8) * 8;
+    offset = weightsStart + weights.byteLength;
+  }
+
+  // Points section, 8-byte aligned for Float64 coordinates
+  let pointsStart = 0;
+  if (points) {
+    pointsStart = Math.ceil(offset / 8) * 8;
+    offset = pointsStart + points.byteLength;
+  }
 
-  // For simplicity, we'll encode objects as JSON for now
-  // In a full implementation, these would also be binary encoded
-  const objectsJSON = JSON.stringify({
-    names: objectNames,
-    objects: topology.objects
-  });
-  const objectsData = new TextEncoder().encode(objectsJSON);
-  const objectsSize = objectsData.byteLength;
-  offset += 4 + objectsSize; // 4 bytes for size + data
+  // Objects section, 4-byte aligned (only needs padding after Int16 arc data)
+  offset = Math.ceil(offset / 4) * 4;
+  const objectsStart = offset;
+  const objectsSize = objectsSectionSize(objects);
+  offset += objectsSize;
+
+  // Properties section, 8-byte aligned for its Float64 columns
+  let propertiesStart = 0;
+  if (properties) {
+    propertiesStart = Math.ceil(offset / 8) * 8;
+    offset = propertiesStart + properties.byteLength;
+  }
+  const objectsEnd = properties ? propertiesStart : offset;
+
+  // Spatial index section, 8-byte aligned for its Float64 boxes
+  let spatialIndexStart = 0;
+  if (spatialIndex) {
+    spatialIndexStart = Math.ceil(offset / 8) * 8;
+    offset = spatialIndexStart + spatialIndex.byteLength;
+  }
+
+  // Directory entries, in file order; sections needed to rebuild the topology are required
+  const directory: DirectoryEntry[] = [
+    { type: SECTION_STRINGS, flags: SECTION_REQUIRED, offset: stringTableStart, length: stringTableSize },
+    { type: SECTION_ARCS, flags: SECTION_REQUIRED, offset: arcOffsetsStart, length: arcsEnd - arcOffsetsStart }
+  ];
+  if (weights) {
+    directory.push({ type: SECTION_WEIGHTS, flags: 0, offset: weightsStart, length: weights.byteLength });
+  }
+  if (points) {
+    directory.push({ type: SECTION_POINTS, flags: SECTION_REQUIRED, offset: pointsStart, length: points.byteLength });
+  }
+  directory.push({ type: SECTION_OBJECTS, flags: SECTION_REQUIRED, offset: objectsStart, length: objectsSize });
+  if (properties) {
+    directory.push({
+      type: SECTION_PROPERTIES,
+      flags: SECTION_REQUIRED,
+      offset: propertiesStart,
+      length: properties.byteLength
+    });
+  }
+  if (spatialIndex) {
+    directory.push({ type: SECTION_SPATIAL_INDEX, flags: 0, offset: spatialIndexStart, length: spatialIndex.byteLength });
+  }
+
+  // Checksum trailer, 4-byte aligned, covering each section
+  const sections: ChecksumSection[] = [];
+  let checksumsStart = 0;
+  if (options.checksums) {
+    sections.push(
+      { id: SECTION_HEADER, offset: 0, length: stringTableStart },
+      { id: SECTION_STRINGS, offset: stringTableStart, length: arcOffsetsStart - stringTableStart },
+      {
+        id: SECTION_ARCS,
+        offset: arcOffsetsStart,
+        length: arcsEnd - arcOffsetsStart
+      }
+    );
+    if (weights) {
+      sections.push({ id: SECTION_WEIGHTS, offset: weightsStart, length: weights.byteLength });
+    }
+    if (points) {
+      sections.push({ id: SECTION_POINTS, offset: pointsStart, length: points.byteLength });
+    }
+    sections.push({ id: SECTION_OBJECTS, offset: objectsStart, length: objectsEnd - objectsStart });
+    if (properties) {
+      sections.push({ id: SECTION_PROPERTIES, offset: propertiesStart, length: properties.byteLength });
+    }
+    if (spatialIndex) {
+      sections.push({ id: SECTION_SPATIAL_INDEX, offset: spatialIndexStart, length: spatialIndex.byteLength });
+    }
+    checksumsStart = Math.ceil(offset / 4) * 4;
+    offset = checksumsStart + checksumTrailerSize(sections.length);
+    directory.push({ type: SECTION_CHECKSUMS, flags: 0, offset: checksumsStart, length: offset - checksumsStart });
+  }
 
   // Allocate buffer
   const buffer = new ArrayBuffer(offset);
@@ -67,6 +311,15 @@ export function encode(topology: Topology): ArrayBuffer {
   let flags = 0;
   if (hasTransform) flags |= FLAG_HAS_TRANSFORM;
   if (hasBBox) flags |= FLAG_HAS_BBOX;
+  if (hasProperties) flags |= FLAG_HAS_PROPERTIES;
+  flags |= coordinateTypeFlags(coordinateType, hasTransform);
+  if (varints) flags |= FLAG_VARINT_ARCS;
+  if (varints && varintIndex) flags |= FLAG_ARC_BYTE_INDEX;
+  if (options.checksums) flags |= FLAG_HAS_CHECKSUMS;
+  if (spatialIndex) flags |= FLAG_HAS_SPATIAL_INDEX;
+  if (weights) flags |= FLAG_HAS_WEIGHTS;
+  if (points) flags |= FLAG_HAS_POINTS;
+  flags |= dimensionsFlags(dimensions);
   view.setUint16(offset, flags, false); offset += 2;
 
   view.setUint32(offset, numArcs, false); offset += 4;
@@ -89,121 +342,417 @@ export function encode(topology: Topology): ArrayBuffer {
     }
   }
 
+  offset = writeSectionDirectory(view, offset, directory);
+
   // Write string table
   new Uint8Array(buffer, offset, stringTableSize).set(stringTable);
   offset += stringTablePadded; // Use padded size for alignment
 
   // Write arc offsets
-  const arcOffsets = new Uint32Array(buffer, offset, numArcs + 1);
-  let arcPointOffset = 0;
-  for (let i = 0; i < numArcs; i++) {
-    arcOffsets[i] = arcPointOffset;
-    arcPointOffset += topology.arcs[i].length;
-  }
-  arcOffsets[numArcs] = arcPointOffset; // Total points
+  new Uint32Array(buffer, offset, numArcs + 1).set(arcs.offsets);
   offset += arcOffsetsSize;
 
-  // Skip padding to reach arcDataStart if needed
-  offset = arcDataStart;
-
   // Write arc data
-  if (hasTransform) {
-    const arcData = new Int32Array(buffer, offset, totalArcPoints * 2);
-    let idx = 0;
-    for (const arc of topology.arcs) {
-      for (const [x, y] of arc) {
-        arcData[idx++] = x;
-        arcData[idx++] = y;
-      }
+  let storageError: [number, number] = [0, 0];
+  if (varints) {
+    if (varintIndex) {
+      new Uint32Array(buffer, offset, numArcs + 1).set(varints.byteOffsets);
     }
+    offset = arcDataStart;
+    view.setUint32(offset, varints.bytes.byteLength, false); offset += 4;
+    new Uint8Array(buffer, offset, varints.bytes.byteLength).set(varints.bytes);
   } else {
-    const arcData = new Float64Array(buffer, offset, totalArcPoints * 2);
-    let idx = 0;
-    for (const arc of topology.arcs) {
-      for (const [x, y] of arc) {
-        arcData[idx++] = x;
-        arcData[idx++] = y;
+    // Skip padding to reach arcDataStart if needed
+    offset = arcDataStart;
+    const arcData = createCoordinateArray(coordinateType, buffer, offset, totalArcPoints * stride);
+    storageError = writeArcData(arcs, arcData, stride, topology.transform);
+  }
+  if (stride < dimensions) {
+    writeExtraValues(arcs, new Float64Array(buffer, extraValuesStart, totalArcPoints * (dimensions - stride)), stride);
+  }
+
+  // Write simplification weights
+  if (weights) {
+    new Float64Array(buffer, weightsStart, weights.length).set(weights);
+  }
+
+  // Write points section
+  if (points) {
+    new Uint8Array(buffer, pointsStart, points.byteLength).set(points);
+  }
+
+  // Write objects section
+  writeObjectsSection(buffer, objectsStart, objects);
+
+  // Write properties section
+  if (properties) {
+    new Uint8Array(buffer, propertiesStart, properties.byteLength).set(properties);
+  }
+
+  // Write spatial index section
+  if (spatialIndex) {
+    new Uint8Array(buffer, spatialIndexStart, spatialIndex.byteLength).set(spatialIndex);
+  }
+
+  // Write checksums last, once every section is in place
+  if (options.checksums) {
+    writeChecksumTrailer(buffer, checksumsStart, sections);
+  }
+
+  const maxError: [number, number] = [
+    quantizationError[0] + storageError[0],
+    quantizationError[1] + storageError[1]
+  ];
+  const report: EncodeReport = {
+    coordinateType,
+    quantized: options.quantization !== undefined,
+    maxError,
+    lossless: maxError[0] === 0 && maxError[1] === 0
+  };
+  if (topology.transform) {
+    report.transform = topology.transform;
+  }
+
+  return { buffer, report };
+}
+
+/**
+ * Writes interleaved arc coordinates (x/y, then any further values up to the
+ * stride, padded with NaN), rounding for integer types.
+ * Returns the largest x and y error (in untransformed units) this introduced;
+ * for quantized topologies, errors in deltas accumulate along each arc.
+ */
+export function writeArcData(
+  arcs: ArcTable,
+  arcData: CoordinateArray,
+  stride: number,
+  transform?: Transform
+): [number, number] {
+  const integer = arcData instanceof Int16Array || arcData instanceof Int32Array;
+  const kx = transform ? Math.abs(transform.scale[0]) : 1;
+  const ky = transform ? Math.abs(transform.scale[1]) : 1;
+  const { coords, offsets, dimensions } = arcs;
+  let errorX = 0;
+  let errorY = 0;
+  let idx = 0;
+
+  for (let i = 0; i + 1 < offsets.length; i++) {
+    // Running source and stored positions, for delta-encoded arcs
+    let sx = 0, sy = 0, tx = 0, ty = 0;
+    for (let p = offsets[i]; p < offsets[i + 1]; p++) {
+      const x = coords[p * dimensions];
+      const y = coords[p * dimensions + 1];
+      for (let d = 0; d < stride; d++) {
+        const value = coords[p * dimensions + d];
+        arcData[idx + d] = integer ? Math.round(value) : value;
       }
+      if (transform) {
+        sx += x; sy += y;
+        tx += arcData[idx]; ty += arcData[idx + 1];
+        errorX = Math.max(errorX, Math.abs(tx - sx) * kx);
+        errorY = Math.max(errorY, Math.abs(ty - sy) * ky);
+      } else {
+        errorX = Math.max(errorX, Math.abs(arcData[idx] - x));
+        errorY = Math.max(errorY, Math.abs(arcData[idx + 1] - y));
+      }
+      idx += stride;
     }
   }
-  offset += arcDataSize;
 
-  // Write objects size and data
-  view.setUint32(offset, objectsSize, false); offset += 4;
-  new Uint8Array(buffer, offset, objectsSize).set(objectsData);
+  return [errorX, errorY];
+}
 
-  return buffer;
+/**
+ * Writes the values of each arc point beyond the stored stride (for quantized
+ * arcs, everything after x/y)
+ */
+function writeExtraValues(arcs: ArcTable, values: Float64Array, stride: number): void {
+  const { coords, dimensions } = arcs;
+  let idx = 0;
+  for (let p = 0; p < coords.length; p += dimensions) {
+    for (let d = stride; d < dimensions; d++) {
+      values[idx++] = coords[p + d];
+    }
+  }
 }
 
 /**
- * Builds a string table from object names and properties
+ * Number of values per position: the arcs' count, or more if a plain point
+ * position is longer
  */
-function buildStringTable(topology: Topology): Uint8Array {
-  const encoder = new TextEncoder();
-  const strings: Uint8Array[] = [];
+function countDimensions(arcDimensions: number, positions: (Position[] | undefined)[]): number {
+  let dimensions = arcDimensions;
+  for (const points of positions) {
+    for (const point of points || []) {
+      if (point.length > dimensions) dimensions = point.length;
+    }
+  }
+  if (dimensions > MAX_DIMENSIONS) {
+    throw new Error(`Arc positions have ${dimensions} values, but at most ${MAX_DIMENSIONS} are supported`);
+  }
+  return dimensions;
+}
 
-  // Add object names
-  for (const name of Object.keys(topology.objects)) {
-    strings.push(encoder.encode(name + '\0'));
+/**
+ * Collects unique strings for the string table and hands out their indices
+ */
+export class StringTableBuilder {
+  private strings: string[] = [];
+  private indices = new Map<string, number>();
+
+  /**
+   * Adds a string (if not already present) and returns its index
+   */
+  add(value: string): number {
+    let index = this.indices.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.indices.set(value, index);
+    }
+    return index;
   }
 
-  // Calculate total size
-  const totalSize = strings.reduce((sum, s) => sum + s.byteLength, 0);
+  /**
+   * Serializes the strings as a null-terminated string table
+   */
+  toBytes(): Uint8Array {
+    const encoder = new TextEncoder();
+    const encoded = this.strings.map(s => encoder.encode(s + '\0'));
+
+    // Calculate total size
+    const totalSize = encoded.reduce((sum, s) => sum + s.byteLength, 0);
+
+    // Concatenate all strings
+    const result = new Uint8Array(totalSize);
+    let offset = 0;
+    for (const s of encoded) {
+      result.set(s, offset);
+      offset += s.byteLength;
+    }
 
-  // Concatenate all strings
-  const result = new Uint8Array(totalSize);
-  let offset = 0;
-  for (const s of strings) {
-    result.set(s, offset);
-    offset += s.byteLength;
+    return result;
   }
+}
 
-  return result;
+/**
+ * Columnar binary form of every geometry in the topology.
+ *
+ * Geometries are numbered breadth-first: the top-level objects come first (in
+ * object name order), and the members of each GeometryCollection are contiguous.
+ * Arc-based geometries are stored as geometry -> polygons -> rings -> arc refs,
+ * where a LineString is one polygon with one ring and a Polygon or
+ * MultiLineString is one polygon with several rings.
+ */
+export interface EncodedObjects {
+  types: Uint8Array;
+  ids: Uint32Array;
+  childOffsets: Uint32Array;
+  polygonOffsets: Uint32Array;
+  ringOffsets: Uint32Array;
+  arcRefOffsets: Uint32Array;
+  arcRefs: Int16Array | Int32Array;
+  extras: Uint8Array;
+  /** Properties of each geometry, written to the properties section */
+  properties: (Record<string, unknown> | undefined)[];
+  /** Point and MultiPoint positions of each geometry, written to the points section */
+  positions: (Position[] | undefined)[];
+  /** The geometries, in objects section order */
+  geometries: Geometry[];
 }
 
+/** Geometry members that are stored in binary rather than in the extras JSON */
+const BINARY_MEMBERS = new Set(['type', 'id', 'arcs', 'geometries']);
+
 /**
- * Get memory usage statistics for the binary format
+ * Flattens the topology's objects into binary columns
  */
-export function getMemoryStats(buffer: ArrayBuffer): {
-  totalBytes: number;
-  headerBytes: number;
-  arcBytes: number;
-  objectBytes: number;
-} {
-  const view = new DataView(buffer);
+export function encodeObjects(
+  topologyObjects: Record<string, Geometry>,
+  objectNames: string[],
+  strings: StringTableBuilder
+): EncodedObjects {
+  const queue: Geometry[] = objectNames.map(name => topologyObjects[name]);
+  const types: number[] = [];
+  const ids: number[] = [];
+  const childOffsets: number[] = [queue.length];
+  const polygonOffsets: number[] = [0];
+  const ringOffsets: number[] = [0];
+  const arcRefOffsets: number[] = [0];
+  const arcRefs: number[] = [];
+  const properties: (Record<string, unknown> | undefined)[] = [];
+  const positions: (Position[] | undefined)[] = [];
+  const extras: Record<number, Record<string, unknown>> = {};
+  let hasExtras = false;
+
+  const addPolygon = (rings: number[][]) => {
+    for (const ring of rings) {
+      for (const arcRef of ring) {
+        arcRefs.push(arcRef);
+      }
+      arcRefOffsets.push(arcRefs.length);
+    }
+    ringOffsets.push(arcRefOffsets.length - 1);
+  };
 
-  let offset = 0;
-  const magic = view.getUint32(offset, false); offset += 4;
-  if (magic !== MAGIC) {
-    throw new Error('Invalid magic number');
+  for (let i = 0; i < queue.length; i++) {
+    const geometry = queue[i];
+
+    let type = GEOMETRY_TYPES.indexOf(geometry.type);
+    if (type === -1) {
+      throw new Error(`Unsupported geometry type: ${geometry.type}`);
+    }
+    let id = NO_STRING;
+    if (typeof geometry.id === 'string') {
+      type |= GEOMETRY_ID_STRING;
+      id = strings.add(geometry.id);
+    } else if (typeof geometry.id === 'number') {
+      type |= GEOMETRY_ID_NUMBER;
+      id = strings.add(String(geometry.id));
+    }
+    types.push(type);
+    ids.push(id);
+
+    switch (geometry.type) {
+      case 'LineString':
+        addPolygon([geometry.arcs]);
+        break;
+      case 'MultiLineString':
+      case 'Polygon':
+        addPolygon(geometry.arcs);
+        break;
+      case 'MultiPolygon':
+        for (const polygon of geometry.arcs) {
+          addPolygon(polygon);
+        }
+        break;
+      case 'GeometryCollection':
+        for (const child of geometry.geometries) {
+          queue.push(child);
+        }
+        break;
+    }
+    polygonOffsets.push(ringOffsets.length - 1);
+    childOffsets.push(queue.length);
+
+    // Plain x/y positions go to the points section
+    let points: Position[] | undefined;
+    if (geometry.type === 'Point') {
+      points = [geometry.coordinates];
+    } else if (geometry.type === 'MultiPoint') {
+      points = geometry.coordinates;
+    }
+    const isBinaryPoints = Array.isArray(points) && points.every(isPlainPosition);
+    positions.push(isBinaryPoints ? points : undefined);
+
+    // Plain-object properties go to the properties section
+    const props = geometry.properties;
+    const isPropertiesObject = typeof props === 'object' && props !== null && !Array.isArray(props);
+    properties.push(isPropertiesObject ? props : undefined);
+
+    // Anything else without a binary representation is kept as JSON
+    const rest: Record<string, unknown> = {};
+    let hasRest = false;
+    for (const [key, value] of Object.entries(geometry)) {
+      if (
+        !BINARY_MEMBERS.has(key) &&
+        !(key === 'properties' && isPropertiesObject) &&
+        !(key === 'coordinates' && isBinaryPoints)
+      ) {
+        rest[key] = value;
+        hasRest = true;
+      }
+    }
+    if (hasRest) {
+      extras[i] = rest;
+      hasExtras = true;
+    }
   }
 
-  const version = view.getUint16(offset, false); offset += 2;
-  const flags = view.getUint16(offset, false); offset += 2;
-  const numArcs = view.getUint32(offset, false); offset += 4;
-  const totalArcPoints = view.getUint32(offset, false); offset += 4;
-  const numObjects = view.getUint32(offset, false); offset += 4;
-  const stringTableSize = view.getUint32(offset, false); offset += 4;
+  const fitsInt16 = arcRefs.every(ref => ref >= -0x8000 && ref <= 0x7FFF);
 
-  const hasTransform = (flags & FLAG_HAS_TRANSFORM) !== 0;
-  const hasBBox = (flags & FLAG_HAS_BBOX) !== 0;
+  return {
+    types: Uint8Array.from(types),
+    ids: Uint32Array.from(ids),
+    childOffsets: Uint32Array.from(childOffsets),
+    polygonOffsets: Uint32Array.from(polygonOffsets),
+    ringOffsets: Uint32Array.from(ringOffsets),
+    arcRefOffsets: Uint32Array.from(arcRefOffsets),
+    arcRefs: fitsInt16 ? Int16Array.from(arcRefs) : Int32Array.from(arcRefs),
+    extras: hasExtras ? new TextEncoder().encode(JSON.stringify(extras)) : new Uint8Array(0),
+    properties,
+    positions,
+    geometries: queue
+  };
+}
 
-  let headerBytes = 24;
-  if (hasTransform) headerBytes += 32;
-  if (hasBBox) headerBytes += 32;
-  headerBytes += stringTableSize;
+/**
+ * Whether a position is a list of 2 to MAX_DIMENSIONS numbers, which the
+ * points section can hold
+ */
+function isPlainPosition(position: unknown): boolean {
+  return Array.isArray(position) &&
+    position.length >= 2 &&
+    position.length <= MAX_DIMENSIONS &&
+    position.every(value => typeof value === 'number');
+}
 
-  const arcOffsetsSize = (numArcs + 1) * 4;
-  const bytesPerCoord = hasTransform ? 4 : 8;
-  const arcDataSize = totalArcPoints * 2 * bytesPerCoord;
-  const arcBytes = arcOffsetsSize + arcDataSize;
+/**
+ * Size in bytes of the objects section, including alignment padding
+ */
+export function objectsSectionSize(objects: EncodedObjects): number {
+  let size = 20; // numGeometries, numPolygons, numRings, numArcRefs, flags
+  size += objects.ids.byteLength;
+  size += objects.childOffsets.byteLength;
+  size += objects.polygonOffsets.byteLength;
+  size += objects.ringOffsets.byteLength;
+  size += objects.arcRefOffsets.byteLength;
+  size += Math.ceil(objects.arcRefs.byteLength / 4) * 4;
+  size += Math.ceil(objects.types.byteLength / 4) * 4;
+  size += 4 + Math.ceil(objects.extras.byteLength / 4) * 4;
+  return size;
+}
 
-  const objectBytes = buffer.byteLength - headerBytes - arcBytes;
+/**
+ * Writes the objects section at the given (4-byte aligned) offset
+ */
+export function writeObjectsSection(buffer: ArrayBuffer, offset: number, objects: EncodedObjects): void {
+  const view = new DataView(buffer);
+  const numGeometries = objects.types.length;
+  const numPolygons = objects.ringOffsets.length - 1;
+  const numRings = objects.arcRefOffsets.length - 1;
+  const numArcRefs = objects.arcRefs.length;
 
-  return {
-    totalBytes: buffer.byteLength,
-    headerBytes,
-    arcBytes,
-    objectBytes
-  };
+  let flags = 0;
+  if (objects.arcRefs instanceof Int16Array) flags |= OBJECTS_FLAG_INT16_ARC_REFS;
+
+  view.setUint32(offset, numGeometries, false); offset += 4;
+  view.setUint32(offset, numPolygons, false); offset += 4;
+  view.setUint32(offset, numRings, false); offset += 4;
+  view.setUint32(offset, numArcRefs, false); offset += 4;
+  view.setUint32(offset, flags, false); offset += 4;
+
+  for (const column of [
+    objects.ids,
+    objects.childOffsets,
+    objects.polygonOffsets,
+    objects.ringOffsets,
+    objects.arcRefOffsets
+  ]) {
+    new Uint32Array(buffer, offset, column.length).set(column);
+    offset += column.byteLength;
+  }
+
+  if (objects.arcRefs instanceof Int16Array) {
+    new Int16Array(buffer, offset, numArcRefs).set(objects.arcRefs);
+  } else {
+    new Int32Array(buffer, offset, numArcRefs).set(objects.arcRefs);
+  }
+  offset += Math.ceil(objects.arcRefs.byteLength / 4) * 4;
+
+  new Uint8Array(buffer, offset, numGeometries).set(objects.types);
+  offset += Math.ceil(numGeometries / 4) * 4;
+
+  view.setUint32(offset, objects.extras.byteLength, false); offset += 4;
+  new Uint8Array(buffer, offset, objects.extras.byteLength).set(objects.extras);
 }
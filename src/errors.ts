@@ -0,0 +1,22 @@
+/**
+ * Error types
+ */
+
+import type { ValidationIssueCode } from './types.js';
+
+/**
+ * Thrown for malformed or unsupported binary buffers
+ */
+export class TopobinFormatError extends Error {
+  /** Kind of problem, as reported by validate() */
+  readonly code: ValidationIssueCode;
+  /** Byte offset of the offending field or section */
+  readonly offset: number;
+
+  constructor(message: string, code: ValidationIssueCode, offset: number) {
+    super(message);
+    this.name = 'TopobinFormatError';
+    this.code = code;
+    this.offset = offset;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Extraction of a subset of objects into a new buffer
+ *
+ * Only the selected geometries, and the arcs they reference, are read from
+ * the source buffer. Kept arcs stay in their original order and are
+ * renumbered from 0. The output is encoded with the source buffer's
+ * coordinate type and optional sections.
+ */
+
+import type { Arc, BinaryInput, EncodeOptions, ExtractOptions, Geometry, Topology } from './types.js';
+import {
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_CHECKSUMS,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS
+} from './constants.js';
+import { readHeader } from './header.js';
+import { BinaryTopologyView } from './decoder.js';
+import { encode } from './encoder.js';
+import { computeBBox } from './quantize.js';
+import { toBufferRange } from './input.js';
+
+/**
+ * Copies the selected objects, optionally filtered, into a new buffer that
+ * holds only the arcs they use
+ */
+export function extract(input: BinaryInput, options: ExtractOptions): ArrayBuffer {
+  // Misaligned views are copied once here, and the view then reads the copy in place
+  const { buffer, byteOffset, byteLength } = toBufferRange(input);
+  const header = readHeader(buffer, byteOffset, byteLength);
+  const view = new BinaryTopologyView(new Uint8Array(buffer, byteOffset, byteLength));
+  const { filter } = options;
+
+  const selected: Record<string, Geometry> = {};
+  for (const name of options.objects) {
+    const object = view.getObject(name);
+    if (!object) {
+      throw new Error(`Unknown object: ${name}`);
+    }
+    if (object.type === 'GeometryCollection') {
+      selected[name] = filter ? { ...object, geometries: object.geometries.filter(g => filter(g, name)) } : object;
+    } else if (!filter || filter(object, name)) {
+      selected[name] = object;
+    }
+  }
+
+  // Number the used arcs in their original order
+  const used = new Uint8Array(view.getArcCount());
+  for (const object of Object.values(selected)) {
+    forEachArc(object, index => { used[index < 0 ? ~index : index] = 1; });
+  }
+  const arcs: Arc[] = [];
+  const renumbered = new Int32Array(used.length);
+  for (let i = 0; i < used.length; i++) {
+    if (used[i]) {
+      renumbered[i] = arcs.length;
+      arcs.push(view.getArc(i));
+    }
+  }
+  const renumber = (index: number) => index < 0 ? ~renumbered[~index] : renumbered[index];
+
+  const objects: Record<string, Geometry> = {};
+  for (const [name, object] of Object.entries(selected)) {
+    objects[name] = renumberArcs(object, renumber);
+  }
+
+  const topology: Topology = { type: 'Topology', objects, arcs };
+  if (header.transform) topology.transform = header.transform;
+  if (options.bbox) {
+    topology.bbox = computeBBox(topology);
+  } else if (header.bbox) {
+    topology.bbox = header.bbox;
+  }
+
+  const { flags } = header;
+  const encodeOptions: EncodeOptions = {
+    coordinateType: header.coordinateType,
+    checksums: (flags & FLAG_HAS_CHECKSUMS) !== 0,
+    spatialIndex: (flags & FLAG_HAS_SPATIAL_INDEX) !== 0,
+    presimplify: (flags & FLAG_HAS_WEIGHTS) !== 0
+  };
+  if (flags & FLAG_VARINT_ARCS) {
+    encodeOptions.arcEncoding = 'varint';
+    encodeOptions.arcIndex = (flags & FLAG_ARC_BYTE_INDEX) !== 0;
+  }
+  return encode(topology, encodeOptions);
+}
+
+/**
+ * Calls fn with every arc reference in a geometry, including nested members
+ */
+function forEachArc(geometry: Geometry, fn: (index: number) => void): void {
+  switch (geometry.type) {
+    case 'GeometryCollection':
+      geometry.geometries.forEach(g => forEachArc(g, fn));
+      break;
+    case 'LineString':
+      geometry.arcs.forEach(fn);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      geometry.arcs.forEach(ring => ring.forEach(fn));
+      break;
+    case 'MultiPolygon':
+      geometry.arcs.forEach(polygon => polygon.forEach(ring => ring.forEach(fn)));
+      break;
+  }
+}
+
+/**
+ * Copies a geometry with every arc reference passed through renumber
+ */
+export function renumberArcs(geometry: Geometry, renumber: (index: number) => number): Geometry {
+  switch (geometry.type) {
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(g => renumberArcs(g, renumber)) };
+    case 'LineString':
+      return { ...geometry, arcs: geometry.arcs.map(renumber) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, arcs: geometry.arcs.map(ring => ring.map(renumber)) };
+    case 'MultiPolygon':
+      return { ...geometry, arcs: geometry.arcs.map(polygon => polygon.map(ring => ring.map(renumber))) };
+    default:
+      return geometry;
+  }
+}
@@ -0,0 +1,575 @@
+/**
+ * Construction of binary topologies directly from GeoJSON
+ *
+ * This follows topojson-server's topology(): lines and rings are extracted
+ * into one coordinate buffer, junctions are found where paths meet or part,
+ * paths are cut at junctions, and duplicate arcs (forwards, reversed, or
+ * rotated rings) are stored once. Everything is kept in typed arrays indexed
+ * by position, and the arcs are written out as an ArcTable, so the input is
+ * never copied into a TopoJSON object graph.
+ *
+ * Only x and y are kept: extra position values are dropped.
+ */
+
+import type {
+  EncodeOptions,
+  Geometry,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  Position,
+  Transform
+} from './types.js';
+import type { ArcTable } from './arc-table.js';
+import { encodeFlatTopology } from './encoder.js';
+import { quantizationTransform } from './quantize.js';
+
+type GeoJSONObject = GeoJSONFeatureCollection | GeoJSONFeature | GeoJSONGeometry;
+
+/**
+ * Builds a buffer from GeoJSON objects, as encode(topology(objects)) would
+ * with topojson-server. The quantization option quantizes positions before
+ * arcs are extracted; other encode() options apply to the output buffer.
+ */
+export function fromGeoJSON(objects: Record<string, GeoJSONObject>, options: EncodeOptions = {}): ArrayBuffer {
+  const { quantization, ...encodeOptions } = options;
+  const { bbox, numPositions } = scanObjects(objects);
+  const transform = quantization !== undefined && bbox ? quantizationTransform(bbox, quantization) : undefined;
+
+  const paths = extractPaths(objects, numPositions, transform);
+  const indexes = indexPoints(paths.coords, paths.numPoints);
+  const junctions = findJunctions(paths, indexes);
+  const cut = cutPaths(paths, indexes, junctions);
+  const { arcStarts, arcEnds, refs } = dedupArcs(paths, indexes, cut);
+
+  // Fill in each line's and ring's arc references
+  let s = 0;
+  [...paths.lineArcs, ...paths.ringArcs].forEach((arcs, i) => {
+    for (let n = cut.segmentCounts[i]; n > 0; n--) arcs.push(refs[s++]);
+  });
+
+  const arcs = writeArcs(paths.coords, arcStarts, arcEnds, transform !== undefined);
+  return encodeFlatTopology({ objects: paths.objects, arcs, transform, bbox }, encodeOptions).buffer;
+}
+
+/**
+ * Validates the input, returning the bbox of every position and the room
+ * needed for line and ring points
+ */
+function scanObjects(objects: Record<string, GeoJSONObject>): {
+  bbox?: [number, number, number, number];
+  numPositions: number;
+} {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  let numPositions = 0;
+
+  const position = (p: Position) => {
+    const x = p[0], y = p[1];
+    if (x < x0) x0 = x;
+    if (x > x1) x1 = x;
+    if (y < y0) y0 = y;
+    if (y > y1) y1 = y;
+  };
+  const path = (positions: Position[]) => {
+    if (positions.length === 0) {
+      throw new Error('LineStrings and polygon rings must have at least one position');
+    }
+    positions.forEach(position);
+    // Room for padding a collapsed ring to 4 points
+    numPositions += Math.max(positions.length, 4);
+  };
+  const geometry = (g: GeoJSONGeometry | null): void => {
+    if (g == null) return;
+    switch (g.type) {
+      case 'GeometryCollection': g.geometries.forEach(geometry); break;
+      case 'Point': position(g.coordinates); break;
+      case 'MultiPoint': g.coordinates.forEach(position); break;
+      case 'LineString': path(g.coordinates); break;
+      case 'MultiLineString': g.coordinates.forEach(path); break;
+      case 'Polygon': g.coordinates.forEach(path); break;
+      case 'MultiPolygon': g.coordinates.forEach(polygon => polygon.forEach(path)); break;
+      default:
+        throw new Error(`Unsupported geometry type: ${(g as GeoJSONGeometry).type}`);
+    }
+  };
+
+  for (const object of Object.values(objects)) {
+    if (object == null) {
+      geometry(null);
+    } else if (object.type === 'FeatureCollection') {
+      object.features.forEach(f => geometry(f.geometry));
+    } else if (object.type === 'Feature') {
+      geometry(object.geometry);
+    } else {
+      geometry(object);
+    }
+  }
+
+  return {
+    bbox: x0 <= x1 ? [x0, y0, x1, y1] : undefined,
+    numPositions
+  };
+}
+
+/**
+ * Lines and rings in a shared coordinate buffer, with the geometries that
+ * reference them
+ */
+interface Paths {
+  /** x/y of every line and ring point */
+  coords: Float64Array;
+  numPoints: number;
+  /** Inclusive point ranges of the lines, as start/end pairs */
+  lines: number[];
+  /** Inclusive point ranges of the rings, whose last point repeats the first */
+  rings: number[];
+  /** Arc reference arrays of the output geometries, one per line and ring */
+  lineArcs: number[][];
+  ringArcs: number[][];
+  objects: Record<string, Geometry>;
+}
+
+/**
+ * Converts the input to geometries with empty arc references, copying line
+ * and ring positions into the coordinate buffer. With a transform, positions
+ * are quantized and coincident consecutive points dropped. As in
+ * topojson-server, short lines are padded to 2 points and rings to 4 by
+ * repeating the first point, and rings are assumed to be closed.
+ */
+function extractPaths(
+  objects: Record<string, GeoJSONObject>,
+  numPositions: number,
+  transform: Transform | undefined
+): Paths {
+  const coords = new Float64Array(numPositions * 2);
+  const lines: number[] = [];
+  const rings: number[] = [];
+  const lineArcs: number[][] = [];
+  const ringArcs: number[][] = [];
+  let numPoints = 0;
+
+  const [kx, ky] = transform ? transform.scale : [1, 1];
+  const [dx, dy] = transform ? transform.translate : [0, 0];
+  const point = (p: Position): Position =>
+    transform ? [Math.round((p[0] - dx) / kx), Math.round((p[1] - dy) / ky)] : [p[0], p[1]];
+
+  const path = (positions: Position[], minPoints: number, ranges: number[], arcLists: number[][]) => {
+    const start = numPoints;
+    for (const p of positions) {
+      const [x, y] = point(p);
+      if (!transform || numPoints === start || x !== coords[numPoints * 2 - 2] || y !== coords[numPoints * 2 - 1]) {
+        coords[numPoints * 2] = x;
+        coords[numPoints * 2 + 1] = y;
+        numPoints++;
+      }
+    }
+    while (numPoints - start < minPoints) {
+      coords[numPoints * 2] = coords[start * 2];
+      coords[numPoints * 2 + 1] = coords[start * 2 + 1];
+      numPoints++;
+    }
+    ranges.push(start, numPoints - 1);
+    const arcs: number[] = [];
+    arcLists.push(arcs);
+    return arcs;
+  };
+  const line = (positions: Position[]) => path(positions, 2, lines, lineArcs);
+  const ring = (positions: Position[]) => path(positions, 4, rings, ringArcs);
+
+  // Missing geometries become null geometries, as in topojson-server
+  const geometry = (g: GeoJSONGeometry | null): Geometry => {
+    if (g == null) return { type: null };
+    let output: Geometry;
+    switch (g.type) {
+      case 'GeometryCollection':
+        output = { type: 'GeometryCollection', geometries: g.geometries.map(geometry) };
+        break;
+      case 'Point':
+        output = { type: 'Point', coordinates: point(g.coordinates) };
+        break;
+      case 'MultiPoint':
+        output = { type: 'MultiPoint', coordinates: g.coordinates.map(point) };
+        break;
+      case 'LineString':
+        output = { type: 'LineString', arcs: line(g.coordinates) };
+        break;
+      case 'MultiLineString':
+        output = { type: 'MultiLineString', arcs: g.coordinates.map(line) };
+        break;
+      case 'Polygon':
+        output = { type: 'Polygon', arcs: g.coordinates.map(ring) };
+        break;
+      case 'MultiPolygon':
+        output = { type: 'MultiPolygon', arcs: g.coordinates.map(polygon => polygon.map(ring)) };
+        break;
+    }
+    if ((g as { bbox?: number[] }).bbox != null) output.bbox = (g as { bbox?: number[] }).bbox;
+    return output;
+  };
+  const feature = (f: GeoJSONFeature): Geometry => {
+    const output = geometry(f.geometry);
+    if (f.id != null) output.id = f.id;
+    if (f.bbox != null) output.bbox = f.bbox;
+    if (f.properties != null && Object.keys(f.properties).length > 0) output.properties = f.properties;
+    return output;
+  };
+
+  const outputs: Record<string, Geometry> = {};
+  for (const [name, object] of Object.entries(objects)) {
+    if (object == null) {
+      outputs[name] = geometry(null);
+    } else if (object.type === 'FeatureCollection') {
+      outputs[name] = { type: 'GeometryCollection', geometries: object.features.map(feature) };
+    } else if (object.type === 'Feature') {
+      outputs[name] = feature(object);
+    } else {
+      outputs[name] = geometry(object);
+    }
+  }
+
+  return { coords, numPoints, lines, rings, lineArcs, ringArcs, objects: outputs };
+}
+
+/**
+ * Maps every point to the first point with the same x/y, so points can be
+ * compared by index
+ */
+function indexPoints(coords: Float64Array, numPoints: number): Int32Array {
+  let size = 16;
+  while (size < numPoints * 2) size *= 2;
+  const mask = size - 1;
+  const table = new Int32Array(size).fill(-1);
+  const indexes = new Int32Array(numPoints);
+
+  const bits = new Float64Array(2);
+  const words = new Uint32Array(bits.buffer);
+  for (let p = 0; p < numPoints; p++) {
+    const x = coords[p * 2], y = coords[p * 2 + 1];
+    // +0 and -0 must hash alike, as they compare equal
+    bits[0] = x === 0 ? 0 : x;
+    bits[1] = y === 0 ? 0 : y;
+    let h = words[0] ^ words[1];
+    h = (h << 5) ^ (h >> 7) ^ words[2] ^ words[3];
+
+    for (let slot = h & mask; ; slot = (slot + 1) & mask) {
+      const q = table[slot];
+      if (q < 0) {
+        table[slot] = p;
+        indexes[p] = p;
+        break;
+      }
+      if (coords[q * 2] === x && coords[q * 2 + 1] === y) {
+        indexes[p] = q;
+        break;
+      }
+    }
+  }
+  return indexes;
+}
+
+/**
+ * Flags the points (by canonical index) where paths meet or part: the ends
+ * of lines, and points whose neighbours differ between the paths through them
+ */
+function findJunctions(paths: Paths, indexes: Int32Array): Uint8Array {
+  const { lines, rings, numPoints } = paths;
+  const junctions = new Uint8Array(numPoints);
+  const previousByIndex = new Int32Array(numPoints).fill(-1);
+  const nextByIndex = new Int32Array(numPoints).fill(-1);
+  const visitedByIndex = new Int32Array(numPoints).fill(-1);
+
+  const sequence = (path: number, previous: number, current: number, next: number) => {
+    // Ignore self-intersections
+    if (visitedByIndex[current] === path) return;
+    visitedByIndex[current] = path;
+    const left = previousByIndex[current];
+    if (left >= 0) {
+      const right = nextByIndex[current];
+      if ((left !== previous || right !== next) && (left !== next || right !== previous)) {
+        junctions[current] = 1;
+      }
+    } else {
+      previousByIndex[current] = previous;
+      nextByIndex[current] = next;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i += 2) {
+    let p = lines[i];
+    const end = lines[i + 1];
+    let previous: number;
+    let current = indexes[p];
+    let next = indexes[++p];
+    junctions[current] = 1;
+    while (++p <= end) {
+      previous = current;
+      current = next;
+      next = indexes[p];
+      sequence(i, previous, current, next);
+    }
+    junctions[next] = 1;
+  }
+
+  visitedByIndex.fill(-1);
+  for (let i = 0; i < rings.length; i += 2) {
+    let p = rings[i] + 1;
+    const end = rings[i + 1];
+    let previous = indexes[end - 1];
+    let current = indexes[p - 1];
+    let next = indexes[p];
+    sequence(i, previous, current, next);
+    while (++p <= end) {
+      previous = current;
+      current = next;
+      next = indexes[p];
+      sequence(i, previous, current, next);
+    }
+  }
+  return junctions;
+}
+
+/**
+ * Cuts lines and rings at junctions into segments (inclusive point ranges).
+ * A ring is first rotated to start at its first junction, so it is only cut
+ * where needed.
+ */
+function cutPaths(
+  paths: Paths,
+  indexes: Int32Array,
+  junctions: Uint8Array
+): { segments: number[]; segmentCounts: number[]; closed: Uint8Array } {
+  const { coords, lines, rings } = paths;
+  const segments: number[] = [];
+  const segmentCounts: number[] = [];
+  const isJunction = (p: number) => junctions[indexes[p]] === 1;
+
+  for (let i = 0; i < lines.length; i += 2) {
+    let start = lines[i];
+    const end = lines[i + 1];
+    let count = 1;
+    for (let mid = start + 1; mid < end; mid++) {
+      if (isJunction(mid)) {
+        segments.push(start, mid);
+        start = mid;
+        count++;
+      }
+    }
+    segments.push(start, end);
+    segmentCounts.push(count);
+  }
+
+  // Rings left whole stay closed, and are deduplicated as rings
+  const closed = new Uint8Array(rings.length / 2);
+  for (let i = 0; i < rings.length; i += 2) {
+    const ringStart = rings[i];
+    const ringEnd = rings[i + 1];
+    let fixed = isJunction(ringStart);
+    let start = ringStart;
+    let count = 1;
+    for (let mid = ringStart + 1; mid < ringEnd; mid++) {
+      if (!isJunction(mid)) continue;
+      if (fixed) {
+        segments.push(start, mid);
+        start = mid;
+        count++;
+      } else {
+        rotate(coords, indexes, ringStart, ringEnd, ringEnd - mid);
+        coords[ringEnd * 2] = coords[ringStart * 2];
+        coords[ringEnd * 2 + 1] = coords[ringStart * 2 + 1];
+        indexes[ringEnd] = indexes[ringStart];
+        fixed = true;
+        // Restart, as junctions before mid may have been skipped
+        mid = ringStart;
+      }
+    }
+    segments.push(start, ringEnd);
+    segmentCounts.push(count);
+    closed[i / 2] = count === 1 ? 1 : 0;
+  }
+
+  return { segments, segmentCounts, closed };
+}
+
+/**
+ * Rotates the points in [start, end) by offset towards the end
+ */
+function rotate(coords: Float64Array, indexes: Int32Array, start: number, end: number, offset: number): void {
+  offset %= end - start;
+  reverse(coords, indexes, start, end);
+  reverse(coords, indexes, start, start + offset);
+  reverse(coords, indexes, start + offset, end);
+}
+
+function reverse(coords: Float64Array, indexes: Int32Array, start: number, end: number): void {
+  for (let i = start, j = end - 1; i < j; i++, j--) {
+    let t = indexes[i]; indexes[i] = indexes[j]; indexes[j] = t;
+    t = coords[i * 2]; coords[i * 2] = coords[j * 2]; coords[j * 2] = t;
+    t = coords[i * 2 + 1]; coords[i * 2 + 1] = coords[j * 2 + 1]; coords[j * 2 + 1] = t;
+  }
+}
+
+/**
+ * Assigns each segment an arc: the first of equal segments (forwards,
+ * reversed, or as a rotated ring) becomes an arc, and later ones reference it
+ */
+function dedupArcs(
+  paths: Paths,
+  indexes: Int32Array,
+  cut: { segments: number[]; segmentCounts: number[]; closed: Uint8Array }
+): { arcStarts: number[]; arcEnds: number[]; refs: Int32Array } {
+  const { coords } = paths;
+  const { segments, segmentCounts, closed } = cut;
+  const arcStarts: number[] = [];
+  const arcEnds: number[] = [];
+  const arcsByEnd = new Map<number, number[]>();
+  const refs = new Int32Array(segments.length / 2);
+
+  const addArc = (start: number, end: number): number => {
+    arcStarts.push(start);
+    arcEnds.push(end);
+    return arcStarts.length - 1;
+  };
+  const register = (point: number, arc: number) => {
+    const arcs = arcsByEnd.get(point);
+    if (arcs) arcs.push(arc); else arcsByEnd.set(point, [arc]);
+  };
+
+  const equalLine = (arc: number, start: number, end: number) => {
+    const a = arcStarts[arc];
+    if (arcEnds[arc] - a !== end - start) return false;
+    for (let k = 0; k <= end - start; k++) {
+      if (indexes[a + k] !== indexes[start + k]) return false;
+    }
+    return true;
+  };
+  const reverseEqualLine = (arc: number, start: number, end: number) => {
+    const a = arcStarts[arc];
+    if (arcEnds[arc] - a !== end - start) return false;
+    for (let k = 0; k <= end - start; k++) {
+      if (indexes[a + k] !== indexes[end - k]) return false;
+    }
+    return true;
+  };
+
+  // Rings are compared from their lowest point, so rotated copies match
+  const minimumOffset = (start: number, end: number) => {
+    let minimum = start;
+    for (let p = start + 1; p < end; p++) {
+      const x = coords[p * 2], y = coords[p * 2 + 1];
+      const mx = coords[minimum * 2], my = coords[minimum * 2 + 1];
+      if (x < mx || (x === mx && y < my)) minimum = p;
+    }
+    return minimum - start;
+  };
+  const equalRing = (arc: number, start: number, end: number) => {
+    const a = arcStarts[arc];
+    const n = end - start;
+    if (arcEnds[arc] - a !== n) return false;
+    const ka = minimumOffset(a, arcEnds[arc]);
+    const kb = minimumOffset(start, end);
+    for (let i = 0; i < n; i++) {
+      if (indexes[a + (i + ka) % n] !== indexes[start + (i + kb) % n]) return false;
+    }
+    return true;
+  };
+  const reverseEqualRing = (arc: number, start: number, end: number) => {
+    const a = arcStarts[arc];
+    const n = end - start;
+    if (arcEnds[arc] - a !== n) return false;
+    const ka = minimumOffset(a, arcEnds[arc]);
+    const kb = n - minimumOffset(start, end);
+    for (let i = 0; i < n; i++) {
+      if (indexes[a + (i + ka) % n] !== indexes[end - (i + kb) % n]) return false;
+    }
+    return true;
+  };
+
+  const dedupLine = (start: number, end: number): number => {
+    const startArcs = arcsByEnd.get(indexes[start]);
+    if (startArcs) {
+      for (const arc of startArcs) {
+        if (equalLine(arc, start, end)) return arc;
+      }
+    }
+    const endArcs = arcsByEnd.get(indexes[end]);
+    if (endArcs) {
+      for (const arc of endArcs) {
+        if (reverseEqualLine(arc, start, end)) return ~arc;
+      }
+    }
+    const arc = addArc(start, end);
+    register(indexes[start], arc);
+    register(indexes[end], arc);
+    return arc;
+  };
+
+  const dedupRing = (start: number, end: number): number => {
+    // A closed line from an earlier path is registered at its start
+    for (const point of [indexes[start], indexes[start + minimumOffset(start, end)]]) {
+      const endArcs = arcsByEnd.get(point);
+      if (!endArcs) continue;
+      for (const arc of endArcs) {
+        if (equalRing(arc, start, end)) return arc;
+        if (reverseEqualRing(arc, start, end)) return ~arc;
+      }
+    }
+    const arc = addArc(start, end);
+    register(indexes[start + minimumOffset(start, end)], arc);
+    return arc;
+  };
+
+  const numLines = paths.lines.length / 2;
+  let s = 0;
+  segmentCounts.forEach((count, i) => {
+    const ring = i >= numLines && closed[i - numLines] === 1;
+    for (; count > 0; count--, s++) {
+      const start = segments[s * 2], end = segments[s * 2 + 1];
+      refs[s] = ring ? dedupRing(start, end) : dedupLine(start, end);
+    }
+  });
+
+  return { arcStarts, arcEnds, refs };
+}
+
+/**
+ * Copies the arcs' points into an ArcTable. Quantized arcs are delta-encoded,
+ * dropping coincident points but keeping at least 2.
+ */
+function writeArcs(coords: Float64Array, arcStarts: number[], arcEnds: number[], quantized: boolean): ArcTable {
+  let totalPoints = 0;
+  for (let i = 0; i < arcStarts.length; i++) totalPoints += arcEnds[i] - arcStarts[i] + 1;
+
+  const output = new Float64Array(totalPoints * 2);
+  const offsets = new Uint32Array(arcStarts.length + 1);
+  let n = 0;
+  for (let i = 0; i < arcStarts.length; i++) {
+    offsets[i] = n;
+    const start = arcStarts[i], end = arcEnds[i];
+    if (!quantized) {
+      output.set(coords.subarray(start * 2, (end + 1) * 2), n * 2);
+      n += end - start + 1;
+      continue;
+    }
+    let x0 = coords[start * 2], y0 = coords[start * 2 + 1];
+    output[n * 2] = x0;
+    output[n * 2 + 1] = y0;
+    const first = n++;
+    for (let p = start + 1; p <= end; p++) {
+      const x1 = coords[p * 2], y1 = coords[p * 2 + 1];
+      if (x1 !== x0 || y1 !== y0) {
+        output[n * 2] = x1 - x0;
+        output[n * 2 + 1] = y1 - y0;
+        n++;
+        x0 = x1;
+        y0 = y1;
+      }
+    }
+    if (n === first + 1) {
+      output[n * 2] = 0;
+      output[n * 2 + 1] = 0;
+      n++;
+    }
+  }
+  offsets[arcStarts.length] = n;
+  return { coords: output.subarray(0, n * 2), offsets, dimensions: 2 };
+}
@@ -0,0 +1,327 @@
+/**
+ * GeoJSON generation directly from a BinaryTopologyView
+ *
+ * These mirror topojson-client's feature() and mesh(), but read coordinates
+ * straight from the view's typed arc data instead of a decoded topology.
+ */
+
+import type { BinaryTopologyView } from './decoder.js';
+import { readPosition } from './coordinates.js';
+import type {
+  ArcReadOptions,
+  Geometry,
+  Position,
+  GeoJSONGeometry,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection
+} from './types.js';
+
+/**
+ * Filter deciding whether an arc shared by geometries a and b belongs in a mesh.
+ * For arcs used by a single geometry, a and b are the same geometry.
+ */
+export type MeshFilter = (a: Geometry, b: Geometry) => boolean;
+
+/**
+ * Converts an object into a GeoJSON Feature, or a FeatureCollection if the
+ * object is a GeometryCollection (equivalent to topojson-client's feature())
+ */
+export function toFeature(
+  view: BinaryTopologyView,
+  objectName: string,
+  options: ArcReadOptions = {}
+): GeoJSONFeature | GeoJSONFeatureCollection {
+  const object = getObject(view, objectName);
+  const reader = createGeometryReader(view, options);
+
+  const feature = (o: Geometry): GeoJSONFeature => {
+    const { id, bbox } = o;
+    const properties = o.properties == null ? {} : o.properties;
+    const geometry = reader.geometry(o);
+    return id == null && bbox == null ? { type: 'Feature', properties, geometry }
+      : bbox == null ? { type: 'Feature', id, properties, geometry }
+      : { type: 'Feature', id, bbox, properties, geometry };
+  };
+
+  return object.type === 'GeometryCollection'
+    ? { type: 'FeatureCollection', features: object.geometries.map(feature) }
+    : feature(object);
+}
+
+/**
+ * Builds a GeoJSON MultiLineString of an object's arcs, stitched into the
+ * longest possible lines (equivalent to topojson-client's mesh()).
+ * Each arc is included once; with a filter, only arcs it accepts are included.
+ * With minWeight, the result matches mesh() of a topology simplified by
+ * topojson-simplify.
+ */
+export function toMesh(
+  view: BinaryTopologyView,
+  objectName: string,
+  filter?: MeshFilter,
+  options: ArcReadOptions = {}
+): GeoJSONGeometry & { type: 'MultiLineString' } {
+  const object = getObject(view, objectName);
+  const reader = createGeometryReader(view, options);
+  const arcs = stitch(view, extractArcs(object, filter), options);
+  return { type: 'MultiLineString', coordinates: arcs.map(line => reader.line(line)) };
+}
+
+function getObject(view: BinaryTopologyView, objectName: string): Geometry {
+  const object = view.getObject(objectName);
+  if (!object) {
+    throw new Error(`Unknown object: ${objectName}`);
+  }
+  return object;
+}
+
+/**
+ * Creates functions converting TopoJSON geometries to GeoJSON, undoing delta
+ * encoding and applying the transform for quantized topologies
+ */
+function createGeometryReader(view: BinaryTopologyView, options: ArcReadOptions) {
+  const transform = view.getTransform();
+  const dimensions = view.getDimensions();
+  let coords = new Float64Array(64);
+
+  const point = (p: Position): Position => {
+    if (!transform) return p.slice();
+    const output = p.slice();
+    output[0] = p[0] * transform.scale[0] + transform.translate[0];
+    output[1] = p[1] * transform.scale[1] + transform.translate[1];
+    return output;
+  };
+
+  // Appends an arc's points, dropping the previous arc's (shared) last point
+  const arc = (i: number, points: Position[]) => {
+    const index = i < 0 ? ~i : i;
+    const n = view.getArcPointCount(index, options);
+    if (points.length) points.pop();
+
+    if (coords.length < n * dimensions) {
+      coords = new Float64Array(n * dimensions);
+    }
+    view.getArcAbsolute(index, coords, options);
+    for (let k = 0; k < n; k++) {
+      points.push(readPosition(coords, k * dimensions, dimensions));
+    }
+
+    if (i < 0) reverse(points, n);
+  };
+
+  const line = (arcs: number[]): Position[] => {
+    const points: Position[] = [];
+    for (const i of arcs) arc(i, points);
+    if (points.length < 2) points.push(points[0]); // Should never happen per the specification
+    return points;
+  };
+
+  const ring = (arcs: number[]): Position[] => {
+    const points = line(arcs);
+    while (points.length < 4) points.push(points[0]); // Happens if an arc has only two points
+    return points;
+  };
+
+  const polygon = (arcs: number[][]): Position[][] => arcs.map(ring);
+
+  const geometry = (o: Geometry): GeoJSONGeometry | null => {
+    switch (o.type) {
+      case 'GeometryCollection':
+        return { type: o.type, geometries: o.geometries.map(geometry) as GeoJSONGeometry[] };
+      case 'Point':
+        return { type: o.type, coordinates: point(o.coordinates) };
+      case 'MultiPoint':
+        return { type: o.type, coordinates: o.coordinates.map(point) };
+      case 'LineString':
+        return { type: o.type, coordinates: line(o.arcs) };
+      case 'MultiLineString':
+        return { type: o.type, coordinates: o.arcs.map(line) };
+      case 'Polygon':
+        return { type: o.type, coordinates: polygon(o.arcs) };
+      case 'MultiPolygon':
+        return { type: o.type, coordinates: o.arcs.map(polygon) };
+      default:
+        return null;
+    }
+  };
+
+  return { line, geometry };
+}
+
+/**
+ * Reverses the last n points in place
+ */
+function reverse(points: Position[], n: number): void {
+  let j = points.length;
+  let i = j - n;
+  while (i < --j) {
+    const t = points[i];
+    points[i++] = points[j];
+    points[j] = t;
+  }
+}
+
+/**
+ * Collects each arc referenced by an object once, keeping those the filter
+ * accepts for the first and last geometries that use the arc
+ */
+function extractArcs(object: Geometry, filter?: MeshFilter): number[] {
+  const geometriesByArc: { i: number; g: Geometry }[][] = [];
+
+  const visit = (o: Geometry) => {
+    const add = (i: number) => {
+      const j = i < 0 ? ~i : i;
+      (geometriesByArc[j] || (geometriesByArc[j] = [])).push({ i, g: o });
+    };
+    switch (o.type) {
+      case 'GeometryCollection':
+        o.geometries.forEach(visit);
+        break;
+      case 'LineString':
+        o.arcs.forEach(add);
+        break;
+      case 'MultiLineString':
+      case 'Polygon':
+        o.arcs.forEach(rings => rings.forEach(add));
+        break;
+      case 'MultiPolygon':
+        o.arcs.forEach(polygon => polygon.forEach(rings => rings.forEach(add)));
+        break;
+    }
+  };
+  visit(object);
+
+  const arcs: number[] = [];
+  geometriesByArc.forEach(geometries => {
+    if (!filter || filter(geometries[0].g, geometries[geometries.length - 1].g)) {
+      arcs.push(geometries[0].i);
+    }
+  });
+  return arcs;
+}
+
+interface Fragment {
+  arcs: number[];
+  start?: string;
+  end?: string;
+}
+
+/**
+ * Joins arcs that share endpoints into as few lines as possible
+ * (a port of topojson-client's stitch, reading endpoints from the view).
+ * Simplified arcs are read as absolute positions, like the unquantized
+ * topology topojson-simplify produces.
+ */
+function stitch(view: BinaryTopologyView, arcs: number[], options: ArcReadOptions): number[][] {
+  const simplified = options.minWeight !== undefined;
+  const quantized = !simplified && view.getTransform() !== undefined;
+  const dimensions = view.getDimensions();
+  const stride = quantized ? 2 : dimensions;
+  const arcCoords = (index: number) =>
+    simplified ? view.getArcAbsolute(index, undefined, options) : view.getArcCoords(index);
+  const stitchedArcs = new Set<number>();
+  const fragmentByStart = new Map<string, Fragment>();
+  const fragmentByEnd = new Map<string, Fragment>();
+  const fragments: number[][] = [];
+  let emptyIndex = -1;
+
+  // Stitch empty arcs first, since they may be subsumed by other arcs
+  arcs.forEach((i, j) => {
+    const coords = arcCoords(i < 0 ? ~i : i);
+    if (coords.length === stride * 2 && !coords[stride] && !coords[stride + 1]) {
+      const t = arcs[++emptyIndex];
+      arcs[emptyIndex] = i;
+      arcs[j] = t;
+    }
+  });
+
+  // Endpoint keys of an arc, in the direction it is referenced. As in
+  // topojson-client, a quantized arc's start key is its whole first position
+  // but its end key only sums the x/y deltas.
+  const ends = (i: number): [string, string] => {
+    const index = i < 0 ? ~i : i;
+    const coords = arcCoords(index);
+    const n = coords.length;
+    let p0: string;
+    let p1: string;
+    if (quantized) {
+      const first = dimensions > 2
+        ? readPosition(view.getArcAbsolute(index), 0, dimensions)
+        : [0, 0];
+      first[0] = coords[0];
+      first[1] = coords[1];
+      p0 = first.join(',');
+      let x = 0;
+      let y = 0;
+      for (let k = 0; k < n; k += 2) {
+        x += coords[k];
+        y += coords[k + 1];
+      }
+      p1 = `${x},${y}`;
+    } else {
+      p0 = readPosition(coords, 0, dimensions).join(',');
+      p1 = readPosition(coords, n - dimensions, dimensions).join(',');
+    }
+    return i < 0 ? [p1, p0] : [p0, p1];
+  };
+
+  for (const i of arcs) {
+    const [start, end] = ends(i);
+    let f: Fragment | undefined;
+    let g: Fragment | undefined;
+
+    if ((f = fragmentByEnd.get(start))) {
+      fragmentByEnd.delete(f.end!);
+      f.arcs.push(i);
+      f.end = end;
+      if ((g = fragmentByStart.get(end))) {
+        fragmentByStart.delete(g.start!);
+        const fg = g === f ? f : { arcs: f.arcs.concat(g.arcs) };
+        fg.start = f.start;
+        fg.end = g.end;
+        fragmentByStart.set(fg.start!, fg);
+        fragmentByEnd.set(fg.end!, fg);
+      } else {
+        fragmentByStart.set(f.start!, f);
+        fragmentByEnd.set(f.end, f);
+      }
+    } else if ((f = fragmentByStart.get(end))) {
+      fragmentByStart.delete(f.start!);
+      f.arcs.unshift(i);
+      f.start = start;
+      if ((g = fragmentByEnd.get(start))) {
+        fragmentByEnd.delete(g.end!);
+        const gf = g === f ? f : { arcs: g.arcs.concat(f.arcs) };
+        gf.start = g.start;
+        gf.end = f.end;
+        fragmentByStart.set(gf.start!, gf);
+        fragmentByEnd.set(gf.end!, gf);
+      } else {
+        fragmentByStart.set(f.start, f);
+        fragmentByEnd.set(f.end!, f);
+      }
+    } else {
+      f = { arcs: [i], start, end };
+      fragmentByStart.set(start, f);
+      fragmentByEnd.set(end, f);
+    }
+  }
+
+  const flush = (from: Map<string, Fragment>, other: Map<string, Fragment>) => {
+    for (const f of from.values()) {
+      other.delete(f.start!);
+      delete f.start;
+      delete f.end;
+      f.arcs.forEach(i => stitchedArcs.add(i < 0 ? ~i : i));
+      fragments.push(f.arcs);
+    }
+  };
+
+  flush(fragmentByEnd, fragmentByStart);
+  flush(fragmentByStart, fragmentByEnd);
+  arcs.forEach(i => {
+    if (!stitchedArcs.has(i < 0 ? ~i : i)) fragments.push([i]);
+  });
+
+  return fragments;
+}
@@ -0,0 +1,598 @@
+/**
+ * The fixed header, shared by every reader
+ *
+ * Layout (big-endian):
+ *   u32 magic, u16 version, u16 flags,
+ *   u32 numArcs, u32 totalArcPoints, u32 numObjects, u32 stringTableSize
+ *   transform (4 x Float64, if FLAG_HAS_TRANSFORM)
+ *   bbox (4 x Float64, if FLAG_HAS_BBOX)
+ *
+ * Streamed buffers (FLAG_STREAMED) are written before their counts are known:
+ * the header only has the flags fixed up front and zero counts, and a trailer
+ * ending the buffer holds the final values (big-endian):
+ *   u32 flags, u32 numArcs, u32 totalArcPoints, u32 numObjects, u32 stringTableSize,
+ *   u32 offsets of the string table, arc offsets, arc data, points (0 if none)
+ *   and objects sections, u32 reserved, u32 magic ("TEND")
+ * The flags fixed up front (transform, bbox, coordinate type, dimensions) must
+ * match between the two. Their arc data is split into frames, so that readers
+ * can tell where each arc ends before the arc offsets arrive. Each frame is
+ * a u32 arc count (big-endian), the u32 point count of each of those arcs,
+ * padding to an 8-byte boundary, then the arcs' coordinates as in unstreamed
+ * buffers, again padded to an 8-byte boundary. A frame of 0 arcs ends the
+ * arc data.
+ *
+ * From version 3, a section directory follows the transform and bbox, listing
+ * every section in file order (big-endian):
+ *   u32 count, then count x (u16 type, u16 flags, u32 offset, u32 length)
+ * Types are the SECTION_* ids. Readers skip sections of types they do not
+ * know, unless the entry has the SECTION_REQUIRED flag, so new sections can be
+ * added without a new version. The header flags still say which of the known
+ * sections are present, and must agree with the directory.
+ */
+
+import type { CoordinateType, Transform } from './types.js';
+import {
+  MAGIC,
+  MIN_SUPPORTED_VERSION,
+  MAX_SUPPORTED_VERSION,
+  DIRECTORY_VERSION,
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_HAS_CHECKSUMS,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED,
+  COORDINATE_TYPE_MASK,
+  DIMENSIONS_MASK,
+  KNOWN_FLAGS,
+  STREAM_TRAILER_MAGIC,
+  SECTION_STRINGS,
+  SECTION_ARCS,
+  SECTION_WEIGHTS,
+  SECTION_POINTS,
+  SECTION_OBJECTS,
+  SECTION_PROPERTIES,
+  SECTION_SPATIAL_INDEX,
+  SECTION_CHECKSUMS,
+  SECTION_REQUIRED
+} from './constants.js';
+import { BYTES_PER_COORDINATE, readCoordinateType, readDimensions } from './coordinates.js';
+import { TopobinFormatError } from './errors.js';
+
+/** Size of the fixed part of the header */
+export const HEADER_SIZE = 24;
+
+/** Size of the trailer ending a streamed buffer */
+export const STREAM_TRAILER_SIZE = 48;
+
+/** Flags that a streamed buffer's header fixes before any section is written */
+const STREAM_HEADER_FLAGS = FLAG_STREAMED | FLAG_HAS_TRANSFORM | FLAG_HAS_BBOX | COORDINATE_TYPE_MASK | DIMENSIONS_MASK;
+
+/** Size of one section directory entry */
+export const DIRECTORY_ENTRY_SIZE = 12;
+
+/** Where the sections start, for buffers that record it (streamed buffers and version 3) */
+export interface SectionLayout {
+  strings: number;
+  arcOffsets: number;
+  /** Just past the arc offsets; the arc byte index and any alignment padding come first */
+  arcData: number;
+  /** 0 when there is no points section */
+  points: number;
+  objects: number;
+  weights?: number;
+  properties?: number;
+  spatialIndex?: number;
+  /** Byte offset of the stream trailer */
+  trailer?: number;
+}
+
+/** Where the sections of a streamed buffer start */
+export interface StreamLayout extends SectionLayout {
+  trailer: number;
+}
+
+/** The counts, flags and layout a stream trailer holds */
+export interface StreamTrailer {
+  flags: number;
+  numArcs: number;
+  totalArcPoints: number;
+  numObjects: number;
+  stringTableSize: number;
+  layout: StreamLayout;
+}
+
+/** The arcs of one frame of a streamed buffer's arc data */
+export interface ArcFrame {
+  /** Point count of each arc */
+  counts: number[];
+  /** Byte offset and length of the arcs' coordinates */
+  data: number;
+  length: number;
+}
+
+/** One section directory entry */
+export interface DirectoryEntry {
+  type: number;
+  flags: number;
+  offset: number;
+  length: number;
+}
+
+/**
+ * The sections this library knows, in the order they must appear, with the
+ * alignment of their start and the header flag that declares them
+ */
+const KNOWN_SECTIONS: { type: number; name: string; alignment: number; flag?: number }[] = [
+  { type: SECTION_STRINGS, name: 'string table', alignment: 1 },
+  { type: SECTION_ARCS, name: 'arcs', alignment: 4 },
+  { type: SECTION_WEIGHTS, name: 'simplification weights', alignment: 8, flag: FLAG_HAS_WEIGHTS },
+  { type: SECTION_POINTS, name: 'points', alignment: 8, flag: FLAG_HAS_POINTS },
+  { type: SECTION_OBJECTS, name: 'objects', alignment: 4 },
+  { type: SECTION_PROPERTIES, name: 'properties', alignment: 8, flag: FLAG_HAS_PROPERTIES },
+  { type: SECTION_SPATIAL_INDEX, name: 'spatial index', alignment: 8, flag: FLAG_HAS_SPATIAL_INDEX },
+  { type: SECTION_CHECKSUMS, name: 'checksums', alignment: 4, flag: FLAG_HAS_CHECKSUMS }
+];
+
+/** Header fields, and what the flags say about the rest of the buffer */
+export interface Header {
+  version: number;
+  flags: number;
+  numArcs: number;
+  totalArcPoints: number;
+  numObjects: number;
+  stringTableSize: number;
+  transform?: Transform;
+  bbox?: [number, number, number, number];
+  coordinateType: CoordinateType;
+  /** Values per position */
+  dimensions: number;
+  /** Values per position in the arc data (x/y only when quantized) */
+  stride: number;
+  /** Byte offset just past the transform, bbox and section directory (the string table, before version 3 and unless streamed) */
+  end: number;
+  /** Section offsets, for streamed buffers and version 3 */
+  layout?: SectionLayout;
+  /** Section directory entries (version 3), with offsets from the start of the topology */
+  directory?: DirectoryEntry[];
+}
+
+/**
+ * Reads the header of a topology starting at byteOffset, throwing a
+ * TopobinFormatError for a bad magic number or an unsupported version,
+ * flags or required section. The `end` and `layout` offsets are from the
+ * start of the buffer. With complete false, only the header and section
+ * directory need to be there (as when streaming), so the sections the
+ * directory lists are not checked against the buffer's length.
+ */
+export function readHeader(
+  buffer: ArrayBuffer,
+  byteOffset = 0,
+  byteLength = buffer.byteLength - byteOffset,
+  complete = true
+): Header {
+  const view = new DataView(buffer, byteOffset, byteLength);
+  if (byteLength < 4 || view.getUint32(0, false) !== MAGIC) {
+    throw new TopobinFormatError('Invalid TopoJSON binary format: bad magic number', 'bad-magic', 0);
+  }
+  if (byteLength < HEADER_SIZE) {
+    throw new TopobinFormatError(
+      `Header (${HEADER_SIZE} bytes at offset 0) overruns the ${byteLength}-byte buffer`,
+      'section-overrun',
+      0
+    );
+  }
+
+  const version = view.getUint16(4, false);
+  if (version < MIN_SUPPORTED_VERSION || version > MAX_SUPPORTED_VERSION) {
+    throw new TopobinFormatError(
+      `Unsupported binary format version ${version}. ` +
+      `This library supports versions ${MIN_SUPPORTED_VERSION}-${MAX_SUPPORTED_VERSION}. ` +
+      `Please upgrade the topobin library to decode this file.`,
+      'unsupported-version',
+      4
+    );
+  }
+
+  let flags = view.getUint16(6, false);
+  const counts = [8, 12, 16, 20].map(offset => view.getUint32(offset, false));
+  let layout: SectionLayout | undefined;
+  if (flags & FLAG_STREAMED && version >= DIRECTORY_VERSION) {
+    throw new TopobinFormatError(
+      `Version ${version} buffers cannot be streamed; their layout is in the section directory`,
+      'unsupported-flags',
+      6
+    );
+  }
+  if (flags & FLAG_STREAMED) {
+    const trailer = readStreamTrailer(buffer, byteOffset, byteLength);
+    flags = trailer.flags;
+    counts.splice(0, 4, trailer.numArcs, trailer.totalArcPoints, trailer.numObjects, trailer.stringTableSize);
+    layout = trailer.layout;
+  }
+  if ((flags & ~KNOWN_FLAGS) !== 0) {
+    throw new TopobinFormatError(
+      `Unsupported binary format flags 0x${flags.toString(16)}. ` +
+      `Please upgrade the topobin library to decode this file.`,
+      'unsupported-flags',
+      6
+    );
+  }
+  let coordinateType: CoordinateType;
+  try {
+    coordinateType = readCoordinateType(flags);
+  } catch (error) {
+    throw new TopobinFormatError((error as Error).message, 'unsupported-flags', 6);
+  }
+
+  const hasTransform = (flags & FLAG_HAS_TRANSFORM) !== 0;
+  const dimensions = readDimensions(flags);
+  const header: Header = {
+    version,
+    flags,
+    numArcs: counts[0],
+    totalArcPoints: counts[1],
+    numObjects: counts[2],
+    stringTableSize: counts[3],
+    coordinateType,
+    dimensions,
+    stride: hasTransform ? 2 : dimensions,
+    end: HEADER_SIZE
+  };
+
+  if (hasTransform) {
+    checkFits('Transform', header.end, 32, byteLength);
+    const [kx, ky, dx, dy] = readFloat64s(view, header.end);
+    header.transform = { scale: [kx, ky], translate: [dx, dy] };
+    header.end += 32;
+  }
+  if (flags & FLAG_HAS_BBOX) {
+    checkFits('BBox', header.end, 32, byteLength);
+    header.bbox = readFloat64s(view, header.end);
+    header.end += 32;
+  }
+  if (version >= DIRECTORY_VERSION) {
+    header.directory = readSectionDirectory(view, header.end);
+    header.end += 4 + header.directory.length * DIRECTORY_ENTRY_SIZE;
+    layout = sectionLayout(header.directory, flags, header.numArcs, header.end, complete ? byteLength : Infinity);
+  }
+  if (layout) header.layout = layout;
+
+  // Offsets within the buffer, for topologies that start further into it
+  if (byteOffset) {
+    header.end += byteOffset;
+    for (const key of [
+      'strings', 'arcOffsets', 'arcData', 'points', 'objects', 'weights', 'properties', 'spatialIndex', 'trailer'
+    ] as const) {
+      if (layout && layout[key]) layout[key]! += byteOffset;
+    }
+  }
+  return header;
+}
+
+/**
+ * Throws a TopobinFormatError if length bytes at offset overrun the buffer
+ */
+function checkFits(name: string, offset: number, length: number, byteLength: number): void {
+  if (offset + length > byteLength) {
+    throw new TopobinFormatError(
+      `${name} (${length} bytes at offset ${offset}) overruns the ${byteLength}-byte buffer`,
+      'section-overrun',
+      offset
+    );
+  }
+}
+
+/**
+ * Reads the section directory at offset (just past the transform and bbox),
+ * throwing a TopobinFormatError if it overruns the view
+ */
+export function readSectionDirectory(view: DataView, offset: number): DirectoryEntry[] {
+  const count = offset + 4 <= view.byteLength ? view.getUint32(offset, false) : 0;
+  const size = 4 + count * DIRECTORY_ENTRY_SIZE;
+  if (offset + size > view.byteLength) {
+    throw new TopobinFormatError(
+      `Section directory (${size} bytes at offset ${offset}) overruns the ${view.byteLength}-byte buffer`,
+      'section-overrun',
+      offset
+    );
+  }
+  const entries: DirectoryEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = offset + 4 + i * DIRECTORY_ENTRY_SIZE;
+    entries.push({
+      type: view.getUint16(at, false),
+      flags: view.getUint16(at + 2, false),
+      offset: view.getUint32(at + 4, false),
+      length: view.getUint32(at + 8, false)
+    });
+  }
+  return entries;
+}
+
+/**
+ * Writes a section directory at offset, returning the offset just past it
+ */
+export function writeSectionDirectory(view: DataView, offset: number, entries: DirectoryEntry[]): number {
+  view.setUint32(offset, entries.length, false);
+  offset += 4;
+  for (const entry of entries) {
+    view.setUint16(offset, entry.type, false);
+    view.setUint16(offset + 2, entry.flags, false);
+    view.setUint32(offset + 4, entry.offset, false);
+    view.setUint32(offset + 8, entry.length, false);
+    offset += DIRECTORY_ENTRY_SIZE;
+  }
+  return offset;
+}
+
+/**
+ * Size in bytes of a section directory with count entries
+ */
+export function sectionDirectorySize(count: number): number {
+  return 4 + count * DIRECTORY_ENTRY_SIZE;
+}
+
+/**
+ * Gets the name of a section type, or "unknown section N" for types this
+ * library does not know
+ */
+export function sectionName(type: number): string {
+  return KNOWN_SECTIONS.find(section => section.type === type)?.name ?? `unknown section ${type}`;
+}
+
+/**
+ * Whether this library can read a section type
+ */
+export function isKnownSection(type: number): boolean {
+  return KNOWN_SECTIONS.some(section => section.type === type);
+}
+
+/**
+ * Works out where the sections start from the section directory, throwing a
+ * TopobinFormatError for an unknown required section, a section that starts
+ * before start or overruns byteLength, sections out of order, overlapping or
+ * misaligned, or a directory that disagrees with the header flags. Unknown
+ * optional sections are skipped.
+ */
+export function sectionLayout(
+  entries: DirectoryEntry[],
+  flags: number,
+  numArcs: number,
+  start: number,
+  byteLength: number
+): SectionLayout {
+  const offsets = new Map<number, number>();
+  let end = start;
+  let rank = -1;
+  for (const entry of entries) {
+    const { type, offset, length } = entry;
+    const index = KNOWN_SECTIONS.findIndex(section => section.type === type);
+    const name = sectionName(type);
+    if (index === -1 && entry.flags & SECTION_REQUIRED) {
+      throw new TopobinFormatError(
+        `Unsupported required section type ${type}. ` +
+        `Please upgrade the topobin library to decode this file.`,
+        'unsupported-section',
+        offset
+      );
+    }
+    if (offset < end) {
+      throw new TopobinFormatError(
+        `Section directory places the ${name} at offset ${offset}, before the end of the previous section at ${end}`,
+        'invalid-section',
+        offset
+      );
+    }
+    if (offset + length > byteLength) {
+      throw new TopobinFormatError(
+        `The ${name} (${length} bytes at offset ${offset}) overruns the ${byteLength}-byte buffer`,
+        'section-overrun',
+        offset
+      );
+    }
+    end = offset + length;
+    if (index === -1) continue;
+    if (index <= rank) {
+      throw new TopobinFormatError(`Section directory lists the ${name} out of order`, 'invalid-section', offset);
+    }
+    rank = index;
+    if (offset % KNOWN_SECTIONS[index].alignment !== 0) {
+      throw new TopobinFormatError(
+        `The ${name} at offset ${offset} is not aligned to ${KNOWN_SECTIONS[index].alignment} bytes`,
+        'invalid-section',
+        offset
+      );
+    }
+    offsets.set(type, offset);
+  }
+
+  for (const { type, name, flag } of KNOWN_SECTIONS) {
+    const listed = offsets.has(type);
+    if (flag === undefined ? !listed : listed !== ((flags & flag) !== 0)) {
+      throw new TopobinFormatError(
+        listed
+          ? `Section directory lists the ${name} but the header flags do not declare it`
+          : `Section directory does not list the ${name}`,
+        'invalid-section',
+        start
+      );
+    }
+  }
+
+  const arcOffsets = offsets.get(SECTION_ARCS)!;
+  const layout: SectionLayout = {
+    strings: offsets.get(SECTION_STRINGS)!,
+    arcOffsets,
+    arcData: arcOffsets + (numArcs + 1) * 4,
+    points: offsets.get(SECTION_POINTS) ?? 0,
+    objects: offsets.get(SECTION_OBJECTS)!
+  };
+  if (offsets.has(SECTION_WEIGHTS)) layout.weights = offsets.get(SECTION_WEIGHTS);
+  if (offsets.has(SECTION_PROPERTIES)) layout.properties = offsets.get(SECTION_PROPERTIES);
+  if (offsets.has(SECTION_SPATIAL_INDEX)) layout.spatialIndex = offsets.get(SECTION_SPATIAL_INDEX);
+  return layout;
+}
+
+/**
+ * Reads the trailer of a streamed buffer, throwing a TopobinFormatError if it
+ * is missing, disagrees with the header or points at misplaced sections.
+ * Offsets are from the start of the topology.
+ */
+export function readStreamTrailer(
+  buffer: ArrayBuffer,
+  byteOffset = 0,
+  byteLength = buffer.byteLength - byteOffset
+): StreamTrailer {
+  const start = byteLength - STREAM_TRAILER_SIZE;
+  return parseStreamTrailer(
+    new DataView(buffer, byteOffset, byteLength).getUint16(6, false),
+    new DataView(buffer, byteOffset + Math.max(start, 0), Math.min(byteLength, STREAM_TRAILER_SIZE)),
+    start
+  );
+}
+
+/**
+ * Reads a stream trailer from its own bytes, given the header flags and the
+ * trailer's offset from the start of the topology (for readers that do not
+ * hold the whole buffer)
+ */
+export function parseStreamTrailer(headerFlags: number, view: DataView, start: number): StreamTrailer {
+  let headerEnd = HEADER_SIZE;
+  if (headerFlags & FLAG_HAS_TRANSFORM) headerEnd += 32;
+  if (headerFlags & FLAG_HAS_BBOX) headerEnd += 32;
+
+  if (start < headerEnd || view.getUint32(44, false) !== STREAM_TRAILER_MAGIC) {
+    throw new TopobinFormatError('Streamed buffer does not end with a stream trailer', 'invalid-section', Math.max(start, 0));
+  }
+  const [flags, numArcs, totalArcPoints, numObjects, stringTableSize, strings, arcOffsets, arcData, points, objects] =
+    Array.from({ length: 10 }, (_, i) => view.getUint32(i * 4, false));
+
+  if ((flags & STREAM_HEADER_FLAGS) !== (headerFlags & STREAM_HEADER_FLAGS)) {
+    throw new TopobinFormatError(
+      `Stream trailer flags 0x${flags.toString(16)} do not match the header flags 0x${headerFlags.toString(16)}`,
+      'invalid-section',
+      start
+    );
+  }
+
+  // Sections lie between the header and the trailer, aligned for their typed arrays
+  let bytesPerCoord = 1;
+  try {
+    bytesPerCoord = BYTES_PER_COORDINATE[readCoordinateType(flags)];
+  } catch {
+    // Reported by the flags check
+  }
+  const sections: [string, number, number][] = [
+    ['string table', strings, 1],
+    ['arc offsets', arcOffsets, 4],
+    ['arc data', arcData, bytesPerCoord],
+    ['objects', objects, 4]
+  ];
+  if (flags & FLAG_HAS_POINTS) sections.push(['points', points, 8]);
+  for (const [name, offset, alignment] of sections) {
+    if (offset < headerEnd || offset > start || offset % alignment !== 0) {
+      throw new TopobinFormatError(`Stream trailer has a misplaced ${name} offset ${offset}`, 'invalid-section', start);
+    }
+  }
+
+  return {
+    flags,
+    numArcs,
+    totalArcPoints,
+    numObjects,
+    stringTableSize,
+    layout: { strings, arcOffsets, arcData, points, objects, trailer: start }
+  };
+}
+
+/**
+ * Reads the frame headers of a streamed buffer's arc data, which starts at
+ * offset and must end before limit, throwing a TopobinFormatError if it does
+ * not. Returns the frames and the byte offset just past the last one.
+ */
+export function readArcFrames(
+  view: DataView,
+  offset: number,
+  limit: number,
+  bytesPerPoint: number
+): { frames: ArcFrame[]; end: number } {
+  const frames: ArcFrame[] = [];
+  const fits = (name: string, start: number, length: number) => {
+    if (start + length > limit) {
+      throw new TopobinFormatError(
+        `${name} (${length} bytes at offset ${start}) overruns the ${limit}-byte buffer`,
+        'section-overrun',
+        start
+      );
+    }
+  };
+  for (;;) {
+    fits('Arc frame', offset, 4);
+    const numArcs = view.getUint32(offset, false);
+    if (numArcs === 0) {
+      return { frames, end: offset + 4 };
+    }
+    fits('Arc frame', offset, 4 + numArcs * 4);
+    const counts: number[] = [];
+    let points = 0;
+    for (let i = 0; i < numArcs; i++) {
+      counts.push(view.getUint32(offset + 4 + i * 4, false));
+      points += counts[i];
+    }
+    const data = Math.ceil((offset + 4 + numArcs * 4) / 8) * 8;
+    const length = points * bytesPerPoint;
+    fits('Arc frame coordinates', data, length);
+    frames.push({ counts, data, length });
+    offset = Math.ceil((data + length) / 8) * 8;
+  }
+}
+
+/**
+ * Copies the coordinates of every arc frame into one buffer, laid out as in
+ * unstreamed buffers
+ */
+export function joinArcFrames(buffer: ArrayBuffer, frames: ArcFrame[]): ArrayBuffer {
+  const bytes = new Uint8Array(frames.reduce((sum, frame) => sum + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    bytes.set(new Uint8Array(buffer, frame.data, frame.length), offset);
+    offset += frame.length;
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Writes the trailer of a streamed buffer
+ */
+export function writeStreamTrailer(
+  view: DataView,
+  offset: number,
+  trailer: {
+    flags: number;
+    numArcs: number;
+    totalArcPoints: number;
+    numObjects: number;
+    stringTableSize: number;
+    layout: Omit<StreamLayout, 'trailer'>;
+  }
+): void {
+  const { layout } = trailer;
+  const values = [
+    trailer.flags, trailer.numArcs, trailer.totalArcPoints, trailer.numObjects, trailer.stringTableSize,
+    layout.strings, layout.arcOffsets, layout.arcData, layout.points, layout.objects,
+    0, STREAM_TRAILER_MAGIC
+  ];
+  values.forEach((value, i) => view.setUint32(offset + i * 4, value, false));
+}
+
+function readFloat64s(view: DataView, offset: number): [number, number, number, number] {
+  return [
+    view.getFloat64(offset, false),
+    view.getFloat64(offset + 8, false),
+    view.getFloat64(offset + 16, false),
+    view.getFloat64(offset + 24, false)
+  ];
+}
@@ -8,8 +8,22 @@
 import type { Topology } from './types.js';
 import { estimateTopologyMemorySize } from './memory-estimate.js';
 
-export { encode, getMemoryStats } from './encoder.js';
-export { decode, BinaryTopologyView, getVersion, isCompatibleVersion } from './decoder.js';
+export { encode, encodeWithReport } from './encoder.js';
+export { decode, BinaryTopologyView, getVersion, isCompatibleVersion, getCompatibility } from './decoder.js';
+export { validate } from './validate.js';
+export { inspect, getMemoryStats } from './inspect.js';
+export { extract } from './extract.js';
+export { merge } from './merge.js';
+export { convert, convertWithReport, convertStream } from './convert.js';
+export { fromGeoJSON } from './from-geojson.js';
+export { neighbors, arcOwners } from './neighbors.js';
+export { renderPath, SvgPathBuilder } from './render.js';
+export { transferable, toSharedBuffer, decodeInWorker } from './transfer.js';
+export { TopobinWriter } from './writer.js';
+export { TopobinReader } from './reader.js';
+export { TopobinFormatError } from './errors.js';
+export { toFeature, toMesh } from './geojson.js';
+export type { MeshFilter } from './geojson.js';
 export { VERSION, MIN_SUPPORTED_VERSION, MAX_SUPPORTED_VERSION } from './constants.js';
 export type {
   Topology,
@@ -24,6 +38,36 @@ export type {
   Polygon,
   MultiPolygon,
   GeometryCollection,
+  NullGeometry,
+  CoordinateType,
+  CoordinateArray,
+  BinaryInput,
+  EncodeOptions,
+  EncodeReport,
+  ConvertOptions,
+  ConvertReport,
+  DecodeOptions,
+  WorkerDecodeOptions,
+  TopobinWorker,
+  ExtractOptions,
+  MergeOptions,
+  ValidateOptions,
+  ArcReadOptions,
+  PathContext,
+  RenderOptions,
+  ValidationIssue,
+  ValidationIssueCode,
+  CompatibilityReport,
+  SectionInfo,
+  BufferInfo,
+  TopobinWriterOptions,
+  TopobinSink,
+  TopobinReaderHandlers,
+  NeighborGraph,
+  ArcOwners,
+  GeoJSONGeometry,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
   BinaryTopology
 } from './types.js';
 
@@ -0,0 +1,66 @@
+/**
+ * Access to binary topologies passed as an ArrayBuffer or as a view of part
+ * of one (a Uint8Array, a Node Buffer from a shared pool, a slice of a larger
+ * archive, ...)
+ *
+ * A SharedArrayBuffer is read in place like an ArrayBuffer, so it is passed
+ * around internally as one; typed arrays and DataViews read both the same way.
+ */
+
+import type { BinaryInput } from './types.js';
+
+/** Where a binary topology lies within a buffer */
+export interface BufferRange {
+  buffer: ArrayBuffer;
+  byteOffset: number;
+  byteLength: number;
+}
+
+/**
+ * Gets the buffer holding an input's bytes and where they lie in it. Inputs
+ * starting on an 8-byte boundary are used in place, as every section keeps
+ * its typed arrays aligned relative to the start of the topology; others are
+ * copied once into a buffer of their own.
+ */
+export function toBufferRange(input: BinaryInput): BufferRange {
+  if (!ArrayBuffer.isView(input)) {
+    return { buffer: input as ArrayBuffer, byteOffset: 0, byteLength: input.byteLength };
+  }
+  if (input.byteOffset % 8 !== 0) {
+    return { buffer: toArrayBuffer(input), byteOffset: 0, byteLength: input.byteLength };
+  }
+  return { buffer: input.buffer as ArrayBuffer, byteOffset: input.byteOffset, byteLength: input.byteLength };
+}
+
+/**
+ * Gets an ArrayBuffer holding exactly an input's bytes, copying them unless
+ * the input is a view of a whole buffer
+ */
+export function toArrayBuffer(input: BinaryInput): ArrayBuffer {
+  if (!ArrayBuffer.isView(input)) {
+    return input as ArrayBuffer;
+  }
+  const buffer = input.buffer as ArrayBuffer;
+  if (input.byteOffset === 0 && input.byteLength === buffer.byteLength) {
+    return buffer;
+  }
+  return buffer.slice(input.byteOffset, input.byteOffset + input.byteLength);
+}
+
+/**
+ * Creates a DataView over exactly an input's bytes, for reads that need no
+ * alignment
+ */
+export function toDataView(input: BinaryInput): DataView {
+  return ArrayBuffer.isView(input)
+    ? new DataView(input.buffer, input.byteOffset, input.byteLength)
+    : new DataView(input);
+}
+
+/**
+ * Gets bytes that TextDecoder accepts: browsers reject views of a
+ * SharedArrayBuffer, so those are copied
+ */
+export function unshared(bytes: Uint8Array): Uint8Array {
+  return bytes.buffer instanceof ArrayBuffer ? bytes : bytes.slice();
+}
@@ -0,0 +1,231 @@
+/**
+ * Section-level layout of binary buffers
+ *
+ * Walks the sections of a buffer in order, recording where each one starts,
+ * how long it is and how much alignment padding follows it. The buffer is
+ * expected to be valid (see validate()); the header is checked as in decode().
+ */
+
+import type { BufferInfo, GeometryType, SectionInfo } from './types.js';
+import {
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_CHECKSUMS,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED,
+  GEOMETRY_TYPES,
+  GEOMETRY_TYPE_MASK
+} from './constants.js';
+import {
+  Header,
+  HEADER_SIZE,
+  STREAM_TRAILER_SIZE,
+  isKnownSection,
+  readArcFrames,
+  readHeader,
+  sectionDirectorySize,
+  sectionName
+} from './header.js';
+import { BYTES_PER_COORDINATE } from './coordinates.js';
+import { readObjectsSection, parseStringTable } from './decoder.js';
+import { readPointsSection } from './points.js';
+import { propertiesSectionSize } from './properties.js';
+import { readSpatialIndex } from './spatial-index.js';
+import { readChecksumTrailer } from './checksum.js';
+import { unshared } from './input.js';
+
+/** Names of the feature flags, by bit */
+const FLAG_NAMES: [number, string][] = [
+  [FLAG_HAS_TRANSFORM, 'transform'],
+  [FLAG_HAS_BBOX, 'bbox'],
+  [FLAG_HAS_PROPERTIES, 'properties'],
+  [FLAG_VARINT_ARCS, 'varint arcs'],
+  [FLAG_ARC_BYTE_INDEX, 'arc byte index'],
+  [FLAG_HAS_CHECKSUMS, 'checksums'],
+  [FLAG_HAS_SPATIAL_INDEX, 'spatial index'],
+  [FLAG_HAS_WEIGHTS, 'simplification weights'],
+  [FLAG_HAS_POINTS, 'points'],
+  [FLAG_STREAMED, 'streamed']
+];
+
+/** Sections counted as header, arc and checksum bytes by getMemoryStats() */
+const HEADER_SECTIONS = new Set(['header', 'transform', 'bbox', 'section directory', 'string table', 'stream trailer']);
+const ARC_SECTIONS = new Set(['arc offsets', 'arc byte index', 'arc data', 'extra values', 'simplification weights']);
+
+/**
+ * Describes a buffer's header, where each section lives, and what its
+ * objects and arcs contain
+ */
+export function inspect(buffer: ArrayBuffer): BufferInfo {
+  const header = readHeader(buffer);
+  const { sections, objectTypes } = readSections(buffer, header);
+
+  // Arc point counts, from the arc offsets
+  const arcOffsets = new Uint32Array(buffer, sections.find(s => s.name === 'arc offsets')!.offset, header.numArcs + 1);
+  const pointCounts = new Uint32Array(header.numArcs);
+  for (let i = 0; i < header.numArcs; i++) {
+    pointCounts[i] = arcOffsets[i + 1] - arcOffsets[i];
+  }
+  const sorted = pointCounts.slice().sort();
+  const count = sorted.length;
+
+  const info: BufferInfo = {
+    byteLength: buffer.byteLength,
+    version: header.version,
+    flags: header.flags,
+    features: FLAG_NAMES.filter(([flag]) => header.flags & flag).map(([, name]) => name),
+    coordinateType: header.coordinateType,
+    dimensions: header.dimensions,
+    sections,
+    objects: objectTypes,
+    arcs: {
+      count,
+      totalPoints: header.totalArcPoints,
+      minPoints: count ? sorted[0] : 0,
+      maxPoints: count ? sorted[count - 1] : 0,
+      meanPoints: count ? header.totalArcPoints / count : 0,
+      medianPoints: count === 0 ? 0
+        : count % 2 ? sorted[(count - 1) / 2]
+        : (sorted[count / 2 - 1] + sorted[count / 2]) / 2
+    }
+  };
+  if (header.transform) info.transform = header.transform;
+  if (header.bbox) info.bbox = header.bbox;
+  return info;
+}
+
+/**
+ * Get memory usage statistics for the binary format.
+ * Alignment padding is counted with the section it follows, so the parts add
+ * up to the total.
+ */
+export function getMemoryStats(buffer: ArrayBuffer): {
+  totalBytes: number;
+  headerBytes: number;
+  arcBytes: number;
+  objectBytes: number;
+  checksumBytes: number;
+} {
+  const { sections } = readSections(buffer, readHeader(buffer));
+  const stats = {
+    totalBytes: buffer.byteLength,
+    headerBytes: 0,
+    arcBytes: 0,
+    objectBytes: 0,
+    checksumBytes: 0
+  };
+  for (const { name, length, padding } of sections) {
+    const bytes = length + padding;
+    if (HEADER_SECTIONS.has(name)) stats.headerBytes += bytes;
+    else if (ARC_SECTIONS.has(name)) stats.arcBytes += bytes;
+    else if (name === 'checksums') stats.checksumBytes += bytes;
+    else stats.objectBytes += bytes;
+  }
+  return stats;
+}
+
+/**
+ * Finds the byte range of every section present, and the type and member
+ * count of each top-level object
+ */
+function readSections(buffer: ArrayBuffer, header: Header): {
+  sections: SectionInfo[];
+  objectTypes: BufferInfo['objects'];
+} {
+  const view = new DataView(buffer);
+  const { version, flags, numArcs, numObjects, totalArcPoints, stride, dimensions, layout } = header;
+  const sections: SectionInfo[] = [];
+  let offset = 0;
+  const add = (name: string, start: number, length: number) => {
+    sections.push({ name, offset: start, length, padding: 0 });
+    offset = start + length;
+  };
+
+  add('header', 0, HEADER_SIZE);
+  if (header.transform) add('transform', offset, 32);
+  if (header.bbox) add('bbox', offset, 32);
+  if (header.directory) add('section directory', offset, sectionDirectorySize(header.directory.length));
+  add('string table', layout ? layout.strings : offset, header.stringTableSize);
+  add('arc offsets', layout ? layout.arcOffsets : Math.ceil(offset / 4) * 4, (numArcs + 1) * 4);
+  if (layout) offset = layout.arcData;
+
+  if (flags & FLAG_VARINT_ARCS) {
+    if (flags & FLAG_ARC_BYTE_INDEX) add('arc byte index', offset, (numArcs + 1) * 4);
+    add('arc data', offset, 4 + view.getUint32(offset, false));
+  } else if (flags & FLAG_STREAMED) {
+    const bytesPerPoint = stride * BYTES_PER_COORDINATE[header.coordinateType];
+    add('arc data', offset, readArcFrames(view, offset, layout!.trailer!, bytesPerPoint).end - offset);
+  } else {
+    const bytesPerCoord = BYTES_PER_COORDINATE[header.coordinateType];
+    add('arc data', Math.ceil(offset / bytesPerCoord) * bytesPerCoord, totalArcPoints * stride * bytesPerCoord);
+  }
+  if (dimensions > stride) {
+    add('extra values', Math.ceil(offset / 8) * 8, totalArcPoints * (dimensions - stride) * 8);
+  }
+  if (flags & FLAG_HAS_WEIGHTS) {
+    add('simplification weights', layout?.weights ?? Math.ceil(offset / 8) * 8, totalArcPoints * 8);
+  }
+  if (flags & FLAG_HAS_POINTS) {
+    const start = layout ? layout.points : Math.ceil(offset / 8) * 8;
+    add('points', start, readPointsSection(buffer, start).end - start);
+  }
+
+  const objectsStart = layout ? layout.objects : Math.ceil(offset / 4) * 4;
+  let objectTypes: BufferInfo['objects'];
+  if (version === 1) {
+    // Version 1 stored the objects as a size-prefixed JSON blob
+    const jsonSize = view.getUint32(objectsStart, false);
+    add('objects', objectsStart, 4 + jsonSize);
+    const objects = JSON.parse(new TextDecoder().decode(unshared(new Uint8Array(buffer, objectsStart + 4, jsonSize)))).objects;
+    objectTypes = Object.keys(objects).map(name => ({
+      name,
+      type: objects[name].type,
+      geometries: objects[name].type === 'GeometryCollection' ? objects[name].geometries.length : 1
+    }));
+  } else {
+    const section = readObjectsSection(buffer, objectsStart);
+    add('objects', objectsStart, section.extrasBytes.byteOffset + section.extrasBytes.byteLength - objectsStart);
+
+    const names = parseStringTable(new Uint8Array(buffer, layout ? layout.strings : header.end, header.stringTableSize))
+      .slice(0, numObjects);
+    objectTypes = names.map((name, i) => {
+      const type = GEOMETRY_TYPES[section.types[i] & GEOMETRY_TYPE_MASK] as GeometryType;
+      const geometries = type === 'GeometryCollection' ? section.childOffsets[i + 1] - section.childOffsets[i] : 1;
+      return { name, type, geometries };
+    });
+
+    if (flags & FLAG_HAS_PROPERTIES) {
+      const start = layout?.properties ?? Math.ceil(offset / 8) * 8;
+      add('properties', start, propertiesSectionSize(buffer, start));
+    }
+    if (flags & FLAG_HAS_SPATIAL_INDEX) {
+      const start = layout?.spatialIndex ?? Math.ceil(offset / 8) * 8;
+      add('spatial index', start, readSpatialIndex(buffer, start).geometries.end - start);
+    }
+  }
+  if (flags & FLAG_HAS_CHECKSUMS) {
+    const start = readChecksumTrailer(buffer).start;
+    add('checksums', start, buffer.byteLength - start);
+  }
+  if (layout?.trailer !== undefined) {
+    add('stream trailer', layout.trailer, STREAM_TRAILER_SIZE);
+  }
+  // Sections this library skips are listed by type
+  for (const entry of header.directory ?? []) {
+    if (!isKnownSection(entry.type)) add(sectionName(entry.type), entry.offset, entry.length);
+  }
+
+  // Padding runs up to the next section, or the end of the buffer
+  sections.sort((a, b) => a.offset - b.offset);
+  sections.forEach((section, i) => {
+    const next = i + 1 < sections.length ? sections[i + 1].offset : buffer.byteLength;
+    section.padding = next - section.offset - section.length;
+  });
+  return { sections, objectTypes };
+}
+
@@ -0,0 +1,146 @@
+/**
+ * Merging of several buffers into one topology
+ *
+ * Objects are collected in buffer order and arc references are offset past
+ * the arcs of earlier buffers. Buffers quantized with the same transform are
+ * joined as they are; otherwise every buffer is converted to absolute
+ * coordinates and, when all of them were quantized, requantized onto a grid
+ * as fine as the finest input's.
+ */
+
+import type { Arc, BinaryInput, Geometry, MergeOptions, Position, Topology, Transform } from './types.js';
+import { decode } from './decoder.js';
+import { encode } from './encoder.js';
+import { computeBBox, dequantize, quantizeWithTransform } from './quantize.js';
+import { renumberArcs } from './extract.js';
+import { toBufferRange } from './input.js';
+
+/**
+ * Merges buffers (or views of them) into a single buffer, resolving object
+ * name collisions and reconciling their transforms
+ */
+export function merge(buffers: BinaryInput[], options: MergeOptions = {}): ArrayBuffer {
+  const { collisions = 'error', deduplicate = false, ...encodeOptions } = options;
+  if (collisions !== 'error' && collisions !== 'rename') {
+    throw new Error(`Unsupported collision handling: ${collisions}`);
+  }
+  if (buffers.length === 0) {
+    throw new Error('Cannot merge an empty list of buffers');
+  }
+
+  const topologies = buffers.map(input => {
+    const { buffer, byteOffset, byteLength } = toBufferRange(input);
+    return decode(new Uint8Array(buffer, byteOffset, byteLength));
+  });
+  const bbox = unionBBox(topologies.map(topology => topology.bbox || computeBBox(topology)));
+
+  // With the quantization option, the encoder quantizes the absolute coordinates
+  const transforms = topologies.map(topology => topology.transform);
+  const allQuantized = encodeOptions.quantization === undefined && transforms.every(t => t !== undefined);
+  const shared = allQuantized && transforms.every(t => sameTransform(t!, transforms[0]!));
+  const inputs = shared ? topologies : topologies.map(dequantize);
+
+  const arcs: Arc[] = [];
+  const objects: Record<string, Geometry> = {};
+  inputs.forEach((topology, i) => {
+    const base = arcs.length;
+    const offset = (index: number) => index < 0 ? ~(~index + base) : index + base;
+    for (const [name, object] of Object.entries(topology.objects)) {
+      let outputName = name;
+      if (Object.prototype.hasOwnProperty.call(objects, name)) {
+        if (collisions === 'error') {
+          throw new Error(`Object name collision: ${name} (buffer ${i})`);
+        }
+        for (let n = 2; Object.prototype.hasOwnProperty.call(objects, outputName); n++) {
+          outputName = `${name}_${n}`;
+        }
+      }
+      objects[outputName] = renumberArcs(object, offset);
+    }
+    for (const arc of topology.arcs) {
+      arcs.push(arc);
+    }
+  });
+
+  let merged: Topology = { type: 'Topology', objects, arcs };
+  if (topologies.some(topology => topology.bbox)) merged.bbox = bbox;
+  if (shared) {
+    merged.transform = transforms[0];
+  } else if (allQuantized) {
+    const transform: Transform = {
+      scale: [
+        Math.min(...transforms.map(t => t!.scale[0])),
+        Math.min(...transforms.map(t => t!.scale[1]))
+      ],
+      translate: [bbox[0], bbox[1]]
+    };
+    merged = quantizeWithTransform(merged, transform, bbox).topology;
+  }
+
+  if (deduplicate) {
+    merged = deduplicateArcs(merged);
+  }
+  return encode(merged, encodeOptions);
+}
+
+/**
+ * Replaces arcs that repeat an earlier arc, forwards or reversed, with
+ * references to it, and drops the repeats
+ */
+function deduplicateArcs(topology: Topology): Topology {
+  const quantized = topology.transform !== undefined;
+  const arcs: Arc[] = [];
+  const keys = new Map<string, number>();
+  const renumbered = new Int32Array(topology.arcs.length);
+
+  topology.arcs.forEach((arc, i) => {
+    // Compare absolute positions, so quantized arcs match whatever their deltas
+    const positions = quantized ? absolutePositions(arc) : arc;
+    const key = positions.join(';');
+    const forward = keys.get(key);
+    if (forward !== undefined) {
+      renumbered[i] = forward;
+      return;
+    }
+    const reversed = keys.get(positions.slice().reverse().join(';'));
+    if (reversed !== undefined) {
+      renumbered[i] = ~reversed;
+      return;
+    }
+    keys.set(key, arcs.length);
+    renumbered[i] = arcs.length;
+    arcs.push(arc);
+  });
+
+  const renumber = (index: number) => index < 0 ? ~renumbered[~index] : renumbered[index];
+  const objects: Record<string, Geometry> = {};
+  for (const [name, object] of Object.entries(topology.objects)) {
+    objects[name] = renumberArcs(object, renumber);
+  }
+  return { ...topology, objects, arcs };
+}
+
+function absolutePositions(arc: Arc): Position[] {
+  let x = 0;
+  let y = 0;
+  return arc.map(p => {
+    const output = p.slice();
+    output[0] = x += p[0];
+    output[1] = y += p[1];
+    return output;
+  });
+}
+
+function sameTransform(a: Transform, b: Transform): boolean {
+  return a.scale[0] === b.scale[0] && a.scale[1] === b.scale[1] &&
+    a.translate[0] === b.translate[0] && a.translate[1] === b.translate[1];
+}
+
+function unionBBox(boxes: [number, number, number, number][]): [number, number, number, number] {
+  return [
+    Math.min(...boxes.map(b => b[0])),
+    Math.min(...boxes.map(b => b[1])),
+    Math.max(...boxes.map(b => b[2])),
+    Math.max(...boxes.map(b => b[3]))
+  ];
+}
@@ -0,0 +1,115 @@
+/**
+ * Adjacency from shared arcs
+ *
+ * Geometries that reference the same arc (in either direction) are
+ * neighbors. Both functions only read the arc references in the objects
+ * section, so no coordinates are decoded.
+ */
+
+import type { ArcOwners, NeighborGraph } from './types.js';
+import type { BinaryTopologyView } from './decoder.js';
+
+/**
+ * Finds the neighbors of each geometry of an object (equivalent to
+ * topojson-client's neighbors() of the object's geometries). The neighbors
+ * of geometry i are neighbors.subarray(offsets[i], offsets[i + 1]), in
+ * ascending order. As in topojson-client, a geometry that uses an arc twice
+ * is its own neighbor.
+ */
+export function neighbors(view: BinaryTopologyView, objectName: string): NeighborGraph {
+  const count = view.getGeometryCount(objectName);
+  const numArcs = view.getArcCount();
+  const refs: (Int16Array | Int32Array)[] = [];
+  for (let i = 0; i < count; i++) {
+    refs.push(view.getArcRefs(objectName, i));
+  }
+
+  // Group the geometries using each arc, in geometry order
+  const arcOffsets = new Uint32Array(numArcs + 1);
+  for (const geometryRefs of refs) {
+    for (const ref of geometryRefs) {
+      arcOffsets[checkArc(ref, numArcs) + 1]++;
+    }
+  }
+  for (let a = 0; a < numArcs; a++) {
+    arcOffsets[a + 1] += arcOffsets[a];
+  }
+  const users = new Uint32Array(arcOffsets[numArcs]);
+  const next = arcOffsets.slice(0, numArcs);
+  refs.forEach((geometryRefs, i) => {
+    for (const ref of geometryRefs) {
+      users[next[ref < 0 ? ~ref : ref]++] = i;
+    }
+  });
+
+  // Every pair of uses of an arc links two geometries both ways
+  const rows: number[][] = Array.from({ length: count }, () => []);
+  for (let a = 0; a < numArcs; a++) {
+    for (let j = arcOffsets[a]; j < arcOffsets[a + 1]; j++) {
+      for (let k = j + 1; k < arcOffsets[a + 1]; k++) {
+        rows[users[j]].push(users[k]);
+        rows[users[k]].push(users[j]);
+      }
+    }
+  }
+
+  const offsets = new Uint32Array(count + 1);
+  const unique = rows.map(row => {
+    row.sort((a, b) => a - b);
+    return row.filter((neighbor, i) => i === 0 || neighbor !== row[i - 1]);
+  });
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + unique[i].length;
+  }
+  const result = new Uint32Array(offsets[count]);
+  unique.forEach((row, i) => result.set(row, offsets[i]));
+  return { offsets, neighbors: result };
+}
+
+/**
+ * Finds the polygon geometries on each side of every arc, across all objects
+ * of the topology, or only those of one object when objectName is given.
+ * Owners are an object (by index in the returned objects) and a geometry
+ * index within it. A ring that follows an arc forwards has the arc on its
+ * right and one that follows it reversed (~i) on its left, so with clockwise
+ * exterior rings (as in TopoJSON from topojson-server and d3-geo) left and
+ * right are the geometries on those sides of the arc in its stored
+ * direction. Only Polygon and MultiPolygon geometries are counted; -1 marks
+ * a side with none, and the first geometry found (in object order) wins if
+ * several follow an arc the same way.
+ */
+export function arcOwners(view: BinaryTopologyView, objectName?: string): ArcOwners {
+  const objects = objectName === undefined ? view.getObjectNames() : [objectName];
+  const numArcs = view.getArcCount();
+  const left = new Int32Array(numArcs).fill(-1);
+  const right = new Int32Array(numArcs).fill(-1);
+  const leftObject = new Int32Array(numArcs).fill(-1);
+  const rightObject = new Int32Array(numArcs).fill(-1);
+  objects.forEach((name, o) => {
+    const count = view.getGeometryCount(name);
+    for (let i = 0; i < count; i++) {
+      const type = view.getGeometryType(name, i);
+      if (type !== 'Polygon' && type !== 'MultiPolygon') continue;
+      for (const ref of view.getArcRefs(name, i)) {
+        const [side, sideObject] = ref < 0 ? [left, leftObject] : [right, rightObject];
+        const arc = checkArc(ref, numArcs);
+        if (side[arc] === -1) {
+          side[arc] = i;
+          sideObject[arc] = o;
+        }
+      }
+    }
+  });
+  return { objects, left, right, leftObject, rightObject };
+}
+
+/**
+ * Gets the arc index of a reference, throwing if there is no such arc
+ */
+function checkArc(ref: number, numArcs: number): number {
+  const arc = ref < 0 ? ~ref : ref;
+  if (arc >= numArcs) {
+    throw new Error(`Arc index out of bounds: ${arc}`);
+  }
+  return arc;
+}
@@ -0,0 +1,139 @@
+/**
+ * Typed-array storage for Point and MultiPoint coordinates
+ *
+ * Positions are stored as they appear in the topology (quantized grid
+ * coordinates when there is a transform), in the narrowest coordinate type
+ * that holds every value without loss. Each geometry (numbered as in the
+ * objects section) owns a range of positions: one for a Point, any number for
+ * a MultiPoint and none for other geometries. As with arcs, values beyond x/y
+ * are stored with the coordinates when unquantized, and in a separate Float64
+ * channel when quantized.
+ *
+ * Section layout (the section starts on an 8-byte boundary):
+ *   u32 numGeometries, u32 numPoints, u32 coordinate type code,
+ *   u32 stride (values per position in the coordinates),
+ *   u32 extraDimensions (values per position in the Float64 channel), u32 reserved
+ *   point offsets: (numGeometries + 1) x Uint32, padded to 8 bytes
+ *   coordinates: numPoints x stride values of the coordinate type, padded to 8 bytes
+ *   extra values: numPoints x extraDimensions Float64 values
+ */
+
+import type { CoordinateType, CoordinateArray, Position } from './types.js';
+import { COORDINATE_TYPE_CODES } from './constants.js';
+import { BYTES_PER_COORDINATE, chooseCoordinateType, createCoordinateArray } from './coordinates.js';
+import { flattenArcs } from './arc-table.js';
+import { TopobinFormatError } from './errors.js';
+
+/** Typed array views over a points section */
+export interface PointsSection {
+  /** Each geometry's first position, and the total at the end */
+  offsets: Uint32Array;
+  /** Interleaved values of every position, `stride` per position */
+  coords: CoordinateArray;
+  stride: number;
+  /** Values beyond x/y for quantized topologies, `dimensions - stride` per position */
+  extras: Float64Array;
+  /** Values per position */
+  dimensions: number;
+  /** Byte offset just past the end of the section */
+  end: number;
+}
+
+/**
+ * Encodes the positions of every geometry into a points section
+ *
+ * @param positions - Positions of each geometry, or undefined if it has none
+ * @param dimensions - Values per position; shorter positions are padded with NaN
+ */
+export function encodePoints(
+  positions: (Position[] | undefined)[],
+  hasTransform: boolean,
+  dimensions: number
+): Uint8Array {
+  const numGeometries = positions.length;
+  const offsets = new Uint32Array(numGeometries + 1);
+  const all: Position[] = [];
+  for (let i = 0; i < numGeometries; i++) {
+    offsets[i] = all.length;
+    for (const position of positions[i] || []) {
+      all.push(position);
+    }
+  }
+  offsets[numGeometries] = all.length;
+
+  const table = flattenArcs([all], dimensions);
+  const coordinateType = chooseCoordinateType(table, 'auto', hasTransform);
+  const stride = hasTransform ? 2 : dimensions;
+  const extraDimensions = dimensions - stride;
+  const coordsStart = 24 + Math.ceil(offsets.byteLength / 8) * 8;
+  const coordsSize = all.length * stride * BYTES_PER_COORDINATE[coordinateType];
+  const extrasStart = coordsStart + Math.ceil(coordsSize / 8) * 8;
+  const buffer = new ArrayBuffer(extrasStart + all.length * extraDimensions * 8);
+  const view = new DataView(buffer);
+  view.setUint32(0, numGeometries, false);
+  view.setUint32(4, all.length, false);
+  view.setUint32(8, COORDINATE_TYPE_CODES.indexOf(coordinateType), false);
+  view.setUint32(12, stride, false);
+  view.setUint32(16, extraDimensions, false);
+
+  new Uint32Array(buffer, 24, offsets.length).set(offsets);
+  const coords = createCoordinateArray(coordinateType, buffer, coordsStart, all.length * stride);
+  const extras = new Float64Array(buffer, extrasStart, all.length * extraDimensions);
+  for (let i = 0; i < all.length; i++) {
+    for (let d = 0; d < dimensions; d++) {
+      const value = table.coords[i * dimensions + d];
+      if (d < stride) coords[i * stride + d] = value;
+      else extras[i * extraDimensions + d - stride] = value;
+    }
+  }
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Reads a points section header and creates views over its columns
+ */
+export function readPointsSection(buffer: ArrayBuffer, offset: number): PointsSection {
+  const view = new DataView(buffer);
+  const numGeometries = view.getUint32(offset, false);
+  const numPoints = view.getUint32(offset + 4, false);
+  const coordinateType = readPointCoordinateType(view.getUint32(offset + 8, false), offset + 8);
+  const stride = view.getUint32(offset + 12, false);
+  const extraDimensions = view.getUint32(offset + 16, false);
+
+  const offsets = new Uint32Array(buffer, offset + 24, numGeometries + 1);
+  const coordsStart = offset + 24 + Math.ceil(offsets.byteLength / 8) * 8;
+  const coords = createCoordinateArray(coordinateType, buffer, coordsStart, numPoints * stride);
+  const extrasStart = coordsStart + Math.ceil(coords.byteLength / 8) * 8;
+  const extras = new Float64Array(buffer, extrasStart, numPoints * extraDimensions);
+  return {
+    offsets,
+    coords,
+    stride,
+    extras,
+    dimensions: stride + extraDimensions,
+    end: extrasStart + extras.byteLength
+  };
+}
+
+/**
+ * Gets the byte length of a points section from its 24-byte header
+ */
+export function pointsSectionSize(buffer: ArrayBuffer, offset: number): number {
+  const view = new DataView(buffer);
+  const numGeometries = view.getUint32(offset, false);
+  const numPoints = view.getUint32(offset + 4, false);
+  const coordinateType = readPointCoordinateType(view.getUint32(offset + 8, false), offset + 8);
+  const stride = view.getUint32(offset + 12, false);
+  const extraDimensions = view.getUint32(offset + 16, false);
+  const coordsStart = 24 + Math.ceil((numGeometries + 1) * 4 / 8) * 8;
+  const coordsSize = numPoints * stride * BYTES_PER_COORDINATE[coordinateType];
+  return coordsStart + Math.ceil(coordsSize / 8) * 8 + numPoints * extraDimensions * 8;
+}
+
+function readPointCoordinateType(code: number, offset: number): CoordinateType {
+  const type = COORDINATE_TYPE_CODES[code];
+  if (!type) {
+    throw new TopobinFormatError(`Unsupported point coordinate type code ${code}`, 'invalid-section', offset);
+  }
+  return type;
+}
@@ -0,0 +1,413 @@
+/**
+ * Columnar, dictionary-encoded storage for geometry properties
+ *
+ * Each property key is stored once in the string table and gets a typed column
+ * holding its value for every geometry (numbered as in the objects section):
+ * numbers as Float64 or Int32 arrays, booleans as bitsets, and strings (or any
+ * other JSON values) as indices into a per-column dictionary. Two bitsets per
+ * column record whether the key is present and whether its value is non-null.
+ *
+ * Section layout (the section starts on an 8-byte boundary):
+ *   u32 numGeometries, u32 numColumns
+ *   hasProperties bitset (which geometries have a properties object)
+ *   directory: numColumns x (u32 keyIndex, u32 type, u32 offset, u32 byteLength)
+ *   column data, each column starting on an 8-byte boundary
+ */
+
+import {
+  PROPERTY_FLOAT64,
+  PROPERTY_INT32,
+  PROPERTY_BOOLEAN,
+  PROPERTY_STRING,
+  PROPERTY_JSON
+} from './constants.js';
+import { unshared } from './input.js';
+
+/**
+ * Encodes the properties of every geometry into a properties section
+ *
+ * @param properties - Properties object for each geometry, or undefined if it has none
+ * @param addString - Adds a key to the string table and returns its index
+ */
+export function encodeProperties(
+  properties: (Record<string, unknown> | undefined)[],
+  addString: (value: string) => number
+): Uint8Array {
+  const numGeometries = properties.length;
+
+  // Gather each key's values, in first-seen key order
+  const columns = new Map<string, unknown[]>();
+  for (let i = 0; i < numGeometries; i++) {
+    const props = properties[i];
+    if (!props) continue;
+    for (const [key, value] of Object.entries(props)) {
+      let values = columns.get(key);
+      if (!values) {
+        values = new Array(numGeometries);
+        columns.set(key, values);
+      }
+      values[i] = value;
+    }
+  }
+
+  const encodedColumns: { keyIndex: number; type: number; bytes: Uint8Array }[] = [];
+  for (const [key, values] of columns) {
+    const present = properties.map(props => !!props && Object.prototype.hasOwnProperty.call(props, key));
+    const type = columnType(values);
+    encodedColumns.push({
+      keyIndex: addString(key),
+      type,
+      bytes: encodeColumn(values, present, type)
+    });
+  }
+
+  const bitsetSize = bitsetByteLength(numGeometries);
+  const directoryStart = 8 + bitsetSize;
+  let size = align8(directoryStart + encodedColumns.length * 16);
+  const columnOffsets: number[] = [];
+  for (const column of encodedColumns) {
+    columnOffsets.push(size);
+    size = align8(size + column.bytes.byteLength);
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, numGeometries, false);
+  view.setUint32(4, encodedColumns.length, false);
+  writeBits(bytes, 8, properties.map(props => !!props));
+
+  let offset = directoryStart;
+  encodedColumns.forEach((column, i) => {
+    view.setUint32(offset, column.keyIndex, false); offset += 4;
+    view.setUint32(offset, column.type, false); offset += 4;
+    view.setUint32(offset, columnOffsets[i], false); offset += 4;
+    view.setUint32(offset, column.bytes.byteLength, false); offset += 4;
+    bytes.set(column.bytes, columnOffsets[i]);
+  });
+
+  return bytes;
+}
+
+/**
+ * Picks the narrowest column type that holds every non-null value
+ */
+function columnType(values: unknown[]): number {
+  let allNumbers = true;
+  let allIntegers = true;
+  let allBooleans = true;
+  let allStrings = true;
+
+  for (const value of values) {
+    if (value === undefined || value === null) continue;
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || value < -0x80000000 || value > 0x7FFFFFFF || Object.is(value, -0)) {
+        allIntegers = false;
+      }
+    } else {
+      allNumbers = false;
+    }
+    if (typeof value !== 'boolean') allBooleans = false;
+    if (typeof value !== 'string') allStrings = false;
+  }
+
+  if (allNumbers) return allIntegers ? PROPERTY_INT32 : PROPERTY_FLOAT64;
+  if (allBooleans) return PROPERTY_BOOLEAN;
+  if (allStrings) return PROPERTY_STRING;
+  return PROPERTY_JSON;
+}
+
+/**
+ * Encodes one property column:
+ *   present bitset, non-null bitset, then the values for the column type
+ *   (Float64Array, Int32Array, a value bitset, or dictionary indices followed
+ *   by u32 dictionarySize, Uint32Array dictionary offsets and UTF-8 bytes)
+ */
+function encodeColumn(values: unknown[], present: boolean[], type: number): Uint8Array {
+  const numGeometries = values.length;
+  const bitsetSize = bitsetByteLength(numGeometries);
+  const nonNull = present.map((isPresent, i) => isPresent && values[i] !== null);
+  let dataOffset = bitsetSize * 2;
+
+  const dictionary: Uint8Array[] = [];
+  let dictionaryIndices: number[] = [];
+  let size: number;
+  switch (type) {
+    case PROPERTY_FLOAT64:
+      dataOffset = align8(dataOffset);
+      size = dataOffset + numGeometries * 8;
+      break;
+    case PROPERTY_INT32:
+      size = dataOffset + numGeometries * 4;
+      break;
+    case PROPERTY_BOOLEAN:
+      size = dataOffset + bitsetSize;
+      break;
+    default: {
+      const encoder = new TextEncoder();
+      const entries = new Map<string, number>();
+      dictionaryIndices = values.map((value, i) => {
+        if (!nonNull[i]) return 0;
+        const key = type === PROPERTY_STRING ? value as string : JSON.stringify(value);
+        let index = entries.get(key);
+        if (index === undefined) {
+          index = dictionary.length;
+          entries.set(key, index);
+          dictionary.push(encoder.encode(key));
+        }
+        return index;
+      });
+      const dictionaryBytes = dictionary.reduce((sum, d) => sum + d.byteLength, 0);
+      size = dataOffset + numGeometries * 4 + 4 + (dictionary.length + 1) * 4 + dictionaryBytes;
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.ceil(size / 4) * 4);
+  writeBits(bytes, 0, present);
+  writeBits(bytes, bitsetSize, nonNull);
+
+  switch (type) {
+    case PROPERTY_FLOAT64: {
+      const data = new Float64Array(bytes.buffer, dataOffset, numGeometries);
+      values.forEach((value, i) => { if (nonNull[i]) data[i] = value as number; });
+      break;
+    }
+    case PROPERTY_INT32: {
+      const data = new Int32Array(bytes.buffer, dataOffset, numGeometries);
+      values.forEach((value, i) => { if (nonNull[i]) data[i] = value as number; });
+      break;
+    }
+    case PROPERTY_BOOLEAN:
+      writeBits(bytes, dataOffset, values.map((value, i) => nonNull[i] && value === true));
+      break;
+    default: {
+      new Uint32Array(bytes.buffer, dataOffset, numGeometries).set(dictionaryIndices);
+      let offset = dataOffset + numGeometries * 4;
+      new DataView(bytes.buffer).setUint32(offset, dictionary.length, false); offset += 4;
+      const offsets = new Uint32Array(bytes.buffer, offset, dictionary.length + 1);
+      offset += offsets.byteLength;
+      let byteOffset = 0;
+      dictionary.forEach((entry, i) => {
+        offsets[i] = byteOffset;
+        bytes.set(entry, offset + byteOffset);
+        byteOffset += entry.byteLength;
+      });
+      offsets[dictionary.length] = byteOffset;
+      break;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Gets the byte length of the properties section's counts, bitset and column
+ * directory, from its first 8 bytes
+ */
+export function propertiesDirectorySize(buffer: ArrayBuffer, offset: number): number {
+  const view = new DataView(buffer);
+  return 8 + bitsetByteLength(view.getUint32(offset, false)) + view.getUint32(offset + 4, false) * 16;
+}
+
+/**
+ * Gets the byte length of the properties section starting at an offset
+ */
+export function propertiesSectionSize(buffer: ArrayBuffer, offset: number): number {
+  const view = new DataView(buffer);
+  const numGeometries = view.getUint32(offset, false);
+  const numColumns = view.getUint32(offset + 4, false);
+  const directoryStart = 8 + bitsetByteLength(numGeometries);
+  let size = align8(directoryStart + numColumns * 16);
+  for (let i = 0; i < numColumns; i++) {
+    const entry = offset + directoryStart + i * 16;
+    size = Math.max(size, align8(view.getUint32(entry + 8, false) + view.getUint32(entry + 12, false)));
+  }
+  return size;
+}
+
+/**
+ * A decoded property column; typed arrays point into the original buffer
+ */
+interface PropertyColumn {
+  type: number;
+  present: Uint8Array;
+  nonNull: Uint8Array;
+  numbers?: Float64Array | Int32Array;
+  booleans?: Uint8Array;
+  indices?: Uint32Array;
+  dictionaryOffsets?: Uint32Array;
+  dictionaryBytes?: Uint8Array;
+  dictionaryCache?: unknown[];
+}
+
+/**
+ * Random access to a properties section without decoding every value.
+ * Columns are parsed on first use and dictionary entries decoded on demand.
+ */
+export class PropertyColumns {
+  private buffer: ArrayBuffer;
+  private numGeometries: number;
+  private hasProperties: Uint8Array;
+  private directory = new Map<string, { type: number; offset: number }>();
+  private columns = new Map<string, PropertyColumn>();
+  private decoder = new TextDecoder();
+
+  /** Property keys in column order */
+  readonly keys: string[] = [];
+
+  /**
+   * @param buffer - Buffer containing the section
+   * @param offset - Byte offset of the properties section
+   * @param getString - Looks up a string table entry by index
+   */
+  constructor(buffer: ArrayBuffer, offset: number, getString: (index: number) => string) {
+    const view = new DataView(buffer);
+    this.buffer = buffer;
+    this.numGeometries = view.getUint32(offset, false);
+    const numColumns = view.getUint32(offset + 4, false);
+
+    const bitsetSize = bitsetByteLength(this.numGeometries);
+    this.hasProperties = new Uint8Array(buffer, offset + 8, bitsetSize);
+
+    let entry = offset + 8 + bitsetSize;
+    for (let i = 0; i < numColumns; i++) {
+      const key = getString(view.getUint32(entry, false));
+      this.keys.push(key);
+      this.directory.set(key, {
+        type: view.getUint32(entry + 4, false),
+        offset: offset + view.getUint32(entry + 8, false)
+      });
+      entry += 16;
+    }
+  }
+
+  /**
+   * Whether the geometry has a properties object
+   */
+  has(geometry: number): boolean {
+    return readBit(this.hasProperties, geometry);
+  }
+
+  /**
+   * Gets one property value of one geometry (undefined if the key is missing)
+   */
+  get(geometry: number, key: string): unknown {
+    const column = this.getColumn(key);
+    if (!column || !readBit(column.present, geometry)) {
+      return undefined;
+    }
+    if (!readBit(column.nonNull, geometry)) {
+      return null;
+    }
+
+    switch (column.type) {
+      case PROPERTY_FLOAT64:
+      case PROPERTY_INT32:
+        return column.numbers![geometry];
+      case PROPERTY_BOOLEAN:
+        return readBit(column.booleans!, geometry);
+      default:
+        return this.getDictionaryEntry(column, column.indices![geometry]);
+    }
+  }
+
+  /**
+   * Gets the full properties object of a geometry (undefined if it has none)
+   */
+  getAll(geometry: number): Record<string, unknown> | undefined {
+    if (!this.has(geometry)) {
+      return undefined;
+    }
+    const properties: Record<string, unknown> = {};
+    for (const key of this.keys) {
+      const value = this.get(geometry, key);
+      if (value !== undefined) {
+        properties[key] = value;
+      }
+    }
+    return properties;
+  }
+
+  private getColumn(key: string): PropertyColumn | undefined {
+    let column = this.columns.get(key);
+    if (column) {
+      return column;
+    }
+    const entry = this.directory.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const n = this.numGeometries;
+    const bitsetSize = bitsetByteLength(n);
+    let offset = entry.offset;
+    column = {
+      type: entry.type,
+      present: new Uint8Array(this.buffer, offset, bitsetSize),
+      nonNull: new Uint8Array(this.buffer, offset + bitsetSize, bitsetSize)
+    };
+    offset += bitsetSize * 2;
+
+    switch (entry.type) {
+      case PROPERTY_FLOAT64:
+        column.numbers = new Float64Array(this.buffer, entry.offset + align8(bitsetSize * 2), n);
+        break;
+      case PROPERTY_INT32:
+        column.numbers = new Int32Array(this.buffer, offset, n);
+        break;
+      case PROPERTY_BOOLEAN:
+        column.booleans = new Uint8Array(this.buffer, offset, bitsetSize);
+        break;
+      case PROPERTY_STRING:
+      case PROPERTY_JSON: {
+        column.indices = new Uint32Array(this.buffer, offset, n);
+        offset += n * 4;
+        const dictionarySize = new DataView(this.buffer).getUint32(offset, false); offset += 4;
+        column.dictionaryOffsets = new Uint32Array(this.buffer, offset, dictionarySize + 1);
+        offset += (dictionarySize + 1) * 4;
+        column.dictionaryBytes = new Uint8Array(this.buffer, offset, column.dictionaryOffsets[dictionarySize]);
+        column.dictionaryCache = new Array(dictionarySize);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported property column type ${entry.type} for key "${key}"`);
+    }
+
+    this.columns.set(key, column);
+    return column;
+  }
+
+  private getDictionaryEntry(column: PropertyColumn, index: number): unknown {
+    const cache = column.dictionaryCache!;
+    if (index >= cache.length) {
+      throw new Error(`Property dictionary index ${index} out of range (dictionary has ${cache.length} entries)`);
+    }
+    if (!(index in cache)) {
+      const offsets = column.dictionaryOffsets!;
+      const text = this.decoder.decode(unshared(column.dictionaryBytes!.subarray(offsets[index], offsets[index + 1])));
+      cache[index] = column.type === PROPERTY_STRING ? text : JSON.parse(text);
+    }
+    return cache[index];
+  }
+}
+
+/**
+ * Size of a bitset holding one bit per geometry, padded to 4 bytes
+ */
+function bitsetByteLength(count: number): number {
+  return Math.ceil(Math.ceil(count / 8) / 4) * 4;
+}
+
+function align8(offset: number): number {
+  return Math.ceil(offset / 8) * 8;
+}
+
+function writeBits(bytes: Uint8Array, offset: number, bits: boolean[]): void {
+  bits.forEach((bit, i) => {
+    if (bit) bytes[offset + (i >> 3)] |= 1 << (i & 7);
+  });
+}
+
+function readBit(bits: Uint8Array, index: number): boolean {
+  return (bits[index >> 3] & (1 << (index & 7))) !== 0;
+}
@@ -0,0 +1,215 @@
+/**
+ * Quantization of unquantized topologies, following topojson-client's
+ * quantize(): positions are rounded to a grid of n values per axis over the
+ * bbox and arcs are delta-encoded, dropping points that become coincident.
+ * dequantize() converts back to absolute coordinates.
+ */
+
+import type { Topology, Transform, Arc, Geometry, Position } from './types.js';
+
+/**
+ * Quantizes a topology, returning the quantized copy and the largest rounding
+ * error in x and y
+ */
+export function quantize(
+  topology: Topology,
+  n: number
+): { topology: Topology; maxError: [number, number] } {
+  if (topology.transform) {
+    throw new Error('Cannot quantize a topology that is already quantized');
+  }
+  const box = topology.bbox || computeBBox(topology);
+  return quantizeWithTransform(topology, quantizationTransform(box, n), box);
+}
+
+/**
+ * The transform of a grid with n values per axis over a bbox
+ */
+export function quantizationTransform(box: [number, number, number, number], n: number): Transform {
+  n = Math.floor(n);
+  if (!(n >= 2)) {
+    throw new Error('Quantization must be at least 2');
+  }
+  const [x0, y0, x1, y1] = box;
+  return {
+    scale: [x1 - x0 ? (x1 - x0) / (n - 1) : 1, y1 - y0 ? (y1 - y0) / (n - 1) : 1],
+    translate: [x0, y0]
+  };
+}
+
+/**
+ * Quantizes an unquantized topology onto the grid of the given transform,
+ * returning the quantized copy and the largest rounding error in x and y
+ */
+export function quantizeWithTransform(
+  topology: Topology,
+  transform: Transform,
+  box = topology.bbox || computeBBox(topology)
+): { topology: Topology; maxError: [number, number] } {
+  const [kx, ky] = transform.scale;
+  const [dx, dy] = transform.translate;
+  const maxError: [number, number] = [0, 0];
+
+  // Quantizes a position to absolute grid coordinates, tracking the error
+  const quantizePosition = (p: Position): Position => {
+    const output = p.slice();
+    output[0] = Math.round((p[0] - dx) / kx);
+    output[1] = Math.round((p[1] - dy) / ky);
+    maxError[0] = Math.max(maxError[0], Math.abs(output[0] * kx + dx - p[0]));
+    maxError[1] = Math.max(maxError[1], Math.abs(output[1] * ky + dy - p[1]));
+    return output;
+  };
+
+  const quantizeArc = (input: Arc): Arc => {
+    const output: Arc = [];
+    let px = 0;
+    let py = 0;
+    for (let i = 0; i < input.length; i++) {
+      const p = quantizePosition(input[i]);
+      const x = p[0];
+      const y = p[1];
+      p[0] -= px;
+      p[1] -= py;
+      px = x;
+      py = y;
+      if (i === 0 || p[0] || p[1]) {
+        output.push(p); // Skip coincident points
+      }
+    }
+    if (output.length === 1) {
+      output.push([0, 0]); // An arc must have at least two points
+    }
+    return output;
+  };
+
+  const quantizeGeometry = (input: Geometry): Geometry => {
+    switch (input.type) {
+      case 'GeometryCollection':
+        return { ...input, geometries: input.geometries.map(quantizeGeometry) };
+      case 'Point':
+        return { ...input, coordinates: quantizePosition(input.coordinates) };
+      case 'MultiPoint':
+        return { ...input, coordinates: input.coordinates.map(quantizePosition) };
+      default:
+        return input;
+    }
+  };
+
+  const objects: Record<string, Geometry> = {};
+  for (const [name, object] of Object.entries(topology.objects)) {
+    objects[name] = quantizeGeometry(object);
+  }
+
+  return {
+    topology: {
+      type: 'Topology',
+      bbox: box,
+      transform,
+      objects,
+      arcs: topology.arcs.map(quantizeArc)
+    },
+    maxError
+  };
+}
+
+/**
+ * Converts a quantized topology back to absolute coordinates, as
+ * topojson-client's transform does. Values beyond x/y are copied unchanged.
+ */
+export function dequantize(topology: Topology): Topology {
+  if (!topology.transform) {
+    return topology;
+  }
+  const [kx, ky] = topology.transform.scale;
+  const [dx, dy] = topology.transform.translate;
+
+  const dequantizePosition = (p: Position): Position => {
+    const output = p.slice();
+    output[0] = p[0] * kx + dx;
+    output[1] = p[1] * ky + dy;
+    return output;
+  };
+
+  const dequantizeArc = (input: Arc): Arc => {
+    let x = 0;
+    let y = 0;
+    return input.map(p => {
+      const output = p.slice();
+      output[0] = (x += p[0]) * kx + dx;
+      output[1] = (y += p[1]) * ky + dy;
+      return output;
+    });
+  };
+
+  const dequantizeGeometry = (input: Geometry): Geometry => {
+    switch (input.type) {
+      case 'GeometryCollection':
+        return { ...input, geometries: input.geometries.map(dequantizeGeometry) };
+      case 'Point':
+        return { ...input, coordinates: dequantizePosition(input.coordinates) };
+      case 'MultiPoint':
+        return { ...input, coordinates: input.coordinates.map(dequantizePosition) };
+      default:
+        return input;
+    }
+  };
+
+  const objects: Record<string, Geometry> = {};
+  for (const [name, object] of Object.entries(topology.objects)) {
+    objects[name] = dequantizeGeometry(object);
+  }
+
+  const output: Topology = { type: 'Topology', objects, arcs: topology.arcs.map(dequantizeArc) };
+  if (topology.bbox) output.bbox = topology.bbox;
+  return output;
+}
+
+/**
+ * Computes the bbox of a topology's arcs and points, in untransformed
+ * coordinates when the topology is quantized
+ */
+export function computeBBox(topology: Topology): [number, number, number, number] {
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+
+  const addXY = (x: number, y: number) => {
+    if (x < x0) x0 = x;
+    if (x > x1) x1 = x;
+    if (y < y0) y0 = y;
+    if (y > y1) y1 = y;
+  };
+
+  const [kx, ky] = topology.transform ? topology.transform.scale : [1, 1];
+  const [dx, dy] = topology.transform ? topology.transform.translate : [0, 0];
+  const addPoint = (p: Position) => addXY(p[0] * kx + dx, p[1] * ky + dy);
+
+  const addGeometry = (o: Geometry) => {
+    switch (o.type) {
+      case 'GeometryCollection': o.geometries.forEach(addGeometry); break;
+      case 'Point': addPoint(o.coordinates); break;
+      case 'MultiPoint': o.coordinates.forEach(addPoint); break;
+    }
+  };
+
+  for (const arc of topology.arcs) {
+    if (topology.transform) {
+      // Quantized arcs are delta-encoded
+      let x = 0;
+      let y = 0;
+      for (const p of arc) {
+        x += p[0];
+        y += p[1];
+        addPoint([x, y]);
+      }
+    } else {
+      arc.forEach(addPoint);
+    }
+  }
+  for (const object of Object.values(topology.objects)) {
+    addGeometry(object);
+  }
+
+  return [x0, y0, x1, y1];
+}
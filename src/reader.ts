@@ -0,0 +1,533 @@
+/**
+ * Incremental decoding of a binary topology as its bytes arrive
+ *
+ * Sections are parsed in buffer order, so arcs are handed out as soon as their
+ * bytes are in (after the string table and arc offsets), and objects once the
+ * objects and properties sections are complete. Anything after them (the
+ * spatial index and checksums) is ignored, as are sections listed in the
+ * section directory that this library does not know.
+ *
+ * Streamed buffers, as written by TopobinWriter, frame their arc data with the
+ * point count of each arc, so their arcs are handed out as they arrive too.
+ * The sections after the arc frames are laid out by a trailer at the very
+ * end, so they are collected and read once the stream ends.
+ */
+
+import type { Arc, CoordinateArray, TopobinReaderHandlers } from './types.js';
+import {
+  MAGIC,
+  DIRECTORY_VERSION,
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED,
+  OBJECTS_FLAG_INT16_ARC_REFS
+} from './constants.js';
+import {
+  DIRECTORY_ENTRY_SIZE,
+  HEADER_SIZE,
+  STREAM_TRAILER_SIZE,
+  parseStreamTrailer,
+  readHeader
+} from './header.js';
+import { parseStringTable, readObjects, readObjectsV1 } from './decoder.js';
+import { PointsSection, pointsSectionSize, readPointsSection } from './points.js';
+import { propertiesDirectorySize, propertiesSectionSize } from './properties.js';
+import { readVarints } from './varint.js';
+import { BYTES_PER_COORDINATE, createCoordinateArray, readPosition } from './coordinates.js';
+import { TopobinFormatError } from './errors.js';
+
+/**
+ * What the parser waits for next: a number of bytes, bytes to discard, the
+ * bytes holding a number of varints, or every byte up to the end of the stream
+ */
+type Need = number | { skip: number } | { varints: number } | { rest: true };
+
+/** Bytes copied out of the received chunks, in a buffer of their own */
+type Bytes = Uint8Array<ArrayBuffer>;
+
+type Parser = Generator<Need, void, Bytes>;
+
+/**
+ * Decodes a binary topology from chunks of bytes, calling the handlers as
+ * soon as each arc and object is complete
+ */
+export class TopobinReader {
+  private handlers: TopobinReaderHandlers;
+  /** Received bytes not yet parsed */
+  private chunks: Uint8Array[] = [];
+  private available = 0;
+  /** Byte offset of the first unparsed byte */
+  private position = 0;
+  private state: 'start' | 'parse' | 'done' | 'ended' = 'start';
+  private parser?: Parser;
+  private need: Need = 0;
+  /** Set once end() is called, so the rest of the stream can be handed over */
+  private ending = false;
+
+  constructor(handlers: TopobinReaderHandlers = {}) {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Adds the next chunk of the buffer. Chunks are kept until they are parsed,
+   * so they must not be reused by the caller.
+   */
+  push(chunk: Uint8Array): void {
+    if (this.state === 'ended') {
+      throw new Error('TopobinReader has ended');
+    }
+    if (this.state === 'done' || chunk.byteLength === 0) return;
+    this.chunks.push(chunk);
+    this.available += chunk.byteLength;
+    this.pump();
+  }
+
+  /**
+   * Signals the end of the buffer, throwing a TopobinFormatError if it was
+   * truncated
+   */
+  end(): void {
+    if (this.state === 'parse' && typeof this.need === 'object' && 'rest' in this.need) {
+      this.ending = true;
+      this.pump();
+    }
+    if (this.state !== 'done') {
+      throw new TopobinFormatError(
+        'Stream ended before the objects section was complete',
+        'section-overrun',
+        this.position + this.available
+      );
+    }
+    this.state = 'ended';
+  }
+
+  /**
+   * Pushes every chunk of a stream, then ends
+   */
+  async read(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>): Promise<void> {
+    if ('getReader' in source) {
+      const reader = source.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          this.push(value);
+        }
+      } catch (error) {
+        await reader.cancel(error);
+        throw error;
+      } finally {
+        reader.releaseLock();
+      }
+    } else {
+      for await (const chunk of source) {
+        this.push(chunk);
+      }
+    }
+    this.end();
+  }
+
+  /**
+   * Feeds the parser for as long as the received bytes satisfy it
+   */
+  private pump(): void {
+    if (this.state === 'start') {
+      if (this.available < 8) return;
+      const head = new DataView(this.peek(8).buffer);
+      if (head.getUint32(0, false) !== MAGIC) {
+        throw new TopobinFormatError('Invalid TopoJSON binary format: bad magic number', 'bad-magic', 0);
+      }
+      this.parser = this.parse();
+      this.need = this.parser.next().value as Need;
+      this.state = 'parse';
+    }
+    if (this.state !== 'parse' || !this.parser) return;
+
+    for (;;) {
+      const input = this.fulfil(this.need);
+      if (!input) return;
+      const next = this.parser.next(input);
+      if (next.done) {
+        this.state = 'done';
+        this.chunks = [];
+        this.available = 0;
+        return;
+      }
+      this.need = next.value;
+    }
+  }
+
+  /**
+   * Takes the bytes the parser needs, or returns undefined if they have not
+   * all arrived yet
+   */
+  private fulfil(need: Need): Bytes | undefined {
+    if (typeof need === 'number') {
+      return this.available >= need ? this.take(need) : undefined;
+    }
+    if ('rest' in need) {
+      return this.ending ? this.take(this.available) : undefined;
+    }
+    if ('skip' in need) {
+      const length = Math.min(need.skip, this.available);
+      this.take(length);
+      need.skip -= length;
+      return need.skip === 0 ? new Uint8Array(0) : undefined;
+    }
+    const length = this.scanVarints(need.varints);
+    return length === -1 ? undefined : this.take(length);
+  }
+
+  /**
+   * Parses the sections of a buffer in order, yielding what it needs next
+   */
+  private *parse(): Parser {
+    const { handlers } = this;
+    const fixed = yield HEADER_SIZE;
+    const headerFlags = new DataView(fixed.buffer).getUint16(6, false);
+    const parts = [fixed, yield (headerFlags & FLAG_HAS_TRANSFORM ? 32 : 0) + (headerFlags & FLAG_HAS_BBOX ? 32 : 0)];
+    if (headerFlags & FLAG_STREAMED && new DataView(fixed.buffer).getUint16(4, false) < DIRECTORY_VERSION) {
+      yield* this.parseStreamed(concat(parts));
+      return;
+    }
+    if (new DataView(fixed.buffer).getUint16(4, false) >= DIRECTORY_VERSION) {
+      const count = yield 4;
+      parts.push(count, yield new DataView(count.buffer).getUint32(0, false) * DIRECTORY_ENTRY_SIZE);
+    }
+    const header = readHeader(concat(parts).buffer, 0, undefined, false);
+    const { version, flags, numArcs, totalArcPoints, numObjects, dimensions, stride, transform, bbox, layout } = header;
+    if (handlers.header) {
+      handlers.header({ version, ...(transform && { transform }), ...(bbox && { bbox }) });
+    }
+
+    // Sections the directory lists that this library does not know are skipped on the way
+    yield this.seek(layout?.strings, 1);
+    const strings = parseStringTable(yield header.stringTableSize);
+    yield this.seek(layout?.arcOffsets, 4);
+
+    const arcOffsetsStart = this.position;
+    const arcOffsets = new Uint32Array((yield (numArcs + 1) * 4).buffer);
+    checkArcOffsets(arcOffsets, totalArcPoints, arcOffsetsStart);
+
+    // Arcs are handed out as they arrive, unless they wait for their extra values
+    const varint = (flags & FLAG_VARINT_ARCS) !== 0;
+    const extraDimensions = dimensions - stride;
+    const bytesPerCoord = BYTES_PER_COORDINATE[header.coordinateType];
+    let varintEnd = 0;
+    if (varint) {
+      if (flags & FLAG_ARC_BYTE_INDEX) yield { skip: (numArcs + 1) * 4 };
+      const size = new DataView((yield 4).buffer).getUint32(0, false);
+      varintEnd = this.position + size;
+    } else {
+      yield this.align(bytesPerCoord);
+    }
+    const held: CoordinateArray[] = [];
+    for (let i = 0; i < numArcs; i++) {
+      const length = (arcOffsets[i + 1] - arcOffsets[i]) * stride;
+      let coords: CoordinateArray;
+      if (varint) {
+        coords = new Int32Array(length);
+        readVarints(yield { varints: length }, 0, length, coords);
+      } else {
+        coords = createCoordinateArray(header.coordinateType, (yield length * bytesPerCoord).buffer, 0, length);
+      }
+      if (extraDimensions > 0) {
+        held.push(coords);
+      } else {
+        this.emitArc(i, coords, stride, dimensions);
+      }
+    }
+    if (varint) {
+      yield { skip: Math.max(varintEnd - this.position, 0) };
+    }
+
+    // Values beyond x/y of quantized arcs, 8-byte aligned
+    if (extraDimensions > 0) {
+      yield this.align(8);
+      for (let i = 0; i < numArcs; i++) {
+        const values = new Float64Array((yield (arcOffsets[i + 1] - arcOffsets[i]) * extraDimensions * 8).buffer);
+        this.emitArc(i, held[i], stride, dimensions, values);
+      }
+    }
+
+    if (flags & FLAG_HAS_WEIGHTS) {
+      yield this.seek(layout?.weights, 8);
+      yield { skip: totalArcPoints * 8 };
+    }
+
+    let points: PointsSection | undefined;
+    if (flags & FLAG_HAS_POINTS) {
+      yield this.seek(layout?.points, 8);
+      const head = yield 24;
+      const section = concat([head, yield pointsSectionSize(head.buffer, 0) - 24]);
+      points = readPointsSection(section.buffer, 0);
+    }
+
+    yield this.seek(layout?.objects, 4);
+    const names = strings.slice(0, numObjects);
+    if (version === 1) {
+      const size = yield 4;
+      const objects = readObjectsV1(concat([size, yield new DataView(size.buffer).getUint32(0, false)]).buffer, 0);
+      for (const name of Object.keys(objects)) {
+        handlers.object?.(objects[name], name);
+      }
+      return;
+    }
+
+    // Collect the objects section, then the properties section that follows
+    // it, keeping their offsets modulo 8 so the typed arrays stay aligned
+    const objectsStart = this.position;
+    const head = yield 20;
+    const objectParts = [head, yield objectColumnsSize(head)];
+    const extrasSize = yield 4;
+    objectParts.push(extrasSize, yield Math.ceil(new DataView(extrasSize.buffer).getUint32(0, false) / 4) * 4);
+    const hasProperties = (flags & FLAG_HAS_PROPERTIES) !== 0;
+    let propertiesStart: number | undefined;
+    if (hasProperties) {
+      const padding = new Uint8Array(this.seek(layout?.properties, 8).skip);
+      yield { skip: padding.byteLength };
+      propertiesStart = this.position - objectsStart + objectsStart % 8;
+      const counts = yield 8;
+      const directory = concat([counts, yield propertiesDirectorySize(counts.buffer, 0) - 8]);
+      objectParts.push(
+        padding,
+        directory,
+        yield propertiesSectionSize(directory.buffer, 0) - directory.byteLength
+      );
+    }
+    const base = objectsStart % 8;
+    const buffer = concat(objectParts, base).buffer;
+    const objects = readObjects(buffer, base, names, strings, hasProperties, points, propertiesStart);
+    for (const name of names) {
+      handlers.object?.(objects[name], name);
+    }
+  }
+
+  /**
+   * Builds an arc from its stored values and hands it to the arc handler
+   */
+  private emitArc(
+    index: number,
+    coords: CoordinateArray,
+    stride: number,
+    dimensions: number,
+    extras?: Float64Array
+  ): void {
+    if (!this.handlers.arc) return;
+    const arc: Arc = [];
+    for (let k = 0; k * stride < coords.length; k++) {
+      arc.push(readPosition(coords, k * stride, dimensions, extras, k * (dimensions - stride)));
+    }
+    this.handlers.arc(arc, index);
+  }
+
+  /**
+   * Parses a streamed buffer: arcs frame by frame, then the sections the
+   * trailer lays out once the stream has ended
+   */
+  private *parseStreamed(head: Bytes): Parser {
+    const { handlers } = this;
+
+    // The header holds everything but the counts and the flags of later sections
+    const headerView = new DataView(head.buffer);
+    const headerFlags = headerView.getUint16(6, false);
+    headerView.setUint16(6, headerFlags & ~FLAG_STREAMED, false);
+    const { version, transform, bbox, coordinateType, stride, dimensions } = readHeader(head.buffer, 0, undefined, false);
+    handlers.header?.({ version, ...(transform && { transform }), ...(bbox && { bbox }) });
+
+    // Each frame is a count of arcs, their point counts, then their coordinates
+    const arcDataStart = this.position;
+    const bytesPerCoord = BYTES_PER_COORDINATE[coordinateType];
+    let numArcs = 0;
+    let totalArcPoints = 0;
+    for (;;) {
+      const count = new DataView((yield 4).buffer).getUint32(0, false);
+      if (count === 0) break;
+      const counts = new DataView((yield count * 4).buffer);
+      yield this.align(8);
+      for (let i = 0; i < count; i++) {
+        const length = counts.getUint32(i * 4, false) * stride;
+        const coords = createCoordinateArray(coordinateType, (yield length * bytesPerCoord).buffer, 0, length);
+        this.emitArc(numArcs++, coords, stride, dimensions);
+        totalArcPoints += length / stride;
+      }
+      yield this.align(8);
+    }
+
+    // Everything else is read from the rest of the stream, which ends with the trailer
+    const restStart = this.position;
+    const rest = yield { rest: true };
+    if (rest.byteLength < STREAM_TRAILER_SIZE) {
+      throw new TopobinFormatError(
+        'Stream ended before the stream trailer was complete',
+        'section-overrun',
+        restStart + rest.byteLength
+      );
+    }
+    const trailerStart = restStart + rest.byteLength - STREAM_TRAILER_SIZE;
+    const trailer = parseStreamTrailer(
+      headerFlags,
+      new DataView(rest.buffer, rest.byteLength - STREAM_TRAILER_SIZE),
+      trailerStart
+    );
+    const { layout } = trailer;
+    if (trailer.numArcs !== numArcs || trailer.totalArcPoints !== totalArcPoints) {
+      throw new TopobinFormatError(
+        `Arc frames hold ${numArcs} arcs of ${totalArcPoints} points, ` +
+        `but the stream trailer declares ${trailer.numArcs} arcs of ${trailer.totalArcPoints} points`,
+        'invalid-section',
+        trailerStart
+      );
+    }
+    const flags = trailer.flags;
+    const hasPoints = (flags & FLAG_HAS_POINTS) !== 0;
+    if (
+      layout.arcData !== arcDataStart ||
+      Math.min(layout.strings, layout.objects, hasPoints ? layout.points : Infinity) < restStart
+    ) {
+      throw new TopobinFormatError('Stream trailer places sections inside the arc frames', 'invalid-section', trailerStart);
+    }
+    headerView.setUint16(6, flags & ~FLAG_STREAMED, false);
+    readHeader(head.buffer, 0, undefined, false);
+
+    // Keep the offsets modulo 8 so the typed arrays stay aligned
+    const base = restStart % 8;
+    const buffer = concat([rest], base).buffer;
+    const at = (offset: number) => offset - restStart + base;
+    const points = hasPoints ? readPointsSection(buffer, at(layout.points)) : undefined;
+    const strings = parseStringTable(new Uint8Array(buffer, at(layout.strings), trailer.stringTableSize));
+    const names = strings.slice(0, trailer.numObjects);
+    const objects = version === 1
+      ? readObjectsV1(buffer, at(layout.objects))
+      : readObjects(buffer, at(layout.objects), names, strings, (flags & FLAG_HAS_PROPERTIES) !== 0, points);
+    for (const name of version === 1 ? Object.keys(objects) : names) {
+      handlers.object?.(objects[name], name);
+    }
+  }
+
+  /**
+   * Padding needed to reach the next multiple of the alignment
+   */
+  private align(alignment: number): { skip: number } {
+    return { skip: Math.ceil(this.position / alignment) * alignment - this.position };
+  }
+
+  /**
+   * Bytes to skip to reach a section at the offset the section directory
+   * gives, or padding up to the alignment for buffers without a directory
+   */
+  private seek(offset: number | undefined, alignment: number): { skip: number } {
+    return offset === undefined ? this.align(alignment) : { skip: offset - this.position };
+  }
+
+  /**
+   * Removes bytes from the front of the queue, returning them in a new buffer
+   */
+  private take(length: number): Bytes {
+    const bytes = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const chunk = this.chunks[0];
+      const count = Math.min(chunk.byteLength, length - filled);
+      bytes.set(chunk.subarray(0, count), filled);
+      filled += count;
+      if (count === chunk.byteLength) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(count);
+      }
+    }
+    this.available -= length;
+    this.position += length;
+    return bytes;
+  }
+
+  /**
+   * Copies bytes from the front of the queue without removing them
+   */
+  private peek(length: number): Bytes {
+    const bytes = new Uint8Array(length);
+    let filled = 0;
+    for (const chunk of this.chunks) {
+      if (filled === length) break;
+      const count = Math.min(chunk.byteLength, length - filled);
+      bytes.set(chunk.subarray(0, count), filled);
+      filled += count;
+    }
+    return bytes;
+  }
+
+  /**
+   * Counts the bytes holding the next `count` varints (see readVarints), or
+   * returns -1 if they have not all arrived yet
+   */
+  private scanVarints(count: number): number {
+    let length = 0;
+    let valueBytes = 0;
+    for (const chunk of this.chunks) {
+      if (count === 0) break;
+      for (let i = 0; i < chunk.byteLength && count > 0; i++) {
+        length++;
+        valueBytes++;
+        if ((chunk[i] & 0x80) === 0 || valueBytes === 5) {
+          valueBytes = 0;
+          count--;
+        }
+      }
+    }
+    return count === 0 ? length : -1;
+  }
+}
+
+/**
+ * Checks that arc offsets start at 0, never decrease and end at the point
+ * count, as the reader relies on them for section sizes
+ */
+function checkArcOffsets(arcOffsets: Uint32Array, totalArcPoints: number, start: number): void {
+  for (let i = 0; i < arcOffsets.length; i++) {
+    if (i === 0 ? arcOffsets[0] !== 0 : arcOffsets[i] < arcOffsets[i - 1]) {
+      throw new TopobinFormatError(`Arc offsets are not monotonic at index ${i}`, 'arc-offsets-not-monotonic', start + i * 4);
+    }
+  }
+  const last = arcOffsets[arcOffsets.length - 1];
+  if (last !== totalArcPoints) {
+    throw new TopobinFormatError(
+      `Arc offsets end at ${last} but the header declares ${totalArcPoints} points`,
+      'arc-offsets-total-mismatch',
+      start + (arcOffsets.length - 1) * 4
+    );
+  }
+}
+
+/**
+ * Size of the objects section columns between its 20-byte header and the
+ * extras (see readObjectsSection)
+ */
+export function objectColumnsSize(head: Uint8Array): number {
+  const view = new DataView(head.buffer);
+  const numGeometries = view.getUint32(0, false);
+  const numPolygons = view.getUint32(4, false);
+  const numRings = view.getUint32(8, false);
+  const numArcRefs = view.getUint32(12, false);
+  const arcRefSize = view.getUint32(16, false) & OBJECTS_FLAG_INT16_ARC_REFS ? 2 : 4;
+  return (3 * numGeometries + 2 + numPolygons + 1 + numRings + 1) * 4 +
+    Math.ceil(numArcRefs * arcRefSize / 4) * 4 +
+    Math.ceil(numGeometries / 4) * 4;
+}
+
+/**
+ * Joins byte arrays into a new buffer, starting at an offset
+ */
+export function concat(parts: Uint8Array[], offset = 0): Bytes {
+  const bytes = new Uint8Array(offset + parts.reduce((sum, part) => sum + part.byteLength, 0));
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
@@ -0,0 +1,198 @@
+/**
+ * Drawing paths directly from a BinaryTopologyView
+ *
+ * Arcs are read into one reused buffer with getArcAbsolute(), which undoes
+ * delta encoding and applies the transform, then walked forwards or
+ * backwards and sent point by point to a Canvas-like context. No GeoJSON or
+ * coordinate arrays are built along the way.
+ */
+
+import type { BinaryTopologyView } from './decoder.js';
+import type { Geometry, PathContext, Position, RenderOptions } from './types.js';
+
+/**
+ * Draws an object, or one of its geometries with the index option, into a
+ * context (a CanvasRenderingContext2D or an SvgPathBuilder) and returns the
+ * context. Lines are drawn with moveTo() and lineTo(); polygon rings are
+ * closed with closePath() instead of a line back to their first point; points
+ * are drawn as circles if the context has arc().
+ */
+export function renderPath<C extends PathContext>(
+  view: BinaryTopologyView,
+  objectName: string,
+  context: C,
+  options: RenderOptions = {}
+): C {
+  const geometry = options.index === undefined
+    ? view.getObject(objectName)
+    : view.getGeometry(objectName, options.index);
+  if (!geometry) {
+    throw new Error(`Unknown object: ${objectName}`);
+  }
+  createRenderer(view, context, options)(geometry);
+  return context;
+}
+
+/**
+ * Creates a function drawing TopoJSON geometries, skipping points within the
+ * tolerance of the last point drawn
+ */
+function createRenderer(view: BinaryTopologyView, context: PathContext, options: RenderOptions) {
+  const transform = view.getTransform();
+  const dimensions = view.getDimensions();
+  const { projection } = options;
+  const tolerance = options.tolerance ?? 1;
+  const radius = options.pointRadius ?? 4.5;
+  let coords = new Float64Array(64);
+  let x0 = 0;
+  let y0 = 0;
+
+  const point = (p: Position) => {
+    if (!context.arc) return;
+    let x = transform ? p[0] * transform.scale[0] + transform.translate[0] : p[0];
+    let y = transform ? p[1] * transform.scale[1] + transform.translate[1] : p[1];
+    if (projection) [x, y] = projection(x, y);
+    context.moveTo(x + radius, y);
+    context.arc(x, y, radius, 0, 2 * Math.PI);
+  };
+
+  // Draws the arcs as one line, leaving out the last point of a closed ring
+  const line = (arcs: number[], closed: boolean) => {
+    let started = false;
+    for (let a = 0; a < arcs.length; a++) {
+      const i = arcs[a];
+      const index = i < 0 ? ~i : i;
+      const n = view.getArcPointCount(index, options);
+      if (coords.length < n * dimensions) {
+        coords = new Float64Array(n * dimensions);
+      }
+      view.getArcAbsolute(index, coords, options);
+
+      // Each arc's last point is where the next one starts, as in topojson-client
+      const last = a === arcs.length - 1 && !closed;
+      for (let k = 0; k < (last ? n : n - 1); k++) {
+        const end = last && k === n - 1;
+        const j = (i < 0 ? n - 1 - k : k) * dimensions;
+        let x = coords[j];
+        let y = coords[j + 1];
+        if (projection) [x, y] = projection(x, y);
+        if (!started) {
+          context.moveTo(x, y);
+          started = true;
+        } else if (end || Math.abs(x - x0) >= tolerance || Math.abs(y - y0) >= tolerance) {
+          context.lineTo(x, y);
+        } else {
+          continue;
+        }
+        x0 = x;
+        y0 = y;
+      }
+    }
+    if (closed && started) context.closePath();
+  };
+
+  const polygon = (rings: number[][]) => {
+    for (const ring of rings) line(ring, true);
+  };
+
+  const geometry = (o: Geometry): void => {
+    switch (o.type) {
+      case 'GeometryCollection':
+        o.geometries.forEach(geometry);
+        break;
+      case 'Point':
+        point(o.coordinates);
+        break;
+      case 'MultiPoint':
+        o.coordinates.forEach(point);
+        break;
+      case 'LineString':
+        line(o.arcs, false);
+        break;
+      case 'MultiLineString':
+        for (const arcs of o.arcs) line(arcs, false);
+        break;
+      case 'Polygon':
+        polygon(o.arcs);
+        break;
+      case 'MultiPolygon':
+        o.arcs.forEach(polygon);
+        break;
+    }
+  };
+
+  return geometry;
+}
+
+/**
+ * Path context that builds an SVG path string, for the d attribute of a
+ * path element
+ */
+export class SvgPathBuilder implements PathContext {
+  private path = '';
+  private scale?: number;
+  private x = 0;
+  private y = 0;
+
+  /**
+   * @param digits - Round coordinates to this many decimal places
+   */
+  constructor(digits?: number) {
+    if (digits !== undefined) this.scale = 10 ** digits;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path += `M${this.format(x)},${this.format(y)}`;
+    this.x = x;
+    this.y = y;
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path += `L${this.format(x)},${this.format(y)}`;
+    this.x = x;
+    this.y = y;
+  }
+
+  closePath(): void {
+    this.path += 'Z';
+  }
+
+  /**
+   * Adds a clockwise arc, with a line to its start from the current point
+   * as in Canvas (a full circle if the angles are 2π or more apart)
+   */
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void {
+    const x1 = x + radius * Math.cos(startAngle);
+    const y1 = y + radius * Math.sin(startAngle);
+    if (!this.path) {
+      this.moveTo(x1, y1);
+    } else if (Math.abs(x1 - this.x) > 1e-6 || Math.abs(y1 - this.y) > 1e-6) {
+      this.lineTo(x1, y1);
+    }
+    if (!radius) return;
+
+    const r = this.format(radius);
+    let angle = endAngle - startAngle;
+    if (angle >= 2 * Math.PI) {
+      // SVG cannot draw a full circle as one arc, so go through the opposite point
+      this.path += `A${r},${r},0,1,1,${this.format(x - (x1 - x))},${this.format(y - (y1 - y))}` +
+        `A${r},${r},0,1,1,${this.format(x1)},${this.format(y1)}`;
+      return;
+    }
+    if (angle < 0) angle = angle % (2 * Math.PI) + 2 * Math.PI;
+    this.x = x + radius * Math.cos(startAngle + angle);
+    this.y = y + radius * Math.sin(startAngle + angle);
+    this.path += `A${r},${r},0,${angle > Math.PI ? 1 : 0},1,${this.format(this.x)},${this.format(this.y)}`;
+  }
+
+  /**
+   * Gets the path built so far
+   */
+  toString(): string {
+    return this.path;
+  }
+
+  private format(value: number): number {
+    return this.scale === undefined ? value : Math.round(value * this.scale) / this.scale;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Simplification weights, computed as in topojson-simplify's presimplify():
+ * each point's weight is the Visvalingam effective area of the triangle it
+ * forms with its neighbours, in untransformed coordinates. Arc endpoints get
+ * an infinite weight so they are never dropped and shared borders stay
+ * watertight. Keeping only points with weight >= minWeight gives the same
+ * arcs as topojson-simplify's simplify(topology, minWeight).
+ */
+
+import type { Transform } from './types.js';
+import type { ArcTable } from './arc-table.js';
+
+/** A point's triangle: previous point, the point itself, next point */
+interface Triangle {
+  /** Point indices within the arc */
+  a: number;
+  b: number;
+  c: number;
+  previous?: Triangle;
+  next?: Triangle;
+  /** Position in the heap */
+  heapIndex: number;
+}
+
+/**
+ * Computes the weight of every arc point, as one array parallel to the
+ * concatenated arc points
+ */
+export function computeWeights(arcs: ArcTable, transform?: Transform): Float64Array {
+  const { offsets } = arcs;
+  const weights = new Float64Array(offsets[offsets.length - 1]);
+  for (let i = 0; i + 1 < offsets.length; i++) {
+    computeArcWeights(absolutePositions(arcs, i, transform), weights.subarray(offsets[i], offsets[i + 1]));
+  }
+  return weights;
+}
+
+/**
+ * Converts an arc to interleaved untransformed x/y values
+ */
+function absolutePositions(arcs: ArcTable, index: number, transform?: Transform): Float64Array {
+  const start = arcs.offsets[index];
+  const count = arcs.offsets[index + 1] - start;
+  const { dimensions } = arcs;
+  const values = arcs.coords.subarray(start * dimensions, (start + count) * dimensions);
+  const coords = new Float64Array(count * 2);
+  if (transform) {
+    const [kx, ky] = transform.scale;
+    const [dx, dy] = transform.translate;
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < count; i++) {
+      coords[i * 2] = (x += values[i * dimensions]) * kx + dx;
+      coords[i * 2 + 1] = (y += values[i * dimensions + 1]) * ky + dy;
+    }
+  } else {
+    for (let i = 0; i < count; i++) {
+      coords[i * 2] = values[i * dimensions];
+      coords[i * 2 + 1] = values[i * dimensions + 1];
+    }
+  }
+  return coords;
+}
+
+/**
+ * Repeatedly removes the point with the smallest effective area, recording
+ * the area (never less than any area removed before it) as its weight
+ */
+function computeArcWeights(coords: Float64Array, weights: Float64Array): void {
+  const n = weights.length - 1;
+  const heap = new TriangleHeap(weights);
+  const area = (t: Triangle) => {
+    const ax = coords[t.a * 2];
+    const ay = coords[t.a * 2 + 1];
+    const bx = coords[t.b * 2];
+    const by = coords[t.b * 2 + 1];
+    const cx = coords[t.c * 2];
+    const cy = coords[t.c * 2 + 1];
+    return Math.abs((ax - cx) * (by - ay) - (ax - bx) * (cy - ay)) / 2;
+  };
+
+  const triangles: Triangle[] = [];
+  for (let i = 1; i < n; i++) {
+    const triangle: Triangle = { a: i - 1, b: i, c: i + 1, heapIndex: 0 };
+    weights[i] = area(triangle);
+    triangles.push(triangle);
+    heap.push(triangle);
+  }
+
+  // Always keep the arc endpoints
+  weights[0] = weights[n] = Infinity;
+
+  for (let i = 0; i < triangles.length; i++) {
+    triangles[i].previous = triangles[i - 1];
+    triangles[i].next = triangles[i + 1];
+  }
+
+  const update = (triangle: Triangle) => {
+    heap.remove(triangle);
+    weights[triangle.b] = area(triangle);
+    heap.push(triangle);
+  };
+
+  let maxWeight = 0;
+  let triangle: Triangle | undefined;
+  while ((triangle = heap.pop())) {
+    const { previous, next } = triangle;
+
+    // A point cannot outlast points eliminated before it
+    if (weights[triangle.b] < maxWeight) weights[triangle.b] = maxWeight;
+    else maxWeight = weights[triangle.b];
+
+    if (previous) {
+      previous.next = next;
+      previous.c = triangle.c;
+      update(previous);
+    }
+    if (next) {
+      next.previous = previous;
+      next.a = triangle.a;
+      update(next);
+    }
+  }
+}
+
+/**
+ * Binary min-heap of triangles ordered by the weight of their middle point.
+ * Mirrors topojson-simplify's heap so ties are broken the same way.
+ */
+class TriangleHeap {
+  private array: Triangle[] = [];
+  private size = 0;
+
+  constructor(private weights: Float64Array) {}
+
+  push(triangle: Triangle): void {
+    this.array[triangle.heapIndex = this.size] = triangle;
+    this.up(triangle, this.size++);
+  }
+
+  pop(): Triangle | undefined {
+    if (this.size <= 0) return undefined;
+    const removed = this.array[0];
+    if (--this.size > 0) {
+      const last = this.array[this.size];
+      this.array[last.heapIndex = 0] = last;
+      this.down(last, 0);
+    }
+    return removed;
+  }
+
+  remove(removed: Triangle): void {
+    const i = removed.heapIndex;
+    if (this.array[i] !== removed) return;
+    if (i !== --this.size) {
+      const last = this.array[this.size];
+      this.array[last.heapIndex = i] = last;
+      if (this.compare(last, removed) < 0) this.up(last, i);
+      else this.down(last, i);
+    }
+  }
+
+  private compare(a: Triangle, b: Triangle): number {
+    return this.weights[a.b] - this.weights[b.b];
+  }
+
+  private up(triangle: Triangle, i: number): void {
+    while (i > 0) {
+      const j = ((i + 1) >> 1) - 1;
+      const parent = this.array[j];
+      if (this.compare(triangle, parent) >= 0) break;
+      this.array[parent.heapIndex = i] = parent;
+      this.array[triangle.heapIndex = i = j] = triangle;
+    }
+  }
+
+  private down(triangle: Triangle, i: number): void {
+    while (true) {
+      const r = (i + 1) << 1;
+      const l = r - 1;
+      let j = i;
+      let child = this.array[j];
+      if (l < this.size && this.compare(this.array[l], child) < 0) child = this.array[j = l];
+      if (r < this.size && this.compare(this.array[r], child) < 0) child = this.array[j = r];
+      if (j === i) break;
+      this.array[child.heapIndex = i] = child;
+      this.array[triangle.heapIndex = i = j] = triangle;
+    }
+  }
+}
@@ -0,0 +1,429 @@
+/**
+ * Spatial index section: the bounding box of every arc and geometry, each set
+ * indexed by a packed static R-tree (Hilbert-sorted, as in flatbush)
+ *
+ * Boxes are in untransformed coordinates, as [minX, minY, maxX, maxY]. Items
+ * with no coordinates get an empty box (Infinity, Infinity, -Infinity, -Infinity)
+ * that never matches a query.
+ *
+ * Section layout (the section starts on an 8-byte boundary):
+ *   u32 byteLength, u32 reserved
+ *   arc tree, then geometry tree, each:
+ *     u32 numItems, u32 numNodes, u32 nodeSize, u32 numLevels
+ *     levelBounds: Uint32 x numLevels (end node position of each level), padded to 8
+ *     item boxes: Float64 x 4 per item, in item order
+ *     node boxes: Float64 x 4 per node above the leaves
+ *     indices: Uint32 x numNodes (item index for leaves, first child position otherwise), padded to 8
+ */
+
+import type { Transform, Position } from './types.js';
+import type { ArcTable } from './arc-table.js';
+
+/** Default number of children per tree node */
+const NODE_SIZE = 16;
+
+/**
+ * Computes the box of each arc, undoing delta encoding for quantized arcs
+ */
+export function computeArcBoxes(arcs: ArcTable, transform?: Transform): Float64Array {
+  const { coords, offsets, dimensions } = arcs;
+  const numArcs = offsets.length - 1;
+  const boxes = new Float64Array(numArcs * 4);
+  for (let i = 0; i < numArcs; i++) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let x = 0;
+    let y = 0;
+    for (let p = offsets[i]; p < offsets[i + 1]; p++) {
+      if (transform) {
+        x += coords[p * dimensions];
+        y += coords[p * dimensions + 1];
+      } else {
+        x = coords[p * dimensions];
+        y = coords[p * dimensions + 1];
+      }
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+    setBox(boxes, i, minX, minY, maxX, maxY, transform);
+  }
+  return boxes;
+}
+
+/**
+ * Geometry columns needed to compute geometry boxes
+ * (see EncodedObjects in encoder.ts)
+ */
+export interface GeometryBoxSource {
+  childOffsets: Uint32Array;
+  polygonOffsets: Uint32Array;
+  ringOffsets: Uint32Array;
+  arcRefOffsets: Uint32Array;
+  arcRefs: Int16Array | Int32Array;
+  /** Point positions of each geometry, if any */
+  points: (Position[] | undefined)[];
+}
+
+/**
+ * Computes the box of each geometry from its arcs, points and members.
+ * Members always follow their collection, so working backwards visits
+ * every member before its collection.
+ */
+export function computeGeometryBoxes(
+  source: GeometryBoxSource,
+  arcBoxes: Float64Array,
+  transform?: Transform
+): Float64Array {
+  const { childOffsets, polygonOffsets, ringOffsets, arcRefOffsets, arcRefs, points } = source;
+  const numGeometries = points.length;
+  const boxes = new Float64Array(numGeometries * 4);
+
+  for (let i = numGeometries - 1; i >= 0; i--) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    const add = (from: Float64Array, j: number) => {
+      if (from[j * 4] < minX) minX = from[j * 4];
+      if (from[j * 4 + 1] < minY) minY = from[j * 4 + 1];
+      if (from[j * 4 + 2] > maxX) maxX = from[j * 4 + 2];
+      if (from[j * 4 + 3] > maxY) maxY = from[j * 4 + 3];
+    };
+
+    const firstRing = ringOffsets[polygonOffsets[i]];
+    const lastRing = ringOffsets[polygonOffsets[i + 1]];
+    for (let k = arcRefOffsets[firstRing]; k < arcRefOffsets[lastRing]; k++) {
+      add(arcBoxes, arcRefs[k] < 0 ? ~arcRefs[k] : arcRefs[k]);
+    }
+    for (let c = childOffsets[i]; c < childOffsets[i + 1]; c++) {
+      add(boxes, c);
+    }
+    for (const p of points[i] || []) {
+      const x = transform ? p[0] * transform.scale[0] + transform.translate[0] : p[0];
+      const y = transform ? p[1] * transform.scale[1] + transform.translate[1] : p[1];
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+    setBox(boxes, i, minX, minY, maxX, maxY);
+  }
+
+  return boxes;
+}
+
+/**
+ * Writes a box, applying the transform to its corners if given
+ */
+function setBox(
+  boxes: Float64Array,
+  i: number,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+  transform?: Transform
+): void {
+  if (transform && minX <= maxX) {
+    const [kx, ky] = transform.scale;
+    const [dx, dy] = transform.translate;
+    const x0 = minX * kx + dx;
+    const x1 = maxX * kx + dx;
+    const y0 = minY * ky + dy;
+    const y1 = maxY * ky + dy;
+    minX = Math.min(x0, x1);
+    maxX = Math.max(x0, x1);
+    minY = Math.min(y0, y1);
+    maxY = Math.max(y0, y1);
+  }
+  boxes[i * 4] = minX;
+  boxes[i * 4 + 1] = minY;
+  boxes[i * 4 + 2] = maxX;
+  boxes[i * 4 + 3] = maxY;
+}
+
+interface TreeLayout {
+  numNodes: number;
+  levelBounds: number[];
+  nodeBoxes: Float64Array;
+  indices: Uint32Array;
+}
+
+/**
+ * Builds a packed R-tree over item boxes: items are sorted by the Hilbert
+ * value of their centers, then grouped nodeSize at a time, level by level
+ */
+function buildTree(itemBoxes: Float64Array, nodeSize: number): TreeLayout {
+  const numItems = itemBoxes.length / 4;
+  const levelBounds: number[] = [];
+  let numNodes = numItems;
+  if (numItems > 0) {
+    let count = numItems;
+    levelBounds.push(count);
+    do {
+      count = Math.ceil(count / nodeSize);
+      numNodes += count;
+      levelBounds.push(numNodes);
+    } while (count !== 1);
+  }
+
+  // Extent of the non-empty items, for scaling centers onto the Hilbert grid
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < numItems; i++) {
+    if (itemBoxes[i * 4] > itemBoxes[i * 4 + 2]) continue;
+    minX = Math.min(minX, itemBoxes[i * 4]);
+    minY = Math.min(minY, itemBoxes[i * 4 + 1]);
+    maxX = Math.max(maxX, itemBoxes[i * 4 + 2]);
+    maxY = Math.max(maxY, itemBoxes[i * 4 + 3]);
+  }
+  const hilbertMax = (1 << 16) - 1;
+  const width = maxX - minX || 1;
+  const height = maxY - minY || 1;
+  const hilbertValues = new Float64Array(numItems);
+  for (let i = 0; i < numItems; i++) {
+    if (itemBoxes[i * 4] > itemBoxes[i * 4 + 2]) {
+      hilbertValues[i] = Infinity; // Empty items go last
+      continue;
+    }
+    const x = Math.floor(hilbertMax * ((itemBoxes[i * 4] + itemBoxes[i * 4 + 2]) / 2 - minX) / width);
+    const y = Math.floor(hilbertMax * ((itemBoxes[i * 4 + 1] + itemBoxes[i * 4 + 3]) / 2 - minY) / height);
+    hilbertValues[i] = hilbert(x, y);
+  }
+
+  const indices = new Uint32Array(numNodes);
+  const order = Array.from({ length: numItems }, (_, i) => i)
+    .sort((a, b) => hilbertValues[a] - hilbertValues[b]);
+  indices.set(order);
+
+  // Parent nodes: the union of each run of nodeSize children
+  const nodeBoxes = new Float64Array((numNodes - numItems) * 4);
+  const boxAt = (pos: number, k: number) =>
+    pos < numItems ? itemBoxes[indices[pos] * 4 + k] : nodeBoxes[(pos - numItems) * 4 + k];
+  let parent = numItems;
+  for (let level = 0; level < levelBounds.length - 1; level++) {
+    const start = level === 0 ? 0 : levelBounds[level - 1];
+    const end = levelBounds[level];
+    for (let pos = start; pos < end; pos += nodeSize, parent++) {
+      let x0 = Infinity;
+      let y0 = Infinity;
+      let x1 = -Infinity;
+      let y1 = -Infinity;
+      for (let child = pos; child < Math.min(pos + nodeSize, end); child++) {
+        x0 = Math.min(x0, boxAt(child, 0));
+        y0 = Math.min(y0, boxAt(child, 1));
+        x1 = Math.max(x1, boxAt(child, 2));
+        y1 = Math.max(y1, boxAt(child, 3));
+      }
+      const box = (parent - numItems) * 4;
+      nodeBoxes[box] = x0;
+      nodeBoxes[box + 1] = y0;
+      nodeBoxes[box + 2] = x1;
+      nodeBoxes[box + 3] = y1;
+      indices[parent] = pos;
+    }
+  }
+
+  return { numNodes, levelBounds, nodeBoxes, indices };
+}
+
+function treeByteLength(numItems: number, layout: TreeLayout): number {
+  return 16 +
+    align8(layout.levelBounds.length * 4) +
+    numItems * 32 +
+    layout.nodeBoxes.byteLength +
+    align8(layout.numNodes * 4);
+}
+
+function writeTree(
+  bytes: Uint8Array,
+  offset: number,
+  itemBoxes: Float64Array,
+  layout: TreeLayout,
+  nodeSize: number
+): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const numItems = itemBoxes.length / 4;
+  view.setUint32(offset, numItems, false);
+  view.setUint32(offset + 4, layout.numNodes, false);
+  view.setUint32(offset + 8, nodeSize, false);
+  view.setUint32(offset + 12, layout.levelBounds.length, false);
+  offset += 16;
+
+  new Uint32Array(bytes.buffer, bytes.byteOffset + offset, layout.levelBounds.length).set(layout.levelBounds);
+  offset += align8(layout.levelBounds.length * 4);
+  new Float64Array(bytes.buffer, bytes.byteOffset + offset, itemBoxes.length).set(itemBoxes);
+  offset += itemBoxes.byteLength;
+  new Float64Array(bytes.buffer, bytes.byteOffset + offset, layout.nodeBoxes.length).set(layout.nodeBoxes);
+  offset += layout.nodeBoxes.byteLength;
+  new Uint32Array(bytes.buffer, bytes.byteOffset + offset, layout.numNodes).set(layout.indices);
+  return offset + align8(layout.numNodes * 4);
+}
+
+/**
+ * Encodes a spatial index section over arc and geometry boxes
+ */
+export function encodeSpatialIndex(arcBoxes: Float64Array, geometryBoxes: Float64Array): Uint8Array {
+  const arcTree = buildTree(arcBoxes, NODE_SIZE);
+  const geometryTree = buildTree(geometryBoxes, NODE_SIZE);
+  const byteLength = 8 +
+    treeByteLength(arcBoxes.length / 4, arcTree) +
+    treeByteLength(geometryBoxes.length / 4, geometryTree);
+
+  const bytes = new Uint8Array(byteLength);
+  new DataView(bytes.buffer).setUint32(0, byteLength, false);
+  const offset = writeTree(bytes, 8, arcBoxes, arcTree, NODE_SIZE);
+  writeTree(bytes, offset, geometryBoxes, geometryTree, NODE_SIZE);
+  return bytes;
+}
+
+/**
+ * A packed R-tree read from a spatial index section
+ */
+export class PackedRTree {
+  readonly numItems: number;
+  private numNodes: number;
+  private nodeSize: number;
+  private levelBounds: Uint32Array;
+  private itemBoxes: Float64Array;
+  private nodeBoxes: Float64Array;
+  private indices: Uint32Array;
+  /** Byte offset just past the end of the tree */
+  readonly end: number;
+
+  constructor(buffer: ArrayBuffer, offset: number) {
+    const view = new DataView(buffer);
+    this.numItems = view.getUint32(offset, false);
+    this.numNodes = view.getUint32(offset + 4, false);
+    this.nodeSize = view.getUint32(offset + 8, false);
+    const numLevels = view.getUint32(offset + 12, false);
+    offset += 16;
+
+    this.levelBounds = new Uint32Array(buffer, offset, numLevels);
+    offset += align8(numLevels * 4);
+    this.itemBoxes = new Float64Array(buffer, offset, this.numItems * 4);
+    offset += this.itemBoxes.byteLength;
+    this.nodeBoxes = new Float64Array(buffer, offset, (this.numNodes - this.numItems) * 4);
+    offset += this.nodeBoxes.byteLength;
+    this.indices = new Uint32Array(buffer, offset, this.numNodes);
+    this.end = offset + align8(this.numNodes * 4);
+  }
+
+  /**
+   * Gets an item's box as [minX, minY, maxX, maxY]
+   */
+  getBox(item: number): number[] {
+    return Array.from(this.itemBoxes.subarray(item * 4, item * 4 + 4));
+  }
+
+  /**
+   * Finds the items whose boxes intersect a box, in ascending order
+   */
+  search(minX: number, minY: number, maxX: number, maxY: number): number[] {
+    const results: number[] = [];
+    if (this.numNodes === 0) {
+      return results;
+    }
+
+    const { numItems, nodeSize, levelBounds, itemBoxes, nodeBoxes, indices } = this;
+    const intersects = (pos: number) => {
+      const boxes = pos < numItems ? itemBoxes : nodeBoxes;
+      const b = pos < numItems ? indices[pos] * 4 : (pos - numItems) * 4;
+      return boxes[b] <= maxX && boxes[b + 1] <= maxY && boxes[b + 2] >= minX && boxes[b + 3] >= minY &&
+        boxes[b] <= boxes[b + 2]; // Empty boxes match nothing, not even an infinite query
+    };
+
+    const root = this.numNodes - 1;
+    const stack = intersects(root) ? [indices[root]] : [];
+    while (stack.length) {
+      const first = stack.pop()!;
+      let levelEnd = levelBounds[0];
+      for (let level = 0; levelBounds[level] <= first; level++) {
+        levelEnd = levelBounds[level + 1];
+      }
+      const end = Math.min(first + nodeSize, levelEnd);
+      for (let pos = first; pos < end; pos++) {
+        if (!intersects(pos)) continue;
+        if (pos < numItems) {
+          results.push(indices[pos]);
+        } else {
+          stack.push(indices[pos]);
+        }
+      }
+    }
+
+    return results.sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Reads the arc and geometry trees of a spatial index section
+ */
+export function readSpatialIndex(buffer: ArrayBuffer, offset: number): {
+  arcs: PackedRTree;
+  geometries: PackedRTree;
+} {
+  const arcs = new PackedRTree(buffer, offset + 8);
+  const geometries = new PackedRTree(buffer, arcs.end);
+  return { arcs, geometries };
+}
+
+function align8(offset: number): number {
+  return Math.ceil(offset / 8) * 8;
+}
+
+/**
+ * Position of (x, y) along a Hilbert curve over a 2^16 x 2^16 grid
+ * (from flatbush, after "Fast Hilbert curve generation" by Rawrunprotected)
+ */
+function hilbert(x: number, y: number): number {
+  let a = x ^ y;
+  let b = 0xFFFF ^ a;
+  let c = 0xFFFF ^ (x | y);
+  let d = x & (y ^ 0xFFFF);
+
+  let A = a | (b >> 1);
+  let B = (a >> 1) ^ a;
+  let C = ((c >> 1) ^ (b & (d >> 1))) ^ c;
+  let D = ((a & (c >> 1)) ^ (d >> 1)) ^ d;
+
+  a = A; b = B; c = C; d = D;
+  A = ((a & (a >> 2)) ^ (b & (b >> 2)));
+  B = ((a & (b >> 2)) ^ (b & ((a ^ b) >> 2)));
+  C ^= ((a & (c >> 2)) ^ (b & (d >> 2)));
+  D ^= ((b & (c >> 2)) ^ ((a ^ b) & (d >> 2)));
+
+  a = A; b = B; c = C; d = D;
+  A = ((a & (a >> 4)) ^ (b & (b >> 4)));
+  B = ((a & (b >> 4)) ^ (b & ((a ^ b) >> 4)));
+  C ^= ((a & (c >> 4)) ^ (b & (d >> 4)));
+  D ^= ((b & (c >> 4)) ^ ((a ^ b) & (d >> 4)));
+
+  a = A; b = B; c = C; d = D;
+  C ^= ((a & (c >> 8)) ^ (b & (d >> 8)));
+  D ^= ((b & (c >> 8)) ^ ((a ^ b) & (d >> 8)));
+
+  a = C ^ (C >> 1);
+  b = D ^ (D >> 1);
+
+  let i0 = x ^ y;
+  let i1 = b | (0xFFFF ^ (i0 | a));
+
+  i0 = (i0 | (i0 << 8)) & 0x00FF00FF;
+  i0 = (i0 | (i0 << 4)) & 0x0F0F0F0F;
+  i0 = (i0 | (i0 << 2)) & 0x33333333;
+  i0 = (i0 | (i0 << 1)) & 0x55555555;
+
+  i1 = (i1 | (i1 << 8)) & 0x00FF00FF;
+  i1 = (i1 | (i1 << 4)) & 0x0F0F0F0F;
+  i1 = (i1 | (i1 << 2)) & 0x33333333;
+  i1 = (i1 | (i1 << 1)) & 0x55555555;
+
+  return ((i1 << 1) | i0) >>> 0;
+}
@@ -0,0 +1,192 @@
+/**
+ * Passing binary topologies between threads
+ *
+ * A buffer is posted as a Uint8Array of exactly its bytes: an ArrayBuffer is
+ * transferred rather than copied, and a SharedArrayBuffer is shared, so every
+ * worker reads one copy of the arcs. decodeInWorker() runs decode() or
+ * toFeature() in a worker (lib/worker.js) and posts back only what was asked
+ * for.
+ */
+
+import type {
+  BinaryInput,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  Topology,
+  TopobinWorker,
+  ValidationIssueCode,
+  WorkerDecodeOptions
+} from './types.js';
+import { decode, BinaryTopologyView } from './decoder.js';
+import { extract } from './extract.js';
+import { toFeature } from './geojson.js';
+import { toArrayBuffer } from './input.js';
+import { TopobinFormatError } from './errors.js';
+
+/** Kept in a variable so that builds without Node.js typings and bundlers leave it alone */
+export const NODE_WORKER_THREADS = 'node:worker_threads';
+
+/** Message asking a worker to decode a buffer */
+export interface DecodeRequest {
+  id: number;
+  bytes: Uint8Array;
+  options: Omit<WorkerDecodeOptions, 'transfer' | 'worker'>;
+}
+
+/** A worker's answer to a DecodeRequest */
+export interface DecodeResponse {
+  id: number;
+  result?: unknown;
+  error?: { message: string; code?: ValidationIssueCode; offset?: number };
+}
+
+let nextRequestId = 0;
+
+/**
+ * Gets a Uint8Array of exactly a buffer's bytes, and the list to transfer
+ * with it: postMessage(bytes, transfer) then moves the bytes to the other
+ * thread without copying them. The input's ArrayBuffer is transferred (and
+ * detached) if it holds just the topology; bytes in part of a larger
+ * ArrayBuffer are copied first. Views of a SharedArrayBuffer are posted as
+ * they are, with nothing to transfer.
+ */
+export function transferable(input: BinaryInput): { bytes: Uint8Array; transfer: ArrayBuffer[] } {
+  const { buffer, byteOffset, byteLength } = ArrayBuffer.isView(input)
+    ? input
+    : { buffer: input, byteOffset: 0, byteLength: input.byteLength };
+  if (!(buffer instanceof ArrayBuffer)) {
+    return { bytes: new Uint8Array(buffer, byteOffset, byteLength), transfer: [] };
+  }
+  const bytes = new Uint8Array(toArrayBuffer(input));
+  return { bytes, transfer: [bytes.buffer] };
+}
+
+/**
+ * Copies a buffer into a new SharedArrayBuffer, which any number of workers
+ * can read (through decode(), BinaryTopologyView, ...) without copies of
+ * their own. Needs a cross-origin isolated page in browsers.
+ */
+export function toSharedBuffer(input: BinaryInput): SharedArrayBuffer {
+  const shared = new SharedArrayBuffer(input.byteLength);
+  const bytes = ArrayBuffer.isView(input)
+    ? new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+    : new Uint8Array(input);
+  new Uint8Array(shared).set(bytes);
+  return shared;
+}
+
+/**
+ * Decodes a buffer in a worker and resolves with the topology, holding only
+ * the requested objects and the arcs they use, or with a GeoJSON Feature or
+ * FeatureCollection for each requested object. A new worker is started and
+ * stopped for each call unless one is given.
+ */
+export function decodeInWorker(
+  input: BinaryInput,
+  options: WorkerDecodeOptions & { features: true }
+): Promise<Record<string, GeoJSONFeature | GeoJSONFeatureCollection>>;
+export function decodeInWorker(input: BinaryInput, options?: WorkerDecodeOptions): Promise<Topology>;
+export async function decodeInWorker(input: BinaryInput, options: WorkerDecodeOptions = {}): Promise<unknown> {
+  const { transfer: detach, worker: given, ...decodeOptions } = options;
+  const { bytes, transfer } = transferable(input);
+  // Copies made by transferable() are always transferred; the caller's buffer only on request
+  const inputBuffer = ArrayBuffer.isView(input) ? input.buffer : input;
+  const transferList = detach || bytes.buffer !== inputBuffer ? transfer : [];
+
+  const worker = given ?? await startWorker();
+  try {
+    const request: DecodeRequest = { id: nextRequestId++, bytes, options: decodeOptions };
+    return await send(worker, request, transferList);
+  } finally {
+    if (!given) await worker.terminate();
+  }
+}
+
+/**
+ * Answers a DecodeRequest (the worker side of decodeInWorker())
+ */
+export function handleDecodeRequest(request: DecodeRequest): DecodeResponse {
+  const { id, bytes, options } = request;
+  try {
+    const view = new BinaryTopologyView(bytes, options);
+    const names = options.objects ?? view.getObjectNames();
+    if (options.features) {
+      const result: Record<string, GeoJSONFeature | GeoJSONFeatureCollection> = {};
+      for (const name of names) {
+        result[name] = toFeature(view, name, options);
+      }
+      return { id, result };
+    }
+    // The view has checked the buffer already
+    const result = options.objects
+      ? decode(extract(toArrayBuffer(bytes), { objects: names }))
+      : decode(bytes);
+    return { id, result };
+  } catch (error) {
+    const { message } = error as Error;
+    return error instanceof TopobinFormatError
+      ? { id, error: { message, code: error.code, offset: error.offset } }
+      : { id, error: { message } };
+  }
+}
+
+/**
+ * Starts a worker running lib/worker.js, as a module Web Worker where
+ * there is one and with worker_threads in Node.js
+ */
+async function startWorker(): Promise<TopobinWorker> {
+  if (typeof Worker === 'function') {
+    return new Worker(new URL('./worker.js', import.meta.url), { type: 'module' });
+  }
+  const threads = await import(NODE_WORKER_THREADS) as { Worker: new (url: URL) => TopobinWorker };
+  return new threads.Worker(new URL('./worker.js', import.meta.url));
+}
+
+/**
+ * Posts a request and waits for the worker's response to it, rejecting if the
+ * worker fails or (in Node.js) exits first
+ */
+function send(worker: TopobinWorker, request: DecodeRequest, transfer: ArrayBuffer[]): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const onMessage = (response: DecodeResponse) => {
+      if (response?.id !== request.id) return;
+      stop();
+      const { error } = response;
+      if (!error) {
+        resolve(response.result);
+      } else if (error.code) {
+        reject(new TopobinFormatError(error.message, error.code, error.offset!));
+      } else {
+        reject(new Error(error.message));
+      }
+    };
+    const onError = (error: { message: string }) => {
+      stop();
+      reject(error instanceof Error ? error : new Error(error.message));
+    };
+
+    let stop: () => void;
+    if ('on' in worker) {
+      const message = (value: unknown) => onMessage(value as DecodeResponse);
+      const failure = (value: unknown) => onError(value as Error);
+      const exit = (code: unknown) => onError({ message: `Worker exited with code ${code} before answering` });
+      worker.on('message', message);
+      worker.on('error', failure);
+      worker.on('exit', exit);
+      stop = () => {
+        worker.off('message', message);
+        worker.off('error', failure);
+        worker.off('exit', exit);
+      };
+    } else {
+      const message = (event: MessageEvent) => onMessage(event.data);
+      worker.addEventListener('message', message);
+      worker.addEventListener('error', onError);
+      stop = () => {
+        worker.removeEventListener('message', message);
+        worker.removeEventListener('error', onError);
+      };
+    }
+    worker.postMessage(request, transfer);
+  });
+}
@@ -11,11 +11,21 @@ export interface Transform {
   translate: [number, number];
 }
 
-export type GeometryType = 'Point' | 'MultiPoint' | 'LineString' | 'MultiLineString' | 'Polygon' | 'MultiPolygon' | 'GeometryCollection';
+/** Geometry types, where null is a geometry without coordinates (such as a feature without a geometry) */
+export type GeometryType =
+  | 'Point'
+  | 'MultiPoint'
+  | 'LineString'
+  | 'MultiLineString'
+  | 'Polygon'
+  | 'MultiPolygon'
+  | 'GeometryCollection'
+  | null;
 
 export interface BaseGeometry {
   type: GeometryType;
   id?: string | number;
+  bbox?: number[];
   properties?: Record<string, any>;
 }
 
@@ -54,7 +64,19 @@ export interface GeometryCollection extends BaseGeometry {
   geometries: Geometry[];
 }
 
-export type Geometry = Point | MultiPoint | LineString | MultiLineString | Polygon | MultiPolygon | GeometryCollection;
+export interface NullGeometry extends BaseGeometry {
+  type: null;
+}
+
+export type Geometry =
+  | Point
+  | MultiPoint
+  | LineString
+  | MultiLineString
+  | Polygon
+  | MultiPolygon
+  | GeometryCollection
+  | NullGeometry;
 
 export interface Topology {
   type: 'Topology';
@@ -64,6 +86,408 @@ export interface Topology {
   bbox?: [number, number, number, number];
 }
 
+/**
+ * Storage type for arc coordinates
+ */
+export type CoordinateType = 'int16' | 'int32' | 'float32' | 'float64';
+
+export type CoordinateArray = Int16Array | Int32Array | Float32Array | Float64Array;
+
+/**
+ * A binary topology: a whole ArrayBuffer or SharedArrayBuffer, or any view of
+ * its bytes (such as a Uint8Array or a Node Buffer) starting at any byte offset
+ */
+export type BinaryInput = ArrayBuffer | SharedArrayBuffer | ArrayBufferView;
+
+/**
+ * Options for encode()
+ */
+export interface EncodeOptions {
+  /**
+   * Quantize an unquantized topology on encode, using n distinct values per
+   * axis (n >= 2). The transform is computed from the bbox, as in
+   * topojson-client's quantize().
+   */
+  quantization?: number;
+  /**
+   * Arc coordinate storage type. 'auto' picks the narrowest type that holds
+   * every stored value (delta, for quantized topologies) without loss.
+   * Defaults to 'int32' for quantized topologies and 'float64' otherwise.
+   */
+  coordinateType?: CoordinateType | 'auto';
+  /**
+   * 'varint' stores quantized arc deltas as zigzag varints instead of
+   * fixed-width values, which is much smaller but not zero-copy.
+   * Requires a quantized topology. Defaults to 'fixed'.
+   */
+  arcEncoding?: 'fixed' | 'varint';
+  /**
+   * With varint arcs, also store each arc's byte offset so arcs can be read
+   * at random without scanning the arc data first. Defaults to true.
+   */
+  arcIndex?: boolean;
+  /**
+   * Append a trailer with a CRC32 checksum of each section and of the whole
+   * file, so damage can be detected with the verifyChecksums decode option
+   */
+  checksums?: boolean;
+  /**
+   * Add a spatial index (arc and geometry bounding boxes in packed R-trees)
+   * for BinaryTopologyView's queryArcs() and queryGeometries()
+   */
+  spatialIndex?: boolean;
+  /**
+   * Store a simplification weight for every arc point (Visvalingam effective
+   * area, as topojson-simplify's presimplify() computes it), so arcs can be
+   * read at a lower level of detail with the minWeight read option
+   */
+  presimplify?: boolean;
+}
+
+/**
+ * Options for reading arcs, features and meshes from a BinaryTopologyView
+ */
+export interface ArcReadOptions {
+  /**
+   * Keep only points whose simplification weight is at least this value, as
+   * topojson-simplify's simplify() does. Arc endpoints are always kept.
+   * Needs a buffer encoded with the presimplify option.
+   */
+  minWeight?: number;
+}
+
+/**
+ * Drawing target of renderPath(): a CanvasRenderingContext2D, an
+ * SvgPathBuilder, or anything else with the same path methods
+ */
+export interface PathContext {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  /** Used to draw points as circles; points are left out without it */
+  arc?(x: number, y: number, radius: number, startAngle: number, endAngle: number): void;
+}
+
+/**
+ * Options for renderPath()
+ */
+export interface RenderOptions extends ArcReadOptions {
+  /** Draw only the geometry at this index (as for getGeometry()) instead of the whole object */
+  index?: number;
+  /** Maps x/y (with the transform applied) to the context's coordinates. Defaults to the identity. */
+  projection?: (x: number, y: number) => [number, number];
+  /**
+   * Skip points closer than this (in both x and y, after projection) to the
+   * last point drawn. Line ends are always drawn. Defaults to 1; 0 draws
+   * every point.
+   */
+  tolerance?: number;
+  /** Radius of the circles drawn for points. Defaults to 4.5, as in d3-geo. */
+  pointRadius?: number;
+}
+
+/**
+ * Options for extract()
+ */
+export interface ExtractOptions {
+  /** Names of the objects to keep, in output order */
+  objects: string[];
+  /**
+   * Keep only the geometries for which this returns true. It is called with
+   * each member of a GeometryCollection object, and with any other object
+   * itself (which is left out when rejected).
+   */
+  filter?: (geometry: Geometry, objectName: string) => boolean;
+  /**
+   * Recompute the bbox from the kept arcs and points, instead of carrying
+   * over the source buffer's bbox
+   */
+  bbox?: boolean;
+}
+
+/**
+ * Options for merge(), which also accepts every encode() option for the
+ * output buffer
+ */
+export interface MergeOptions extends EncodeOptions {
+  /**
+   * What to do when buffers have objects of the same name: 'error' throws,
+   * 'rename' gives later objects the first free name_2, name_3, ... suffix.
+   * Defaults to 'error'.
+   */
+  collisions?: 'error' | 'rename';
+  /**
+   * Replace arcs that are identical to an earlier arc, or to its reverse,
+   * with references to that arc, so borders shared between buffers become
+   * shared arcs again
+   */
+  deduplicate?: boolean;
+}
+
+/**
+ * Options for TopobinWriter. Everything stored in the header is fixed before
+ * the first arc is written.
+ */
+export interface TopobinWriterOptions {
+  /** Quantization transform; arcs are then written as TopoJSON x/y deltas */
+  transform?: Transform;
+  bbox?: [number, number, number, number];
+  /**
+   * Arc coordinate storage type ('auto' is not possible without seeing every
+   * arc first). Defaults to 'int32' with a transform and 'float64' otherwise.
+   */
+  coordinateType?: CoordinateType;
+  /**
+   * Values per position, 2 to 5. Values beyond x/y need an unquantized
+   * topology. Defaults to 2.
+   */
+  dimensions?: number;
+}
+
+/**
+ * Where TopobinWriter sends its output: a WritableStream, or a function
+ * called with each chunk in order (awaited if it returns a promise)
+ */
+export type TopobinSink = WritableStream<Uint8Array> | ((chunk: Uint8Array) => void | Promise<void>);
+
+/**
+ * Callbacks of a TopobinReader, called as soon as each part is complete
+ */
+export interface TopobinReaderHandlers {
+  header?(header: { version: number; transform?: Transform; bbox?: [number, number, number, number] }): void;
+  arc?(arc: Arc, index: number): void;
+  object?(object: Geometry, name: string): void;
+}
+
+/**
+ * Adjacency list returned by neighbors(), in compressed sparse row form: the
+ * neighbors of geometry i are neighbors.subarray(offsets[i], offsets[i + 1])
+ */
+export interface NeighborGraph {
+  /** Start of each geometry's neighbors, plus the total at the end */
+  offsets: Uint32Array;
+  /** Geometry indices of every geometry's neighbors, in ascending order per geometry */
+  neighbors: Uint32Array;
+}
+
+/**
+ * Geometries on each side of every arc, returned by arcOwners(). The arrays
+ * are indexed by arc: left and right hold geometry indices within their
+ * object, and leftObject and rightObject the index of that object in
+ * objects, or -1 for a side with no geometry.
+ */
+export interface ArcOwners {
+  /** Names of the objects that were searched */
+  objects: string[];
+  left: Int32Array;
+  right: Int32Array;
+  leftObject: Int32Array;
+  rightObject: Int32Array;
+}
+
+/**
+ * Precision report returned by encodeWithReport()
+ */
+export interface EncodeReport {
+  /** Coordinate storage type used for arc data */
+  coordinateType: CoordinateType;
+  /** Whether quantization was applied during encoding */
+  quantized: boolean;
+  /** Transform written to the buffer, if any */
+  transform?: Transform;
+  /**
+   * Largest absolute change to any x and y coordinate (in untransformed
+   * units) caused by quantization and coordinate storage
+   */
+  maxError: [number, number];
+  /** True if every coordinate round-trips exactly */
+  lossless: boolean;
+}
+
+/**
+ * Options for convert() and convertStream()
+ */
+export interface ConvertOptions {
+  /**
+   * Drop what the target version cannot hold (see ConvertReport.lost)
+   * instead of throwing
+   */
+  allowLoss?: boolean;
+}
+
+/**
+ * What convertWithReport() and convertStream() changed
+ */
+export interface ConvertReport {
+  fromVersion: number;
+  toVersion: number;
+  /**
+   * What the target version cannot hold, such as 'spatial index', 'section 12'
+   * or (for version 1) 'simplification weights' and 'values beyond x/y'
+   */
+  lost: string[];
+}
+
+/**
+ * Options for validate()
+ */
+export interface ValidateOptions {
+  /**
+   * Check the CRC32 checksums of buffers written with a checksum trailer.
+   * Buffers without one are accepted unchecked.
+   */
+  verifyChecksums?: boolean;
+}
+
+/**
+ * Options for decode() and BinaryTopologyView
+ */
+export interface DecodeOptions extends ValidateOptions {
+  /**
+   * Validate the whole buffer first and throw a TopobinFormatError for the
+   * first problem found, instead of failing partway or reading garbage
+   */
+  strict?: boolean;
+}
+
+/**
+ * Options for decodeInWorker(); strict and verifyChecksums apply in the worker
+ */
+export interface WorkerDecodeOptions extends DecodeOptions, ArcReadOptions {
+  /** Names of the objects to decode. Defaults to every object. */
+  objects?: string[];
+  /**
+   * Resolve with a GeoJSON Feature or FeatureCollection for each object (as
+   * toFeature() makes them, simplified with minWeight) instead of a topology
+   */
+  features?: boolean;
+  /**
+   * Transfer the input's ArrayBuffer to the worker instead of copying it,
+   * detaching it. SharedArrayBuffers are always shared.
+   */
+  transfer?: boolean;
+  /** A running worker to use instead of a new one, which is left running */
+  worker?: TopobinWorker;
+}
+
+/**
+ * A worker running topobin's worker script (lib/worker.js): a module Web
+ * Worker, or a worker_threads Worker in Node.js
+ */
+export type TopobinWorker = Worker | {
+  postMessage(message: unknown, transferList?: ArrayBuffer[]): void;
+  on(event: 'message' | 'error' | 'exit', listener: (value: unknown) => void): void;
+  off(event: 'message' | 'error' | 'exit', listener: (value: unknown) => void): void;
+  terminate(): unknown;
+};
+
+/**
+ * Kinds of problem reported by validate()
+ */
+export type ValidationIssueCode =
+  | 'bad-magic'
+  | 'unsupported-version'
+  | 'unsupported-flags'
+  | 'unsupported-section'
+  | 'section-overrun'
+  | 'arc-offsets-not-monotonic'
+  | 'arc-offsets-total-mismatch'
+  | 'arc-index-out-of-range'
+  | 'object-count-mismatch'
+  | 'checksum-mismatch'
+  | 'invalid-section';
+
+/**
+ * A problem found in a binary buffer by validate()
+ */
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  message: string;
+  /** Byte offset of the offending field or section */
+  offset: number;
+}
+
+/**
+ * Whether this library can decode a buffer, as reported by getCompatibility()
+ */
+export interface CompatibilityReport {
+  /** Format version, or null if the buffer is not in the binary format */
+  version: number | null;
+  compatible: boolean;
+  /** What the buffer needs that this library lacks, such as 'version 4', 'flag bit 15' or 'section 12' */
+  missing: string[];
+  /** Optional sections this library does not know, which decoding skips */
+  skipped: string[];
+}
+
+/**
+ * One section of a binary buffer, as reported by inspect()
+ */
+export interface SectionInfo {
+  name: string;
+  /** Byte offset of the section */
+  offset: number;
+  /** Length in bytes, not counting the padding after it */
+  length: number;
+  /** Alignment padding between the end of the section and the next section (or the end of the buffer) */
+  padding: number;
+}
+
+/**
+ * Layout and contents of a binary buffer, as reported by inspect()
+ */
+export interface BufferInfo {
+  byteLength: number;
+  version: number;
+  flags: number;
+  /** Names of the flags that are set, such as 'transform' or 'varint arcs' */
+  features: string[];
+  coordinateType: CoordinateType;
+  /** Values per position */
+  dimensions: number;
+  transform?: Transform;
+  bbox?: number[];
+  /** Every section present, in buffer order */
+  sections: SectionInfo[];
+  /** Top-level objects, with their member count if they are GeometryCollections (otherwise 1) */
+  objects: { name: string; type: GeometryType; geometries: number }[];
+  /** Point counts across arcs */
+  arcs: {
+    count: number;
+    totalPoints: number;
+    minPoints: number;
+    maxPoints: number;
+    meanPoints: number;
+    medianPoints: number;
+  };
+}
+
+/**
+ * GeoJSON types (as produced by topojson-client's feature() and mesh(), and
+ * accepted by fromGeoJSON())
+ */
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJSONGeometry[] };
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  bbox?: number[];
+  properties: Record<string, any>;
+  geometry: GeoJSONGeometry | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
 /**
  * Binary format metadata
  */
@@ -0,0 +1,912 @@
+/**
+ * Structural validation of binary buffers
+ *
+ * Walks every section using only bounds-checked reads, so truncated or
+ * corrupted input (such as user uploads) can be rejected cleanly before it
+ * reaches decode() or BinaryTopologyView.
+ */
+
+import type { BinaryInput, GeometryType, ValidateOptions, ValidationIssue, ValidationIssueCode } from './types.js';
+import {
+  MAGIC,
+  MIN_SUPPORTED_VERSION,
+  MAX_SUPPORTED_VERSION,
+  DIRECTORY_VERSION,
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_VARINT_ARCS,
+  FLAG_ARC_BYTE_INDEX,
+  FLAG_HAS_CHECKSUMS,
+  FLAG_HAS_SPATIAL_INDEX,
+  FLAG_HAS_WEIGHTS,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED,
+  COORDINATE_TYPE_CODES,
+  KNOWN_FLAGS,
+  SECTION_STRINGS,
+  SECTION_ARCS,
+  SECTION_WEIGHTS,
+  SECTION_POINTS,
+  SECTION_OBJECTS,
+  SECTION_PROPERTIES,
+  SECTION_CHECKSUMS,
+  NO_STRING,
+  GEOMETRY_TYPES,
+  GEOMETRY_TYPE_MASK,
+  GEOMETRY_ID_STRING,
+  GEOMETRY_ID_NUMBER,
+  OBJECTS_FLAG_INT16_ARC_REFS,
+  PROPERTY_FLOAT64,
+  PROPERTY_INT32,
+  PROPERTY_BOOLEAN,
+  PROPERTY_JSON
+} from './constants.js';
+import { BYTES_PER_COORDINATE, readCoordinateType, readDimensions } from './coordinates.js';
+import {
+  HEADER_SIZE,
+  DirectoryEntry,
+  SectionLayout,
+  isKnownSection,
+  readArcFrames,
+  readSectionDirectory,
+  readStreamTrailer,
+  sectionDirectorySize,
+  sectionLayout,
+  sectionName
+} from './header.js';
+import { buildVarintByteOffsets } from './varint.js';
+import { readChecksumTrailer, verifyChecksums } from './checksum.js';
+import { propertiesSectionSize } from './properties.js';
+import type { TopobinFormatError } from './errors.js';
+import { toArrayBuffer, unshared } from './input.js';
+
+/**
+ * Checks a binary buffer for structural problems, returning every issue found
+ * (an empty list means the buffer is safe to decode). Checking stops early
+ * when a problem makes the rest of the layout unknowable.
+ * Views that cover only part of a buffer are copied first.
+ */
+export function validate(input: BinaryInput, options: ValidateOptions = {}): ValidationIssue[] {
+  const buffer = toArrayBuffer(input);
+  const issues: ValidationIssue[] = [];
+  let size = buffer.byteLength;
+  const view = new DataView(buffer);
+
+  const report = (code: ValidationIssueCode, message: string, offset: number) => {
+    issues.push({ code, message, offset });
+  };
+
+  // Reports a section that does not fit in the buffer (before any checksum trailer)
+  const fits = (name: string, offset: number, length: number): boolean => {
+    if (offset + length <= size) return true;
+    report('section-overrun', `${name} (${length} bytes at offset ${offset}) overruns the ${size}-byte buffer`, offset);
+    return false;
+  };
+
+  // Header
+  if (size < 4 || view.getUint32(0, false) !== MAGIC) {
+    report('bad-magic', 'Invalid TopoJSON binary format: bad magic number', 0);
+    return issues;
+  }
+  if (!fits('Header', 0, HEADER_SIZE)) return issues;
+
+  const version = view.getUint16(4, false);
+  if (version < MIN_SUPPORTED_VERSION || version > MAX_SUPPORTED_VERSION) {
+    report(
+      'unsupported-version',
+      `Unsupported binary format version ${version}. ` +
+      `This library supports versions ${MIN_SUPPORTED_VERSION}-${MAX_SUPPORTED_VERSION}.`,
+      4
+    );
+    return issues;
+  }
+
+  let flags = view.getUint16(6, false);
+  const counts = [8, 12, 16, 20].map(offset => view.getUint32(offset, false));
+
+  // Streamed buffers keep their final flags, counts and section offsets in a trailer
+  let layout: SectionLayout | undefined;
+  if (flags & FLAG_STREAMED && version >= DIRECTORY_VERSION) {
+    report('unsupported-flags', `Version ${version} buffers cannot be streamed`, 6);
+    return issues;
+  }
+  if (flags & FLAG_STREAMED && (flags & ~KNOWN_FLAGS) === 0) {
+    try {
+      const trailer = readStreamTrailer(buffer);
+      flags = trailer.flags;
+      counts.splice(0, 4, trailer.numArcs, trailer.totalArcPoints, trailer.numObjects, trailer.stringTableSize);
+      layout = trailer.layout;
+      size = trailer.layout.trailer;
+    } catch (error) {
+      const { code, message, offset } = error as TopobinFormatError;
+      report(code, message, offset);
+      return issues;
+    }
+  }
+  if ((flags & ~KNOWN_FLAGS) !== 0) {
+    report('unsupported-flags', `Unsupported binary format flags 0x${flags.toString(16)}`, 6);
+    return issues;
+  }
+  let bytesPerCoord: number;
+  try {
+    bytesPerCoord = BYTES_PER_COORDINATE[readCoordinateType(flags)];
+  } catch (error) {
+    report('unsupported-flags', (error as Error).message, 6);
+    return issues;
+  }
+  const isVarint = (flags & FLAG_VARINT_ARCS) !== 0;
+  if (isVarint && !(flags & FLAG_HAS_TRANSFORM)) {
+    report('invalid-section', 'Varint arc data requires a transform', 6);
+    return issues;
+  }
+  // Values per position; quantized coordinates hold only x/y
+  const dimensions = readDimensions(flags);
+  const stride = flags & FLAG_HAS_TRANSFORM ? 2 : dimensions;
+  if (layout && (isVarint || flags & (FLAG_HAS_WEIGHTS | FLAG_HAS_CHECKSUMS) || dimensions > stride)) {
+    report(
+      'invalid-section',
+      'Streamed buffers cannot have varint arcs, simplification weights, checksums or extra coordinate values',
+      size
+    );
+    return issues;
+  }
+
+  // Sections must end before the checksum trailer; damage is reported first
+  if (flags & FLAG_HAS_CHECKSUMS) {
+    try {
+      size = readChecksumTrailer(buffer).start;
+    } catch (error) {
+      const { code, message, offset } = error as TopobinFormatError;
+      report(code, message, offset);
+      return issues;
+    }
+    if (options.verifyChecksums) {
+      issues.push(...verifyChecksums(buffer));
+    }
+  }
+
+  const [numArcs, totalArcPoints, numObjects, stringTableSize] = counts;
+  let offset = HEADER_SIZE;
+
+  // Transform and bbox
+  if (flags & FLAG_HAS_TRANSFORM) {
+    if (!fits('Transform', offset, 32)) return issues;
+    offset += 32;
+  }
+  if (flags & FLAG_HAS_BBOX) {
+    if (!fits('BBox', offset, 32)) return issues;
+    offset += 32;
+  }
+
+  // Section directory: sections in file order, with any this library does not know
+  let directory: DirectoryEntry[] | undefined;
+  if (version >= DIRECTORY_VERSION) {
+    try {
+      directory = readSectionDirectory(new DataView(buffer, 0, size), offset);
+      offset += sectionDirectorySize(directory.length);
+      layout = sectionLayout(directory, flags, numArcs, offset, buffer.byteLength);
+    } catch (error) {
+      const { code, message, offset } = error as TopobinFormatError;
+      report(code, message, offset);
+      return issues;
+    }
+    for (const entry of directory) {
+      if (entry.type === SECTION_CHECKSUMS) {
+        if (entry.offset !== size || entry.offset + entry.length !== buffer.byteLength) {
+          report('invalid-section', 'Section directory does not match the checksum trailer', entry.offset);
+        }
+      } else if (!isKnownSection(entry.type) && !fits(`Skipped ${sectionName(entry.type)}`, entry.offset, entry.length)) {
+        return issues;
+      }
+    }
+  }
+  // Reports a known section whose directory entry has the wrong length
+  const checkLength = (type: number, start: number, end: number) => {
+    const entry = directory?.find(e => e.type === type);
+    if (entry && entry.length !== end - start) {
+      report(
+        'invalid-section',
+        `Section directory gives the ${sectionName(type)} ${entry.length} bytes instead of ${end - start}`,
+        start
+      );
+    }
+  };
+
+  // String table: NUL-terminated strings
+  if (layout) offset = layout.strings;
+  if (!fits('String table', offset, stringTableSize)) return issues;
+  const stringTable = new Uint8Array(buffer, offset, stringTableSize);
+  let numStrings = 0;
+  for (let i = 0; i < stringTableSize; i++) {
+    if (stringTable[i] === 0) numStrings++;
+  }
+  if (stringTableSize > 0 && stringTable[stringTableSize - 1] !== 0) {
+    report('invalid-section', 'String table is not NUL-terminated', offset + stringTableSize - 1);
+  }
+  // Names decoded with replacement characters could never be looked up again
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(unshared(stringTable));
+  } catch {
+    report('invalid-section', 'String table is not valid UTF-8', offset);
+  }
+  checkLength(SECTION_STRINGS, offset, offset + stringTableSize);
+  if (version >= 2 && numStrings < numObjects) {
+    report('object-count-mismatch', `Header declares ${numObjects} objects but the string table has ${numStrings} strings`, 16);
+  }
+  offset += Math.ceil(stringTableSize / 4) * 4;
+
+  // Arc offsets
+  if (layout) offset = layout.arcOffsets;
+  const arcOffsetsStart = offset;
+  if (!fits('Arc offsets', offset, (numArcs + 1) * 4)) return issues;
+  const arcOffsets = new Uint32Array(buffer, offset, numArcs + 1);
+  offset += (numArcs + 1) * 4;
+  const arcOffsetsValid = checkOffsets(
+    arcOffsets, 0, totalArcPoints, arcOffsetsStart, 'Arc offsets', report,
+    'arc-offsets-not-monotonic', 'arc-offsets-total-mismatch'
+  );
+
+  // Arc data
+  if (layout) offset = layout.arcData;
+  let dataEnd: number;
+  if (isVarint) {
+    let byteIndex: Uint32Array | undefined;
+    if (flags & FLAG_ARC_BYTE_INDEX) {
+      if (!fits('Arc byte index', offset, (numArcs + 1) * 4)) return issues;
+      byteIndex = new Uint32Array(buffer, offset, numArcs + 1);
+      offset += (numArcs + 1) * 4;
+    }
+    if (!fits('Varint arc data size', offset, 4)) return issues;
+    const varintSize = view.getUint32(offset, false);
+    offset += 4;
+    if (!fits('Varint arc data', offset, varintSize)) return issues;
+
+    if (arcOffsetsValid) {
+      const indexStart = offset - 4 - (byteIndex ? byteIndex.byteLength : 0);
+      try {
+        const byteOffsets = buildVarintByteOffsets(new Uint8Array(buffer, offset, varintSize), arcOffsets);
+        if (byteIndex && byteIndex.some((value, i) => value !== byteOffsets[i])) {
+          report('invalid-section', 'Arc byte index does not match the varint arc data', indexStart);
+        }
+      } catch (error) {
+        report('section-overrun', (error as Error).message, offset);
+      }
+    }
+    dataEnd = offset + varintSize;
+  } else if (flags & FLAG_STREAMED) {
+    // Streamed arc data is split into frames, which must hold the arcs the offsets describe
+    let counts: number[];
+    try {
+      const frames = readArcFrames(view, offset, size, stride * bytesPerCoord);
+      counts = frames.frames.flatMap(frame => frame.counts);
+      dataEnd = frames.end;
+    } catch (error) {
+      const { code, message, offset } = error as TopobinFormatError;
+      report(code, message, offset);
+      return issues;
+    }
+    if (counts.length !== numArcs) {
+      report('invalid-section', `Arc frames hold ${counts.length} arcs instead of ${numArcs}`, offset);
+    } else if (arcOffsetsValid) {
+      const arc = counts.findIndex((count, i) => count !== arcOffsets[i + 1] - arcOffsets[i]);
+      if (arc !== -1) {
+        report(
+          'invalid-section',
+          `Arc frames give arc ${arc} ${counts[arc]} points instead of ${arcOffsets[arc + 1] - arcOffsets[arc]}`,
+          offset
+        );
+      }
+    }
+    const { strings, objects, points } = layout!;
+    const next = Math.min(strings, arcOffsetsStart, objects, flags & FLAG_HAS_POINTS ? points : Infinity);
+    if (dataEnd > next) {
+      report('invalid-section', 'Arc frames overlap the sections that follow them', next);
+    }
+  } else {
+    offset = Math.ceil(offset / bytesPerCoord) * bytesPerCoord;
+    if (!fits('Arc data', offset, totalArcPoints * stride * bytesPerCoord)) return issues;
+    dataEnd = offset + totalArcPoints * stride * bytesPerCoord;
+  }
+
+  // Values beyond x/y of quantized arcs
+  if (dimensions > stride) {
+    const extraStart = Math.ceil(dataEnd / 8) * 8;
+    const extraSize = totalArcPoints * (dimensions - stride) * 8;
+    if (!fits('Extra coordinate values', extraStart, extraSize)) return issues;
+    dataEnd = extraStart + extraSize;
+  }
+  checkLength(SECTION_ARCS, arcOffsetsStart, dataEnd);
+
+  // Simplification weights: arc endpoints must always be kept
+  if (flags & FLAG_HAS_WEIGHTS) {
+    const weightsStart = layout?.weights ?? Math.ceil(dataEnd / 8) * 8;
+    if (!fits('Simplification weights', weightsStart, totalArcPoints * 8)) return issues;
+    if (arcOffsetsValid) {
+      const weights = new Float64Array(buffer, weightsStart, totalArcPoints);
+      for (let i = 0; i < numArcs; i++) {
+        const start = arcOffsets[i];
+        const end = arcOffsets[i + 1];
+        if (end > start && (weights[start] !== Infinity || weights[end - 1] !== Infinity)) {
+          report('invalid-section', `Simplification weights do not keep the endpoints of arc ${i}`, weightsStart + start * 8);
+          break;
+        }
+      }
+    }
+    dataEnd = weightsStart + totalArcPoints * 8;
+    checkLength(SECTION_WEIGHTS, weightsStart, dataEnd);
+  }
+
+  // Points: offsets into the positions for every geometry
+  let numPointGeometries: number | undefined;
+  let countPoints: PointCounter | undefined;
+  let pointsStart = 0;
+  if (flags & FLAG_HAS_POINTS) {
+    pointsStart = layout ? layout.points : Math.ceil(dataEnd / 8) * 8;
+    if (!fits('Points section header', pointsStart, 24)) return issues;
+    numPointGeometries = view.getUint32(pointsStart, false);
+    const numPoints = view.getUint32(pointsStart + 4, false);
+    const coordinateType = COORDINATE_TYPE_CODES[view.getUint32(pointsStart + 8, false)];
+    if (!coordinateType) {
+      report('invalid-section', 'Points section has an unsupported coordinate type', pointsStart + 8);
+      return issues;
+    }
+    const pointStride = view.getUint32(pointsStart + 12, false);
+    const extraDimensions = view.getUint32(pointsStart + 16, false);
+    if (pointStride !== stride || extraDimensions !== dimensions - stride) {
+      report(
+        'invalid-section',
+        `Points section stores ${pointStride} + ${extraDimensions} values per position, but the header has ${dimensions} dimensions`,
+        pointsStart + 12
+      );
+      return issues;
+    }
+    const offsetsSize = (numPointGeometries + 1) * 4;
+    if (!fits('Point offsets', pointsStart + 24, offsetsSize)) return issues;
+    const pointOffsets = new Uint32Array(buffer, pointsStart + 24, numPointGeometries + 1);
+    countPoints = checkOffsets(pointOffsets, 0, numPoints, pointsStart + 24, 'Point offsets', report)
+      ? geometry => geometry < pointOffsets.length - 1 ? pointOffsets[geometry + 1] - pointOffsets[geometry] : undefined
+      : () => undefined;
+    const coordsStart = pointsStart + 24 + Math.ceil(offsetsSize / 8) * 8;
+    const coordsSize = numPoints * stride * BYTES_PER_COORDINATE[coordinateType];
+    if (!fits('Point coordinates', coordsStart, coordsSize)) return issues;
+    const extraStart = coordsStart + Math.ceil(coordsSize / 8) * 8;
+    const extraSize = numPoints * extraDimensions * 8;
+    if (!fits('Extra point values', extraStart, extraSize)) return issues;
+    dataEnd = extraStart + extraSize;
+    checkLength(SECTION_POINTS, pointsStart, dataEnd);
+  }
+  const objectsStart = layout ? layout.objects : Math.ceil(dataEnd / 4) * 4;
+
+  const checkArcRef = (ref: number) => (ref < 0 ? ~ref : ref) < numArcs;
+
+  // Objects
+  if (version === 1) {
+    if (flags & FLAG_HAS_SPATIAL_INDEX) {
+      report('invalid-section', 'Version 1 buffers cannot have a spatial index', 6);
+    }
+    if (flags & FLAG_HAS_POINTS) {
+      report('invalid-section', 'Version 1 buffers cannot have a points section', 6);
+    }
+    validateObjectsV1(buffer, objectsStart, numObjects, checkArcRef, fits, report);
+    return issues;
+  }
+  const objectsEnd = validateObjects(buffer, objectsStart, numObjects, numStrings, checkArcRef, countPoints, fits, report);
+  if (objectsEnd === undefined) return issues;
+  checkLength(SECTION_OBJECTS, objectsStart, objectsEnd.end);
+  if (numPointGeometries !== undefined && numPointGeometries !== objectsEnd.numGeometries) {
+    report(
+      'object-count-mismatch',
+      `Points section covers ${numPointGeometries} geometries but the objects section has ${objectsEnd.numGeometries}`,
+      pointsStart
+    );
+  }
+
+  // Properties
+  let end = objectsEnd.end;
+  if (flags & FLAG_HAS_PROPERTIES) {
+    const propertiesStart = layout?.properties ?? Math.ceil(end / 8) * 8;
+    if (!validateProperties(buffer, propertiesStart, objectsEnd.numGeometries, numStrings, fits, report)) {
+      return issues;
+    }
+    end = propertiesStart + propertiesSectionSize(buffer, propertiesStart);
+    checkLength(SECTION_PROPERTIES, propertiesStart, end);
+  }
+
+  // Spatial index
+  if (flags & FLAG_HAS_SPATIAL_INDEX) {
+    const spatialIndexStart = layout?.spatialIndex ?? Math.ceil(end / 8) * 8;
+    validateSpatialIndex(buffer, spatialIndexStart, numArcs, objectsEnd.numGeometries, fits, report);
+  }
+
+  return issues;
+}
+
+type Report = (code: ValidationIssueCode, message: string, offset: number) => void;
+type Fits = (name: string, offset: number, length: number) => boolean;
+/** Gets how many positions the points section holds for a geometry, or undefined if that is unknown */
+type PointCounter = (geometry: number) => number | undefined;
+
+/**
+ * Checks that an offsets column is non-decreasing, starts at first and ends
+ * at last. Reports the first problem and returns whether there was none.
+ */
+function checkOffsets(
+  offsets: Uint32Array,
+  first: number,
+  last: number,
+  byteOffset: number,
+  name: string,
+  report: Report,
+  orderCode: ValidationIssueCode = 'invalid-section',
+  totalCode: ValidationIssueCode = 'invalid-section'
+): boolean {
+  if (offsets[0] !== first) {
+    report(orderCode, `${name} start at ${offsets[0]} instead of ${first}`, byteOffset);
+    return false;
+  }
+  for (let i = 1; i < offsets.length; i++) {
+    if (offsets[i] < offsets[i - 1]) {
+      report(orderCode, `${name} decrease at index ${i} (${offsets[i - 1]} to ${offsets[i]})`, byteOffset + i * 4);
+      return false;
+    }
+  }
+  const end = offsets[offsets.length - 1];
+  if (end !== last) {
+    report(totalCode, `${name} end at ${end} instead of ${last}`, byteOffset + (offsets.length - 1) * 4);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Validates a version 1 objects section (size-prefixed JSON)
+ */
+function validateObjectsV1(
+  buffer: ArrayBuffer,
+  offset: number,
+  numObjects: number,
+  checkArcRef: (ref: number) => boolean,
+  fits: Fits,
+  report: Report
+): void {
+  if (!fits('Objects section size', offset, 4)) return;
+  const jsonSize = new DataView(buffer).getUint32(offset, false);
+  if (!fits('Objects section', offset + 4, jsonSize)) return;
+
+  let objects: Record<string, unknown>;
+  try {
+    objects = JSON.parse(new TextDecoder().decode(unshared(new Uint8Array(buffer, offset + 4, jsonSize)))).objects;
+  } catch {
+    report('invalid-section', 'Objects section is not valid JSON', offset + 4);
+    return;
+  }
+  if (!objects || typeof objects !== 'object') {
+    report('invalid-section', 'Objects section has no objects', offset + 4);
+    return;
+  }
+
+  const names = Object.keys(objects);
+  if (names.length !== numObjects) {
+    report('object-count-mismatch', `Header declares ${numObjects} objects but the objects section has ${names.length}`, 16);
+  }
+
+  const badRefs: number[] = [];
+  for (const name of names) {
+    const problem = checkJSONGeometry(objects[name], `Object "${name}"`, checkArcRef, badRefs);
+    if (problem) {
+      report('invalid-section', problem, offset + 4);
+      break;
+    }
+  }
+  if (badRefs.length) {
+    report(
+      'arc-index-out-of-range',
+      `${badRefs.length} arc reference(s) out of range, first ${badRefs[0]}`,
+      offset + 4
+    );
+  }
+}
+
+/** How deeply each arc-based geometry type nests its arc references */
+const ARC_DEPTHS: Record<string, number> = { LineString: 1, MultiLineString: 2, Polygon: 2, MultiPolygon: 3 };
+
+/**
+ * Checks the shape of a JSON geometry and its members, returning the first
+ * problem found. Out-of-range arc references are collected into badRefs.
+ */
+function checkJSONGeometry(
+  value: unknown,
+  name: string,
+  checkArcRef: (ref: number) => boolean,
+  badRefs: number[]
+): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return `${name} is not a geometry object`;
+  }
+  const geometry = value as Record<string, unknown>;
+  const { type, coordinates } = geometry;
+  switch (type) {
+    case 'Point':
+      return isPosition(coordinates) ? undefined : `${name} is a Point without a position`;
+    case 'MultiPoint':
+      return Array.isArray(coordinates) && coordinates.every(isPosition)
+        ? undefined
+        : `${name} is a MultiPoint without a list of positions`;
+    case 'GeometryCollection': {
+      const { geometries } = geometry;
+      if (!Array.isArray(geometries)) {
+        return `${name} is a GeometryCollection without geometries`;
+      }
+      for (let i = 0; i < geometries.length; i++) {
+        const problem = checkJSONGeometry(geometries[i], `${name} member ${i}`, checkArcRef, badRefs);
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+    case null:
+      return undefined;
+  }
+
+  const depth = typeof type === 'string' ? ARC_DEPTHS[type] : undefined;
+  if (depth === undefined) {
+    return `${name} has unknown type ${JSON.stringify(type)}`;
+  }
+  const isArcs = (arcs: unknown, level: number): boolean => {
+    if (!Array.isArray(arcs)) return false;
+    if (level > 1) return arcs.every(member => isArcs(member, level - 1));
+    for (const ref of arcs) {
+      if (!Number.isInteger(ref)) return false;
+      if (!checkArcRef(ref)) badRefs.push(ref);
+    }
+    return true;
+  };
+  return isArcs(geometry.arcs, depth) ? undefined : `${name} is a ${type} with malformed arcs`;
+}
+
+function isPosition(value: unknown): boolean {
+  return Array.isArray(value) && value.length >= 2 && value.every(v => typeof v === 'number');
+}
+
+/**
+ * Validates a binary objects section, returning where it ends
+ * (or undefined if its columns do not fit in the buffer)
+ */
+function validateObjects(
+  buffer: ArrayBuffer,
+  start: number,
+  numObjects: number,
+  numStrings: number,
+  checkArcRef: (ref: number) => boolean,
+  countPoints: PointCounter | undefined,
+  fits: Fits,
+  report: Report
+): { end: number; numGeometries: number } | undefined {
+  const view = new DataView(buffer);
+  if (!fits('Objects section header', start, 20)) return undefined;
+  const numGeometries = view.getUint32(start, false);
+  const numPolygons = view.getUint32(start + 4, false);
+  const numRings = view.getUint32(start + 8, false);
+  const numArcRefs = view.getUint32(start + 12, false);
+  const flags = view.getUint32(start + 16, false);
+  let offset = start + 20;
+
+  // Lays out the next column, failing if it overruns the buffer
+  const column = (name: string, byteLength: number, padded = byteLength): number => {
+    if (!fits(name, offset, byteLength)) return -1;
+    const columnStart = offset;
+    offset += padded;
+    return columnStart;
+  };
+
+  const idsStart = column('Geometry ids', numGeometries * 4);
+  if (idsStart < 0) return undefined;
+  const childStart = column('Child offsets', (numGeometries + 1) * 4);
+  if (childStart < 0) return undefined;
+  const polygonStart = column('Polygon offsets', (numGeometries + 1) * 4);
+  if (polygonStart < 0) return undefined;
+  const ringStart = column('Ring offsets', (numPolygons + 1) * 4);
+  if (ringStart < 0) return undefined;
+  const arcRefOffsetsStart = column('Arc reference offsets', (numRings + 1) * 4);
+  if (arcRefOffsetsStart < 0) return undefined;
+  const int16Refs = (flags & OBJECTS_FLAG_INT16_ARC_REFS) !== 0;
+  const refSize = int16Refs ? 2 : 4;
+  const arcRefsStart = column('Arc references', numArcRefs * refSize, Math.ceil(numArcRefs * refSize / 4) * 4);
+  if (arcRefsStart < 0) return undefined;
+  const typesStart = column('Geometry types', numGeometries, Math.ceil(numGeometries / 4) * 4);
+  if (typesStart < 0) return undefined;
+  if (!fits('Extras size', offset, 4)) return undefined;
+  const extrasSize = view.getUint32(offset, false);
+  offset += 4;
+  const extrasStart = column('Extras', extrasSize, Math.ceil(extrasSize / 4) * 4);
+  if (extrasStart < 0) return undefined;
+
+  const ids = new Uint32Array(buffer, idsStart, numGeometries);
+  const childOffsets = new Uint32Array(buffer, childStart, numGeometries + 1);
+  const polygonOffsets = new Uint32Array(buffer, polygonStart, numGeometries + 1);
+  const ringOffsets = new Uint32Array(buffer, ringStart, numPolygons + 1);
+  const arcRefOffsets = new Uint32Array(buffer, arcRefOffsetsStart, numRings + 1);
+  const arcRefs = int16Refs
+    ? new Int16Array(buffer, arcRefsStart, numArcRefs)
+    : new Int32Array(buffer, arcRefsStart, numArcRefs);
+  const types = new Uint8Array(buffer, typesStart, numGeometries);
+
+  // Offset columns
+  let childOffsetsValid = false;
+  if (childOffsets[0] !== numObjects) {
+    report('object-count-mismatch', `Header declares ${numObjects} objects but the objects section has ${childOffsets[0]}`, childStart);
+  } else {
+    childOffsetsValid = checkOffsets(childOffsets, numObjects, numGeometries, childStart, 'Child offsets', report);
+  }
+  const rangesValid = [
+    checkOffsets(polygonOffsets, 0, numPolygons, polygonStart, 'Polygon offsets', report),
+    checkOffsets(ringOffsets, 0, numRings, ringStart, 'Ring offsets', report),
+    checkOffsets(arcRefOffsets, 0, numArcRefs, arcRefOffsetsStart, 'Arc reference offsets', report)
+  ].every(Boolean) && childOffsetsValid;
+
+  // Members without a binary representation, keyed by geometry index
+  let extras: Record<string, { coordinates?: unknown } | null | undefined> = {};
+  if (extrasSize > 0) {
+    try {
+      extras = JSON.parse(new TextDecoder().decode(unshared(new Uint8Array(buffer, extrasStart, extrasSize)))) ?? {};
+    } catch {
+      report('invalid-section', 'Geometry extras are not valid JSON', extrasStart);
+    }
+  }
+
+  // Checks that a geometry's polygon, ring, member and point ranges
+  // have the shape its type needs, returning the problem if not
+  const checkStructure = (i: number, type: GeometryType): string | undefined => {
+    const firstPolygon = polygonOffsets[i];
+    const endPolygon = polygonOffsets[i + 1];
+    const expectedPolygons = type === 'MultiPolygon' ? endPolygon - firstPolygon : type !== null && type in ARC_DEPTHS ? 1 : 0;
+    if (endPolygon - firstPolygon !== expectedPolygons) {
+      return `Geometry ${i} is a ${type} with ${endPolygon - firstPolygon} polygons`;
+    }
+    const rings = ringOffsets[endPolygon] - ringOffsets[firstPolygon];
+    if (type === 'LineString' && rings !== 1) {
+      return `Geometry ${i} is a LineString with ${rings} lines`;
+    }
+    if (type !== 'GeometryCollection' && childOffsets[i + 1] !== childOffsets[i]) {
+      return `Geometry ${i} is a ${type} with members`;
+    }
+
+    // Positions that are not plain x/y pairs are kept in the extras instead
+    const numPoints = countPoints ? countPoints(i) : 0;
+    if (numPoints === undefined) return undefined;
+    const inExtras = extras[i]?.coordinates !== undefined;
+    if (type === 'Point' ? numPoints > 1 || (numPoints === 0 && !inExtras) : type !== 'MultiPoint' && numPoints > 0) {
+      return `Geometry ${i} is a ${type} with ${numPoints} positions`;
+    }
+    if (type === 'MultiPoint' && !countPoints && !inExtras) {
+      return `Geometry ${i} is a MultiPoint without positions`;
+    }
+    return undefined;
+  };
+
+  for (let i = 0; i < numGeometries; i++) {
+    const typeCode = types[i] & GEOMETRY_TYPE_MASK;
+    if (typeCode >= GEOMETRY_TYPES.length) {
+      report('invalid-section', `Geometry ${i} has unknown type code ${typeCode}`, typesStart + i);
+    } else if (rangesValid) {
+      const problem = checkStructure(i, GEOMETRY_TYPES[typeCode]);
+      if (problem) report('invalid-section', problem, typesStart + i);
+    }
+    // Members always come after their collection, which rules out cycles
+    if (childOffsets[i + 1] > childOffsets[i] && childOffsets[i] <= i) {
+      report('invalid-section', `Geometry ${i} has members that precede it`, childStart + i * 4);
+    }
+    if (types[i] & (GEOMETRY_ID_STRING | GEOMETRY_ID_NUMBER) && (ids[i] === NO_STRING || ids[i] >= numStrings)) {
+      report('invalid-section', `Geometry ${i} has id string index ${ids[i]} out of range`, idsStart + i * 4);
+    }
+  }
+
+  let badRefs = 0;
+  let firstBadRef = -1;
+  for (let i = 0; i < numArcRefs; i++) {
+    if (!checkArcRef(arcRefs[i])) {
+      if (badRefs++ === 0) firstBadRef = i;
+    }
+  }
+  if (badRefs) {
+    report(
+      'arc-index-out-of-range',
+      `${badRefs} arc reference(s) out of range, first ${arcRefs[firstBadRef]}`,
+      arcRefsStart + firstBadRef * refSize
+    );
+  }
+
+  return { end: offset, numGeometries };
+}
+
+/**
+ * Validates the bounds of a properties section and its column directory,
+ * returning whether the directory can be read
+ */
+function validateProperties(
+  buffer: ArrayBuffer,
+  start: number,
+  numGeometries: number,
+  numStrings: number,
+  fits: Fits,
+  report: Report
+): boolean {
+  const view = new DataView(buffer);
+  if (!fits('Properties section header', start, 8)) return false;
+  if (view.getUint32(start, false) !== numGeometries) {
+    report(
+      'invalid-section',
+      `Properties section covers ${view.getUint32(start, false)} geometries instead of ${numGeometries}`,
+      start
+    );
+    return false;
+  }
+  const numColumns = view.getUint32(start + 4, false);
+  const bitsetSize = Math.ceil(Math.ceil(numGeometries / 8) / 4) * 4;
+  if (!fits('Properties directory', start + 8, bitsetSize + numColumns * 16)) return false;
+
+  let entry = start + 8 + bitsetSize;
+  for (let i = 0; i < numColumns; i++, entry += 16) {
+    const keyIndex = view.getUint32(entry, false);
+    const type = view.getUint32(entry + 4, false);
+    const columnStart = start + view.getUint32(entry + 8, false);
+    const byteLength = view.getUint32(entry + 12, false);
+
+    if (keyIndex >= numStrings) {
+      report('invalid-section', `Property column ${i} has key string index ${keyIndex} out of range`, entry);
+    }
+    if (type > PROPERTY_JSON) {
+      report('invalid-section', `Property column ${i} has unknown type ${type}`, entry + 4);
+      continue;
+    }
+    if (columnStart % 8 !== 0) {
+      report('invalid-section', `Property column ${i} is not 8-byte aligned`, entry + 8);
+      continue;
+    }
+    if (!fits(`Property column ${i}`, columnStart, byteLength)) continue;
+
+    // The column must hold its bitsets and values
+    let dataStart = bitsetSize * 2;
+    let required: number;
+    switch (type) {
+      case PROPERTY_FLOAT64:
+        dataStart = Math.ceil(dataStart / 8) * 8;
+        required = dataStart + numGeometries * 8;
+        break;
+      case PROPERTY_INT32:
+        required = dataStart + numGeometries * 4;
+        break;
+      case PROPERTY_BOOLEAN:
+        required = dataStart + bitsetSize;
+        break;
+      default: {
+        const dictionaryStart = dataStart + numGeometries * 4;
+        required = dictionaryStart + 4;
+        if (required <= byteLength) {
+          const dictionarySize = view.getUint32(columnStart + dictionaryStart, false);
+          required += (dictionarySize + 1) * 4;
+          if (required <= byteLength) {
+            const offsetsStart = columnStart + dictionaryStart + 4;
+            const dictionaryOffsets = new Uint32Array(buffer, offsetsStart, dictionarySize + 1);
+            const bytesStart = columnStart + required;
+            required += dictionaryOffsets[dictionarySize];
+            const offsetsValid = checkOffsets(
+              dictionaryOffsets, 0, dictionaryOffsets[dictionarySize], offsetsStart,
+              `Property column ${i} dictionary offsets`, report
+            );
+            checkDictionaryIndices(buffer, columnStart, numGeometries, dictionarySize, i, report);
+            if (
+              type === PROPERTY_JSON && offsetsValid && required <= byteLength &&
+              !isJSONDictionary(buffer, bytesStart, dictionaryOffsets)
+            ) {
+              report('invalid-section', `Property column ${i} has a value that is not valid JSON`, bytesStart);
+            }
+          }
+        }
+      }
+    }
+    if (required > byteLength) {
+      report('section-overrun', `Property column ${i} needs ${required} bytes but has ${byteLength}`, columnStart);
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks that every non-null value of a dictionary column indexes its
+ * dictionary, reporting the first that does not
+ */
+function checkDictionaryIndices(
+  buffer: ArrayBuffer,
+  columnStart: number,
+  numGeometries: number,
+  dictionarySize: number,
+  column: number,
+  report: Report
+): void {
+  const bitsetSize = Math.ceil(Math.ceil(numGeometries / 8) / 4) * 4;
+  const present = new Uint8Array(buffer, columnStart, bitsetSize);
+  const nonNull = new Uint8Array(buffer, columnStart + bitsetSize, bitsetSize);
+  const indicesStart = columnStart + bitsetSize * 2;
+  const indices = new Uint32Array(buffer, indicesStart, numGeometries);
+  for (let g = 0; g < numGeometries; g++) {
+    const bit = 1 << (g & 7);
+    if (present[g >> 3] & nonNull[g >> 3] & bit && indices[g] >= dictionarySize) {
+      report(
+        'invalid-section',
+        `Property column ${column} has dictionary index ${indices[g]} out of range for geometry ${g}`,
+        indicesStart + g * 4
+      );
+      return;
+    }
+  }
+}
+
+/**
+ * Checks that every entry of a JSON property dictionary parses
+ * (its offsets must already have been checked)
+ */
+function isJSONDictionary(buffer: ArrayBuffer, start: number, offsets: Uint32Array): boolean {
+  const decoder = new TextDecoder();
+  for (let j = 0; j + 1 < offsets.length; j++) {
+    try {
+      JSON.parse(decoder.decode(unshared(new Uint8Array(buffer, start + offsets[j], offsets[j + 1] - offsets[j]))));
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Validates a spatial index section: both trees must fit, cover the expected
+ * number of items, and only point from each node to earlier positions
+ */
+function validateSpatialIndex(
+  buffer: ArrayBuffer,
+  start: number,
+  numArcs: number,
+  numGeometries: number,
+  fits: Fits,
+  report: Report
+): void {
+  const view = new DataView(buffer);
+  if (!fits('Spatial index header', start, 8)) return;
+  let offset = start + 8;
+
+  for (const [name, expectedItems] of [['Arc', numArcs], ['Geometry', numGeometries]] as const) {
+    if (!fits(`${name} tree header`, offset, 16)) return;
+    const numItems = view.getUint32(offset, false);
+    const numNodes = view.getUint32(offset + 4, false);
+    const nodeSize = view.getUint32(offset + 8, false);
+    const numLevels = view.getUint32(offset + 12, false);
+    if (numItems !== expectedItems || numNodes < numItems || (numItems > 0 && nodeSize < 2)) {
+      report('invalid-section', `${name} tree has ${numItems} items and ${numNodes} nodes for ${expectedItems} items`, offset);
+      return;
+    }
+    offset += 16;
+
+    const byteLength =
+      Math.ceil(numLevels * 4 / 8) * 8 + numNodes * 32 + Math.ceil(numNodes * 4 / 8) * 8;
+    if (!fits(`${name} tree`, offset, byteLength)) return;
+    const levelBounds = new Uint32Array(buffer, offset, numLevels);
+    const indicesStart = byteLength - Math.ceil(numNodes * 4 / 8) * 8 + offset;
+    const indices = new Uint32Array(buffer, indicesStart, numNodes);
+    offset += byteLength;
+
+    if (numNodes > 0 && (levelBounds[0] !== numItems || levelBounds[numLevels - 1] !== numNodes)) {
+      report('invalid-section', `${name} tree levels do not match its node count`, offset);
+      return;
+    }
+    for (let pos = 0; pos < numNodes; pos++) {
+      if (pos < numItems ? indices[pos] >= numItems : indices[pos] >= pos) {
+        report('invalid-section', `${name} tree node ${pos} has an invalid index ${indices[pos]}`, indicesStart + pos * 4);
+        return;
+      }
+    }
+  }
+
+  if (view.getUint32(start, false) !== offset - start) {
+    report('invalid-section', 'Spatial index size does not match its trees', start);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Zigzag varint encoding for quantized arc data
+ *
+ * Each delta is zigzag-mapped to an unsigned integer (0, -1, 1, -2, ... become
+ * 0, 1, 2, 3, ...) and written 7 bits at a time, least significant group first,
+ * with the high bit of each byte set when more bytes follow. Small deltas, the
+ * common case in quantized arcs, take a single byte.
+ */
+
+import type { ArcTable } from './arc-table.js';
+
+/**
+ * Encodes arcs as interleaved x/y zigzag varints, also returning the byte
+ * offset at which each arc starts (plus the total length)
+ */
+export function encodeVarintArcs(arcs: ArcTable): { bytes: Uint8Array; byteOffsets: Uint32Array } {
+  const { coords, offsets, dimensions } = arcs;
+  const numArcs = offsets.length - 1;
+  const byteOffsets = new Uint32Array(numArcs + 1);
+  let bytes = new Uint8Array(1024);
+  let length = 0;
+
+  const write = (value: number) => {
+    if (!Number.isInteger(value) || value < -0x80000000 || value > 0x7FFFFFFF) {
+      throw new Error(`Varint arc encoding requires 32-bit integer coordinates, got ${value}`);
+    }
+    if (length + 5 > bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    let zigzag = ((value << 1) ^ (value >> 31)) >>> 0;
+    while (zigzag >= 0x80) {
+      bytes[length++] = (zigzag & 0x7F) | 0x80;
+      zigzag >>>= 7;
+    }
+    bytes[length++] = zigzag;
+  };
+
+  for (let i = 0; i < numArcs; i++) {
+    byteOffsets[i] = length;
+    for (let p = offsets[i]; p < offsets[i + 1]; p++) {
+      write(coords[p * dimensions]);
+      write(coords[p * dimensions + 1]);
+    }
+  }
+  byteOffsets[numArcs] = length;
+
+  return { bytes: bytes.slice(0, length), byteOffsets };
+}
+
+/**
+ * Decodes count varints starting at a byte offset into out (from outOffset).
+ * Returns the byte offset just past the last value read.
+ */
+export function readVarints(
+  bytes: Uint8Array,
+  offset: number,
+  count: number,
+  out: { [index: number]: number },
+  outOffset = 0
+): number {
+  for (let i = 0; i < count; i++) {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (offset >= bytes.length) {
+        throw new Error('Varint arc data is truncated');
+      }
+      byte = bytes[offset++];
+      result |= (byte & 0x7F) << shift;
+      shift += 7;
+    } while (byte & 0x80 && shift < 35);
+    out[outOffset + i] = (result >>> 1) ^ -(result & 1);
+  }
+  return offset;
+}
+
+/**
+ * Rebuilds the per-arc byte offsets by scanning the varint data once,
+ * for buffers written without the arc byte index
+ */
+export function buildVarintByteOffsets(bytes: Uint8Array, arcOffsets: Uint32Array): Uint32Array {
+  const numArcs = arcOffsets.length - 1;
+  const byteOffsets = new Uint32Array(numArcs + 1);
+  let offset = 0;
+  for (let i = 0; i < numArcs; i++) {
+    byteOffsets[i] = offset;
+    let remaining = (arcOffsets[i + 1] - arcOffsets[i]) * 2;
+    while (remaining > 0) {
+      if (offset >= bytes.length) {
+        throw new Error('Varint arc data is truncated');
+      }
+      if ((bytes[offset++] & 0x80) === 0) remaining--;
+    }
+  }
+  byteOffsets[numArcs] = offset;
+  return byteOffsets;
+}
@@ -0,0 +1,27 @@
+/**
+ * Worker script for decodeInWorker()
+ *
+ * Runs as a module Web Worker or as a worker_threads worker, answering each
+ * request in turn, so one worker can serve any number of calls.
+ */
+
+import { NODE_WORKER_THREADS, handleDecodeRequest } from './transfer.js';
+import type { DecodeRequest, DecodeResponse } from './transfer.js';
+
+/** The parts of worker_threads' parentPort used here */
+interface ParentPort {
+  on(event: 'message', listener: (request: DecodeRequest) => void): void;
+  postMessage(response: DecodeResponse): void;
+}
+
+if ('WorkerGlobalScope' in globalThis) {
+  // The global scope of a dedicated worker posts to the thread that started it
+  const scope = globalThis as unknown as Worker;
+  scope.addEventListener('message', (event: MessageEvent<DecodeRequest>) => {
+    scope.postMessage(handleDecodeRequest(event.data));
+  });
+} else {
+  import(NODE_WORKER_THREADS).then(({ parentPort }: { parentPort: ParentPort }) => {
+    parentPort.on('message', request => parentPort.postMessage(handleDecodeRequest(request)));
+  });
+}
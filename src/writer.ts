@@ -0,0 +1,340 @@
+/**
+ * Incremental encoding into a streamed buffer
+ *
+ * Arcs are sent to the sink in frames of about 64 KiB as they are written,
+ * so a topology never has to be held in memory as a whole: only the arc
+ * offsets and the objects are kept until close(). Everything whose size
+ * depends on every arc or object (arc offsets, points, string table, objects,
+ * properties) follows the arc data, and a trailer records the counts and
+ * section offsets (see header.ts).
+ */
+
+import type {
+  Arc,
+  Geometry,
+  Transform,
+  CoordinateType,
+  TopobinSink,
+  TopobinWriterOptions
+} from './types.js';
+import {
+  MAGIC,
+  STREAMED_VERSION,
+  FLAG_HAS_TRANSFORM,
+  FLAG_HAS_BBOX,
+  FLAG_HAS_PROPERTIES,
+  FLAG_HAS_POINTS,
+  FLAG_STREAMED
+} from './constants.js';
+import { HEADER_SIZE, STREAM_TRAILER_SIZE, writeStreamTrailer } from './header.js';
+import {
+  StringTableBuilder,
+  encodeObjects,
+  objectsSectionSize,
+  writeObjectsSection,
+  writeArcData
+} from './encoder.js';
+import { encodeProperties } from './properties.js';
+import { encodePoints } from './points.js';
+import { flattenArcs } from './arc-table.js';
+import {
+  BYTES_PER_COORDINATE,
+  chooseCoordinateType,
+  coordinateTypeFlags,
+  dimensionsFlags,
+  createCoordinateArray
+} from './coordinates.js';
+
+/** Bytes collected before they are sent to the sink */
+const CHUNK_SIZE = 1 << 16;
+
+/** Coordinate bytes collected into one arc frame */
+const FRAME_SIZE = 1 << 16;
+
+/** Arcs waiting to be written as one frame */
+interface Frame {
+  counts: number[];
+  arcs: Uint8Array[];
+  length: number;
+}
+
+/**
+ * Writes a binary topology piece by piece: arcs with writeArc(), then (in any
+ * order) objects with writeObject(), then close() to write the rest.
+ * Calls are applied in order, but each should be awaited to let the sink
+ * apply backpressure.
+ */
+export class TopobinWriter {
+  private send: (chunk: Uint8Array) => void | Promise<void>;
+  private finish?: () => Promise<void>;
+  private transform?: Transform;
+  private coordinateType: CoordinateType;
+  private dimensions: number;
+  private headerFlags: number;
+  private chunk = new Uint8Array(CHUNK_SIZE);
+  private chunkLength = 0;
+  /** Bytes written so far, including those still in the chunk */
+  private offset = 0;
+  /** Pending output, so that calls that were not awaited still write in order */
+  private queue: Promise<void> = Promise.resolve();
+  private arcOffsets = new Uint32Array(1024);
+  private numArcs = 0;
+  private frame: Frame = { counts: [], arcs: [], length: 0 };
+  private objects: Record<string, Geometry> = {};
+  private closed = false;
+
+  constructor(sink: TopobinSink, options: TopobinWriterOptions = {}) {
+    if (typeof sink === 'function') {
+      this.send = sink;
+    } else {
+      const writer = sink.getWriter();
+      this.send = chunk => writer.write(chunk);
+      this.finish = () => writer.close();
+    }
+
+    const { transform, bbox } = options;
+    const hasTransform = !!transform;
+    const dimensions = options.dimensions ?? 2;
+    const coordinateType = options.coordinateType ?? (hasTransform ? 'int32' : 'float64');
+    if (!(coordinateType in BYTES_PER_COORDINATE)) {
+      throw new Error(`Unsupported coordinate type: ${coordinateType}`);
+    }
+    this.headerFlags = FLAG_STREAMED |
+      coordinateTypeFlags(coordinateType, hasTransform) |
+      dimensionsFlags(dimensions);
+    if (hasTransform && dimensions > 2) {
+      throw new Error('Streamed buffers cannot store values beyond x/y of quantized arcs');
+    }
+    if (transform) this.headerFlags |= FLAG_HAS_TRANSFORM;
+    if (bbox) this.headerFlags |= FLAG_HAS_BBOX;
+    this.transform = transform;
+    this.coordinateType = coordinateType;
+    this.dimensions = dimensions;
+
+    // The header's counts stay 0; the trailer holds the real ones
+    const header = new DataView(new ArrayBuffer(HEADER_SIZE + (transform ? 32 : 0) + (bbox ? 32 : 0)));
+    header.setUint32(0, MAGIC, false);
+    header.setUint16(4, STREAMED_VERSION, false);
+    header.setUint16(6, this.headerFlags, false);
+    let offset = HEADER_SIZE;
+    const values = [
+      ...(transform ? [...transform.scale, ...transform.translate] : []),
+      ...(bbox || [])
+    ];
+    for (const value of values) {
+      header.setFloat64(offset, value, false); offset += 8;
+    }
+    this.chunk.set(new Uint8Array(header.buffer));
+    this.chunkLength = this.offset = header.byteLength;
+  }
+
+  /**
+   * Writes an arc (as TopoJSON x/y deltas if the writer has a transform) and
+   * returns its index
+   */
+  async writeArc(arc: Arc): Promise<number> {
+    this.checkOpen();
+    const table = flattenArcs([arc], this.dimensions);
+    if (table.dimensions > this.dimensions) {
+      throw new Error(`Arc positions have ${table.dimensions} values, but the writer stores ${this.dimensions}`);
+    }
+    // Throws if an integer type cannot hold the arc
+    chooseCoordinateType(table, this.coordinateType, !!this.transform);
+
+    const stride = this.transform ? 2 : this.dimensions;
+    const bytes = new ArrayBuffer(arc.length * stride * BYTES_PER_COORDINATE[this.coordinateType]);
+    writeArcData(table, createCoordinateArray(this.coordinateType, bytes, 0, arc.length * stride), stride, this.transform);
+
+    const index = this.numArcs++;
+    if (this.numArcs + 1 > this.arcOffsets.length) {
+      const offsets = new Uint32Array(this.arcOffsets.length * 2);
+      offsets.set(this.arcOffsets);
+      this.arcOffsets = offsets;
+    }
+    this.arcOffsets[index + 1] = this.arcOffsets[index] + arc.length;
+
+    this.frame.counts.push(arc.length);
+    this.frame.arcs.push(new Uint8Array(bytes));
+    this.frame.length += bytes.byteLength;
+    const frame = this.frame.length >= FRAME_SIZE ? this.takeFrame() : undefined;
+    await this.enqueue(async () => {
+      if (frame) await this.emitFrame(frame);
+    });
+    return index;
+  }
+
+  /**
+   * Adds a named object. Objects are kept until close(), as the objects
+   * section needs all of them; their arcs may be written before or after.
+   */
+  writeObject(name: string, object: Geometry): void {
+    this.checkOpen();
+    if (name in this.objects) {
+      throw new Error(`Duplicate object name: ${name}`);
+    }
+    this.objects[name] = object;
+  }
+
+  /**
+   * Writes the sections that follow the arcs and the trailer, then closes the
+   * sink if it is a WritableStream
+   */
+  async close(): Promise<void> {
+    this.checkOpen();
+    const hasTransform = !!this.transform;
+    const numArcs = this.numArcs;
+    const arcDataStart = HEADER_SIZE + (hasTransform ? 32 : 0) + (this.headerFlags & FLAG_HAS_BBOX ? 32 : 0);
+
+    // Object names take the first string table slots, as in encode()
+    const names = Object.keys(this.objects);
+    const strings = new StringTableBuilder();
+    for (const name of names) {
+      strings.add(name);
+    }
+    const objects = encodeObjects(this.objects, names, strings);
+    for (const positions of objects.positions) {
+      for (const position of positions || []) {
+        if (position.length > this.dimensions) {
+          throw new Error(`Point positions have ${position.length} values, but the writer stores ${this.dimensions}`);
+        }
+      }
+    }
+    const hasProperties = objects.properties.some(props => props !== undefined);
+    const properties = hasProperties
+      ? encodeProperties(objects.properties, value => strings.add(value))
+      : undefined;
+    const points = objects.positions.some(positions => positions !== undefined)
+      ? encodePoints(objects.positions, hasTransform, this.dimensions)
+      : undefined;
+    const stringTable = strings.toBytes();
+    const objectsSection = new ArrayBuffer(objectsSectionSize(objects));
+    writeObjectsSection(objectsSection, 0, objects);
+
+    let flags = this.headerFlags;
+    if (hasProperties) flags |= FLAG_HAS_PROPERTIES;
+    if (points) flags |= FLAG_HAS_POINTS;
+    const frame = this.takeFrame();
+    this.closed = true;
+
+    await this.enqueue(async () => {
+      if (frame.counts.length) await this.emitFrame(frame);
+      // A frame of no arcs ends the arc data
+      await this.emit(new Uint8Array(4));
+
+      await this.pad(4);
+      const arcOffsetsStart = this.offset;
+      await this.emit(new Uint8Array(this.arcOffsets.buffer, 0, (numArcs + 1) * 4));
+
+      let pointsStart = 0;
+      if (points) {
+        await this.pad(8);
+        pointsStart = this.offset;
+        await this.emit(points);
+      }
+
+      const stringsStart = this.offset;
+      await this.emit(stringTable);
+
+      await this.pad(4);
+      const objectsStart = this.offset;
+      await this.emit(new Uint8Array(objectsSection));
+
+      // The properties section follows the objects on an 8-byte boundary
+      if (properties) {
+        await this.pad(8);
+        await this.emit(properties);
+      }
+
+      await this.pad(4);
+      const trailer = new DataView(new ArrayBuffer(STREAM_TRAILER_SIZE));
+      writeStreamTrailer(trailer, 0, {
+        flags,
+        numArcs,
+        totalArcPoints: this.arcOffsets[numArcs],
+        numObjects: names.length,
+        stringTableSize: stringTable.byteLength,
+        layout: {
+          strings: stringsStart,
+          arcOffsets: arcOffsetsStart,
+          arcData: arcDataStart,
+          points: pointsStart,
+          objects: objectsStart
+        }
+      });
+      await this.emit(new Uint8Array(trailer.buffer));
+      await this.flush();
+      await this.finish?.();
+    });
+  }
+
+  private checkOpen(): void {
+    if (this.closed) {
+      throw new Error('TopobinWriter is closed');
+    }
+  }
+
+  /**
+   * Removes the arcs collected for the next frame
+   */
+  private takeFrame(): Frame {
+    const frame = this.frame;
+    this.frame = { counts: [], arcs: [], length: 0 };
+    return frame;
+  }
+
+  /**
+   * Writes a frame: its arc count and the point count of each arc, then the
+   * arcs' coordinates, both padded to an 8-byte boundary (see header.ts)
+   */
+  private async emitFrame(frame: Frame): Promise<void> {
+    const head = new DataView(new ArrayBuffer(4 + frame.counts.length * 4));
+    head.setUint32(0, frame.counts.length, false);
+    frame.counts.forEach((count, i) => head.setUint32(4 + i * 4, count, false));
+    await this.emit(new Uint8Array(head.buffer));
+    await this.pad(8);
+    for (const arc of frame.arcs) {
+      await this.emit(arc);
+    }
+    await this.pad(8);
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(write);
+    return this.queue;
+  }
+
+  /**
+   * Copies bytes into the current chunk, sending it whenever it fills up
+   */
+  private async emit(bytes: Uint8Array): Promise<void> {
+    this.offset += bytes.byteLength;
+    let start = 0;
+    while (start < bytes.byteLength) {
+      const length = Math.min(bytes.byteLength - start, CHUNK_SIZE - this.chunkLength);
+      this.chunk.set(bytes.subarray(start, start + length), this.chunkLength);
+      this.chunkLength += length;
+      start += length;
+      if (this.chunkLength === CHUNK_SIZE) {
+        await this.flush();
+      }
+    }
+  }
+
+  /**
+   * Writes zero bytes up to the next multiple of the alignment
+   */
+  private pad(alignment: number): Promise<void> {
+    return this.emit(new Uint8Array(Math.ceil(this.offset / alignment) * alignment - this.offset));
+  }
+
+  /**
+   * Sends the current chunk; the sink may keep it, so a new one is started
+   */
+  private async flush(): Promise<void> {
+    if (this.chunkLength === 0) return;
+    const chunk = this.chunk.subarray(0, this.chunkLength);
+    this.chunk = new Uint8Array(CHUNK_SIZE);
+    this.chunkLength = 0;
+    await this.send(chunk);
+  }
+}
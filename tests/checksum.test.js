@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import zlib from 'node:zlib';
+import {
+  encode,
+  decode,
+  validate,
+  BinaryTopologyView,
+  TopobinFormatError,
+  getMemoryStats
+} from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.01, 0.01], translate: [-10, 40] },
+  arcs: [
+    [[0, 0], [10, 5], [-3, 20]],
+    [[7, 25], [-7, -25]]
+  ],
+  objects: {
+    area: { type: 'Polygon', arcs: [[0, 1]], id: 'a', properties: { name: 'A' } },
+    line: { type: 'LineString', arcs: [~1] }
+  }
+};
+
+// Reads the trailer's section entries from the end of the buffer
+function readSections(buffer) {
+  const view = new DataView(buffer);
+  const count = view.getUint32(buffer.byteLength - 8, false);
+  const start = buffer.byteLength - 8 - count * 16;
+  const sections = [];
+  for (let i = 0; i < count; i++) {
+    sections.push({
+      id: view.getUint32(start + i * 16, false),
+      offset: view.getUint32(start + i * 16 + 4, false),
+      length: view.getUint32(start + i * 16 + 8, false)
+    });
+  }
+  return sections;
+}
+
+function corrupt(buffer, offset) {
+  const copy = buffer.slice(0);
+  new Uint8Array(copy)[offset] ^= 0xFF;
+  return copy;
+}
+
+test('buffers with checksums decode like buffers without', () => {
+  const buffer = encode(topology, { checksums: true });
+  assert.ok(buffer.byteLength > encode(topology).byteLength);
+  assert.deepStrictEqual(decode(buffer, { verifyChecksums: true }), topology);
+  assert.deepStrictEqual(decode(buffer, { strict: true, verifyChecksums: true }), topology);
+  assert.deepStrictEqual(validate(buffer, { verifyChecksums: true }), []);
+
+  const view = new BinaryTopologyView(buffer, { verifyChecksums: true });
+  assert.deepStrictEqual(view.getObject('area'), topology.objects.area);
+});
+
+test('checksum trailer covers every section, in order', () => {
+  const buffer = encode(topology, { checksums: true });
+  const sections = readSections(buffer);
+  assert.deepStrictEqual(sections.map(s => s.id), [1, 2, 3, 4, 5]);
+  assert.strictEqual(sections[0].offset, 0);
+  for (let i = 1; i < sections.length; i++) {
+    assert.ok(sections[i].offset >= sections[i - 1].offset + sections[i - 1].length);
+  }
+
+  if (zlib.crc32) {
+    const fileCrc = new DataView(buffer).getUint32(buffer.byteLength - 4, false);
+    assert.strictEqual(fileCrc, zlib.crc32(new Uint8Array(buffer, 0, buffer.byteLength - 4)));
+  }
+});
+
+test('verification reports the damaged section', () => {
+  const buffer = encode(topology, { checksums: true });
+  const arcs = readSections(buffer).find(s => s.id === 3);
+  const damaged = corrupt(buffer, arcs.offset + arcs.length - 1); // the last arc coordinate
+
+  assert.deepStrictEqual(
+    validate(damaged, { verifyChecksums: true }).map(issue => [issue.code, issue.message, issue.offset]),
+    [
+      ['checksum-mismatch', 'Checksum mismatch in the arcs section', arcs.offset],
+      ['checksum-mismatch', 'Checksum mismatch for the whole file', 0]
+    ]
+  );
+
+  const rejects = error => error instanceof TopobinFormatError &&
+    error.code === 'checksum-mismatch' &&
+    error.offset === arcs.offset;
+  assert.throws(() => decode(damaged, { verifyChecksums: true }), rejects);
+  assert.throws(() => decode(damaged, { strict: true, verifyChecksums: true }), rejects);
+  assert.throws(() => new BinaryTopologyView(damaged, { verifyChecksums: true }), rejects);
+
+  // Without verification the damage goes unnoticed
+  assert.doesNotThrow(() => decode(damaged));
+  assert.deepStrictEqual(validate(damaged), []);
+});
+
+test('damage outside the sections is caught by the whole-file checksum', () => {
+  const buffer = encode(topology, { checksums: true });
+  const damaged = corrupt(buffer, buffer.byteLength - 12); // the last section entry's checksum
+  const issues = validate(damaged, { verifyChecksums: true });
+  assert.strictEqual(issues[issues.length - 1].message, 'Checksum mismatch for the whole file');
+});
+
+test('a damaged trailer is rejected cleanly', () => {
+  const buffer = encode(topology, { checksums: true });
+  new DataView(buffer).setUint32(buffer.byteLength - 8, 1000, false);
+  assert.deepStrictEqual(validate(buffer).map(issue => issue.code), ['section-overrun']);
+  assert.throws(() => decode(buffer, { verifyChecksums: true }), TopobinFormatError);
+});
+
+test('buffers without checksums still load when verification is requested', () => {
+  const buffer = encode(topology);
+  assert.deepStrictEqual(decode(buffer, { verifyChecksums: true }), topology);
+  assert.doesNotThrow(() => new BinaryTopologyView(buffer, { verifyChecksums: true }));
+  assert.deepStrictEqual(validate(buffer, { verifyChecksums: true }), []);
+});
+
+test('getMemoryStats reports the checksum trailer separately', () => {
+  const plain = getMemoryStats(encode(topology));
+  const checked = getMemoryStats(encode(topology, { checksums: true }));
+  assert.strictEqual(checked.checksumBytes, 5 * 16 + 8);
+  assert.strictEqual(plain.checksumBytes, 0);
+  assert.strictEqual(checked.arcBytes, plain.arcBytes);
+  assert.ok(checked.objectBytes - plain.objectBytes < 8); // alignment padding only
+});
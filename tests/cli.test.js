@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { encode, decode, BinaryTopologyView } from '../lib/index.js';
+
+const cli = fileURLToPath(new URL('../bin/topobin.js', import.meta.url));
+
+// Runs the CLI with stdin input, returning its status and output
+function run(args, input) {
+  const result = spawnSync(process.execPath, [cli, ...args], { input, maxBuffer: 1 << 26 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr.toString() };
+}
+
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.01, 0.02], translate: [-10, 5] },
+  bbox: [-10, 5, -8, 9],
+  arcs: [
+    [[0, 0], [100, 0], [0, 100]],
+    [[100, 100], [-100, 0], [0, -100]]
+  ],
+  objects: {
+    regions: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', id: 'a', arcs: [[0, 1]], properties: { name: 'A' } },
+        { type: 'LineString', id: 'b', arcs: [~1] }
+      ]
+    },
+    place: { type: 'Point', coordinates: [50, 50] }
+  }
+};
+
+const json = JSON.stringify(topology);
+
+test('encode and decode round-trip through stdin and stdout', () => {
+  const encoded = run(['encode'], json);
+  assert.strictEqual(encoded.status, 0, encoded.stderr);
+  const buffer = new Uint8Array(encoded.stdout).buffer;
+  assert.deepStrictEqual(decode(buffer), topology);
+
+  const decoded = run(['decode', '-'], encoded.stdout);
+  assert.strictEqual(decoded.status, 0, decoded.stderr);
+  assert.deepStrictEqual(JSON.parse(decoded.stdout), topology);
+});
+
+test('encode passes options through and writes to a file', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'topobin-'));
+  try {
+    const output = join(dir, 'out.topobin');
+    const result = run(['encode', '-', '-o', output, '--arc-encoding', 'varint', '--checksums', '--presimplify'], json);
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.strictEqual(result.stdout.length, 0);
+
+    const bytes = readFileSync(output);
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    assert.ok(new BinaryTopologyView(buffer).hasWeights());
+    assert.deepStrictEqual(decode(buffer, { strict: true, verifyChecksums: true }), topology);
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+});
+
+test('encode quantizes with --quantization', () => {
+  const plain = { type: 'Topology', arcs: [[[0.5, 0.25], [10.5, 20.25]]], objects: { line: { type: 'LineString', arcs: [0] } } };
+  const result = run(['encode', '--quantization', '1000'], JSON.stringify(plain));
+  assert.strictEqual(result.status, 0, result.stderr);
+  assert.ok(decode(new Uint8Array(result.stdout).buffer).transform);
+
+  assert.strictEqual(run(['encode', '--quantization', 'lots'], json).status, 2);
+});
+
+test('inspect prints the header, sections and objects', () => {
+  const buffer = encode(topology, { checksums: true });
+  const result = run(['inspect'], new Uint8Array(buffer));
+  assert.strictEqual(result.status, 0, result.stderr);
+  const text = result.stdout.toString();
+  assert.match(text, /version\s+3/);
+  assert.match(text, /transform, bbox, properties, checksums, points/);
+  assert.match(text, /arcs\s+2 \(6 points\)/);
+  assert.match(text, /checksums\s+\d+\s+\d+\s+0/);
+  assert.match(text, /regions\s+GeometryCollection\s+2/);
+});
+
+test('inspect --json lists contiguous sections', () => {
+  const buffer = encode(topology, { spatialIndex: true, arcEncoding: 'varint' });
+  const result = run(['inspect', '--json'], new Uint8Array(buffer));
+  assert.strictEqual(result.status, 0, result.stderr);
+  const info = JSON.parse(result.stdout);
+
+  assert.strictEqual(info.arcs.count, 2);
+  assert.deepStrictEqual(info.objects, [
+    { name: 'regions', type: 'GeometryCollection', geometries: 2 },
+    { name: 'place', type: 'Point', geometries: 1 }
+  ]);
+  assert.deepStrictEqual(info.bbox, topology.bbox);
+  assert.deepStrictEqual(info.sections.map(s => s.name), [
+    'header', 'transform', 'bbox', 'section directory', 'string table', 'arc offsets', 'arc byte index', 'arc data',
+    'points', 'objects', 'properties', 'spatial index'
+  ]);
+
+  // Each section starts where the previous one's padding ends
+  let end = 0;
+  for (const section of info.sections) {
+    assert.strictEqual(section.offset, end, section.name);
+    assert.ok(section.padding < 8, section.name);
+    end = section.offset + section.length + section.padding;
+  }
+  assert.strictEqual(end, buffer.byteLength);
+});
+
+test('stats reports memory statistics', () => {
+  const buffer = encode(topology);
+  const result = run(['stats', '--json'], new Uint8Array(buffer));
+  assert.strictEqual(result.status, 0, result.stderr);
+  const stats = JSON.parse(result.stdout);
+  assert.strictEqual(stats.totalBytes, buffer.byteLength);
+  assert.strictEqual(stats.binaryBytes, buffer.byteLength);
+  assert.strictEqual(stats.jsonBytes, json.length);
+
+  assert.match(run(['stats'], new Uint8Array(buffer)).stdout.toString(), /in memory/);
+});
+
+test('invalid buffers exit with status 1', () => {
+  const buffer = new Uint8Array(encode(topology));
+  for (const command of ['decode', 'inspect', 'stats']) {
+    const truncated = run([command], buffer.subarray(0, 100));
+    assert.strictEqual(truncated.status, 1, command);
+    assert.match(truncated.stderr, /^topobin: /);
+    assert.strictEqual(run([command], 'not a topobin file').status, 1, command);
+  }
+  assert.strictEqual(run(['encode'], '{"type":').status, 1);
+  assert.strictEqual(run(['encode'], '{"type":"FeatureCollection"}').status, 1);
+});
+
+test('bad usage exits with status 2', () => {
+  assert.strictEqual(run([]).status, 2);
+  assert.strictEqual(run(['convert']).status, 2);
+  assert.strictEqual(run(['decode', 'a', 'b']).status, 2);
+  assert.strictEqual(run(['decode', '--bogus']).status, 2);
+
+  const help = run(['--help']);
+  assert.strictEqual(help.status, 0);
+  assert.match(help.stdout.toString(), /Usage: topobin/);
+});
@@ -0,0 +1,316 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  encode,
+  decode,
+  validate,
+  getVersion,
+  convert,
+  convertWithReport,
+  convertStream,
+  TopobinWriter,
+  TopobinFormatError,
+  VERSION
+} from '../lib/index.js';
+
+// Polygons with ids and properties, a line, points with a third value, and members kept as JSON
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.01, 0.01], translate: [-10, 40] },
+  bbox: [-10, 40, -9, 41],
+  arcs: [
+    [[0, 0], [10, 5], [-3, 20]],
+    [[7, 25], [-7, -25]],
+    [[0, 0], [0, 100]]
+  ],
+  objects: {
+    shapes: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]], id: 'a', properties: { name: 'A', pop: 1.5 } },
+        { type: 'LineString', arcs: [~2], id: 7, properties: { name: 'B' }, bbox: [0, 0, 1, 1] },
+        { type: 'MultiPoint', coordinates: [[5, 5, 12.5], [6, 6, -1]] }
+      ]
+    },
+    line: { type: 'LineString', arcs: [2] }
+  }
+};
+
+// What version 1 keeps of it: x/y positions
+const flat = JSON.parse(JSON.stringify(topology));
+flat.objects.shapes.geometries[2].coordinates = [[5, 5], [6, 6]];
+
+const optionSets = [
+  {},
+  { checksums: true },
+  { arcEncoding: 'varint', presimplify: true, checksums: true },
+  { arcEncoding: 'varint', arcIndex: false },
+  { coordinateType: 'float64', spatialIndex: true }
+];
+
+/**
+ * Feeds a buffer to convertStream() in small chunks, returning the output,
+ * the report and how many times the source was opened
+ */
+async function convertChunks(buffer, targetVersion, options) {
+  let opens = 0;
+  const open = async function* () {
+    opens++;
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.byteLength; i += 7) {
+      yield bytes.slice(i, i + 7);
+    }
+  };
+  const chunks = [];
+  const report = await convertStream(open, targetVersion, chunk => { chunks.push(chunk); }, options);
+  return { buffer: join(chunks), report, opens };
+}
+
+/**
+ * Decodes a version 1 buffer as the version 1 library did: x/y arcs as Int32
+ * (quantized) or Float64 right after the arc offsets, then the objects JSON
+ */
+function decodeVersion1(buffer) {
+  const view = new DataView(buffer);
+  assert.strictEqual(view.getUint16(4, false), 1);
+  const flags = view.getUint16(6, false);
+  const numArcs = view.getUint32(8, false);
+  const totalArcPoints = view.getUint32(12, false);
+  const stringTableSize = view.getUint32(20, false);
+  let offset = 24;
+  const topology = { type: 'Topology' };
+  if (flags & 1) {
+    const values = [0, 8, 16, 24].map(i => view.getFloat64(offset + i, false));
+    topology.transform = { scale: values.slice(0, 2), translate: values.slice(2) };
+    offset += 32;
+  }
+  if (flags & 2) {
+    topology.bbox = [0, 8, 16, 24].map(i => view.getFloat64(offset + i, false));
+    offset += 32;
+  }
+  offset += Math.ceil(stringTableSize / 4) * 4;
+  const arcOffsets = new Uint32Array(buffer, offset, numArcs + 1);
+  offset += (numArcs + 1) * 4;
+  if (!(flags & 1) && offset % 8 !== 0) offset += 4;
+  const arcData = flags & 1
+    ? new Int32Array(buffer, offset, totalArcPoints * 2)
+    : new Float64Array(buffer, offset, totalArcPoints * 2);
+  offset += arcData.byteLength;
+  topology.arcs = Array.from({ length: numArcs }, (_, i) =>
+    Array.from({ length: arcOffsets[i + 1] - arcOffsets[i] }, (_, j) => {
+      const p = arcOffsets[i] + j;
+      return [arcData[p * 2], arcData[p * 2 + 1]];
+    })
+  );
+  const size = view.getUint32(offset, false);
+  topology.objects = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, offset + 4, size))).objects;
+  return topology;
+}
+
+function join(chunks) {
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+test('convert rewrites buffers in each version without changing the topology', () => {
+  for (const options of optionSets) {
+    const buffer = encode(topology, options);
+    assert.deepStrictEqual(new Uint8Array(convert(buffer, VERSION)), new Uint8Array(buffer));
+
+    // Converting back writes the buffer encode() would
+    const v2 = convert(buffer, 2);
+    assert.strictEqual(getVersion(v2), 2);
+    assert.deepStrictEqual(validate(v2, { verifyChecksums: true }), []);
+    assert.deepStrictEqual(decode(v2), topology);
+    assert.deepStrictEqual(new Uint8Array(convert(v2, VERSION)), new Uint8Array(buffer));
+
+    // Version 1 keeps x/y Int32 arcs and the objects, so converting back
+    // writes the buffer encode() would for what is left
+    const v1 = convert(buffer, 1, { allowLoss: true });
+    assert.strictEqual(getVersion(v1), 1);
+    assert.deepStrictEqual(validate(v1), []);
+    assert.deepStrictEqual(decode(v1), flat);
+    assert.deepStrictEqual(decodeVersion1(v1), flat);
+    const upgraded = convert(v1, VERSION);
+    assert.deepStrictEqual(decode(upgraded, { strict: true }), flat);
+    assert.deepStrictEqual(new Uint8Array(upgraded), new Uint8Array(encode(flat)));
+  }
+});
+
+test('convert upgrades hand-written version 1 buffers', () => {
+  const objects = { line: { type: 'LineString', arcs: [0], properties: { a: 1 } } };
+  const names = new TextEncoder().encode('line\0');
+  const json = new TextEncoder().encode(JSON.stringify({ names: ['line'], objects }));
+
+  // header + padded string table + 2 arc offsets + 2 points (Float64) + objects
+  const arcDataStart = 40;
+  const objectsStart = arcDataStart + 32;
+  const buffer = new ArrayBuffer(objectsStart + 4 + json.byteLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, 0x544F504F, false);
+  view.setUint16(4, 1, false);
+  view.setUint32(8, 1, false); // numArcs
+  view.setUint32(12, 2, false); // totalArcPoints
+  view.setUint32(16, 1, false); // numObjects
+  view.setUint32(20, names.byteLength, false);
+  new Uint8Array(buffer, 24, names.byteLength).set(names);
+  new Uint32Array(buffer, 32, 2).set([0, 2]);
+  new Float64Array(buffer, arcDataStart, 4).set([0.5, 1, 2, 3.25]);
+  view.setUint32(objectsStart, json.byteLength, false);
+  new Uint8Array(buffer, objectsStart + 4).set(json);
+
+  const { buffer: upgraded, report } = convertWithReport(buffer, VERSION);
+  assert.deepStrictEqual(report, { fromVersion: 1, toVersion: VERSION, lost: [] });
+  assert.deepStrictEqual(validate(upgraded), []);
+  assert.deepStrictEqual(decode(upgraded), decode(buffer));
+  assert.deepStrictEqual(
+    new Uint8Array(upgraded),
+    new Uint8Array(encode({ type: 'Topology', arcs: [[[0.5, 1], [2, 3.25]]], objects }))
+  );
+});
+
+test('convert refuses to drop sections unless allowed', () => {
+  const buffer = encode(topology, { spatialIndex: true });
+  assert.throws(() => convert(buffer, 1), /Converting to version 1 would lose: spatial index, values beyond x\/y\./);
+
+  const { buffer: downgraded, report } = convertWithReport(buffer, 1, { allowLoss: true });
+  assert.deepStrictEqual(report, { fromVersion: VERSION, toVersion: 1, lost: ['spatial index', 'values beyond x/y'] });
+  assert.deepStrictEqual(decode(downgraded), flat);
+  assert.deepStrictEqual(convertWithReport(buffer, 2).report.lost, []);
+});
+
+test('convert writes version 1 buffers that the version 1 library reads', async () => {
+  const quantized = { ...flat, arcs: [...flat.arcs, ...Array.from({ length: 10000 }, (_, i) => [[i, i % 100], [1, 300]])] };
+  const unquantized = {
+    type: 'Topology',
+    arcs: [[[0.5, 1.5, 100], [2.25, 3]], [[2.25, 3, 7], [4, 4.125]]],
+    objects: { path: { type: 'LineString', arcs: [0, 1] }, peak: { type: 'Point', coordinates: [1, 2, 300] } }
+  };
+  const planar = { type: 'Topology', arcs: [[[0.5, 1.5], [2.25, 3]]], objects: { path: { type: 'LineString', arcs: [0] } } };
+  const cases = [
+    [quantized, { coordinateType: 'int16' }, []],
+    [quantized, { arcEncoding: 'varint', presimplify: true, checksums: true }, ['simplification weights']],
+    [quantized, { arcEncoding: 'varint', arcIndex: false, coordinateType: 'auto' }, []],
+    [quantized, { coordinateType: 'float64', checksums: true }, []],
+    [planar, { coordinateType: 'float32' }, []],
+    [unquantized, {}, ['values beyond x/y']],
+    [unquantized, { coordinateType: 'float32' }, ['values beyond x/y']]
+  ];
+  for (const [source, options, lost] of cases) {
+    const buffer = encode(source, options);
+    if (lost.length) {
+      assert.throws(() => convert(buffer, 1), /Set the allowLoss option/);
+    }
+    const { buffer: v1, report } = convertWithReport(buffer, 1, { allowLoss: true });
+    assert.deepStrictEqual(report.lost, lost);
+    assert.deepStrictEqual(new Uint8Array((await convertChunks(buffer, 1, { allowLoss: true })).buffer), new Uint8Array(v1));
+
+    // Only the values beyond x/y are gone
+    const expected = decode(buffer);
+    expected.arcs = expected.arcs.map(arc => arc.map(p => p.slice(0, 2)));
+    if (expected.objects.peak) expected.objects.peak.coordinates = expected.objects.peak.coordinates.slice(0, 2);
+    assert.deepStrictEqual(decodeVersion1(v1), expected);
+    assert.deepStrictEqual(decode(v1), expected);
+    assert.deepStrictEqual(validate(v1), []);
+  }
+
+  // Streamed Float32 arc frames are joined as Float64
+  const arcs = Array.from({ length: 3000 }, (_, i) => [[i + 0.5, 0], [0.25, 1]]);
+  const chunks = [];
+  const writer = new TopobinWriter(chunk => { chunks.push(chunk); }, { coordinateType: 'float32' });
+  for (const arc of arcs) {
+    await writer.writeArc(arc);
+  }
+  writer.writeObject('lines', { type: 'MultiLineString', arcs: arcs.map((_, i) => [i]) });
+  await writer.close();
+  assert.deepStrictEqual(decodeVersion1(convert(join(chunks), 1)).arcs, arcs);
+});
+
+test('convert rejects unsupported target versions and truncated buffers', () => {
+  const buffer = encode(topology);
+  for (const version of [0, 4, 2.5]) {
+    assert.throws(() => convert(buffer, version), /Unsupported target version/);
+  }
+  assert.throws(
+    () => convert(buffer.slice(0, 120), 1),
+    error => error instanceof TopobinFormatError && error.code === 'section-overrun'
+  );
+  assert.throws(
+    () => convert(new ArrayBuffer(32), 2),
+    error => error instanceof TopobinFormatError && error.code === 'bad-magic'
+  );
+});
+
+test('convertStream converts in two passes over the source', async () => {
+  for (const options of optionSets) {
+    const buffer = encode(topology, options);
+    const v1 = convert(buffer, 1, { allowLoss: true });
+    const upgraded = await convertChunks(v1, VERSION);
+    assert.strictEqual(upgraded.opens, 2);
+    assert.deepStrictEqual(new Uint8Array(upgraded.buffer), new Uint8Array(convert(v1, VERSION)));
+
+    const downgraded = await convertChunks(buffer, 1, { allowLoss: true });
+    assert.deepStrictEqual(new Uint8Array(downgraded.buffer), new Uint8Array(v1));
+    assert.deepStrictEqual(downgraded.report.lost, [
+      ...options.spatialIndex ? ['spatial index'] : [],
+      ...options.presimplify ? ['simplification weights'] : [],
+      'values beyond x/y'
+    ]);
+  }
+
+  await assert.rejects(
+    convertChunks(encode(topology).slice(0, 120), 1),
+    error => error instanceof TopobinFormatError && error.code === 'section-overrun'
+  );
+});
+
+test('convertStream reads streamed buffers and writes to a WritableStream', async () => {
+  const chunks = [];
+  const writer = new TopobinWriter(chunk => { chunks.push(chunk); }, { transform: topology.transform });
+  for (const arc of topology.arcs) {
+    await writer.writeArc(arc);
+  }
+  // Streamed buffers hold x/y only, so leave out the points
+  writer.writeObject('shapes', { ...topology.objects.shapes, geometries: topology.objects.shapes.geometries.slice(0, 2) });
+  writer.writeObject('line', topology.objects.line);
+  await writer.close();
+  const streamed = join(chunks);
+
+  let opens = 0;
+  const open = () => {
+    opens++;
+    return new ReadableStream({
+      start(controller) {
+        controller.enqueue(new Uint8Array(streamed));
+        controller.close();
+      }
+    });
+  };
+  const output = [];
+  const report = await convertStream(open, VERSION, new WritableStream({ write(chunk) { output.push(chunk); } }));
+  assert.deepStrictEqual(report, { fromVersion: 2, toVersion: VERSION, lost: [] });
+  assert.strictEqual(opens, 3);
+
+  const converted = join(output);
+  assert.deepStrictEqual(new Uint8Array(converted), new Uint8Array(convert(streamed, VERSION)));
+  assert.deepStrictEqual(validate(converted), []);
+  assert.deepStrictEqual(decode(converted), decode(streamed));
+
+  // Arc data written in several frames is joined into one run
+  const many = Array.from({ length: 3000 }, (_, i) => [[i, 0], [0, 1], [1, 0]]);
+  const framed = [];
+  const large = new TopobinWriter(chunk => { framed.push(chunk); }, { coordinateType: 'int32' });
+  for (const arc of many) {
+    await large.writeArc(arc);
+  }
+  large.writeObject('lines', { type: 'MultiLineString', arcs: many.map((_, i) => [i]) });
+  await large.close();
+  const joined = convert(join(framed), VERSION);
+  assert.deepStrictEqual(validate(joined), []);
+  assert.deepStrictEqual(decode(joined).arcs, many);
+});
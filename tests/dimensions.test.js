@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature, mesh } from 'topojson-client';
+import { encode, decode, validate, getMemoryStats, BinaryTopologyView, toFeature, toMesh } from '../lib/index.js';
+
+// A quantized topology whose positions carry an elevation (and, on some
+// points, a measure), with two polygons sharing a border
+function createTopology() {
+  return {
+    type: 'Topology',
+    transform: { scale: [0.5, 0.25], translate: [100, -20] },
+    arcs: [
+      [[0, 0, 10.5], [0, 100, 11.25], [0, 100, 12]],
+      [[0, 200, 12], [100, 0, 13, 1], [0, -200, 14]],
+      [[100, 0, 14], [-100, 0, 10.5]],
+      [[0, 200, 12], [-100, 0, 9], [0, -200, 10.5]],
+      [[50, 50], [10, 10, -3.5]]
+    ],
+    objects: {
+      regions: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Polygon', id: 'east', arcs: [[~0, 2, ~1]] },
+          { type: 'Polygon', id: 'west', arcs: [[0, 3]] },
+          { type: 'LineString', arcs: [4] }
+        ]
+      },
+      peaks: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', id: 'high', coordinates: [20, 30, 4200.5] },
+          { type: 'MultiPoint', coordinates: [[1, 2], [3, 4, 5, 6]] }
+        ]
+      }
+    }
+  };
+}
+
+// The same topology with absolute, untransformed coordinates
+function unquantized(topology) {
+  const [kx, ky] = topology.transform.scale;
+  const [dx, dy] = topology.transform.translate;
+  const point = p => [p[0] * kx + dx, p[1] * ky + dy, ...p.slice(2)];
+  const objects = structuredClone(topology.objects);
+  for (const g of objects.peaks.geometries) {
+    g.coordinates = g.type === 'Point' ? point(g.coordinates) : g.coordinates.map(point);
+  }
+  return {
+    type: 'Topology',
+    arcs: topology.arcs.map(arc => {
+      let x = 0;
+      let y = 0;
+      return arc.map(p => point([x += p[0], y += p[1], ...p.slice(2)]));
+    }),
+    objects
+  };
+}
+
+test('extra dimensions round-trip through every arc encoding', () => {
+  const topology = createTopology();
+  for (const options of [{}, { arcEncoding: 'varint' }, { arcEncoding: 'varint', arcIndex: false }, { checksums: true, spatialIndex: true }]) {
+    const buffer = encode(topology, options);
+    assert.deepStrictEqual(decode(buffer), topology);
+    assert.deepStrictEqual(validate(buffer, { verifyChecksums: true }), []);
+  }
+  const plain = unquantized(topology);
+  assert.deepStrictEqual(decode(encode(plain)), plain);
+});
+
+test('the dimension count is the longest position', () => {
+  assert.strictEqual(new BinaryTopologyView(encode(createTopology())).getDimensions(), 4);
+
+  const flat = { type: 'Topology', arcs: [[[0, 0], [1, 1]]], objects: { line: { type: 'LineString', arcs: [0] } } };
+  assert.strictEqual(new BinaryTopologyView(encode(flat)).getDimensions(), 2);
+
+  const pointZ = structuredClone(flat);
+  pointZ.objects.peak = { type: 'Point', coordinates: [0, 0, 1] };
+  const view = new BinaryTopologyView(encode(pointZ));
+  assert.strictEqual(view.getDimensions(), 3);
+  assert.deepStrictEqual(view.getArc(0), [[0, 0], [1, 1]]);
+  assert.deepStrictEqual(decode(encode(pointZ)), pointZ);
+});
+
+test('view reads keep extra dimensions', () => {
+  const topology = createTopology();
+  for (const arcEncoding of ['fixed', 'varint']) {
+    const view = new BinaryTopologyView(encode(topology, { arcEncoding }));
+    topology.arcs.forEach((arc, i) => assert.deepStrictEqual(view.getArc(i), arc));
+    assert.deepStrictEqual(view.getGeometry('peaks', 1), topology.objects.peaks.geometries[1]);
+
+    // Quantized arcs store x/y deltas only
+    assert.deepStrictEqual(Array.from(view.getArcCoords(1)), [0, 200, 100, 0, 0, -200]);
+
+    // Absolute reads have four values per point, NaN where a position is shorter
+    assert.deepStrictEqual(Array.from(view.getArcAbsolute(1)), [100, 30, 12, NaN, 150, 30, 13, 1, 150, -20, 14, NaN]);
+    assert.throws(() => view.getArcAbsolute(1, new Float64Array(11)), /too small/);
+  }
+
+  const view = new BinaryTopologyView(encode(topology));
+  assert.deepStrictEqual(Array.from(view.getPointCoords('peaks', 1)), [1, 2, 3, 4]);
+  assert.deepStrictEqual(Array.from(view.getPointAbsolute('peaks', 1)), [100.5, -19.5, NaN, NaN, 101.5, -19, 5, 6]);
+});
+
+test('unquantized arcs store every dimension together', () => {
+  const plain = unquantized(createTopology());
+  const view = new BinaryTopologyView(encode(plain));
+  assert.deepStrictEqual(Array.from(view.getArcCoords(2)), [150, -20, 14, NaN, 100, -20, 10.5, NaN]);
+  assert.deepStrictEqual(Array.from(view.getArcAbsolute(2)), Array.from(view.getArcCoords(2)));
+  assert.deepStrictEqual(Array.from(view.getPointCoords('peaks', 0)), [110, -12.5, 4200.5, NaN]);
+});
+
+test('toFeature() and toMesh() match topojson-client', () => {
+  for (const topology of [createTopology(), unquantized(createTopology())]) {
+    for (const arcEncoding of topology.transform ? ['fixed', 'varint'] : ['fixed']) {
+      const view = new BinaryTopologyView(encode(topology, { arcEncoding }));
+      for (const name of ['regions', 'peaks']) {
+        const object = topology.objects[name];
+        assert.deepStrictEqual(toFeature(view, name), feature(topology, object));
+        assert.deepStrictEqual(toMesh(view, name), mesh(topology, object));
+        assert.deepStrictEqual(toMesh(view, name, (a, b) => a !== b), mesh(topology, object, (a, b) => a !== b));
+      }
+    }
+  }
+});
+
+test('minWeight reads keep extra dimensions of the kept points', () => {
+  const topology = createTopology();
+  const view = new BinaryTopologyView(encode(topology, { presimplify: true }));
+  assert.deepStrictEqual(view.getArc(0, { minWeight: Infinity }), [[0, 0, 10.5], [0, 200, 12]]);
+  assert.deepStrictEqual(Array.from(view.getArcAbsolute(0, undefined, { minWeight: Infinity })), [100, -20, 10.5, NaN, 100, 30, 12, NaN]);
+
+  const west = toFeature(view, 'regions', { minWeight: Infinity }).features[1];
+  assert.deepStrictEqual(west.geometry.coordinates[0][1], [100, 30, 12]);
+});
+
+test('the quantization option keeps extra values exact', () => {
+  const plain = unquantized(createTopology());
+  const buffer = encode(plain, { quantization: 1e4 });
+  const decoded = decode(buffer);
+  assert.ok(decoded.transform);
+  assert.deepStrictEqual(decoded.arcs.map(arc => arc.map(p => p.slice(2))), plain.arcs.map(arc => arc.map(p => p.slice(2))));
+  assert.deepStrictEqual(decoded.objects.peaks.geometries[0].coordinates.slice(2), [4200.5]);
+});
+
+test('extra values are stored once per point', () => {
+  const topology = createTopology();
+  const flat = structuredClone(topology);
+  flat.arcs = flat.arcs.map(arc => arc.map(p => p.slice(0, 2)));
+  flat.objects.peaks.geometries = [];
+
+  const withoutPoints = structuredClone(topology);
+  withoutPoints.objects.peaks.geometries = [];
+  const stats = getMemoryStats(encode(withoutPoints));
+  const flatStats = getMemoryStats(encode(flat));
+  assert.strictEqual(stats.arcBytes - flatStats.arcBytes, 13 * 2 * 8);
+});
+
+test('positions with more than five values cannot be encoded', () => {
+  const topology = createTopology();
+  topology.arcs[4][1].push(1, 2, 3);
+  assert.throws(() => encode(topology), /at most 5/);
+});
@@ -0,0 +1,209 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  encode,
+  decode,
+  validate,
+  inspect,
+  getCompatibility,
+  isCompatibleVersion,
+  convert,
+  convertWithReport,
+  BinaryTopologyView,
+  TopobinReader,
+  TopobinFormatError,
+  VERSION
+} from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.01, 0.01], translate: [-10, 40] },
+  bbox: [-10, 40, -9, 41],
+  arcs: [
+    [[0, 0], [10, 5], [-3, 20]],
+    [[7, 25], [-7, -25]],
+    [[0, 0], [0, 100]]
+  ],
+  objects: {
+    shapes: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]], id: 'a', properties: { name: 'A', pop: 1.5 } },
+        { type: 'LineString', arcs: [~2], id: 7, properties: { name: 'B' } },
+        { type: 'Point', coordinates: [5, 5] }
+      ]
+    },
+    line: { type: 'LineString', arcs: [2] }
+  }
+};
+
+/**
+ * Reads the section directory of a buffer: its offset and entries
+ */
+function readDirectory(buffer) {
+  const offset = inspect(buffer).sections.find(section => section.name === 'section directory').offset;
+  const view = new DataView(buffer);
+  const entries = [];
+  for (let i = 0; i < view.getUint32(offset, false); i++) {
+    const at = offset + 4 + i * 12;
+    entries.push({
+      type: view.getUint16(at, false),
+      flags: view.getUint16(at + 2, false),
+      offset: view.getUint32(at + 4, false),
+      length: view.getUint32(at + 8, false)
+    });
+  }
+  return { offset, entries };
+}
+
+/**
+ * Adds a section of a type this library does not know, as a newer writer
+ * might, between the section directory and the string table. Every later
+ * section moves by a multiple of 8 bytes, so they all stay aligned.
+ */
+function withSection(buffer, type, flags, payload) {
+  const { offset, entries } = readDirectory(buffer);
+  const stringsStart = offset + 4 + entries.length * 12;
+  const sectionStart = stringsStart + 12;
+  const shift = Math.ceil((12 + payload.byteLength) / 8) * 8;
+
+  const result = new Uint8Array(buffer.byteLength + shift);
+  result.set(new Uint8Array(buffer, 0, offset));
+  result.set(new Uint8Array(buffer, stringsStart), stringsStart + shift);
+  result.set(payload, sectionStart);
+  const view = new DataView(result.buffer);
+  view.setUint32(offset, entries.length + 1, false);
+  [{ type, flags, offset: sectionStart, length: payload.byteLength }, ...entries].forEach((entry, i) => {
+    const at = offset + 4 + i * 12;
+    view.setUint16(at, entry.type, false);
+    view.setUint16(at + 2, entry.flags, false);
+    view.setUint32(at + 4, i === 0 ? entry.offset : entry.offset + shift, false);
+    view.setUint32(at + 8, entry.length, false);
+  });
+  return result.buffer;
+}
+
+test('encode lists every section in the directory, in file order', () => {
+  const buffer = encode(topology, { presimplify: true, spatialIndex: true, checksums: true });
+  assert.strictEqual(new DataView(buffer).getUint16(4, false), VERSION);
+  const { entries } = readDirectory(buffer);
+
+  // Strings, arcs, weights, points, objects, properties, spatial index, checksums
+  assert.deepStrictEqual(entries.map(entry => entry.type), [2, 3, 7, 8, 4, 5, 6, 9]);
+  assert.deepStrictEqual(entries.map(entry => entry.flags), [1, 1, 0, 1, 1, 1, 0, 0]);
+  const sections = inspect(buffer).sections;
+  const start = name => sections.find(section => section.name === name).offset;
+  assert.deepStrictEqual(
+    entries.map(entry => entry.offset),
+    ['string table', 'arc offsets', 'simplification weights', 'points', 'objects', 'properties', 'spatial index', 'checksums'].map(start)
+  );
+  const [, , , , , , , checksums] = entries;
+  assert.strictEqual(checksums.offset + checksums.length, buffer.byteLength);
+
+  assert.deepStrictEqual(getCompatibility(buffer), { version: VERSION, compatible: true, missing: [], skipped: [] });
+});
+
+test('readers skip unknown optional sections', () => {
+  for (const options of [{}, { arcEncoding: 'varint', spatialIndex: true }, { coordinateType: 'float64', presimplify: true }]) {
+    const buffer = encode(topology, options);
+    const extended = withSection(buffer, 200, 0, new TextEncoder().encode('from a newer writer'));
+
+    assert.deepStrictEqual(decode(extended), decode(buffer));
+    assert.deepStrictEqual(validate(extended), []);
+    assert.deepStrictEqual(decode(extended, { strict: true }), decode(buffer));
+
+    const view = new BinaryTopologyView(extended);
+    assert.deepStrictEqual(view.getObject('shapes'), decode(buffer).objects.shapes);
+    assert.strictEqual(view.getProperty('shapes', 0, 'name'), 'A');
+
+    const objects = {};
+    const reader = new TopobinReader({ object: (object, name) => { objects[name] = object; } });
+    for (let i = 0; i < extended.byteLength; i += 5) {
+      reader.push(new Uint8Array(extended.slice(i, i + 5)));
+    }
+    reader.end();
+    assert.deepStrictEqual(objects, decode(buffer).objects);
+
+    const unknown = inspect(extended).sections.find(section => section.name === 'unknown section 200');
+    assert.strictEqual(unknown.length, 19);
+    assert.deepStrictEqual(getCompatibility(extended), {
+      version: VERSION,
+      compatible: true,
+      missing: [],
+      skipped: ['section 200']
+    });
+  }
+});
+
+test('unknown required sections are rejected', () => {
+  const extended = withSection(encode(topology), 201, 1, new Uint8Array(8));
+  assert.throws(
+    () => decode(extended),
+    error => error instanceof TopobinFormatError && error.code === 'unsupported-section'
+  );
+  assert.throws(() => new BinaryTopologyView(extended), /Unsupported required section type 201/);
+  assert.deepStrictEqual(validate(extended).map(issue => issue.code), ['unsupported-section']);
+  assert.strictEqual(isCompatibleVersion(extended), false);
+  assert.deepStrictEqual(getCompatibility(extended), {
+    version: VERSION,
+    compatible: false,
+    missing: ['section 201'],
+    skipped: []
+  });
+});
+
+test('getCompatibility reports newer versions and unknown flags', () => {
+  const newer = encode(topology);
+  new DataView(newer).setUint16(4, 99, false);
+  assert.deepStrictEqual(getCompatibility(newer), { version: 99, compatible: false, missing: ['version 99'], skipped: [] });
+
+  const flagged = encode(topology);
+  const view = new DataView(flagged);
+  view.setUint16(6, view.getUint16(6, false) | 0x8000, false);
+  assert.deepStrictEqual(getCompatibility(flagged).missing, ['flag bit 15']);
+  assert.strictEqual(isCompatibleVersion(flagged), false);
+
+  assert.deepStrictEqual(getCompatibility(new ArrayBuffer(8)), { version: null, compatible: false, missing: [], skipped: [] });
+});
+
+test('convert keeps unknown sections in version 3 only', () => {
+  const extended = withSection(encode(topology), 200, 0, new TextEncoder().encode('kept'));
+  assert.deepStrictEqual(new Uint8Array(convert(extended, VERSION)), new Uint8Array(extended));
+
+  assert.throws(() => convert(extended, 2), /would lose: section 200/);
+  const { buffer, report } = convertWithReport(extended, 2, { allowLoss: true });
+  assert.deepStrictEqual(report.lost, ['section 200']);
+  assert.deepStrictEqual(validate(buffer), []);
+  assert.deepStrictEqual(decode(buffer), decode(extended));
+});
+
+test('validate reports directories that disagree with the sections', () => {
+  const codes = buffer => validate(buffer).map(issue => issue.code);
+  const entryAt = (buffer, type) => {
+    const { offset, entries } = readDirectory(buffer);
+    return offset + 4 + entries.findIndex(entry => entry.type === type) * 12;
+  };
+
+  // Properties listed but not declared by the header flags
+  const undeclared = encode(topology);
+  const view = new DataView(undeclared);
+  view.setUint16(6, view.getUint16(6, false) & ~(1 << 2), false);
+  assert.deepStrictEqual(codes(undeclared), ['invalid-section']);
+  assert.throws(() => decode(undeclared), /header flags do not declare it/);
+
+  // A string table length that does not match the header
+  const length = encode(topology);
+  new DataView(length).setUint32(entryAt(length, 2) + 8, 3, false);
+  assert.deepStrictEqual(codes(length), ['invalid-section']);
+
+  // Objects moved onto the points section
+  const overlap = encode(topology);
+  const points = readDirectory(overlap).entries.find(entry => entry.type === 8);
+  new DataView(overlap).setUint32(entryAt(overlap, 4) + 4, points.offset, false);
+  assert.deepStrictEqual(codes(overlap), ['invalid-section']);
+
+  // A section past the end of the buffer
+  const overrun = encode(topology);
+  new DataView(overrun).setUint32(entryAt(overrun, 5) + 8, overrun.byteLength, false);
+  assert.deepStrictEqual(codes(overrun), ['section-overrun']);
+});
@@ -1,6 +1,6 @@
 import { test } from 'node:test';
 import assert from 'node:assert';
-import { encode, decode, BinaryTopologyView, getMemoryStats } from '../lib/index.js';
+import { encode, decode, validate, toFeature, BinaryTopologyView, getMemoryStats } from '../lib/index.js';
 
 test('encode and decode simple topology', () => {
   const topology = {
@@ -249,3 +249,202 @@ test('encode handles quantized coordinates with transform', () => {
   assert.ok(decoded.transform);
   assert.deepStrictEqual(decoded.arcs[0], topology.arcs[0]);
 });
+
+test('round-trip preserves every geometry type, ids and properties', () => {
+  const topology = {
+    type: 'Topology',
+    arcs: [
+      [[0, 0], [1, 0]],
+      [[1, 0], [1, 1], [0, 0]],
+      [[5, 5], [6, 6]]
+    ],
+    objects: {
+      shapes: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', coordinates: [1, 2], id: 'p' },
+          { type: 'MultiPoint', coordinates: [[1, 2], [3, 4]] },
+          { type: 'LineString', arcs: [0, 1], id: 7 },
+          { type: 'MultiLineString', arcs: [[0], [~1]] },
+          { type: 'Polygon', arcs: [[0, 1]], id: '06075', properties: { name: 'San Francisco' } },
+          { type: 'MultiPolygon', arcs: [[[0, 1]], [[2], [~2]]], id: 1.5 },
+          {
+            type: 'GeometryCollection',
+            geometries: [{ type: 'LineString', arcs: [2], properties: { nested: true } }]
+          }
+        ]
+      },
+      line: { type: 'LineString', arcs: [~0] }
+    }
+  };
+
+  const decoded = decode(encode(topology));
+  assert.deepStrictEqual(decoded.objects, topology.objects);
+  assert.deepStrictEqual(Object.keys(decoded.objects), ['shapes', 'line']);
+});
+
+test('round-trip keeps null geometries with their ids and properties', () => {
+  // As topojson-server writes features without a geometry
+  const topology = {
+    type: 'Topology',
+    arcs: [[[0, 0], [1, 1]]],
+    objects: {
+      features: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: null, properties: { a: 1 } },
+          { type: 'LineString', arcs: [0], id: 'line' },
+          { type: null, id: 'empty' }
+        ]
+      },
+      nothing: { type: null }
+    }
+  };
+
+  const buffer = encode(topology);
+  assert.deepStrictEqual(validate(buffer), []);
+  assert.deepStrictEqual(decode(buffer).objects, topology.objects);
+
+  const view = new BinaryTopologyView(buffer);
+  assert.deepStrictEqual(view.getObject('features'), topology.objects.features);
+  assert.strictEqual(view.getGeometryType('features', 2), null);
+  assert.deepStrictEqual(toFeature(view, 'features').features.map(feature => [feature.id, feature.geometry]), [
+    [undefined, null],
+    ['line', { type: 'LineString', coordinates: [[0, 0], [1, 1]] }],
+    ['empty', null]
+  ]);
+  assert.deepStrictEqual(toFeature(view, 'features').features[0].properties, { a: 1 });
+  assert.deepStrictEqual(toFeature(view, 'nothing'), { type: 'Feature', properties: {}, geometry: null });
+});
+
+test('round-trip uses 32-bit arc references when indices exceed Int16', () => {
+  const arcs = [];
+  for (let i = 0; i < 40000; i++) {
+    arcs.push([[i, 0], [i, 1]]);
+  }
+  const topology = {
+    type: 'Topology',
+    arcs,
+    objects: {
+      line: { type: 'LineString', arcs: [0, 39999, ~39999] }
+    }
+  };
+
+  const decoded = decode(encode(topology));
+  assert.deepStrictEqual(decoded.objects.line.arcs, [0, 39999, ~39999]);
+});
+
+test('binary objects section is smaller than the JSON encoding', () => {
+  const geometries = [];
+  for (let i = 0; i < 200; i++) {
+    geometries.push({ type: 'Polygon', arcs: [[i, ~(i + 1), i + 2]], id: String(10000 + i) });
+  }
+  const topology = {
+    type: 'Topology',
+    arcs: [],
+    objects: { counties: { type: 'GeometryCollection', geometries } }
+  };
+
+  const stats = getMemoryStats(encode(topology));
+  const jsonBytes = JSON.stringify({ names: ['counties'], objects: topology.objects }).length;
+  assert.ok(stats.objectBytes < jsonBytes / 2);
+});
+
+test('decode still reads version 1 buffers', () => {
+  const objects = { line: { type: 'LineString', arcs: [0], properties: { a: 1 } } };
+  const names = new TextEncoder().encode('line\0');
+  const json = new TextEncoder().encode(JSON.stringify({ names: ['line'], objects }));
+
+  // header + padded string table + 2 arc offsets + 2 points (Float64) + objects
+  const stringTablePadded = Math.ceil(names.byteLength / 4) * 4;
+  let arcDataStart = 24 + stringTablePadded + 8;
+  if (arcDataStart % 8 !== 0) arcDataStart += 4;
+  const objectsStart = arcDataStart + 32;
+  const buffer = new ArrayBuffer(objectsStart + 4 + json.byteLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, 0x544F504F, false);
+  view.setUint16(4, 1, false);
+  view.setUint16(6, 0, false);
+  view.setUint32(8, 1, false); // numArcs
+  view.setUint32(12, 2, false); // totalArcPoints
+  view.setUint32(16, 1, false); // numObjects
+  view.setUint32(20, names.byteLength, false);
+  new Uint8Array(buffer, 24, names.byteLength).set(names);
+  new Uint32Array(buffer, 24 + stringTablePadded, 2).set([0, 2]);
+  new Float64Array(buffer, arcDataStart, 4).set([0.5, 1, 2, 3.25]);
+  view.setUint32(objectsStart, json.byteLength, false);
+  new Uint8Array(buffer, objectsStart + 4).set(json);
+
+  const decoded = decode(buffer);
+  assert.deepStrictEqual(decoded.arcs, [[[0.5, 1], [2, 3.25]]]);
+  assert.deepStrictEqual(decoded.objects, objects);
+});
+
+test('decode rejects buffers with unknown flags', () => {
+  const topology = {
+    type: 'Topology',
+    arcs: [[[0, 0], [1, 1]]],
+    objects: { line: { type: 'LineString', arcs: [0] } }
+  };
+
+  const buffer = encode(topology);
+  new DataView(buffer).setUint16(6, 0x8000, false);
+
+  assert.throws(() => decode(buffer), /Unsupported binary format flags/);
+  assert.throws(() => new BinaryTopologyView(buffer), /Unsupported binary format flags/);
+});
+
+test('BinaryTopologyView getArcCoords returns a view into the buffer', () => {
+  const topology = {
+    type: 'Topology',
+    transform: { scale: [0.5, 2], translate: [10, -10] },
+    arcs: [
+      [[0, 0], [1, 1]],
+      [[4, 4], [1, 0], [0, -2]]
+    ],
+    objects: { line: { type: 'LineString', arcs: [0, 1] } }
+  };
+
+  const buffer = encode(topology);
+  const view = new BinaryTopologyView(buffer);
+
+  const coords = view.getArcCoords(1);
+  assert.ok(coords instanceof Int32Array);
+  assert.strictEqual(coords.buffer, buffer);
+  assert.deepStrictEqual(Array.from(coords), [4, 4, 1, 0, 0, -2]);
+  assert.strictEqual(view.getArcPointCount(1), 3);
+  assert.throws(() => view.getArcCoords(2), /out of bounds/);
+});
+
+test('BinaryTopologyView getArcAbsolute undoes delta encoding and applies the transform', () => {
+  const topology = {
+    type: 'Topology',
+    transform: { scale: [0.5, 2], translate: [10, -10] },
+    arcs: [[[4, 4], [1, 0], [0, -2]]],
+    objects: { line: { type: 'LineString', arcs: [0] } }
+  };
+
+  const view = new BinaryTopologyView(encode(topology));
+  const expected = [12, -2, 12.5, -2, 12.5, -6];
+
+  assert.deepStrictEqual(Array.from(view.getArcAbsolute(0)), expected);
+
+  const out = new Float64Array(16);
+  const result = view.getArcAbsolute(0, out);
+  assert.strictEqual(result, out);
+  assert.deepStrictEqual(Array.from(out.subarray(0, 6)), expected);
+
+  assert.throws(() => view.getArcAbsolute(0, new Float64Array(4)), /too small/);
+});
+
+test('BinaryTopologyView getArcAbsolute copies unquantized coordinates', () => {
+  const topology = {
+    type: 'Topology',
+    arcs: [[[0.5, 1.5], [2.25, 3]]],
+    objects: { line: { type: 'LineString', arcs: [0] } }
+  };
+
+  const view = new BinaryTopologyView(encode(topology));
+  assert.ok(view.getArcCoords(0) instanceof Float64Array);
+  assert.deepStrictEqual(Array.from(view.getArcAbsolute(0)), [0.5, 1.5, 2.25, 3]);
+});
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { quantize } from 'topojson-client';
+import {
+  encode,
+  encodeWithReport,
+  decode,
+  BinaryTopologyView,
+  inspect
+} from '../lib/index.js';
+
+const unquantized = {
+  type: 'Topology',
+  arcs: [
+    [[-122.5, 37.7], [-122.4, 37.8], [-122.4, 37.8], [-122.3, 37.75]],
+    [[-122.3, 37.75], [-122.5, 37.7]],
+    [[-122.45, 37.72], [-122.45, 37.72]]
+  ],
+  objects: {
+    area: { type: 'Polygon', arcs: [[0, 1]], id: 'sf', properties: { name: 'SF' } },
+    city: { type: 'Point', coordinates: [-122.42, 37.77] },
+    stops: { type: 'MultiPoint', coordinates: [[-122.41, 37.71], [-122.5, 37.8]] }
+  }
+};
+
+test('quantization option matches topojson-client quantize()', () => {
+  const decoded = decode(encode(unquantized, { quantization: 1e4 }));
+  assert.deepStrictEqual(decoded, quantize(unquantized, 1e4));
+});
+
+test('quantization reports the rounding error', () => {
+  const { report } = encodeWithReport(unquantized, { quantization: 10 });
+
+  assert.strictEqual(report.quantized, true);
+  assert.strictEqual(report.coordinateType, 'int32');
+  assert.deepStrictEqual(report.transform, quantize(unquantized, 10).transform);
+  assert.strictEqual(report.lossless, false);
+  assert.ok(report.maxError[0] > 0 && report.maxError[0] <= report.transform.scale[0] / 2);
+  assert.ok(report.maxError[1] > 0 && report.maxError[1] <= report.transform.scale[1] / 2);
+});
+
+test('quantization rejects already quantized topologies', () => {
+  const quantized = quantize(unquantized, 100);
+  assert.throws(() => encode(quantized, { quantization: 100 }), /already quantized/);
+  assert.throws(() => encode(unquantized, { quantization: 1 }), /at least 2/);
+});
+
+test('default encoding is lossless', () => {
+  const { report } = encodeWithReport(unquantized);
+  assert.strictEqual(report.coordinateType, 'float64');
+  assert.strictEqual(report.quantized, false);
+  assert.strictEqual(report.lossless, true);
+  assert.deepStrictEqual(report.maxError, [0, 0]);
+});
+
+test('auto coordinate type picks Int16 for small deltas and halves the arc data', () => {
+  const quantized = quantize(unquantized, 1e4);
+  const int32 = encodeWithReport(quantized);
+  const auto = encodeWithReport(quantized, { coordinateType: 'auto' });
+
+  assert.strictEqual(int32.report.coordinateType, 'int32');
+  assert.strictEqual(auto.report.coordinateType, 'int16');
+  assert.strictEqual(auto.report.lossless, true);
+
+  const arcDataBytes = buffer => inspect(buffer).sections.find(s => s.name === 'arc data').length;
+  assert.strictEqual(arcDataBytes(auto.buffer) * 2, arcDataBytes(int32.buffer));
+  assert.deepStrictEqual(decode(auto.buffer), decode(int32.buffer));
+});
+
+test('auto coordinate type falls back to wider types', () => {
+  const wide = {
+    type: 'Topology',
+    transform: { scale: [1, 1], translate: [0, 0] },
+    arcs: [[[0, 0], [100000, -100000]]],
+    objects: {}
+  };
+  assert.strictEqual(encodeWithReport(wide, { coordinateType: 'auto' }).report.coordinateType, 'int32');
+
+  const halves = { type: 'Topology', arcs: [[[0.5, 1.25], [2.75, 3]]], objects: {} };
+  assert.strictEqual(encodeWithReport(halves, { coordinateType: 'auto' }).report.coordinateType, 'float32');
+
+  assert.strictEqual(encodeWithReport(unquantized, { coordinateType: 'auto' }).report.coordinateType, 'float64');
+});
+
+test('float32 coordinates report their precision loss', () => {
+  const { buffer, report } = encodeWithReport(unquantized, { coordinateType: 'float32' });
+
+  assert.strictEqual(report.coordinateType, 'float32');
+  assert.strictEqual(report.lossless, false);
+  assert.ok(report.maxError[0] > 0 && report.maxError[0] < 1e-5);
+
+  const decoded = decode(buffer);
+  assert.strictEqual(decoded.arcs[0][1][0], Math.fround(-122.4));
+  assert.strictEqual(decoded.arcs[0][1][1], Math.fround(37.8));
+});
+
+test('explicit integer coordinate types reject values that do not fit', () => {
+  const wide = {
+    type: 'Topology',
+    transform: { scale: [1, 1], translate: [0, 0] },
+    arcs: [[[0, 0], [40000, 0]]],
+    objects: {}
+  };
+  assert.throws(() => encode(wide, { coordinateType: 'int16' }), /does not fit in int16/);
+  assert.throws(() => encode(wide, { coordinateType: 'int8' }), /Unsupported coordinate type/);
+});
+
+test('BinaryTopologyView reads narrow coordinate types', () => {
+  const quantized = quantize(unquantized, 1e4);
+  const view = new BinaryTopologyView(encode(quantized, { coordinateType: 'int16' }));
+  const reference = new BinaryTopologyView(encode(quantized));
+
+  assert.ok(view.getArcCoords(0) instanceof Int16Array);
+  for (let i = 0; i < view.getArcCount(); i++) {
+    assert.deepStrictEqual(view.getArcAbsolute(i), reference.getArcAbsolute(i));
+    assert.deepStrictEqual(view.getArc(i), reference.getArc(i));
+  }
+});
+
+test('decode rejects unknown coordinate type codes', () => {
+  const buffer = encode(unquantized);
+  const view = new DataView(buffer);
+  view.setUint16(6, view.getUint16(6, false) | (7 << 3), false);
+  assert.throws(() => decode(buffer), /Unsupported coordinate type code 7/);
+});
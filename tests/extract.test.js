@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature } from 'topojson-client';
+import { encode, decode, extract, inspect, BinaryTopologyView } from '../lib/index.js';
+
+// Two squares sharing an edge (arc 1), a line, and a point
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.25], translate: [10, 20] },
+  bbox: [10, 20, 16, 21],
+  arcs: [
+    [[0, 0], [0, 4]],
+    [[0, 4], [4, 0], [0, -4]],
+    [[4, 0], [-4, 0]],
+    [[4, 4], [4, 0], [0, -4], [-4, 0]],
+    [[8, 0], [4, 4]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', id: 'west', arcs: [[0, 1, 2]], properties: { name: 'West' } },
+        { type: 'Polygon', id: 'east', arcs: [[~1, 3]], properties: { name: 'East' } }
+      ]
+    },
+    road: { type: 'LineString', arcs: [4] },
+    town: { type: 'Point', coordinates: [2, 2], properties: { name: 'Town' } }
+  }
+};
+
+test('extract keeps only the selected objects and the arcs they use', () => {
+  const buffer = encode(topology);
+  const extracted = decode(extract(buffer, { objects: ['road', 'town'] }));
+
+  assert.deepStrictEqual(Object.keys(extracted.objects), ['road', 'town']);
+  assert.deepStrictEqual(extracted.arcs, [topology.arcs[4]]);
+  assert.deepStrictEqual(extracted.objects.road, { type: 'LineString', arcs: [0] });
+  assert.deepStrictEqual(extracted.objects.town, topology.objects.town);
+  assert.deepStrictEqual(extracted.transform, topology.transform);
+  assert.deepStrictEqual(extracted.bbox, topology.bbox);
+});
+
+test('extract renumbers reversed arc references', () => {
+  const buffer = encode(topology);
+  const extracted = decode(extract(buffer, { objects: ['squares'], filter: g => g.id === 'east' }));
+
+  assert.deepStrictEqual(extracted.arcs, [topology.arcs[1], topology.arcs[3]]);
+  assert.deepStrictEqual(extracted.objects.squares.geometries, [
+    { type: 'Polygon', id: 'east', arcs: [[~0, 1]], properties: { name: 'East' } }
+  ]);
+  assert.deepStrictEqual(
+    feature(extracted, extracted.objects.squares).features,
+    feature(topology, topology.objects.squares).features.filter(f => f.id === 'east')
+  );
+});
+
+test('extract filters top-level objects that are not collections', () => {
+  const buffer = encode(topology);
+  const seen = [];
+  const extracted = decode(extract(buffer, {
+    objects: ['road', 'squares', 'town'],
+    filter: (geometry, name) => {
+      seen.push(name);
+      return geometry.type !== 'LineString';
+    }
+  }));
+
+  assert.deepStrictEqual(seen, ['road', 'squares', 'squares', 'town']);
+  assert.deepStrictEqual(Object.keys(extracted.objects), ['squares', 'town']);
+  assert.strictEqual(extracted.arcs.length, 4);
+});
+
+test('extract recomputes the bbox on request', () => {
+  const buffer = encode(topology);
+  assert.deepStrictEqual(decode(extract(buffer, { objects: ['road'], bbox: true })).bbox, [14, 20, 16, 21]);
+  assert.deepStrictEqual(decode(extract(buffer, { objects: ['town'], bbox: true })).bbox, [11, 20.5, 11, 20.5]);
+
+  const unquantized = {
+    type: 'Topology',
+    arcs: [[[0.5, 1], [2, 3]], [[-4, 8], [5, 9]]],
+    objects: { a: { type: 'LineString', arcs: [0] }, b: { type: 'LineString', arcs: [~1] } }
+  };
+  const extracted = decode(extract(encode(unquantized), { objects: ['b'], bbox: true }));
+  assert.deepStrictEqual(extracted.bbox, [-4, 8, 5, 9]);
+  assert.deepStrictEqual(extracted.arcs, [unquantized.arcs[1]]);
+  assert.strictEqual(decode(extract(encode(unquantized), { objects: ['b'] })).bbox, undefined);
+});
+
+test('extract keeps the source encoding', () => {
+  const variants = [
+    { coordinateType: 'auto' },
+    { arcEncoding: 'varint', checksums: true },
+    { arcEncoding: 'varint', arcIndex: false },
+    { presimplify: true, spatialIndex: true }
+  ];
+  for (const options of variants) {
+    const buffer = encode(topology, options);
+    const extracted = extract(buffer, { objects: ['squares'] });
+    const source = inspect(buffer);
+    const output = inspect(extracted);
+    assert.strictEqual(output.coordinateType, source.coordinateType, JSON.stringify(options));
+    assert.deepStrictEqual(output.features, source.features.filter(f => f !== 'points'), JSON.stringify(options));
+    assert.deepStrictEqual(decode(extracted, { strict: true, verifyChecksums: true }).objects.squares, topology.objects.squares);
+  }
+
+  // Weights are those of the source arcs
+  const presimplified = encode(topology, { presimplify: true });
+  const view = new BinaryTopologyView(extract(presimplified, { objects: ['road'] }));
+  assert.deepStrictEqual(view.getArcWeights(0), new BinaryTopologyView(presimplified).getArcWeights(4));
+});
+
+test('extract keeps extra dimensions', () => {
+  const threeD = {
+    type: 'Topology',
+    arcs: [[[0, 0, 5], [1, 1, 6]], [[2, 2, 7], [3, 3, 8, 1]]],
+    objects: { a: { type: 'LineString', arcs: [0] }, b: { type: 'LineString', arcs: [1] } }
+  };
+  const extracted = decode(extract(encode(threeD), { objects: ['b'] }));
+  assert.deepStrictEqual(extracted.arcs, [threeD.arcs[1]]);
+});
+
+test('extract reads views of part of a buffer', () => {
+  const buffer = encode(topology);
+  const expected = extract(buffer, { objects: ['squares', 'road'] });
+  for (const byteOffset of [8, 3]) {
+    const bytes = new Uint8Array(byteOffset + buffer.byteLength + 5);
+    bytes.set(new Uint8Array(buffer), byteOffset);
+    const view = bytes.subarray(byteOffset, byteOffset + buffer.byteLength);
+    assert.deepStrictEqual(new Uint8Array(extract(view, { objects: ['squares', 'road'] })), new Uint8Array(expected));
+  }
+  assert.deepStrictEqual(
+    new Uint8Array(extract(Buffer.from(buffer), { objects: ['town'] })),
+    new Uint8Array(extract(buffer, { objects: ['town'] }))
+  );
+});
+
+test('extract rejects unknown objects', () => {
+  assert.throws(() => extract(encode(topology), { objects: ['rivers'] }), /Unknown object: rivers/);
+});
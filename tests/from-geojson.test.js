@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { topology } from 'topojson-server';
+import { feature } from 'topojson-client';
+import { fromGeoJSON, decode, validate, inspect } from '../lib/index.js';
+
+const square = (x, y, size = 1) => [[x, y], [x, y + size], [x + size, y + size], [x + size, y], [x, y]];
+
+// Two squares sharing the edge x = 1, an island, a river crossing the border and a town
+const regions = {
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', id: 'west', properties: { name: 'West' }, geometry: { type: 'Polygon', coordinates: [square(0, 0)] } },
+    { type: 'Feature', id: 'east', properties: {}, geometry: { type: 'Polygon', coordinates: [square(1, 0)] } },
+    { type: 'Feature', properties: null, geometry: { type: 'MultiPolygon', coordinates: [[square(3, 3, 0.5)]] } }
+  ]
+};
+const river = { type: 'LineString', coordinates: [[0.5, -1], [0.5, 0], [1, 0.5], [1.5, 1], [1.5, 2]] };
+const town = { type: 'Feature', properties: { name: 'Town' }, geometry: { type: 'Point', coordinates: [0.25, 0.75] } };
+
+test('fromGeoJSON matches topojson-server without quantization', () => {
+  const objects = { regions, river, town };
+  const expected = topology(objects);
+  const actual = decode(fromGeoJSON(objects));
+
+  assert.deepStrictEqual(actual.arcs, expected.arcs);
+  assert.deepStrictEqual(actual.objects, expected.objects);
+  assert.deepStrictEqual(actual.bbox, expected.bbox);
+  assert.strictEqual(actual.transform, undefined);
+});
+
+test('fromGeoJSON shares arcs between neighbouring polygons', () => {
+  const actual = decode(fromGeoJSON({ regions }));
+  const [west, east, island] = actual.objects.regions.geometries;
+
+  // The shared edge is one arc, used forwards by one square and reversed by the other
+  const shared = west.arcs[0].filter(i => east.arcs[0].includes(~i));
+  assert.strictEqual(shared.length, 1);
+  assert.deepStrictEqual(actual.arcs[shared[0]], [[1, 1], [1, 0]]);
+
+  // The island has no junctions and stays a single closed arc
+  assert.strictEqual(island.arcs[0][0].length, 1);
+  assert.deepStrictEqual(
+    feature(actual, actual.objects.regions).features.map(f => [f.id, f.properties]),
+    [['west', { name: 'West' }], ['east', {}], [undefined, {}]]
+  );
+});
+
+test('fromGeoJSON deduplicates repeated, reversed and rotated rings', () => {
+  const ring = square(0, 0);
+  const rotated = [...ring.slice(2, 4), ...ring.slice(0, 3)];
+  const objects = {
+    a: { type: 'Polygon', coordinates: [ring] },
+    b: { type: 'Polygon', coordinates: [ring.slice().reverse()] },
+    c: { type: 'Polygon', coordinates: [rotated] }
+  };
+  const actual = decode(fromGeoJSON(objects));
+
+  assert.strictEqual(actual.arcs.length, 1);
+  assert.deepStrictEqual(actual.objects, topology(objects).objects);
+  assert.deepStrictEqual(actual.objects.b.arcs, [[~0]]);
+});
+
+test('fromGeoJSON quantizes positions before extracting arcs', () => {
+  const objects = { regions, river, town };
+  const expected = topology(objects, 1e4);
+  const actual = decode(fromGeoJSON(objects, { quantization: 1e4 }));
+
+  assert.deepStrictEqual(actual.arcs, expected.arcs);
+  assert.deepStrictEqual(actual.objects, expected.objects);
+  assert.deepStrictEqual(actual.transform.translate, expected.transform.translate);
+  for (let d = 0; d < 2; d++) {
+    assert.ok(Math.abs(actual.transform.scale[d] - expected.transform.scale[d]) < 1e-15);
+  }
+});
+
+test('fromGeoJSON pads paths that collapse when quantized', () => {
+  const objects = {
+    tiny: { type: 'Polygon', coordinates: [[[0, 0], [0, 1e-9], [1e-9, 1e-9], [0, 0]]] },
+    dot: { type: 'LineString', coordinates: [[5, 5], [5, 5 + 1e-9]] }
+  };
+  const actual = decode(fromGeoJSON(objects, { quantization: 100 }));
+  assert.deepStrictEqual(actual.arcs, topology(objects, 100).arcs);
+  assert.deepStrictEqual(actual.arcs, [[[99, 99], [0, 0]], [[0, 0], [0, 0]]]);
+});
+
+test('fromGeoJSON keeps only x and y', () => {
+  const actual = decode(fromGeoJSON({
+    path: { type: 'LineString', coordinates: [[0, 0, 10], [1, 1, 20]] },
+    peak: { type: 'Point', coordinates: [2, 2, 300] }
+  }));
+  assert.deepStrictEqual(actual.arcs, [[[0, 0], [1, 1]]]);
+  assert.deepStrictEqual(actual.objects.peak.coordinates, [2, 2]);
+});
+
+test('fromGeoJSON passes encode options through', () => {
+  const buffer = fromGeoJSON({ regions, river, town }, {
+    quantization: 1e4,
+    arcEncoding: 'varint',
+    checksums: true,
+    spatialIndex: true
+  });
+  assert.deepStrictEqual(validate(buffer, { verifyChecksums: true }), []);
+  assert.deepStrictEqual(inspect(buffer).features, ['transform', 'bbox', 'properties', 'varint arcs', 'arc byte index', 'checksums', 'spatial index', 'points']);
+});
+
+test('fromGeoJSON turns missing geometries into null geometries, as topojson-server does', () => {
+  const objects = {
+    regions: {
+      ...regions,
+      features: [...regions.features, { type: 'Feature', id: 'lost', properties: { name: 'Lost' }, geometry: null }]
+    },
+    empty: { type: 'Feature', properties: {}, geometry: null }
+  };
+  const expected = topology(objects);
+  const actual = decode(fromGeoJSON(objects));
+  assert.deepStrictEqual(actual.arcs, expected.arcs);
+  assert.deepStrictEqual(actual.objects, expected.objects);
+  assert.deepStrictEqual(actual.objects.regions.geometries[3], { type: null, id: 'lost', properties: { name: 'Lost' } });
+  assert.deepStrictEqual(actual.objects.empty, { type: null });
+});
+
+test('fromGeoJSON rejects geometries it cannot encode', () => {
+  assert.throws(() => fromGeoJSON({ shape: { type: 'Circle', coordinates: [0, 0] } }), /Unsupported geometry type: Circle/);
+  assert.throws(() => fromGeoJSON({ line: { type: 'LineString', coordinates: [] } }), /at least one position/);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature, mesh } from 'topojson-client';
+import { encode, BinaryTopologyView, toFeature, toMesh } from '../lib/index.js';
+
+// Two squares sharing an edge, plus a line and some points
+const quantized = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.25], translate: [-10, 20] },
+  bbox: [-10, 20, -9, 20.5],
+  arcs: [
+    [[2, 0], [0, 2]], // shared edge
+    [[2, 2], [-2, 0], [0, -2], [2, 0]],
+    [[2, 0], [2, 0], [0, 2], [-2, 0]],
+    [[0, 0], [1, 1], [1, 0], [3, -4]],
+    [[4, 4], [0, 0]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]], id: 'left', properties: { name: 'Left' } },
+        { type: 'Polygon', arcs: [[2, ~0]], id: 7 },
+        { type: 'MultiPolygon', arcs: [[[0, 1]], [[2, ~0]]], bbox: [0, 0, 1, 1] },
+        { type: 'LineString', arcs: [~3] },
+        { type: 'MultiLineString', arcs: [[3], [4]] },
+        { type: 'Point', coordinates: [4, 6] },
+        { type: 'MultiPoint', coordinates: [[0, 0], [2, 2]] },
+        { type: 'GeometryCollection', geometries: [{ type: 'LineString', arcs: [3] }] }
+      ]
+    },
+    left: { type: 'Polygon', arcs: [[0, 1]], properties: { a: 1 } }
+  }
+};
+
+const unquantized = {
+  type: 'Topology',
+  arcs: [
+    [[1, 0], [1, 1]],
+    [[1, 1], [0, 1], [0, 0], [1, 0]],
+    [[1, 0], [2, 0], [2, 1], [1, 1]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]] },
+        { type: 'Polygon', arcs: [[2, ~0]] }
+      ]
+    }
+  }
+};
+
+test('toFeature matches topojson-client for a quantized topology', () => {
+  const view = new BinaryTopologyView(encode(quantized));
+  assert.deepStrictEqual(toFeature(view, 'squares'), feature(quantized, quantized.objects.squares));
+  assert.deepStrictEqual(toFeature(view, 'left'), feature(quantized, quantized.objects.left));
+});
+
+test('toFeature matches topojson-client for an unquantized topology', () => {
+  const view = new BinaryTopologyView(encode(unquantized));
+  assert.deepStrictEqual(toFeature(view, 'squares'), feature(unquantized, unquantized.objects.squares));
+});
+
+test('toMesh matches topojson-client', () => {
+  for (const topology of [quantized, unquantized]) {
+    const view = new BinaryTopologyView(encode(topology));
+    assert.deepStrictEqual(toMesh(view, 'squares'), mesh(topology, topology.objects.squares));
+  }
+});
+
+test('toMesh applies the filter like topojson-client', () => {
+  const interior = (a, b) => a !== b;
+  const exterior = (a, b) => a === b;
+  for (const topology of [quantized, unquantized]) {
+    const view = new BinaryTopologyView(encode(topology));
+    const object = topology.objects.squares;
+    assert.deepStrictEqual(toMesh(view, 'squares', interior), mesh(topology, object, interior));
+    assert.deepStrictEqual(toMesh(view, 'squares', exterior), mesh(topology, object, exterior));
+  }
+});
+
+test('toMesh filter receives geometry ids and properties', () => {
+  const view = new BinaryTopologyView(encode(quantized));
+  const seen = new Set();
+  toMesh(view, 'squares', (a, b) => {
+    seen.add(a.id);
+    seen.add(b.id);
+    return true;
+  });
+  assert.ok(seen.has('left'));
+  assert.ok(seen.has(7));
+});
+
+test('toFeature and toMesh throw for unknown objects', () => {
+  const view = new BinaryTopologyView(encode(unquantized));
+  assert.throws(() => toFeature(view, 'nope'), /Unknown object/);
+  assert.throws(() => toMesh(view, 'nope'), /Unknown object/);
+});
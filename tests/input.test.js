@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { encode, decode, validate, getVersion, isCompatibleVersion, BinaryTopologyView, TopobinWriter } from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  bbox: [0, 0, 2, 1.5],
+  arcs: [[[0, 0], [1, 1.5]], [[1, 1.5], [2, 0]]],
+  objects: {
+    path: { type: 'LineString', arcs: [0, 1], properties: { name: 'Path', length: 2.5 } },
+    stop: { type: 'Point', coordinates: [0.5, 0.25] }
+  }
+};
+
+/**
+ * Copies a buffer into a larger one at a byte offset, returning a Uint8Array
+ * of just its bytes
+ */
+function embed(buffer, byteOffset) {
+  const archive = new Uint8Array(byteOffset + buffer.byteLength + 5);
+  archive.fill(0xAB);
+  archive.set(new Uint8Array(buffer), byteOffset);
+  return archive.subarray(byteOffset, byteOffset + buffer.byteLength);
+}
+
+test('decode accepts views at any byte offset', () => {
+  for (const options of [{}, { quantization: 1e4, arcEncoding: 'varint' }, { coordinateType: 'float32', spatialIndex: true, checksums: true }]) {
+    const buffer = encode(topology, options);
+    const expected = decode(buffer);
+    for (const byteOffset of [0, 8, 24, 1, 3, 12]) {
+      const bytes = embed(buffer, byteOffset);
+      assert.deepStrictEqual(decode(bytes), expected);
+      assert.deepStrictEqual(decode(bytes, { strict: true, verifyChecksums: true }), expected);
+      assert.deepStrictEqual(decode(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)), expected);
+    }
+  }
+});
+
+test('BinaryTopologyView reads aligned views in place and copies misaligned ones', () => {
+  const buffer = encode(topology);
+  const aligned = embed(buffer, 16);
+  const view = new BinaryTopologyView(aligned);
+  assert.strictEqual(view.getArcCoords(1).buffer, aligned.buffer);
+  assert.deepStrictEqual(view.getArc(1), topology.arcs[1]);
+  assert.strictEqual(view.getProperty('path', 0, 'name'), 'Path');
+  assert.deepStrictEqual(view.getObject('stop'), topology.objects.stop);
+
+  const misaligned = embed(buffer, 4);
+  const copy = new BinaryTopologyView(misaligned);
+  assert.notStrictEqual(copy.getArcCoords(1).buffer, misaligned.buffer);
+  assert.deepStrictEqual(copy.getArc(1), topology.arcs[1]);
+});
+
+test('Node Buffers and streamed buffers can be read from inside a larger buffer', async () => {
+  const buffer = encode(topology);
+  assert.deepStrictEqual(decode(Buffer.from(buffer)), decode(buffer));
+
+  const chunks = [];
+  const writer = new TopobinWriter(chunk => { chunks.push(chunk); }, { bbox: topology.bbox });
+  for (const arc of topology.arcs) {
+    await writer.writeArc(arc);
+  }
+  for (const [name, object] of Object.entries(topology.objects)) {
+    writer.writeObject(name, object);
+  }
+  await writer.close();
+  const streamed = Buffer.concat(chunks);
+  for (const byteOffset of [8, 5]) {
+    const bytes = embed(streamed, byteOffset);
+    assert.deepStrictEqual(decode(bytes), decode(buffer));
+    assert.deepStrictEqual(validate(bytes), []);
+  }
+});
+
+test('getVersion, isCompatibleVersion and validate only read the view\'s bytes', () => {
+  const bytes = embed(encode(topology), 3);
+  assert.strictEqual(getVersion(bytes), 3);
+  assert.strictEqual(isCompatibleVersion(bytes), true);
+  assert.deepStrictEqual(validate(bytes), []);
+
+  assert.strictEqual(getVersion(bytes.subarray(1)), null);
+  assert.strictEqual(isCompatibleVersion(bytes.subarray(0, 5)), false);
+  const truncated = validate(bytes.subarray(0, bytes.byteLength - 8));
+  assert.strictEqual(truncated[0].code, 'section-overrun');
+});
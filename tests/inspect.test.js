@@ -0,0 +1,185 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  encode,
+  decode,
+  inspect,
+  getMemoryStats,
+  BinaryTopologyView,
+  TopobinFormatError
+} from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.01, 0.02], translate: [-10, 5] },
+  bbox: [-10, 5, -8, 9],
+  arcs: [
+    [[0, 0], [100, 0], [0, 100]],
+    [[100, 100], [-100, 0], [0, -100]],
+    [[0, 0], [3, 3]],
+    [[3, 3], [1, 1], [1, 1], [1, 1], [1, 1]]
+  ],
+  objects: {
+    regions: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', id: 'a', arcs: [[0, 1]], properties: { name: 'A' } },
+        { type: 'LineString', id: 'b', arcs: [~1] },
+        { type: 'MultiLineString', arcs: [[2], [3]] }
+      ]
+    },
+    place: { type: 'Point', coordinates: [50, 50] }
+  }
+};
+
+// Asserts the sections tile the buffer, with only alignment padding after each
+function assertContiguous(info) {
+  let end = 0;
+  for (const section of info.sections) {
+    assert.strictEqual(section.offset, end, section.name);
+    assert.ok(section.padding >= 0 && section.padding < 8, section.name);
+    end = section.offset + section.length + section.padding;
+  }
+  assert.strictEqual(end, info.byteLength);
+}
+
+test('inspect describes the header, objects and arcs', () => {
+  const buffer = encode(topology);
+  const info = inspect(buffer);
+
+  assert.strictEqual(info.byteLength, buffer.byteLength);
+  assert.strictEqual(info.version, 3);
+  assert.strictEqual(info.coordinateType, 'int32');
+  assert.strictEqual(info.dimensions, 2);
+  assert.deepStrictEqual(info.features, ['transform', 'bbox', 'properties', 'points']);
+  assert.deepStrictEqual(info.transform, topology.transform);
+  assert.deepStrictEqual(info.bbox, topology.bbox);
+  assert.deepStrictEqual(info.objects, [
+    { name: 'regions', type: 'GeometryCollection', geometries: 3 },
+    { name: 'place', type: 'Point', geometries: 1 }
+  ]);
+  assert.deepStrictEqual(info.arcs, {
+    count: 4,
+    totalPoints: 13,
+    minPoints: 2,
+    maxPoints: 5,
+    meanPoints: 13 / 4,
+    medianPoints: 3
+  });
+});
+
+test('inspect leaves out the transform and bbox when absent', () => {
+  const plain = { type: 'Topology', arcs: [[[0.5, 1], [2, 3]]], objects: { line: { type: 'LineString', arcs: [0] } } };
+  const info = inspect(encode(plain));
+  assert.strictEqual('transform' in info, false);
+  assert.strictEqual('bbox' in info, false);
+  assert.strictEqual(info.coordinateType, 'float64');
+  assert.deepStrictEqual(info.arcs, { count: 1, totalPoints: 2, minPoints: 2, maxPoints: 2, meanPoints: 2, medianPoints: 2 });
+});
+
+test('sections tile the buffer for every combination of options', () => {
+  const variants = [
+    [{}, ['header', 'transform', 'bbox', 'section directory', 'string table', 'arc offsets', 'arc data', 'points', 'objects', 'properties']],
+    [{ coordinateType: 'auto' }, ['header', 'transform', 'bbox', 'section directory', 'string table', 'arc offsets', 'arc data', 'points', 'objects', 'properties']],
+    [{ arcEncoding: 'varint' }, ['header', 'transform', 'bbox', 'section directory', 'string table', 'arc offsets', 'arc byte index', 'arc data', 'points', 'objects', 'properties']],
+    [{ arcEncoding: 'varint', arcIndex: false, checksums: true }, ['header', 'transform', 'bbox', 'section directory', 'string table', 'arc offsets', 'arc data', 'points', 'objects', 'properties', 'checksums']],
+    [{ presimplify: true, spatialIndex: true, checksums: true }, ['header', 'transform', 'bbox', 'section directory', 'string table', 'arc offsets', 'arc data', 'simplification weights', 'points', 'objects', 'properties', 'spatial index', 'checksums']]
+  ];
+  for (const [options, names] of variants) {
+    const info = inspect(encode(topology, options));
+    assert.deepStrictEqual(info.sections.map(s => s.name), names, JSON.stringify(options));
+    assertContiguous(info);
+  }
+});
+
+test('sections of unquantized 3D buffers include the extra values', () => {
+  const threeD = {
+    type: 'Topology',
+    arcs: [[[0, 0, 1], [1, 1, 2], [2, 0, 3]]],
+    objects: { line: { type: 'LineString', arcs: [0] } }
+  };
+  const unquantized = inspect(encode(threeD));
+  assert.strictEqual(unquantized.dimensions, 3);
+  assert.strictEqual(unquantized.sections.find(s => s.name === 'arc data').length, 3 * 3 * 8);
+  assertContiguous(unquantized);
+
+  const quantized = inspect(encode(threeD, { quantization: 100 }));
+  assert.strictEqual(quantized.sections.find(s => s.name === 'extra values').length, 3 * 8);
+  assertContiguous(quantized);
+});
+
+test('inspect reads version 1 buffers', () => {
+  const objects = { line: { type: 'LineString', arcs: [0] }, group: { type: 'GeometryCollection', geometries: [] } };
+  const names = new TextEncoder().encode('line\0group\0');
+  const json = new TextEncoder().encode(JSON.stringify({ names: ['line', 'group'], objects }));
+
+  // header + padded string table + 2 arc offsets + 2 points (Float64) + objects
+  const arcOffsetsStart = 24 + Math.ceil(names.byteLength / 4) * 4;
+  const arcDataStart = Math.ceil((arcOffsetsStart + 8) / 8) * 8;
+  const objectsStart = arcDataStart + 32;
+  const buffer = new ArrayBuffer(objectsStart + 4 + json.byteLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, 0x544F504F, false);
+  view.setUint16(4, 1, false);
+  view.setUint32(8, 1, false); // numArcs
+  view.setUint32(12, 2, false); // totalArcPoints
+  view.setUint32(16, 2, false); // numObjects
+  view.setUint32(20, names.byteLength, false);
+  new Uint8Array(buffer, 24).set(names);
+  new Uint32Array(buffer, arcOffsetsStart, 2).set([0, 2]);
+  new Float64Array(buffer, arcDataStart, 4).set([0.5, 1, 2, 3.25]);
+  view.setUint32(objectsStart, json.byteLength, false);
+  new Uint8Array(buffer, objectsStart + 4).set(json);
+
+  const info = inspect(buffer);
+  assert.strictEqual(info.version, 1);
+  assert.deepStrictEqual(info.sections.map(s => s.name), ['header', 'string table', 'arc offsets', 'arc data', 'objects']);
+  assert.deepStrictEqual(info.objects, [
+    { name: 'line', type: 'LineString', geometries: 1 },
+    { name: 'group', type: 'GeometryCollection', geometries: 0 }
+  ]);
+  assertContiguous(info);
+  assert.strictEqual(getMemoryStats(buffer).objectBytes, 4 + json.byteLength);
+});
+
+test('getMemoryStats parts add up to the total', () => {
+  for (const options of [{}, { coordinateType: 'auto' }, { arcEncoding: 'varint', checksums: true }, { presimplify: true, spatialIndex: true }]) {
+    const buffer = encode(topology, options);
+    const stats = getMemoryStats(buffer);
+    assert.strictEqual(
+      stats.headerBytes + stats.arcBytes + stats.objectBytes + stats.checksumBytes,
+      stats.totalBytes,
+      JSON.stringify(options)
+    );
+
+    // Header bytes are the fixed header, transform, bbox and padded string table
+    const info = inspect(buffer);
+    const arcOffsets = info.sections.find(s => s.name === 'arc offsets');
+    assert.strictEqual(stats.headerBytes, arcOffsets.offset);
+  }
+});
+
+test('decode, BinaryTopologyView and inspect reject bad headers alike', () => {
+  const valid = new Uint8Array(encode(topology));
+  const damaged = [
+    ['bad-magic', new Uint8Array(2)],
+    ['section-overrun', valid.slice(0, 12)],
+    ['unsupported-version', (() => { const b = valid.slice(); b[5] = 99; return b; })()],
+    ['unsupported-flags', (() => { const b = valid.slice(); b[6] |= 0x80; return b; })()]
+  ];
+  const readers = {
+    decode: buffer => decode(buffer),
+    view: buffer => new BinaryTopologyView(buffer),
+    inspect: buffer => inspect(buffer),
+    getMemoryStats: buffer => getMemoryStats(buffer)
+  };
+  for (const [code, bytes] of damaged) {
+    for (const [name, read] of Object.entries(readers)) {
+      assert.throws(
+        () => read(bytes.buffer),
+        error => error instanceof TopobinFormatError && error.code === code,
+        `${name}: ${code}`
+      );
+    }
+  }
+});
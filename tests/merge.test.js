@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature } from 'topojson-client';
+import { encode, decode, merge, validate, inspect } from '../lib/index.js';
+
+// Two tiles with squares sharing the edge x = 4, quantized on different grids.
+// The west tile stores the edge going up, the east tile going down.
+const west = {
+  type: 'Topology',
+  transform: { scale: [1, 1], translate: [0, 0] },
+  bbox: [0, 0, 4, 4],
+  arcs: [
+    [[4, 0], [0, 4]],
+    [[4, 4], [-4, 0], [0, -4], [4, 0]]
+  ],
+  objects: {
+    regions: { type: 'GeometryCollection', geometries: [{ type: 'Polygon', id: 'W', arcs: [[0, 1]] }] }
+  }
+};
+
+const east = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.5], translate: [4, 0] },
+  bbox: [4, 0, 8, 4],
+  arcs: [
+    [[0, 8], [0, -8]],
+    [[0, 0], [8, 0], [0, 8], [-8, 0]]
+  ],
+  objects: {
+    regions: { type: 'GeometryCollection', geometries: [{ type: 'Polygon', id: 'E', arcs: [[1, 0]] }] },
+    city: { type: 'Point', coordinates: [4, 4] }
+  }
+};
+
+// GeoJSON geometries of every object, for comparing topologies in absolute coordinates
+function features(topology) {
+  return Object.fromEntries(Object.entries(topology.objects).map(([name, object]) => [name, feature(topology, object)]));
+}
+
+test('merge joins buffers that share a transform', () => {
+  const other = { ...east, transform: west.transform, bbox: [4, 0, 8, 4], arcs: [[[4, 4], [0, -4]], [[4, 0], [4, 0], [0, 4], [-4, 0]]] };
+  const merged = decode(merge([encode(west), encode(other)], { collisions: 'rename' }));
+
+  assert.deepStrictEqual(merged.transform, west.transform);
+  assert.deepStrictEqual(merged.bbox, [0, 0, 8, 4]);
+  assert.deepStrictEqual(merged.arcs, [...west.arcs, ...other.arcs]);
+  assert.deepStrictEqual(merged.objects.regions, west.objects.regions);
+  assert.deepStrictEqual(merged.objects.regions_2.geometries[0].arcs, [[3, 2]]);
+  assert.deepStrictEqual(merged.objects.city, east.objects.city);
+});
+
+test('merge requantizes buffers with different transforms onto the finest grid', () => {
+  const merged = decode(merge([encode(west), encode(east)], { collisions: 'rename' }));
+
+  assert.deepStrictEqual(merged.transform, { scale: [0.5, 0.5], translate: [0, 0] });
+  assert.deepStrictEqual(merged.bbox, [0, 0, 8, 4]);
+  const expected = features(west);
+  const { regions: eastRegions, city } = features(east);
+  assert.deepStrictEqual(features(merged), { ...expected, regions_2: eastRegions, city });
+});
+
+test('merge deduplicates identical and reversed arcs', () => {
+  const merged = decode(merge([encode(west), encode(east)], { collisions: 'rename', deduplicate: true }));
+
+  // The shared edge is stored once, and the east square uses it reversed
+  assert.strictEqual(merged.arcs.length, 3);
+  assert.deepStrictEqual(merged.objects.regions.geometries[0].arcs, [[0, 1]]);
+  assert.deepStrictEqual(merged.objects.regions_2.geometries[0].arcs, [[2, ~0]]);
+  assert.deepStrictEqual(features(merged).regions_2, features(east).regions);
+
+  // Merging a buffer with itself keeps only one copy of each arc
+  const twice = decode(merge([encode(west), encode(west)], { collisions: 'rename', deduplicate: true }));
+  assert.deepStrictEqual(twice.arcs, west.arcs);
+  assert.deepStrictEqual(twice.objects.regions_2, west.objects.regions);
+});
+
+test('merge handles object name collisions', () => {
+  const buffers = [encode(west), encode(west), encode(west)];
+  assert.throws(() => merge(buffers), /Object name collision: regions \(buffer 1\)/);
+  assert.throws(() => merge(buffers, { collisions: 'ignore' }), /Unsupported collision handling: ignore/);
+  assert.deepStrictEqual(
+    Object.keys(decode(merge(buffers, { collisions: 'rename' })).objects),
+    ['regions', 'regions_2', 'regions_3']
+  );
+});
+
+test('merge converts to absolute coordinates when any buffer is unquantized', () => {
+  const lines = {
+    type: 'Topology',
+    arcs: [[[8, 4], [9.5, 5.25]]],
+    objects: { river: { type: 'LineString', arcs: [0] } }
+  };
+  const buffers = [encode(west), encode(lines)];
+  const merged = decode(merge(buffers));
+
+  assert.strictEqual(merged.transform, undefined);
+  assert.deepStrictEqual(merged.arcs, [[[4, 0], [4, 4]], [[4, 4], [0, 4], [0, 0], [4, 0]], lines.arcs[0]]);
+  assert.deepStrictEqual(features(merged), { ...features(west), ...features(lines) });
+
+  // The quantization option quantizes the merged topology over the combined bbox
+  const quantized = decode(merge(buffers, { quantization: 1e4 }));
+  assert.ok(quantized.transform);
+  assert.deepStrictEqual(quantized.bbox, [0, 0, 9.5, 5.25]);
+});
+
+test('merge passes encode options through', () => {
+  const buffer = merge([encode(west), encode(east)], {
+    collisions: 'rename',
+    arcEncoding: 'varint',
+    checksums: true,
+    spatialIndex: true
+  });
+  assert.deepStrictEqual(validate(buffer, { verifyChecksums: true }), []);
+  assert.deepStrictEqual(inspect(buffer).features, ['transform', 'bbox', 'varint arcs', 'arc byte index', 'checksums', 'spatial index', 'points']);
+});
+
+test('merge reads typed arrays and Node buffers', () => {
+  const expected = decode(merge([encode(west), encode(east)], { collisions: 'rename' }));
+
+  // A view at an odd offset of a larger buffer, and a Buffer over an ArrayBuffer
+  const bytes = new Uint8Array(encode(west));
+  const padded = new Uint8Array(bytes.byteLength + 3);
+  padded.set(bytes, 3);
+  const inputs = [padded.subarray(3), Buffer.from(encode(east))];
+  assert.deepStrictEqual(decode(merge(inputs, { collisions: 'rename' })), expected);
+});
+
+test('merge rejects an empty list', () => {
+  assert.throws(() => merge([]), /Cannot merge an empty list of buffers/);
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { neighbors as clientNeighbors } from 'topojson-client';
+import { encode, BinaryTopologyView, neighbors, arcOwners } from '../lib/index.js';
+
+// Two squares sharing arc 1, lines touching them, a point, and a polygon
+// that uses its only arc in both directions
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.25], translate: [10, 20] },
+  arcs: [
+    [[0, 0], [0, 4]],
+    [[0, 4], [4, 0], [0, -4]],
+    [[4, 0], [-4, 0]],
+    [[4, 4], [4, 0], [0, -4], [-4, 0]],
+    [[8, 0], [4, 4]],
+    [[20, 20], [1, 1]]
+  ],
+  objects: {
+    regions: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1, 2]] },
+        { type: 'Polygon', arcs: [[~1, 3]] },
+        { type: 'LineString', arcs: [3, 4] },
+        { type: 'Point', coordinates: [1, 1] },
+        {
+          type: 'GeometryCollection',
+          geometries: [{ type: 'LineString', arcs: [4] }, { type: 'MultiLineString', arcs: [[~0]] }]
+        },
+        { type: 'MultiPolygon', arcs: [[[5, ~5]]] }
+      ]
+    },
+    road: { type: 'LineString', arcs: [4] }
+  }
+};
+
+/**
+ * Converts a NeighborGraph into one array of neighbors per geometry
+ */
+function rows({ offsets, neighbors }) {
+  return Array.from({ length: offsets.length - 1 }, (_, i) => Array.from(neighbors.subarray(offsets[i], offsets[i + 1])));
+}
+
+test('neighbors() matches topojson-client', () => {
+  for (const options of [{}, { arcEncoding: 'varint' }, { coordinateType: 'int32' }]) {
+    const view = new BinaryTopologyView(encode(topology, options));
+    for (const name of ['regions', 'road']) {
+      const graph = neighbors(view, name);
+      assert.ok(graph.offsets instanceof Uint32Array);
+      assert.ok(graph.neighbors instanceof Uint32Array);
+      const geometries = topology.objects[name].geometries || [topology.objects[name]];
+      assert.deepStrictEqual(rows(graph), clientNeighbors(geometries));
+    }
+  }
+  const graph = neighbors(new BinaryTopologyView(encode(topology)), 'regions');
+  assert.deepStrictEqual(rows(graph), [[1, 4], [0, 2], [1, 4], [], [0, 2], [5]]);
+});
+
+test('arcOwners() puts forward references on the right and reversed ones on the left', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  const { left, right } = arcOwners(view, 'regions');
+  assert.ok(left instanceof Int32Array);
+  assert.deepStrictEqual(Array.from(right), [0, 0, 0, 1, -1, 5]);
+  assert.deepStrictEqual(Array.from(left), [-1, 1, -1, -1, -1, 5]);
+
+  // Lines have no sides
+  const road = arcOwners(view, 'road');
+  assert.deepStrictEqual(Array.from(road.left), [-1, -1, -1, -1, -1, -1]);
+  assert.deepStrictEqual(Array.from(road.right), [-1, -1, -1, -1, -1, -1]);
+});
+
+test('arcOwners() without an object name finds owners across every object', () => {
+  // A lake on the far side of arc 3 and behind arc 1, where regions came first
+  const lake = { type: 'Polygon', arcs: [[~3, ~1]] };
+  const view = new BinaryTopologyView(encode({ ...topology, objects: { ...topology.objects, lake } }));
+  const owners = arcOwners(view);
+  assert.deepStrictEqual(owners.objects, ['regions', 'road', 'lake']);
+  assert.ok(owners.leftObject instanceof Int32Array);
+  assert.deepStrictEqual(Array.from(owners.right), [0, 0, 0, 1, -1, 5]);
+  assert.deepStrictEqual(Array.from(owners.rightObject), [0, 0, 0, 0, -1, 0]);
+  assert.deepStrictEqual(Array.from(owners.left), [-1, 1, -1, 0, -1, 5]);
+  assert.deepStrictEqual(Array.from(owners.leftObject), [-1, 0, -1, 2, -1, 0]);
+
+  // Naming an object keeps its owners only
+  const named = arcOwners(view, 'lake');
+  assert.deepStrictEqual(named.objects, ['lake']);
+  assert.deepStrictEqual(Array.from(named.left), [-1, 0, -1, 0, -1, -1]);
+  assert.deepStrictEqual(Array.from(named.leftObject), [-1, 0, -1, 0, -1, -1]);
+  assert.deepStrictEqual(Array.from(named.rightObject), [-1, -1, -1, -1, -1, -1]);
+});
+
+test('getGeometryType() and getArcRefs() read geometries without building them', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  const types = topology.objects.regions.geometries.map((_, i) => view.getGeometryType('regions', i));
+  assert.deepStrictEqual(types, ['Polygon', 'Polygon', 'LineString', 'Point', 'GeometryCollection', 'MultiPolygon']);
+  assert.strictEqual(view.getGeometryType('road', 0), 'LineString');
+
+  const refs = topology.objects.regions.geometries.map((_, i) => Array.from(view.getArcRefs('regions', i)));
+  assert.deepStrictEqual(refs, [[0, 1, 2], [~1, 3], [3, 4], [], [4, ~0], [5, ~5]]);
+
+  assert.throws(() => view.getArcRefs('regions', 6), /Geometry index out of bounds: 6/);
+  assert.throws(() => view.getGeometryType('regions', -1), /Geometry index out of bounds: -1/);
+  assert.throws(() => neighbors(view, 'rivers'), /Unknown object: rivers/);
+  assert.throws(() => arcOwners(view, 'rivers'), /Unknown object: rivers/);
+});
+
+test('neighbors() and arcOwners() reject references to missing arcs', () => {
+  const broken = { ...topology, objects: { region: { type: 'Polygon', arcs: [[0, ~9]] } } };
+  const view = new BinaryTopologyView(encode(broken));
+  assert.throws(() => neighbors(view, 'region'), /Arc index out of bounds: 9/);
+  assert.throws(() => arcOwners(view, 'region'), /Arc index out of bounds: 9/);
+});
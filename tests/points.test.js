@@ -0,0 +1,180 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature } from 'topojson-client';
+import { encode, decode, validate, BinaryTopologyView, toFeature } from '../lib/index.js';
+
+// Deterministic pseudo-random numbers
+function createRandom(seed) {
+  return () => (seed = (seed * 1103515245 + 12345) % 0x80000000) / 0x80000000;
+}
+
+// A quantized layer of many points, plus a few other geometries
+function createCities(numPoints, seed) {
+  const random = createRandom(seed);
+  const geometries = [];
+  for (let i = 0; i < numPoints; i++) {
+    geometries.push({
+      type: 'Point',
+      id: `city-${i}`,
+      coordinates: [Math.floor(random() * 100000), Math.floor(random() * 100000)],
+      properties: { population: Math.floor(random() * 1e6) }
+    });
+  }
+  return {
+    type: 'Topology',
+    transform: { scale: [0.0036, 0.0018], translate: [-180, -90] },
+    arcs: [[[0, 0], [100, 0], [0, 100]]],
+    objects: {
+      cities: { type: 'GeometryCollection', geometries },
+      stops: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'MultiPoint', coordinates: [[1, 2], [3, 4], [5, 6]] },
+          { type: 'LineString', arcs: [0] },
+          { type: 'MultiPoint', coordinates: [] },
+          { type: 'GeometryCollection', geometries: [{ type: 'Point', coordinates: [7, 8] }] }
+        ]
+      }
+    }
+  };
+}
+
+const unquantized = {
+  type: 'Topology',
+  arcs: [],
+  objects: {
+    places: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Point', coordinates: [-122.4194, 37.7749] },
+        { type: 'MultiPoint', coordinates: [[2.3522, 48.8566], [139.6917, 35.6895]] }
+      ]
+    }
+  }
+};
+
+test('points round-trip through the points section', () => {
+  for (const topology of [createCities(50, 1), unquantized]) {
+    assert.deepStrictEqual(decode(encode(topology)), topology);
+    assert.deepStrictEqual(decode(encode(topology, { checksums: true, spatialIndex: true })), topology);
+  }
+});
+
+test('point coordinates are stored as typed arrays, not JSON', () => {
+  const topology = createCities(10000, 2);
+  const buffer = encode(topology);
+
+  // Quantized coordinates below 2^31 fit in 4 bytes each
+  const view = new BinaryTopologyView(buffer);
+  assert.ok(view.getPointCoords('cities', 0) instanceof Int32Array);
+
+  // Three-dimensional positions keep x/y in the same array, with z alongside
+  const withZ = structuredClone(topology);
+  withZ.objects.cities.geometries.forEach(g => g.coordinates.push(0));
+  const withZView = new BinaryTopologyView(encode(withZ));
+  assert.ok(withZView.getPointCoords('cities', 0) instanceof Int32Array);
+  // One Float64 z per position (padded for the 4 other points and 3 arc points)
+  const extraBytes = encode(withZ).byteLength - buffer.byteLength;
+  assert.ok(extraBytes >= 10007 * 8 && extraBytes < 10007 * 8 + 16);
+});
+
+test('getPointCoords() reads stored positions without copying', () => {
+  const topology = createCities(20, 3);
+  const buffer = encode(topology);
+  const view = new BinaryTopologyView(buffer);
+
+  const coords = view.getPointCoords('cities', 7);
+  assert.strictEqual(coords.buffer, buffer);
+  assert.deepStrictEqual(Array.from(coords), topology.objects.cities.geometries[7].coordinates);
+  assert.deepStrictEqual(Array.from(view.getPointCoords('stops', 0)), [1, 2, 3, 4, 5, 6]);
+  assert.strictEqual(view.getPointCoords('stops', 1).length, 0);
+  assert.strictEqual(view.getPointCoords('stops', 2).length, 0);
+  assert.throws(() => view.getPointCoords('stops', 4), /out of bounds/);
+});
+
+test('getPointAbsolute() applies the transform', () => {
+  const topology = createCities(5, 4);
+  const view = new BinaryTopologyView(encode(topology));
+  const [x, y] = topology.objects.cities.geometries[2].coordinates;
+  assert.deepStrictEqual(Array.from(view.getPointAbsolute('cities', 2)), [x * 0.0036 - 180, y * 0.0018 - 90]);
+
+  const out = new Float64Array(8);
+  assert.strictEqual(view.getPointAbsolute('stops', 0, out), out);
+  assert.deepStrictEqual(Array.from(out.subarray(0, 6)), [
+    1 * 0.0036 - 180, 2 * 0.0018 - 90,
+    3 * 0.0036 - 180, 4 * 0.0018 - 90,
+    5 * 0.0036 - 180, 6 * 0.0018 - 90
+  ]);
+  assert.throws(() => view.getPointAbsolute('stops', 0, new Float64Array(5)), /too small/);
+
+  const plain = new BinaryTopologyView(encode(unquantized));
+  assert.ok(plain.getPointCoords('places', 0) instanceof Float64Array);
+  assert.deepStrictEqual(Array.from(plain.getPointAbsolute('places', 0)), [-122.4194, 37.7749]);
+});
+
+test('the quantization option quantizes points too', () => {
+  const buffer = encode(unquantized, { quantization: 1e4 });
+  const view = new BinaryTopologyView(buffer);
+  const coords = view.getPointCoords('places', 1);
+  assert.ok(coords instanceof Int16Array);
+  assert.ok(Array.from(coords).every(Number.isInteger));
+});
+
+test('positions that are not plain numbers are kept as JSON', () => {
+  const topology = {
+    type: 'Topology',
+    arcs: [],
+    objects: {
+      places: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', coordinates: [1, 2, null] },
+          { type: 'MultiPoint', coordinates: [[1, 2], [3, 4, 5, 6, 7, 8]] },
+          { type: 'Point', coordinates: [5, 6] }
+        ]
+      }
+    }
+  };
+  assert.deepStrictEqual(decode(encode(topology)), topology);
+
+  const view = new BinaryTopologyView(encode(topology));
+  assert.strictEqual(view.getPointCoords('places', 0).length, 0);
+  assert.deepStrictEqual(Array.from(view.getPointCoords('places', 2)), [5, 6]);
+  assert.deepStrictEqual(view.getGeometry('places', 1), topology.objects.places.geometries[1]);
+});
+
+test('toFeature() reads points from the points section', () => {
+  const topology = createCities(30, 5);
+  const view = new BinaryTopologyView(encode(topology));
+  for (const name of ['cities', 'stops']) {
+    assert.deepStrictEqual(toFeature(view, name), feature(topology, topology.objects[name]));
+  }
+});
+
+test('topologies without points have no points section', () => {
+  const topology = {
+    type: 'Topology',
+    arcs: [[[0, 0], [1, 1]]],
+    objects: { line: { type: 'LineString', arcs: [0] } }
+  };
+  const view = new BinaryTopologyView(encode(topology));
+  assert.throws(() => view.getPointCoords('line', 0), /no points section/);
+});
+
+test('validate() checks the points section', () => {
+  const buffer = encode(createCities(10, 6));
+  assert.deepStrictEqual(validate(buffer), []);
+
+  // 17 geometries: 2 objects, 10 cities, 4 stops and a nested point.
+  // Their 18 point offsets come just before the coordinates.
+  const view = new BinaryTopologyView(buffer);
+  const coords = view.getPointCoords('cities', 0);
+  const offsets = new Uint32Array(buffer, coords.byteOffset - 18 * 4, 18);
+  assert.deepStrictEqual(Array.from(offsets.subarray(0, 4)), [0, 0, 0, 1]);
+  offsets[4] = 0;
+
+  const issues = validate(buffer);
+  assert.strictEqual(issues.length, 1);
+  assert.strictEqual(issues[0].code, 'invalid-section');
+  assert.match(issues[0].message, /Point offsets decrease/);
+});
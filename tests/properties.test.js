@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { encode, decode, getMemoryStats } from '../lib/index.js';
+
+function collection(propertiesList) {
+  return {
+    type: 'Topology',
+    arcs: [[[0, 0], [1, 1]]],
+    objects: {
+      features: {
+        type: 'GeometryCollection',
+        geometries: propertiesList.map(properties => {
+          const geometry = { type: 'LineString', arcs: [0] };
+          if (properties !== undefined) geometry.properties = properties;
+          return geometry;
+        })
+      }
+    }
+  };
+}
+
+test('round-trip preserves typed property columns', () => {
+  const topology = collection([
+    { name: 'Alameda', pop: 1682353, density: 2251.3, coastal: true, tags: ['a'] },
+    { name: 'Alpine', pop: 1204, density: 1.6, coastal: false, tags: null },
+    { name: 'Alameda', pop: -0, density: -5, coastal: null, tags: { nested: [1, 2] } },
+    { name: null, pop: 2 ** 40, extra: 'only here' }
+  ]);
+
+  const decoded = decode(encode(topology));
+  assert.deepStrictEqual(decoded.objects, topology.objects);
+  assert.ok(Object.is(decoded.objects.features.geometries[2].properties.pop, -0));
+});
+
+test('round-trip distinguishes missing, null and empty properties', () => {
+  const topology = collection([
+    { a: 1 },
+    { a: null },
+    {},
+    undefined,
+    null
+  ]);
+
+  const decoded = decode(encode(topology));
+  const geometries = decoded.objects.features.geometries;
+  assert.deepStrictEqual(geometries[0].properties, { a: 1 });
+  assert.deepStrictEqual(geometries[1].properties, { a: null });
+  assert.deepStrictEqual(geometries[2].properties, {});
+  assert.ok(!('properties' in geometries[3]));
+  assert.strictEqual(geometries[4].properties, null);
+});
+
+test('round-trip handles mixed-type columns', () => {
+  const topology = collection([
+    { code: 6075 },
+    { code: '06075' },
+    { code: 1.5 },
+    { code: true }
+  ]);
+
+  const decoded = decode(encode(topology));
+  assert.deepStrictEqual(decoded.objects, topology.objects);
+});
+
+test('repeated property strings are stored once', () => {
+  const names = ['Washington', 'Jefferson', 'Franklin', 'Jackson'];
+  const list = [];
+  for (let i = 0; i < 400; i++) {
+    list.push({ name: names[i % names.length] + ' County' });
+  }
+  const topology = collection(list);
+
+  const stats = getMemoryStats(encode(topology));
+  const jsonBytes = JSON.stringify(topology.objects).length;
+  assert.ok(stats.objectBytes < jsonBytes / 2);
+});
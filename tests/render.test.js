@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature } from 'topojson-client';
+import { encode, BinaryTopologyView, renderPath, SvgPathBuilder, toFeature } from '../lib/index.js';
+
+// Two squares sharing arc 1 (reversed in the second), a line, points and a
+// nested collection
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.25], translate: [10, 20] },
+  arcs: [
+    [[0, 0], [0, 4]],
+    [[0, 4], [4, 0], [0, -4]],
+    [[4, 0], [-4, 0]],
+    [[4, 4], [4, 0], [0, -4], [-4, 0]],
+    [[8, 0], [1, 1], [1, 0], [0, 1], [20, 20]]
+  ],
+  objects: {
+    regions: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1, 2]] },
+        { type: 'MultiPolygon', arcs: [[[~1, 3]]] },
+        {
+          type: 'GeometryCollection',
+          geometries: [{ type: 'MultiLineString', arcs: [[4], [~4, ~3]] }, { type: 'Point', coordinates: [2, 2] }]
+        }
+      ]
+    },
+    towns: { type: 'MultiPoint', coordinates: [[2, 2], [6, 3]] }
+  }
+};
+
+/**
+ * Context recording every call
+ */
+function recorder(withArc = true) {
+  const calls = [];
+  const context = {
+    calls,
+    moveTo: (x, y) => calls.push(['moveTo', x, y]),
+    lineTo: (x, y) => calls.push(['lineTo', x, y]),
+    closePath: () => calls.push(['closePath'])
+  };
+  if (withArc) context.arc = (...args) => calls.push(['arc', ...args]);
+  return context;
+}
+
+/**
+ * The calls that draw a GeoJSON geometry with every point
+ */
+function expectedCalls(geometry, calls = []) {
+  const line = (points, closed) => {
+    (closed ? points.slice(0, -1) : points).forEach(([x, y], i) => calls.push([i ? 'lineTo' : 'moveTo', x, y]));
+    if (closed) calls.push(['closePath']);
+  };
+  const point = ([x, y]) => calls.push(['moveTo', x + 4.5, y], ['arc', x, y, 4.5, 0, 2 * Math.PI]);
+  switch (geometry.type) {
+    case 'GeometryCollection': geometry.geometries.forEach(g => expectedCalls(g, calls)); break;
+    case 'Point': point(geometry.coordinates); break;
+    case 'MultiPoint': geometry.coordinates.forEach(point); break;
+    case 'LineString': line(geometry.coordinates, false); break;
+    case 'MultiLineString': geometry.coordinates.forEach(points => line(points, false)); break;
+    case 'Polygon': geometry.coordinates.forEach(ring => line(ring, true)); break;
+    case 'MultiPolygon': geometry.coordinates.forEach(polygon => polygon.forEach(ring => line(ring, true))); break;
+  }
+  return calls;
+}
+
+test('renderPath() draws the coordinates topojson-client produces', () => {
+  const unquantized = { ...topology, transform: undefined, arcs: topology.arcs.map(arc => arc.map(([x, y]) => [x + 0.5, y * 2])) };
+  for (const [source, options] of [[topology, {}], [topology, { arcEncoding: 'varint' }], [unquantized, {}], [unquantized, { coordinateType: 'float32' }]]) {
+    const view = new BinaryTopologyView(encode(source, options));
+    for (const name of ['regions', 'towns']) {
+      const context = renderPath(view, name, recorder(), { tolerance: 0 });
+      const geojson = feature(source, source.objects[name]);
+      const geometries = geojson.features ? geojson.features.map(f => f.geometry) : [geojson.geometry];
+      assert.deepStrictEqual(context.calls, geometries.flatMap(g => expectedCalls(g)));
+    }
+  }
+});
+
+test('renderPath() draws single geometries, projected and simplified', () => {
+  const view = new BinaryTopologyView(encode(topology, { presimplify: true }));
+  const projection = (x, y) => [x * 10, 500 - y * 10];
+  const context = renderPath(view, 'regions', recorder(), { index: 1, projection, tolerance: 0 });
+  const expected = expectedCalls(feature(topology, topology.objects.regions.geometries[1]).geometry)
+    .map(([name, x, y]) => name === 'closePath' ? [name] : [name, ...projection(x, y)]);
+  assert.deepStrictEqual(context.calls, expected);
+
+  const simplified = renderPath(view, 'regions', recorder(), { index: 2, minWeight: 1, tolerance: 0 });
+  const collection = toFeature(view, 'regions', { minWeight: 1 }).features[2].geometry;
+  assert.deepStrictEqual(simplified.calls, expectedCalls(collection));
+
+  assert.throws(() => renderPath(view, 'rivers', recorder()), /Unknown object: rivers/);
+  assert.throws(() => renderPath(view, 'regions', recorder(), { index: 3 }), /Geometry index out of bounds: 3/);
+});
+
+test('renderPath() skips points within the tolerance of the last one drawn', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  // Arc 4 in absolute coordinates: (14,20) (14.5,20.25) (15,20.25) (15,20.5) (25,25.5)
+  const line = { type: 'LineString', arcs: [4] };
+  const source = { ...topology, objects: { line } };
+  const lineView = new BinaryTopologyView(encode(source));
+  assert.deepStrictEqual(renderPath(lineView, 'line', recorder()).calls, [
+    ['moveTo', 14, 20],
+    ['lineTo', 15, 20.25],
+    ['lineTo', 25, 25.5]
+  ]);
+  // Line ends are drawn however close they are
+  const reversed = new BinaryTopologyView(encode({ ...topology, objects: { line: { type: 'LineString', arcs: [~4, ~3] } } }));
+  const calls = renderPath(reversed, 'line', recorder(), { tolerance: 100 }).calls;
+  assert.deepStrictEqual(calls, [['moveTo', 25, 25.5], ['lineTo', 12, 21]]);
+
+  // Points are left out of contexts that cannot draw arcs
+  assert.deepStrictEqual(renderPath(view, 'towns', recorder(false)).calls, []);
+});
+
+test('SvgPathBuilder builds SVG path data', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  const square = renderPath(view, 'regions', new SvgPathBuilder(), { index: 0 }).toString();
+  assert.strictEqual(square, 'M10,20L10,21L12,21L12,20Z');
+
+  const projection = (x, y) => [x / 3, y / 3];
+  const rounded = renderPath(view, 'regions', new SvgPathBuilder(2), { index: 0, projection, tolerance: 0 }).toString();
+  assert.strictEqual(rounded, 'M3.33,6.67L3.33,7L4,7L4,6.67Z');
+
+  const towns = renderPath(view, 'towns', new SvgPathBuilder(), { pointRadius: 2 }).toString();
+  assert.strictEqual(towns, 'M13,20.5A2,2,0,1,1,9,20.5A2,2,0,1,1,13,20.5M15,20.75A2,2,0,1,1,11,20.75A2,2,0,1,1,15,20.75');
+
+  const path = new SvgPathBuilder();
+  path.moveTo(0, 0);
+  path.arc(0, 0, 1, 0, Math.PI / 2);
+  assert.strictEqual(path.toString(), 'M0,0L1,0A1,1,0,0,1,6.123233995736766e-17,1');
+  assert.strictEqual(new SvgPathBuilder().toString(), '');
+});
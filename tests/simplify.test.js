@@ -0,0 +1,195 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { presimplify, simplify, quantile } from 'topojson-simplify';
+import { feature, mesh } from 'topojson-client';
+import { encode, decode, validate, getMemoryStats, BinaryTopologyView, toFeature, toMesh } from '../lib/index.js';
+
+// Deterministic pseudo-random numbers
+function createRandom(seed) {
+  return () => (seed = (seed * 1103515245 + 12345) % 0x80000000) / 0x80000000;
+}
+
+// A quantized topology of wiggly arcs forming a strip of polygons that share
+// borders, plus a line
+function createTopology(seed) {
+  const random = createRandom(seed);
+  const wiggle = (x0, y0, x1, y1) => {
+    const points = [[x0, y0]];
+    let x = x0;
+    let y = y0;
+    for (let i = 1; i < 20; i++) {
+      const nx = Math.round(x0 + (x1 - x0) * i / 20 + random() * 40 - 20);
+      const ny = Math.round(y0 + (y1 - y0) * i / 20 + random() * 40 - 20);
+      points.push([nx - x, ny - y]);
+      x = nx;
+      y = ny;
+    }
+    points.push([x1 - x, y1 - y]);
+    return points;
+  };
+
+  // Arcs 0-2 are the vertical borders, 3-4 the tops and 5-6 the bottoms
+  const arcs = [
+    wiggle(0, 0, 0, 1000),
+    wiggle(1000, 0, 1000, 1000),
+    wiggle(2000, 0, 2000, 1000),
+    wiggle(0, 1000, 1000, 1000),
+    wiggle(1000, 1000, 2000, 1000),
+    wiggle(1000, 0, 0, 0),
+    wiggle(2000, 0, 1000, 0),
+    wiggle(0, 2000, 2000, 2000),
+    [[500, 500], [0, 0]]
+  ];
+  return {
+    type: 'Topology',
+    transform: { scale: [0.01, 0.02], translate: [-10, 5] },
+    arcs,
+    objects: {
+      regions: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Polygon', id: 'west', arcs: [[0, 3, ~1, 5]] },
+          { type: 'Polygon', id: 'east', arcs: [[1, 4, ~2, 6]] },
+          { type: 'LineString', arcs: [7] }
+        ]
+      },
+      line: { type: 'LineString', arcs: [~7] }
+    }
+  };
+}
+
+// The same topology with absolute, untransformed coordinates
+function unquantized(topology) {
+  const [kx, ky] = topology.transform.scale;
+  const [dx, dy] = topology.transform.translate;
+  return {
+    type: 'Topology',
+    arcs: topology.arcs.map(arc => {
+      let x = 0;
+      let y = 0;
+      return arc.map(p => [(x += p[0]) * kx + dx, (y += p[1]) * ky + dy]);
+    }),
+    objects: structuredClone(topology.objects)
+  };
+}
+
+test('weights match topojson-simplify presimplify()', () => {
+  for (const topology of [createTopology(1), unquantized(createTopology(2))]) {
+    const view = new BinaryTopologyView(encode(topology, { presimplify: true }));
+    const presimplified = presimplify(structuredClone(topology));
+    assert.ok(view.hasWeights());
+    presimplified.arcs.forEach((arc, i) => {
+      assert.deepStrictEqual(Array.from(view.getArcWeights(i)), arc.map(p => p[2]));
+    });
+  }
+});
+
+test('arc endpoints always have infinite weights', () => {
+  const view = new BinaryTopologyView(encode(createTopology(3), { presimplify: true }));
+  for (let i = 0; i < view.getArcCount(); i++) {
+    const weights = view.getArcWeights(i);
+    assert.strictEqual(weights[0], Infinity);
+    assert.strictEqual(weights[weights.length - 1], Infinity);
+    assert.strictEqual(view.getArcPointCount(i, { minWeight: Infinity }), 2);
+  }
+});
+
+test('toFeature() and toMesh() with minWeight match topojson-simplify', () => {
+  for (const topology of [createTopology(4), unquantized(createTopology(5))]) {
+    for (const arcEncoding of topology.transform ? ['fixed', 'varint'] : ['fixed']) {
+      const view = new BinaryTopologyView(encode(topology, { presimplify: true, arcEncoding }));
+      const presimplified = presimplify(structuredClone(topology));
+      for (const q of [0, 0.25, 0.5, 0.9, 1]) {
+        const minWeight = quantile(presimplified, q);
+        const simplified = simplify(presimplified, minWeight);
+        for (const name of ['regions', 'line']) {
+          const object = simplified.objects[name];
+          assert.deepStrictEqual(toFeature(view, name, { minWeight }), feature(simplified, object));
+          assert.deepStrictEqual(toMesh(view, name, undefined, { minWeight }), mesh(simplified, object));
+          assert.deepStrictEqual(
+            toMesh(view, name, (a, b) => a !== b, { minWeight }),
+            mesh(simplified, object, (a, b) => a !== b)
+          );
+        }
+      }
+    }
+  }
+});
+
+test('getArc() with minWeight returns the kept points in stored form', () => {
+  const topology = createTopology(6);
+  const view = new BinaryTopologyView(encode(topology, { presimplify: true }));
+  const presimplified = presimplify(structuredClone(topology));
+  const minWeight = quantile(presimplified, 0.5);
+  const simplified = simplify(presimplified, minWeight);
+  const [kx, ky] = topology.transform.scale;
+  const [dx, dy] = topology.transform.translate;
+
+  simplified.arcs.forEach((arc, i) => {
+    // Quantized arcs stay delta-encoded, between the kept points
+    const deltas = view.getArc(i, { minWeight });
+    let x = 0;
+    let y = 0;
+    const absolute = deltas.map(p => [(x += p[0]) * kx + dx, (y += p[1]) * ky + dy]);
+    assert.deepStrictEqual(absolute, arc.map(p => [p[0], p[1]]));
+    assert.strictEqual(view.getArcPointCount(i, { minWeight }), arc.length);
+    assert.deepStrictEqual(Array.from(view.getArcAbsolute(i, undefined, { minWeight })), arc.flatMap(p => [p[0], p[1]]));
+  });
+
+  // Unquantized arcs keep their positions
+  const unquantizedView = new BinaryTopologyView(encode(unquantized(topology), { presimplify: true }));
+  assert.deepStrictEqual(
+    unquantizedView.getArc(0, { minWeight: Infinity }),
+    [unquantizedView.getArc(0)[0], unquantizedView.getArc(0)[20]]
+  );
+});
+
+test('getArcAbsolute() with minWeight fills a caller-supplied array', () => {
+  const view = new BinaryTopologyView(encode(createTopology(7), { presimplify: true }));
+  const out = new Float64Array(100).fill(-1);
+  const count = view.getArcPointCount(0, { minWeight: 1 });
+  assert.strictEqual(view.getArcAbsolute(0, out, { minWeight: 1 }), out);
+  assert.deepStrictEqual(Array.from(out.subarray(0, count * 2)), Array.from(view.getArcAbsolute(0, undefined, { minWeight: 1 })));
+  assert.strictEqual(out[count * 2], -1);
+  assert.throws(() => view.getArcAbsolute(0, new Float64Array(count * 2 - 1), { minWeight: 1 }), /too small/);
+});
+
+test('weights do not change decoding or full-detail reads', () => {
+  const topology = createTopology(8);
+  const buffer = encode(topology, { presimplify: true, checksums: true, spatialIndex: true });
+  assert.deepStrictEqual(decode(buffer), topology);
+  assert.deepStrictEqual(validate(buffer, { verifyChecksums: true }), []);
+
+  const view = new BinaryTopologyView(buffer);
+  const plain = new BinaryTopologyView(encode(topology));
+  assert.deepStrictEqual(view.getArc(2), plain.getArc(2));
+  assert.deepStrictEqual(toFeature(view, 'regions'), toFeature(plain, 'regions'));
+  assert.deepStrictEqual(view.queryArcs([-20, 0, 30, 50]), [0, 1, 2, 3, 4, 5, 6, 7, 8]);
+
+  const stats = getMemoryStats(buffer);
+  const plainStats = getMemoryStats(encode(topology, { checksums: true, spatialIndex: true }));
+  const totalPoints = topology.arcs.reduce((sum, arc) => sum + arc.length, 0);
+  // The weights' directory entry can move the padding after the arc data by 4 bytes
+  const extra = stats.arcBytes - plainStats.arcBytes - totalPoints * 8;
+  assert.ok(extra === 0 || Math.abs(extra) === 4, `${extra} extra bytes`);
+});
+
+test('minWeight without weights throws', () => {
+  const view = new BinaryTopologyView(encode(createTopology(9)));
+  assert.strictEqual(view.hasWeights(), false);
+  assert.throws(() => view.getArcWeights(0), /no simplification weights/);
+  assert.throws(() => view.getArc(0, { minWeight: 1 }), /no simplification weights/);
+  assert.throws(() => toFeature(view, 'regions', { minWeight: 1 }), /no simplification weights/);
+});
+
+test('validate() reports weights that drop arc endpoints', () => {
+  const buffer = encode(createTopology(10), { presimplify: true });
+  const view = new BinaryTopologyView(buffer);
+  const weights = view.getArcWeights(1);
+  weights[weights.length - 1] = 5;
+
+  const issues = validate(buffer);
+  assert.strictEqual(issues.length, 1);
+  assert.strictEqual(issues[0].code, 'invalid-section');
+  assert.match(issues[0].message, /endpoints of arc 1/);
+});
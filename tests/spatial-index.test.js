@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { encode, decode, validate, BinaryTopologyView } from '../lib/index.js';
+
+// Deterministic pseudo-random numbers
+function createRandom(seed) {
+  return () => (seed = (seed * 1103515245 + 12345) % 0x80000000) / 0x80000000;
+}
+
+// A quantized topology of random short arcs, with polygons, lines and points
+function createTopology(numArcs, seed) {
+  const random = createRandom(seed);
+  const arcs = [];
+  for (let i = 0; i < numArcs; i++) {
+    const arc = [[Math.floor(random() * 10000), Math.floor(random() * 10000)]];
+    for (let j = 0; j < 4; j++) {
+      arc.push([Math.floor(random() * 200) - 100, Math.floor(random() * 200) - 100]);
+    }
+    arcs.push(arc);
+  }
+  const geometries = [];
+  for (let i = 0; i + 1 < numArcs; i += 2) {
+    geometries.push(i % 4 === 0
+      ? { type: 'Polygon', arcs: [[i, ~(i + 1)]] }
+      : { type: 'LineString', arcs: [i + 1] });
+  }
+  geometries.push({ type: 'Point', coordinates: [5000, 5000] });
+  geometries.push({ type: 'GeometryCollection', geometries: [{ type: 'MultiPoint', coordinates: [[10, 20], [30, 9990]] }] });
+  geometries.push({ type: 'GeometryCollection', geometries: [] });
+  return {
+    type: 'Topology',
+    transform: { scale: [0.001, 0.002], translate: [100, -20] },
+    arcs,
+    objects: {
+      features: { type: 'GeometryCollection', geometries },
+      first: { type: 'LineString', arcs: [0] }
+    }
+  };
+}
+
+function intersects(a, b) {
+  return a[0] <= b[2] && a[1] <= b[3] && a[2] >= b[0] && a[3] >= b[1];
+}
+
+// Bounding box of a list of positions, or null if it is empty
+function boundsOf(points) {
+  if (!points.length) return null;
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+// Absolute positions of a geometry, found by brute force from a decoded topology
+function positionsOf(topology, view, geometry) {
+  const point = p => [
+    p[0] * topology.transform.scale[0] + topology.transform.translate[0],
+    p[1] * topology.transform.scale[1] + topology.transform.translate[1]
+  ];
+  const arcPoints = ref => {
+    const coords = view.getArcAbsolute(ref < 0 ? ~ref : ref);
+    const points = [];
+    for (let i = 0; i < coords.length; i += 2) points.push([coords[i], coords[i + 1]]);
+    return points;
+  };
+  switch (geometry.type) {
+    case 'Point': return [point(geometry.coordinates)];
+    case 'MultiPoint': return geometry.coordinates.map(point);
+    case 'LineString': return geometry.arcs.flatMap(arcPoints);
+    case 'Polygon': return geometry.arcs.flat().flatMap(arcPoints);
+    case 'GeometryCollection': return geometry.geometries.flatMap(g => positionsOf(topology, view, g));
+    default: return [];
+  }
+}
+
+const topology = createTopology(600, 42);
+const buffer = encode(topology, { spatialIndex: true });
+const view = new BinaryTopologyView(buffer);
+
+const queries = [
+  [100, -20, 110, 0],
+  [102, -10, 103, -9],
+  [104.99, -10.01, 105.01, -9.99],
+  [90, -30, 91, -29],
+  [100.005, -19.97, 100.05, -19.9],
+  [-Infinity, -Infinity, Infinity, Infinity]
+];
+
+test('spatial index does not change the decoded topology', () => {
+  assert.deepStrictEqual(decode(buffer), decode(encode(topology)));
+  assert.deepStrictEqual(validate(buffer), []);
+  assert.deepStrictEqual(validate(encode(topology, { spatialIndex: true, checksums: true }), { verifyChecksums: true }), []);
+});
+
+test('queryArcs matches a brute-force search', () => {
+  for (const bbox of queries) {
+    const expected = [];
+    for (let i = 0; i < view.getArcCount(); i++) {
+      const coords = view.getArcAbsolute(i);
+      const points = [];
+      for (let k = 0; k < coords.length; k += 2) points.push([coords[k], coords[k + 1]]);
+      if (intersects(boundsOf(points), bbox)) expected.push(i);
+    }
+    assert.deepStrictEqual(view.queryArcs(bbox), expected, JSON.stringify(bbox));
+  }
+});
+
+test('queryGeometries matches a brute-force search', () => {
+  for (const bbox of queries) {
+    const expected = [];
+    for (let i = 0; i < view.getGeometryCount('features'); i++) {
+      const bounds = boundsOf(positionsOf(topology, view, view.getGeometry('features', i)));
+      if (bounds && intersects(bounds, bbox)) expected.push(i);
+    }
+    assert.deepStrictEqual(view.queryGeometries('features', bbox), expected, JSON.stringify(bbox));
+  }
+});
+
+test('queryGeometries finds points and nested members', () => {
+  const count = view.getGeometryCount('features');
+  assert.deepStrictEqual(view.queryGeometries('features', [104.9, -10.1, 105.1, -9.9]).slice(-1), [count - 3]);
+  assert.ok(view.queryGeometries('features', [100.009, -19.97, 100.011, -19.95]).includes(count - 2));
+  assert.deepStrictEqual(view.queryGeometries('first', [-Infinity, -Infinity, Infinity, Infinity]), [0]);
+  assert.deepStrictEqual(view.queryGeometries('first', [0, 0, 1, 1]), []);
+});
+
+test('spatial index works for unquantized topologies', () => {
+  const unquantized = {
+    type: 'Topology',
+    arcs: [[[0, 0], [1, 1]], [[5, 5], [6, 4]], [[2.5, -1], [2.5, 8]]],
+    objects: {
+      shapes: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'LineString', arcs: [0] },
+          { type: 'LineString', arcs: [1, 2] }
+        ]
+      }
+    }
+  };
+  const unquantizedView = new BinaryTopologyView(encode(unquantized, { spatialIndex: true }));
+  assert.deepStrictEqual(unquantizedView.queryArcs([0.5, 0.5, 3, 3]), [0, 2]);
+  assert.deepStrictEqual(unquantizedView.queryArcs([5.5, 4, 5.6, 4.1]), [1]);
+  assert.deepStrictEqual(unquantizedView.queryGeometries('shapes', [0.5, 0.5, 3, 3]), [0, 1]);
+  assert.deepStrictEqual(unquantizedView.queryGeometries('shapes', [3, 0, 4, 1]), [1]);
+  assert.deepStrictEqual(unquantizedView.queryGeometries('shapes', [10, 10, 11, 11]), []);
+});
+
+test('queries require a spatial index', () => {
+  const plain = new BinaryTopologyView(encode(topology));
+  assert.throws(() => plain.queryArcs([0, 0, 1, 1]), /has no spatial index/);
+  assert.throws(() => plain.queryGeometries('features', [0, 0, 1, 1]), /has no spatial index/);
+  assert.throws(() => view.queryGeometries('missing', [0, 0, 1, 1]), /Unknown object: missing/);
+});
+
+test('validate reports a corrupted spatial index', () => {
+  const damaged = encode(topology, { spatialIndex: true });
+  // The geometry tree's last node indices (and any padding) end the buffer
+  new Uint32Array(damaged, damaged.byteLength - 8, 2).fill(0xFFFF);
+  assert.deepStrictEqual(validate(damaged).map(issue => issue.code), ['invalid-section']);
+});
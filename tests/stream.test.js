@@ -0,0 +1,299 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { encode, decode, validate, inspect, TopobinWriter, TopobinReader, TopobinFormatError, BinaryTopologyView } from '../lib/index.js';
+
+// Two squares sharing an edge (arc 1), a line, and points with properties and ids
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.25], translate: [10, 20] },
+  bbox: [10, 20, 16, 21],
+  arcs: [
+    [[0, 0], [0, 4]],
+    [[0, 4], [4, 0], [0, -4]],
+    [[4, 0], [-4, 0]],
+    [[4, 4], [4, 0], [0, -4], [-4, 0]],
+    [[8, 0], [4, 4]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', id: 'west', arcs: [[0, 1, 2]], properties: { name: 'West' } },
+        { type: 'Polygon', id: 'east', arcs: [[~1, 3]], properties: { name: 'East' } }
+      ]
+    },
+    road: { type: 'LineString', arcs: [4], id: 12 },
+    towns: { type: 'MultiPoint', coordinates: [[2, 2], [6, 3]], properties: { population: 1200 } }
+  }
+};
+
+/**
+ * Writes a topology with TopobinWriter, returning the chunks it produced
+ */
+async function write(source, options) {
+  const chunks = [];
+  const writer = new TopobinWriter(chunk => { chunks.push(chunk); }, options);
+  for (const arc of source.arcs) {
+    await writer.writeArc(arc);
+  }
+  for (const [name, object] of Object.entries(source.objects)) {
+    writer.writeObject(name, object);
+  }
+  await writer.close();
+  return chunks;
+}
+
+function join(chunks) {
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+function split(buffer, size) {
+  const bytes = new Uint8Array(buffer);
+  const chunks = [];
+  for (let i = 0; i < bytes.byteLength; i += size) {
+    chunks.push(bytes.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Reads chunks with TopobinReader, recording every handler call in order
+ */
+function read(chunks) {
+  const events = [];
+  const result = { arcs: [], objects: {}, events };
+  const reader = new TopobinReader({
+    header(header) { result.header = header; events.push('header'); },
+    arc(arc, index) { result.arcs[index] = arc; events.push(`arc ${index}`); },
+    object(object, name) { result.objects[name] = object; events.push(name); }
+  });
+  for (const chunk of chunks) {
+    reader.push(chunk);
+  }
+  reader.end();
+  return result;
+}
+
+test('TopobinWriter output decodes like encode() output', async () => {
+  const buffer = join(await write(topology, { transform: topology.transform, bbox: topology.bbox }));
+  assert.deepStrictEqual(decode(buffer), decode(encode(topology)));
+  assert.deepStrictEqual(validate(buffer), []);
+  assert.deepStrictEqual(inspect(buffer).features, ['transform', 'bbox', 'properties', 'points', 'streamed']);
+
+  const view = new BinaryTopologyView(buffer);
+  assert.strictEqual(view.getArcCount(), 5);
+  assert.deepStrictEqual(view.getArc(3), topology.arcs[3]);
+  assert.deepStrictEqual(view.getGeometryById('squares', 'east'), topology.objects.squares.geometries[1]);
+});
+
+test('TopobinWriter writes unquantized arcs with extra dimensions and narrower types', async () => {
+  const source = {
+    type: 'Topology',
+    arcs: [[[0.5, 1.5, 100], [2.25, 3]], [[2.25, 3], [4, 4, 90]]],
+    objects: {
+      path: { type: 'LineString', arcs: [0, 1] },
+      peak: { type: 'Point', coordinates: [1, 2, 300] }
+    }
+  };
+  for (const coordinateType of ['float64', 'float32']) {
+    const buffer = join(await write(source, { dimensions: 3, coordinateType }));
+    assert.deepStrictEqual(decode(buffer), source);
+    assert.deepStrictEqual(validate(buffer), []);
+  }
+});
+
+test('TopobinWriter splits output into chunks and writes to a WritableStream', async () => {
+  const arcs = Array.from({ length: 3000 }, (_, i) => [[i, 0], [0, 1], [1, 0]]);
+  const source = { type: 'Topology', arcs, objects: { lines: { type: 'MultiLineString', arcs: arcs.map((_, i) => [i]) } } };
+
+  const chunks = [];
+  let closed = false;
+  const stream = new WritableStream({
+    write(chunk) { chunks.push(chunk); },
+    close() { closed = true; }
+  });
+  const writer = new TopobinWriter(stream, { coordinateType: 'int32' });
+  for (const arc of arcs) {
+    await writer.writeArc(arc);
+  }
+  writer.writeObject('lines', source.objects.lines);
+  await writer.close();
+
+  assert.ok(closed);
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every(chunk => chunk.byteLength <= 65536));
+  assert.deepStrictEqual(decode(join(chunks)), source);
+});
+
+test('TopobinWriter rejects what it cannot write', async () => {
+  const sink = () => {};
+  assert.throws(() => new TopobinWriter(sink, { coordinateType: 'auto' }), /Unsupported coordinate type: auto/);
+  assert.throws(() => new TopobinWriter(sink, { dimensions: 6 }), /Positions must have 2 to 5 values/);
+  assert.throws(
+    () => new TopobinWriter(sink, { transform: topology.transform, dimensions: 3 }),
+    /cannot store values beyond x\/y of quantized arcs/
+  );
+
+  const writer = new TopobinWriter(sink, { coordinateType: 'int16' });
+  await assert.rejects(writer.writeArc([[0, 0], [1, 1, 1]]), /Arc positions have 3 values, but the writer stores 2/);
+  await assert.rejects(writer.writeArc([[0, 0], [40000, 0]]), /does not fit in int16/);
+  writer.writeObject('a', { type: 'LineString', arcs: [0] });
+  assert.throws(() => writer.writeObject('a', { type: 'LineString', arcs: [0] }), /Duplicate object name: a/);
+  await writer.close();
+  await assert.rejects(writer.writeArc([[0, 0]]), /TopobinWriter is closed/);
+});
+
+test('TopobinReader emits arcs before objects from small chunks', () => {
+  const expected = decode(encode(topology));
+  for (const options of [{}, { arcEncoding: 'varint' }, { arcEncoding: 'varint', arcIndex: false }, { coordinateType: 'int16' }]) {
+    const buffer = encode(topology, options);
+    for (const size of [1, 5, 64]) {
+      const { header, arcs, objects, events } = read(split(buffer, size));
+      assert.deepStrictEqual(header, { version: 3, transform: topology.transform, bbox: topology.bbox });
+      assert.deepStrictEqual(arcs, expected.arcs);
+      assert.deepStrictEqual(objects, expected.objects);
+      assert.deepStrictEqual(events, ['header', 'arc 0', 'arc 1', 'arc 2', 'arc 3', 'arc 4', 'squares', 'road', 'towns']);
+    }
+  }
+});
+
+test('TopobinReader hands out each arc once its bytes have arrived', () => {
+  const buffer = encode(topology);
+  const arcData = inspect(buffer).sections.find(section => section.name === 'arc data');
+  const arcDataEnd = arcData.offset + arcData.length;
+  const arcs = [];
+  const reader = new TopobinReader({ arc: (arc, index) => arcs.push(index) });
+
+  // Everything but the last byte of the last arc
+  reader.push(new Uint8Array(buffer, 0, arcDataEnd - 1));
+  assert.deepStrictEqual(arcs, [0, 1, 2, 3]);
+  reader.push(new Uint8Array(buffer, arcDataEnd - 1));
+  assert.deepStrictEqual(arcs, [0, 1, 2, 3, 4]);
+  reader.end();
+});
+
+test('TopobinReader reads quantized extra values, weights, checksums and spatial indexes', () => {
+  const source = {
+    ...topology,
+    arcs: topology.arcs.map(arc => arc.map((position, i) => [...position, i * 10])),
+    objects: { ...topology.objects, towns: { type: 'MultiPoint', coordinates: [[2, 2, 7], [6, 3]] } }
+  };
+  const buffer = encode(source, { presimplify: true, checksums: true, spatialIndex: true });
+  const { arcs, objects } = read(split(buffer, 3));
+  const expected = decode(buffer);
+  assert.deepStrictEqual(arcs, expected.arcs);
+  assert.deepStrictEqual(objects, expected.objects);
+});
+
+test('TopobinReader reads TopobinWriter output', async () => {
+  const chunks = await write(topology, { transform: topology.transform, bbox: topology.bbox });
+  const expected = decode(encode(topology));
+  const { header, arcs, objects, events } = read(chunks.flatMap(chunk => split(chunk, 7)));
+  assert.deepStrictEqual(header, { version: 2, transform: topology.transform, bbox: topology.bbox });
+  assert.deepStrictEqual(arcs, expected.arcs);
+  assert.deepStrictEqual(objects, expected.objects);
+  assert.deepStrictEqual(events, ['header', 'arc 0', 'arc 1', 'arc 2', 'arc 3', 'arc 4', 'squares', 'road', 'towns']);
+});
+
+test('TopobinReader emits TopobinWriter arcs frame by frame, before the stream ends', async () => {
+  const buffer = join(await write(topology, { transform: topology.transform }));
+  const arcData = inspect(buffer).sections.find(section => section.name === 'arc data');
+  const arcs = [];
+  const names = [];
+  const reader = new TopobinReader({ arc: (arc, index) => arcs.push(index), object: (object, name) => names.push(name) });
+  reader.push(new Uint8Array(buffer, 0, arcData.offset + arcData.length));
+  assert.deepStrictEqual(arcs, [0, 1, 2, 3, 4]);
+  reader.push(new Uint8Array(buffer, arcData.offset + arcData.length));
+  assert.deepStrictEqual(names, []);
+  reader.end();
+  assert.deepStrictEqual(names, ['squares', 'road', 'towns']);
+
+  // Frames hold about 64 KiB of coordinates, so these arcs take two
+  const many = Array.from({ length: 3000 }, (_, i) => [[i, 0], [0, 1], [1, 0]]);
+  const source = { type: 'Topology', arcs: many, objects: { lines: { type: 'MultiLineString', arcs: many.map((_, i) => [i]) } } };
+  const chunks = split(join(await write(source, { coordinateType: 'int32' })), 4096);
+  const seen = [];
+  const large = new TopobinReader({ arc: (arc, index) => { seen[index] = arc; } });
+  for (const chunk of chunks.slice(0, 10)) {
+    large.push(chunk);
+  }
+  assert.ok(seen.length > 1000 && seen.length < 3000);
+  for (const chunk of chunks.slice(10)) {
+    large.push(chunk);
+  }
+  assert.strictEqual(seen.length, 3000);
+  large.end();
+  assert.deepStrictEqual(seen, many);
+});
+
+test('TopobinWriter frames arc data with the point count of each arc', async () => {
+  const buffer = join(await write(topology, { transform: topology.transform }));
+  const view = new DataView(buffer);
+  const arcData = inspect(buffer).sections.find(section => section.name === 'arc data');
+
+  // One frame of 5 arcs, their point counts and coordinates, then an empty frame
+  const start = arcData.offset;
+  assert.strictEqual(view.getUint32(start, false), 5);
+  assert.deepStrictEqual([1, 2, 3, 4, 5].map(i => view.getUint32(start + i * 4, false)), [2, 3, 2, 4, 2]);
+  const coordinates = start + 24;
+  assert.deepStrictEqual([0, 1, 2, 3].map(i => view.getInt32(coordinates + i * 4, true)), [0, 0, 0, 4]);
+  const terminator = coordinates + 13 * 2 * 4;
+  assert.strictEqual(view.getUint32(terminator, false), 0);
+  assert.strictEqual(arcData.length, terminator + 4 - start);
+
+  const corrupt = (...values) => {
+    const copy = buffer.slice(0);
+    for (let i = 0; i < values.length; i += 2) {
+      new DataView(copy).setUint32(values[i], values[i + 1], false);
+    }
+    return copy;
+  };
+  assert.deepStrictEqual(validate(corrupt(start, 1e6)).map(issue => issue.code), ['section-overrun']);
+  assert.deepStrictEqual(validate(corrupt(start + 4, 3, start + 8, 2)).map(issue => issue.message), [
+    'Arc frames give arc 0 3 points instead of 2'
+  ]);
+
+  // The stream trailer's arc count must match the frames
+  assert.throws(
+    () => read([new Uint8Array(corrupt(buffer.byteLength - 44, 4))]),
+    error => error instanceof TopobinFormatError && error.code === 'invalid-section' &&
+      error.message === 'Arc frames hold 5 arcs of 13 points, but the stream trailer declares 4 arcs of 13 points'
+  );
+});
+
+test('TopobinReader.read() consumes a ReadableStream', async () => {
+  const chunks = split(encode(topology), 16);
+  const stream = new ReadableStream({
+    pull(controller) {
+      if (chunks.length) controller.enqueue(chunks.shift());
+      else controller.close();
+    }
+  });
+  const names = [];
+  await new TopobinReader({ object: (object, name) => names.push(name) }).read(stream);
+  assert.deepStrictEqual(names, ['squares', 'road', 'towns']);
+});
+
+test('TopobinReader reports bad and truncated buffers', async () => {
+  assert.throws(() => read([new Uint8Array(16)]), error => error instanceof TopobinFormatError && error.code === 'bad-magic');
+
+  const buffer = encode(topology);
+  for (const end of [10, 200, buffer.byteLength - 8]) {
+    assert.throws(
+      () => read([new Uint8Array(buffer, 0, end)]),
+      error => error instanceof TopobinFormatError && error.code === 'section-overrun'
+    );
+  }
+
+  const streamed = join(await write(topology, { transform: topology.transform }));
+  assert.throws(
+    () => read([new Uint8Array(streamed, 0, streamed.byteLength - 4)]),
+    error => error instanceof TopobinFormatError && error.code === 'invalid-section'
+  );
+});
@@ -0,0 +1,296 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { encode, decode, validate, inspect, TopobinFormatError, BinaryTopologyView } from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.01, 0.01], translate: [-10, 40] },
+  bbox: [-10, 40, -9, 41],
+  arcs: [
+    [[0, 0], [10, 5], [-3, 20]],
+    [[7, 25], [-7, -25]],
+    [[0, 0], [0, 100]]
+  ],
+  objects: {
+    shapes: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]], id: 'a', properties: { name: 'A', pop: 1.5 } },
+        { type: 'LineString', arcs: [~2], id: 7, properties: { name: 'B', big: true } },
+        { type: 'Point', coordinates: [5, 5] }
+      ]
+    },
+    line: { type: 'LineString', arcs: [2] }
+  }
+};
+
+// Byte offset of the arc offsets column
+function arcOffsetsStart(buffer) {
+  return inspect(buffer).sections.find(section => section.name === 'arc offsets').offset;
+}
+
+// Byte offset of a section listed by inspect()
+function sectionStart(buffer, name) {
+  return inspect(buffer).sections.find(section => section.name === name).offset;
+}
+
+// Byte offset of the geometry types column, past the objects section's other columns
+function typesStart(buffer) {
+  const start = sectionStart(buffer, 'objects');
+  const view = new DataView(buffer);
+  const [numGeometries, numPolygons, numRings, numArcRefs, flags] = [0, 4, 8, 12, 16].map(o => view.getUint32(start + o, false));
+  const arcRefsSize = Math.ceil(numArcRefs * (flags & 1 ? 2 : 4) / 4) * 4;
+  return start + 20 + numGeometries * 4 + (numGeometries + 1) * 8 + (numPolygons + numRings + 2) * 4 + arcRefsSize;
+}
+
+// Byte offset of a property column's data, from the properties directory
+function propertyColumnStart(buffer, column) {
+  const start = sectionStart(buffer, 'properties');
+  const view = new DataView(buffer);
+  const bitsetSize = Math.ceil(Math.ceil(view.getUint32(start, false) / 8) / 4) * 4;
+  return start + view.getUint32(start + 8 + bitsetSize + column * 16 + 8, false);
+}
+
+function codes(buffer) {
+  return validate(buffer).map(issue => issue.code);
+}
+
+test('valid buffers have no issues', () => {
+  assert.deepStrictEqual(validate(encode(topology)), []);
+  assert.deepStrictEqual(validate(encode(topology, { arcEncoding: 'varint' })), []);
+  assert.deepStrictEqual(validate(encode(topology, { arcEncoding: 'varint', arcIndex: false })), []);
+  assert.deepStrictEqual(validate(encode({ ...topology, transform: undefined })), []);
+});
+
+test('validate reports bad headers', () => {
+  assert.deepStrictEqual(codes(new ArrayBuffer(2)), ['bad-magic']);
+  assert.deepStrictEqual(codes(new TextEncoder().encode('{"type":"Topology"}').buffer), ['bad-magic']);
+
+  const buffer = encode(topology);
+  new DataView(buffer).setUint16(4, 99, false);
+  assert.deepStrictEqual(codes(buffer), ['unsupported-version']);
+
+  const flagged = encode(topology);
+  new DataView(flagged).setUint16(6, 0x8000, false);
+  assert.deepStrictEqual(codes(flagged), ['unsupported-flags']);
+});
+
+test('validate reports sections overrunning the buffer', () => {
+  const buffer = encode(topology);
+  for (const length of [10, 24, 60, 120, 200]) {
+    const issues = validate(buffer.slice(0, length));
+    assert.strictEqual(issues[0].code, 'section-overrun', `length ${length}`);
+  }
+
+  const huge = encode(topology);
+  new DataView(huge).setUint32(8, 0xFFFFFFF0, false); // numArcs
+  assert.deepStrictEqual(codes(huge), ['section-overrun']);
+});
+
+test('validate reports bad arc offsets', () => {
+  const buffer = encode(topology);
+  const offsets = new Uint32Array(buffer, arcOffsetsStart(buffer), 4);
+  offsets[1] = 100;
+  assert.deepStrictEqual(codes(buffer), ['arc-offsets-not-monotonic']);
+
+  const total = encode(topology);
+  new Uint32Array(total, arcOffsetsStart(total), 4)[3] = 8;
+  const [issue] = validate(total);
+  assert.strictEqual(issue.code, 'arc-offsets-total-mismatch');
+  assert.strictEqual(issue.offset, arcOffsetsStart(total) + 12);
+});
+
+test('validate reports arc references out of range', () => {
+  const bad = { ...topology, objects: { line: { type: 'MultiLineString', arcs: [[0, 1], [~3, 5]] } } };
+  const issues = validate(encode(bad));
+  assert.strictEqual(issues.length, 1);
+  assert.strictEqual(issues[0].code, 'arc-index-out-of-range');
+  assert.match(issues[0].message, /2 arc reference\(s\) out of range, first -4/);
+});
+
+test('validate reports an object count mismatch', () => {
+  const buffer = encode(topology);
+  new DataView(buffer).setUint32(16, 1, false);
+  assert.ok(codes(buffer).includes('object-count-mismatch'));
+
+  const more = encode(topology);
+  new DataView(more).setUint32(16, 9, false);
+  assert.ok(codes(more).includes('object-count-mismatch'));
+});
+
+test('validate checks geometry types against their ranges', () => {
+  // Geometries: shapes, line, then the polygon, line and point members
+  const retype = (geometry, typeCode) => {
+    const buffer = encode(topology);
+    const types = new Uint8Array(buffer, typesStart(buffer), 5);
+    types[geometry] = (types[geometry] & ~0x0F) | typeCode;
+    return buffer;
+  };
+  for (const [geometry, typeCode, message] of [
+    [1, 0, /Geometry 1 is a Point with 1 polygons/],
+    [4, 4, /Geometry 4 is a Polygon with 0 polygons/],
+    [4, 2, /Geometry 4 is a LineString with 0 polygons/],
+    [2, 6, /Geometry 2 is a GeometryCollection with 1 polygons/],
+    [0, 5, /Geometry 0 is a MultiPolygon with members/]
+  ]) {
+    const buffer = retype(geometry, typeCode);
+    const issues = validate(buffer);
+    assert.deepStrictEqual(issues.map(issue => issue.code), ['invalid-section']);
+    assert.match(issues[0].message, message);
+    assert.strictEqual(issues[0].offset, typesStart(buffer) + geometry);
+    assert.throws(() => decode(buffer, { strict: true }), TopobinFormatError);
+  }
+
+  // A point without positions, whether in the points section or the extras
+  const pointless = encode({ ...topology, objects: { point: { type: 'MultiPoint', coordinates: [] } } });
+  new Uint8Array(pointless, typesStart(pointless), 1)[0] = 0;
+  assert.match(validate(pointless)[0].message, /Geometry 0 is a Point with 0 positions/);
+  const extra = encode({ ...topology, objects: { point: { type: 'Point', coordinates: [1, 2, 3, 4, 5, 6] } } });
+  assert.deepStrictEqual(validate(extra), []);
+});
+
+test('validate rejects string tables that are not UTF-8', () => {
+  const buffer = encode({ ...topology, objects: { 'é': topology.objects.line } });
+  // The second byte of "é" (0xC3 0xA9) becomes a NUL
+  const bytes = new Uint8Array(buffer, sectionStart(buffer, 'string table'), 3);
+  assert.deepStrictEqual(Array.from(bytes), [0xC3, 0xA9, 0]);
+  bytes[1] = 0x41;
+  assert.deepStrictEqual(codes(buffer), ['invalid-section']);
+  assert.match(validate(buffer)[0].message, /not valid UTF-8/);
+});
+
+test('validate checks property dictionaries', () => {
+  // The name column: two bitsets, 5 indices, the dictionary size, then its offsets
+  const index = encode(topology);
+  new Uint32Array(index, propertyColumnStart(index, 0) + 8, 5)[2] = 9;
+  const [issue] = validate(index);
+  assert.strictEqual(issue.code, 'invalid-section');
+  assert.match(issue.message, /Property column 0 has dictionary index 9 out of range for geometry 2/);
+  assert.throws(() => decode(index, { strict: true }), TopobinFormatError);
+  assert.throws(() => new BinaryTopologyView(index).getProperty('shapes', 0, 'name'), /index 9 out of range/);
+
+  const offsets = encode(topology);
+  const start = propertyColumnStart(offsets, 0);
+  assert.strictEqual(new DataView(offsets).getUint32(start + 28, false), 2);
+  new Uint32Array(offsets, start + 32, 3)[1] = 5;
+  assert.deepStrictEqual(codes(offsets), ['invalid-section']);
+  assert.match(validate(offsets)[0].message, /Property column 0 dictionary offsets decrease at index 2/);
+});
+
+test('validate checks version 1 geometry shapes', () => {
+  // A version 1 buffer holding a single arc and the given JSON objects
+  const v1 = objects => {
+    const names = Object.keys(objects);
+    const strings = new TextEncoder().encode(names.map(name => name + '\0').join(''));
+    const json = new TextEncoder().encode(JSON.stringify({ names, objects }));
+    const arcsStart = 24 + Math.ceil(strings.byteLength / 4) * 4;
+    const objectsStart = Math.ceil((arcsStart + 8) / 8) * 8 + 32;
+    const buffer = new ArrayBuffer(objectsStart + 4 + json.byteLength);
+    const view = new DataView(buffer);
+    view.setUint32(0, 0x544F504F, false);
+    view.setUint16(4, 1, false);
+    [1, 2, names.length, strings.byteLength].forEach((count, i) => view.setUint32(8 + i * 4, count, false));
+    new Uint8Array(buffer, 24).set(strings);
+    new Uint32Array(buffer, arcsStart, 2).set([0, 2]);
+    view.setUint32(objectsStart, json.byteLength, false);
+    new Uint8Array(buffer, objectsStart + 4).set(json);
+    return buffer;
+  };
+
+  const valid = {
+    a: { type: 'GeometryCollection', geometries: [{ type: 'Polygon', arcs: [[0, ~0]] }, { type: 'Point', coordinates: [1, 2] }] },
+    b: { type: 'MultiPolygon', arcs: [[[0]], []] }
+  };
+  assert.deepStrictEqual(validate(v1(valid)), []);
+
+  for (const [objects, message] of [
+    [{ a: { type: 'Polygon', arcs: [0] } }, /Object "a" is a Polygon with malformed arcs/],
+    [{ a: { type: 'Point' } }, /Object "a" is a Point without a position/],
+    [{ a: { type: 'MultiPoint', coordinates: [[1, 'x']] } }, /Object "a" is a MultiPoint without a list of positions/],
+    [{ a: { type: 'GeometryCollection', geometries: [{ type: 'Circle' }] } }, /Object "a" member 0 has unknown type "Circle"/],
+    [{ a: { type: 'GeometryCollection' } }, /Object "a" is a GeometryCollection without geometries/],
+    [{ a: 5 }, /Object "a" is not a geometry object/]
+  ]) {
+    const issues = validate(v1(objects));
+    assert.deepStrictEqual(issues.map(issue => issue.code), ['invalid-section']);
+    assert.match(issues[0].message, message);
+  }
+});
+
+test('validate checks varint arc data against the byte index', () => {
+  const buffer = encode(topology, { arcEncoding: 'varint' });
+  const index = new Uint32Array(buffer, arcOffsetsStart(buffer) + 16, 4);
+  index[1] += 1;
+  assert.deepStrictEqual(codes(buffer), ['invalid-section']);
+});
+
+test('strict decode throws TopobinFormatError with the byte offset', () => {
+  const buffer = encode(topology);
+  new Uint32Array(buffer, arcOffsetsStart(buffer), 4)[1] = 100;
+
+  assert.throws(
+    () => decode(buffer, { strict: true }),
+    error => error instanceof TopobinFormatError &&
+      error instanceof Error &&
+      error.name === 'TopobinFormatError' &&
+      error.code === 'arc-offsets-not-monotonic' &&
+      error.offset === arcOffsetsStart(buffer) + 8
+  );
+  assert.deepStrictEqual(decode(encode(topology), { strict: true }), decode(encode(topology)));
+});
+
+test('header errors are TopobinFormatErrors', () => {
+  const buffer = encode(topology);
+  new DataView(buffer).setUint32(0, 0, false);
+  assert.throws(() => decode(buffer), TopobinFormatError);
+  assert.throws(() => new BinaryTopologyView(buffer), TopobinFormatError);
+});
+
+test('a transform or bbox cut short is a section overrun without strict mode', () => {
+  const buffer = encode(topology);
+  for (const [length, name] of [[24, 'Transform'], [40, 'Transform'], [56, 'BBox'], [80, 'BBox']]) {
+    const truncated = buffer.slice(0, length);
+    const offset = name === 'Transform' ? 24 : 56;
+    const expected = { name: 'TopobinFormatError', code: 'section-overrun', offset };
+    assert.throws(() => decode(truncated), expected, `length ${length}`);
+    assert.throws(() => new BinaryTopologyView(truncated), expected, `length ${length}`);
+    assert.strictEqual(validate(truncated)[0].message, `${name} (32 bytes at offset ${offset}) overruns the ${length}-byte buffer`);
+  }
+});
+
+test('strict decode cleanly rejects every truncation', () => {
+  for (const options of [{}, { arcEncoding: 'varint' }, { arcEncoding: 'varint', arcIndex: false }, { checksums: true }]) {
+    const buffer = encode(topology, options);
+    const expected = decode(buffer);
+    for (let length = 0; length < buffer.byteLength; length++) {
+      // Losing only trailing padding is harmless
+      try {
+        assert.deepStrictEqual(decode(buffer.slice(0, length), { strict: true }), expected);
+      } catch (error) {
+        assert.ok(error instanceof TopobinFormatError, `length ${length}: ${error}`);
+      }
+    }
+  }
+});
+
+test('strict decode never fails with anything but TopobinFormatError on corrupted bytes', () => {
+  // Deterministic pseudo-random corruption
+  let seed = 12345;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 0x80000000) / 0x80000000;
+
+  for (const options of [{}, { arcEncoding: 'varint' }, { checksums: true }]) {
+    const original = encode(topology, options);
+    for (let round = 0; round < 500; round++) {
+      const buffer = original.slice(0);
+      const bytes = new Uint8Array(buffer);
+      for (let k = 0; k < 3; k++) {
+        bytes[Math.floor(random() * bytes.length)] = Math.floor(random() * 256);
+      }
+      try {
+        decode(buffer, { strict: true });
+      } catch (error) {
+        assert.ok(error instanceof TopobinFormatError, `round ${round}: ${error}`);
+      }
+    }
+  }
+});
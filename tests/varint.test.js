@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { feature, mesh } from 'topojson-client';
+import {
+  encode,
+  encodeWithReport,
+  decode,
+  BinaryTopologyView,
+  toFeature,
+  toMesh,
+  getMemoryStats
+} from '../lib/index.js';
+
+// A quantized grid of polygons with long arcs of small deltas
+function createGrid(size) {
+  const arcs = [];
+  const geometries = [];
+  for (let i = 0; i < size; i++) {
+    const arc = [[i * 100, 0]];
+    for (let j = 1; j < 50; j++) {
+      arc.push([j % 3 - 1, (j * 7) % 5 - 2]);
+    }
+    arcs.push(arc);
+    arcs.push([[i * 100, 1000], [0, -1000]]);
+    geometries.push({ type: 'LineString', arcs: [i * 2, ~(i * 2 + 1)], id: i });
+  }
+  return {
+    type: 'Topology',
+    transform: { scale: [0.001, 0.001], translate: [-10, 40] },
+    arcs,
+    objects: {
+      lines: { type: 'GeometryCollection', geometries },
+      big: { type: 'LineString', arcs: [0], properties: { far: true } }
+    }
+  };
+}
+
+const topology = createGrid(20);
+// Large deltas need multi-byte varints; negative values exercise zigzag
+topology.arcs.push([[2147483647, -2147483648], [-1, 1], [-65536, 70000]]);
+
+test('varint arcs round-trip', () => {
+  for (const arcIndex of [true, false]) {
+    const buffer = encode(topology, { arcEncoding: 'varint', arcIndex });
+    assert.deepStrictEqual(decode(buffer), topology);
+  }
+});
+
+test('varint arcs are smaller than fixed-width arcs', () => {
+  const fixed = getMemoryStats(encode(topology, { coordinateType: 'int32' }));
+  const varint = getMemoryStats(encode(topology, { arcEncoding: 'varint', arcIndex: false }));
+  const indexed = getMemoryStats(encode(topology, { arcEncoding: 'varint' }));
+
+  assert.ok(varint.arcBytes < fixed.arcBytes / 2);
+  assert.strictEqual(indexed.arcBytes, varint.arcBytes + (topology.arcs.length + 1) * 4);
+});
+
+test('varint arcs report int32 coordinates with no storage error', () => {
+  const { report } = encodeWithReport(topology, { arcEncoding: 'varint' });
+  assert.strictEqual(report.coordinateType, 'int32');
+  assert.deepStrictEqual(report.maxError, [0, 0]);
+  assert.strictEqual(report.lossless, true);
+});
+
+test('view reads varint arcs at random, with and without the byte index', () => {
+  for (const arcIndex of [true, false]) {
+    const view = new BinaryTopologyView(encode(topology, { arcEncoding: 'varint', arcIndex }));
+    const fixed = new BinaryTopologyView(encode(topology));
+
+    for (const i of [topology.arcs.length - 1, 7, 0, 22]) {
+      assert.deepStrictEqual(view.getArc(i), topology.arcs[i]);
+      assert.deepStrictEqual(Array.from(view.getArcCoords(i)), Array.from(fixed.getArcCoords(i)));
+      assert.deepStrictEqual(view.getArcAbsolute(i), fixed.getArcAbsolute(i));
+    }
+    assert.deepStrictEqual([...view.iterArcs()], topology.arcs);
+    assert.deepStrictEqual(view.getObject('big'), topology.objects.big);
+  }
+});
+
+test('GeoJSON from varint arcs matches topojson-client', () => {
+  const view = new BinaryTopologyView(encode(topology, { arcEncoding: 'varint' }));
+  assert.deepStrictEqual(toFeature(view, 'lines'), feature(topology, topology.objects.lines));
+  assert.deepStrictEqual(toMesh(view, 'lines'), mesh(topology, topology.objects.lines));
+});
+
+test('varint arcs combine with the quantization option', () => {
+  const unquantized = {
+    type: 'Topology',
+    arcs: [[[-122.5, 37.7], [-122.4, 37.8], [-122.3, 37.75]]],
+    objects: { line: { type: 'LineString', arcs: [0] } }
+  };
+  const buffer = encode(unquantized, { quantization: 1e4, arcEncoding: 'varint' });
+  assert.deepStrictEqual(decode(buffer), decode(encode(unquantized, { quantization: 1e4 })));
+});
+
+test('varint arcs require a quantized topology', () => {
+  const unquantized = { ...topology, transform: undefined };
+  assert.throws(
+    () => encode(unquantized, { arcEncoding: 'varint' }),
+    /Varint arc encoding requires a quantized topology/
+  );
+  assert.throws(
+    () => encode(topology, { arcEncoding: 'varint', coordinateType: 'int16' }),
+    /cannot be combined with coordinate type int16/
+  );
+  assert.throws(() => encode(topology, { arcEncoding: 'zip' }), /Unsupported arc encoding: zip/);
+});
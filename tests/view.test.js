@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { encode, decode, BinaryTopologyView } from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  arcs: [
+    [[0, 0], [1, 0]],
+    [[1, 0], [1, 1], [0, 0]],
+    [[5, 5], [6, 6]]
+  ],
+  objects: {
+    counties: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]], id: '06001', properties: { name: 'Alameda' } },
+        { type: 'MultiPolygon', arcs: [[[0, 1]], [[2]]], id: '06075', properties: { name: 'San Francisco' } },
+        { type: 'LineString', arcs: [~2], id: 42 }
+      ]
+    },
+    nation: { type: 'Polygon', arcs: [[0, 1]], id: 'US' }
+  }
+};
+
+test('BinaryTopologyView lists object names', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  assert.deepStrictEqual(view.getObjectNames(), ['counties', 'nation']);
+});
+
+test('BinaryTopologyView returns a single object', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  assert.deepStrictEqual(view.getObject('nation'), topology.objects.nation);
+  assert.deepStrictEqual(view.getObject('counties'), topology.objects.counties);
+  assert.strictEqual(view.getObject('states'), undefined);
+});
+
+test('BinaryTopologyView counts and iterates geometries', () => {
+  const view = new BinaryTopologyView(encode(topology));
+
+  assert.strictEqual(view.getGeometryCount('counties'), 3);
+  assert.strictEqual(view.getGeometryCount('nation'), 1);
+  assert.deepStrictEqual([...view.iterGeometries('counties')], topology.objects.counties.geometries);
+  assert.deepStrictEqual([...view.iterGeometries('nation')], [topology.objects.nation]);
+  assert.throws(() => view.getGeometryCount('states'), /Unknown object/);
+});
+
+test('BinaryTopologyView looks up geometries by index and id', () => {
+  const view = new BinaryTopologyView(encode(topology));
+  const geometries = topology.objects.counties.geometries;
+
+  assert.deepStrictEqual(view.getGeometry('counties', 1), geometries[1]);
+  assert.throws(() => view.getGeometry('counties', 3), /out of bounds/);
+
+  assert.deepStrictEqual(view.getGeometryById('counties', '06075'), geometries[1]);
+  assert.deepStrictEqual(view.getGeometryById('counties', 42), geometries[2]);
+  assert.strictEqual(view.getGeometryById('counties', '42'), undefined);
+  assert.strictEqual(view.getGeometryById('counties', 'US'), undefined);
+  assert.strictEqual(view.getGeometryById('counties', 'nowhere'), undefined);
+});
+
+test('BinaryTopologyView reads single properties', () => {
+  const view = new BinaryTopologyView(encode(topology));
+
+  assert.strictEqual(view.getProperty('counties', 1, 'name'), 'San Francisco');
+  assert.strictEqual(view.getProperty('counties', 2, 'name'), undefined);
+  assert.strictEqual(view.getProperty('counties', 0, 'missing'), undefined);
+});
+
+test('BinaryTopologyView object access matches decode', () => {
+  const buffer = encode(topology);
+  const view = new BinaryTopologyView(buffer);
+  const decoded = decode(buffer);
+
+  for (const name of view.getObjectNames()) {
+    assert.deepStrictEqual(view.getObject(name), decoded.objects[name]);
+  }
+});
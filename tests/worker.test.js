@@ -0,0 +1,154 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { Worker } from 'node:worker_threads';
+import {
+  encode,
+  decode,
+  extract,
+  validate,
+  toFeature,
+  transferable,
+  toSharedBuffer,
+  decodeInWorker,
+  BinaryTopologyView,
+  TopobinFormatError
+} from '../lib/index.js';
+
+const topology = {
+  type: 'Topology',
+  transform: { scale: [0.5, 0.25], translate: [10, 20] },
+  arcs: [
+    [[0, 0], [0, 4]],
+    [[0, 4], [4, 0], [0, -4]],
+    [[4, 0], [-4, 0]],
+    [[4, 4], [4, 0], [0, -4], [-4, 0]],
+    [[8, 0], [4, 4]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', id: 'west', arcs: [[0, 1, 2]], properties: { name: 'West' } },
+        { type: 'Polygon', id: 'east', arcs: [[~1, 3]], properties: { name: 'East' } }
+      ]
+    },
+    road: { type: 'LineString', arcs: [4], properties: { name: 'Road' } },
+    towns: { type: 'MultiPoint', coordinates: [[2, 2], [6, 3]] }
+  }
+};
+
+/**
+ * Posts a message through a MessageChannel and resolves with what arrives
+ */
+function post(message, transfer) {
+  const { port1, port2 } = new MessageChannel();
+  return new Promise(resolve => {
+    port2.onmessage = event => {
+      port1.close();
+      port2.close();
+      resolve(event.data);
+    };
+    port1.postMessage(message, transfer);
+  });
+}
+
+test('transferable() moves exactly a buffer\'s bytes to another thread', async () => {
+  const buffer = encode(topology);
+  const expected = decode(buffer);
+  const length = buffer.byteLength;
+
+  const { bytes, transfer } = transferable(buffer);
+  assert.strictEqual(bytes.buffer, buffer);
+  assert.deepStrictEqual(transfer, [buffer]);
+  const received = await post(bytes, transfer);
+  assert.strictEqual(buffer.byteLength, 0);
+  assert.strictEqual(received.byteLength, length);
+  assert.deepStrictEqual(decode(received), expected);
+
+  // Part of a larger buffer is copied, leaving the larger buffer usable
+  const archive = new Uint8Array(length + 16);
+  archive.set(new Uint8Array(encode(topology)), 8);
+  const part = transferable(archive.subarray(8, 8 + length));
+  assert.notStrictEqual(part.bytes.buffer, archive.buffer);
+  assert.strictEqual(part.bytes.buffer.byteLength, length);
+  assert.deepStrictEqual(decode(await post(part.bytes, part.transfer)), expected);
+  assert.strictEqual(archive.byteLength, length + 16);
+
+  // Shared memory is posted as it is
+  const shared = toSharedBuffer(archive.subarray(8, 8 + length));
+  const view = new Uint8Array(shared);
+  const sharedPart = transferable(view);
+  assert.strictEqual(sharedPart.bytes.buffer, shared);
+  assert.deepStrictEqual(sharedPart.transfer, []);
+  const sharedReceived = await post(sharedPart.bytes, sharedPart.transfer);
+  assert.strictEqual(sharedReceived.buffer.constructor, SharedArrayBuffer);
+  view[0] = 0;
+  assert.strictEqual(sharedReceived[0], 0);
+});
+
+test('decode(), BinaryTopologyView and validate() read SharedArrayBuffers in place', () => {
+  const buffer = encode(topology, { checksums: true, spatialIndex: true, arcEncoding: 'varint' });
+  const shared = toSharedBuffer(buffer);
+  assert.ok(shared instanceof SharedArrayBuffer);
+  assert.deepStrictEqual(decode(shared, { strict: true, verifyChecksums: true }), decode(buffer));
+  assert.deepStrictEqual(validate(shared), []);
+
+  const fixed = toSharedBuffer(encode(topology));
+  const view = new BinaryTopologyView(new Uint8Array(fixed));
+  assert.strictEqual(view.getArcCoords(3).buffer, fixed);
+  assert.deepStrictEqual(view.getObjectNames(), ['squares', 'road', 'towns']);
+  assert.strictEqual(view.getProperty('squares', 1, 'name'), 'East');
+  assert.deepStrictEqual(view.getGeometryById('squares', 'west'), topology.objects.squares.geometries[0]);
+});
+
+test('decodeInWorker() resolves with the requested objects or features', async () => {
+  const buffer = encode(topology, { presimplify: true });
+  assert.deepStrictEqual(await decodeInWorker(buffer), decode(buffer));
+  assert.deepStrictEqual(
+    await decodeInWorker(buffer, { objects: ['road', 'towns'] }),
+    decode(extract(buffer, { objects: ['road', 'towns'] }))
+  );
+
+  const view = new BinaryTopologyView(buffer);
+  const features = await decodeInWorker(toSharedBuffer(buffer), { objects: ['squares'], features: true, minWeight: 1 });
+  assert.deepStrictEqual(features, { squares: toFeature(view, 'squares', { minWeight: 1 }) });
+
+  // The input is only detached on request
+  assert.strictEqual(buffer.byteLength > 0, true);
+  const copy = buffer.slice(0);
+  await decodeInWorker(copy, { objects: ['road'], features: true, transfer: true });
+  assert.strictEqual(copy.byteLength, 0);
+});
+
+test('decodeInWorker() shares a running worker and reports its errors', async () => {
+  const worker = new Worker(new URL('../lib/worker.js', import.meta.url));
+  try {
+    const buffer = encode(topology);
+    const [road, towns, unknown, bad] = await Promise.allSettled([
+      decodeInWorker(buffer, { worker, objects: ['road'], features: true }),
+      decodeInWorker(new Uint8Array(buffer), { worker, objects: ['towns'] }),
+      decodeInWorker(buffer, { worker, objects: ['rivers'] }),
+      decodeInWorker(new ArrayBuffer(32), { worker })
+    ]);
+    assert.strictEqual(road.value.road.properties.name, 'Road');
+    assert.deepStrictEqual(towns.value.objects, { towns: topology.objects.towns });
+    assert.match(unknown.reason.message, /Unknown object: rivers/);
+    assert.ok(bad.reason instanceof TopobinFormatError);
+    assert.strictEqual(bad.reason.code, 'bad-magic');
+    assert.strictEqual(buffer.byteLength > 0, true);
+    // Each request removes its listeners once it settles
+    assert.deepStrictEqual(['message', 'error', 'exit'].map(event => worker.listenerCount(event)), [0, 0, 0]);
+  } finally {
+    await worker.terminate();
+  }
+});
+
+test('decodeInWorker() rejects when the worker exits without answering', async () => {
+  const worker = new Worker(
+    "require('node:worker_threads').parentPort.once('message', () => process.exit(3));",
+    { eval: true }
+  );
+  await assert.rejects(decodeInWorker(encode(topology), { worker }), /Worker exited with code 3 before answering/);
+  assert.strictEqual(worker.listenerCount('message'), 0);
+  assert.strictEqual(worker.listenerCount('exit'), 0);
+});